@@ -37,7 +37,24 @@ import { cacheStats } from './commands/cache/stats';
 import { cleanCache } from './commands/cache/clean-cache';
 import { analyzeBlobs } from './commands/cache/analyze-blobs';
 import { cleanBlobs } from './commands/cache/clean-blobs';
+import { rehydrateBlobs } from './commands/cache/rehydrate-blobs';
+import { pruneBlobs } from './commands/cache/prune-blobs';
+import { searchSessions } from './commands/sessions/search';
+import { parseSearchRole } from './services/session-search';
+import { exportSessionTranscript } from './commands/sessions/export';
+import { listSessions, parseSessionSortKey } from './commands/sessions/list';
+import { usage, parseUsageFormat } from './commands/usage';
+import { parseUsageDimension } from './services/usage-analyzer';
+import { parseExportFormat } from './services/session-export';
 import { scanCacheSecrets } from './commands/cache/scan-secrets';
+import { externalizeSecrets, internalizeSecrets } from './commands/secrets/externalize';
+import { execWithSecrets } from './commands/secrets/exec';
+import { manageMaskBackups } from './commands/cache/mask-backups';
+import { manageTrash } from './commands/trash';
+import { cacheGc } from './commands/cache/gc';
+import { cacheTrend } from './commands/cache/trend';
+import { archiveCache, unarchiveCache } from './commands/cache/archive';
+import { cacheProject } from './commands/cache/project';
 import { maskCacheSecrets } from './commands/cache/mask-secrets';
 
 // Bulk operation commands
@@ -52,6 +69,7 @@ import { getBaseCommandsPath } from './core/paths';
 
 // Secret warning service
 import { secretWarningService } from './services/secret-warning';
+import { parseReportFormat } from './services/report-formats';
 
 function getVersion(): string {
   try {
@@ -130,6 +148,7 @@ COMMANDS:
   cch -rm <number>           Remove permission by number
   cch -ap                    Apply permissions to all projects
   cch -dp                    Discover common permissions
+  cch -dp --usage            Suggest permissions from tool calls in sessions
   
   cch clean                  Clean config (preview mode)
   cch clean -e               Execute cleanup
@@ -139,11 +158,33 @@ COMMANDS:
   cch cache                  Cache quick stats
   cch cache analyze          Analyze cache usage
   cch cache stats            Quick cache statistics
+  cch cache trend            Cache growth over time and size projection
+  cch cache project <name>   Sessions, prompts, blobs and secrets of one project
   cch cache scan-secrets     Scan cache for secrets
   cch cache mask-secrets     Mask secrets in cache
+  cch cache mask-backups     List/restore/purge masking backups
+  cch cache gc               Apply the retention policy (~/.cch/retention.json)
+  cch cache archive          Compress old sessions into ~/.cch/archive
+  cch cache unarchive <id>   Restore an archived session
+
+  cch trash                  List items removed by cache clean
+  cch trash restore <id>     Put a trashed item back
+  cch trash empty            Permanently delete trashed items
+  cch trash size             Show trash size
 
   cch blob analyze           Analyze session blobs
   cch blob clean             Clean blobs from sessions
+  cch blob rehydrate         Restore blobs moved out by clean --dedup
+  cch blob prune             Remove stored blobs no session references
+
+  cch sessions list            List sessions with duration, messages, tools and models
+  cch sessions search <query>  Full-text search across all session transcripts
+  cch sessions export <id>     Export a session as Markdown, HTML or JSON
+
+  cch usage                  Token usage and estimated cost from session transcripts
+
+  cch secrets externalize    Move MCP env secrets into the encrypted vault
+  cch secrets internalize    Put vault secrets back into the MCP config
 
   cch --audit                Analyze config health
   cch --audit --stats        Quick stats
@@ -216,6 +257,9 @@ PERMISSION MANAGEMENT:
   
   # Discover frequently used commands
   cch -dp                    # Analyze your config for patterns
+  cch -dp --usage            # Rules for calls that kept prompting (last 30 days)
+  cch -dp --usage --since 7d --project "api-*" --min-calls 5
+  cch -dp --usage --prune -e # Add them and remove project rules nothing used
 
 CONFIG CLEANUP:
   # General cleanup (always previews first)
@@ -240,6 +284,11 @@ CACHE MANAGEMENT:
   cch cache stats            # Same as above
   cch cache analyze          # Detailed cache analysis
   cch cache analyze --detailed # Show all details
+  cch cache trend            # Growth since the first recorded snapshot
+  cch cache trend --days 30 --threshold 2GB  # Last 30 days; when does it reach 2GB?
+  cch cache project ldis     # Every session of a project (name, path or cache dir)
+  cch cache project ldis --archive 3f2a -e  # Archive one of its sessions
+  cch cache project ldis --clean 3f2a -e    # Move one of its sessions to the trash
 
   # Clean cache (always previews first)
   cch cache clean            # Preview all available cleanup
@@ -248,17 +297,60 @@ CACHE MANAGEMENT:
   cch cache clean --large    # Clean sessions >10MB
   cch cache clean --threshold 5  # Set size threshold in MB
   cch cache clean --empty    # Remove empty files
+  cch cache clean --debug    # Debug logs past retention (>14 days or >100MB, keeps last 10)
+  cch cache clean --file-history  # File-history past retention (>30 days or >500MB, keeps last 20)
+  cch cache clean --todos    # Todo lists past retention (>30 days, keeps last 50)
+  cch cache clean --shell-snapshots  # Shell snapshots past retention (>7 days, keeps last 10)
   cch cache clean --all      # Clean all safe + caution items
+  cch cache clean --budget 500MB  # Least disruptive items that get the cache under 500MB
+  cch cache clean --budget 500MB --aggressive  # Also allow deleting whole old sessions
+  cch cache clean --budget 500MB --permanent   # Delete instead of trashing, trash and backups included
   cch cache clean -e         # Execute cleanup (after preview)
 
+  # Policy-driven cleanup (always previews first)
+  cch cache gc init          # Write the default policy to ~/.cch/retention.json
+  cch cache gc               # Show what the policy would clean
+  cch cache gc -e            # Apply it (items go to the trash, old trash is emptied)
+                             # -e and install need a policy file from gc init
+  cch cache gc install       # Run gc -e daily (systemd user timer or cron)
+  cch cache gc install --interval weekly --scheduler cron
+  cch cache gc uninstall     # Remove the schedule
+
+  # Archive sessions instead of deleting them (always previews first)
+  cch cache archive          # Sessions not modified in 60 days
+  cch cache archive --stale 30 --large --threshold 20 -e  # Older than 30 days or over 20MB
+  cch cache archive --project "client-*" -e  # Only matching projects
+  cch cache archive list     # Archived sessions with original and compressed size
+  cch cache unarchive 3f2a   # Restore a session by id (or unique prefix) to resume it
+
+  # Undo or purge cache cleanup (items go to ~/.claude/.trash)
+  cch trash                  # List trashed items with their original paths
+  cch trash restore latest   # Put the newest item back (or restore <id>)
+  cch trash empty --older-than 30     # Preview deleting items trashed >30 days ago
+  cch trash empty --older-than 30 -e  # Delete them permanently
+  cch trash size             # Total size of the trash
+
 CACHE SECURITY:
   # Scan cache for exposed secrets
   cch cache scan-secrets     # Scan all cache locations for secrets
-                             # (sessions, shell-snapshots, debug logs, file-history)
+                             # (sessions, shell-snapshots, debug logs, file-history, and
+                             #  .claude/settings*.json, .mcp.json, CLAUDE.md in known projects)
+                             # Unchanged files are answered from ~/.cch/secret-scan-index
+  cch cache scan-secrets --full  # Ignore the index and rescan every file
+  cch cache scan-secrets --verify           # Flag fake/malformed keys offline (checksums, formats)
+  cch cache scan-secrets --verify --network # Ask GitHub/Anthropic/OpenAI/Stripe if keys still work
+  cch cache scan-secrets --format sarif     # SARIF 2.1.0 for CI code scanning (also json, markdown)
 
   # Mask secrets in cache (always previews first)
   cch cache mask-secrets     # Preview what will be masked
-  cch cache mask-secrets -e  # Execute masking (creates backups)
+  cch cache mask-secrets -e  # Execute masking (asks: mask all / choose files / abort)
+  cch cache mask-secrets -e --force  # Mask everything without asking
+                             # (required when FORCE_NON_INTERACTIVE is set or stdin is not a TTY)
+
+  # Undo or clean up masking runs
+  cch cache mask-backups                     # List masking backups
+  cch cache mask-backups restore latest      # Restore the newest run
+  cch cache mask-backups purge all           # Delete all masking backups
 
 BLOB DETECTION & CLEANUP:
   # Analyze sessions for blobs (images, large data)
@@ -275,12 +367,46 @@ BLOB DETECTION & CLEANUP:
   cch blob clean --min-size 100    # Only remove blobs >100KB
   cch blob clean --no-images # Keep images, only remove large text
   cch blob clean -e          # Execute cleanup (after preview)
+  cch blob clean --dedup -e  # Move blobs to ~/.cch/blobs/<sha256>, identical ones stored once
+  cch blob rehydrate -e      # Put stored blobs back into sessions (--session/--project)
+  cch blob prune -e          # Delete stored blobs no session, backup, trashed item or archive references
+
+SESSION LIST:
+  cch sessions list                           # 30 most recent sessions
+  cch sessions list --project "work/*" --since 7d --sort tokens
+  cch sessions list --since 2026-06-01 --until 2026-06-30 --limit 0 --format json
+
+SESSION SEARCH:
+  # Search user/assistant messages and tool calls (index in ~/.cch/session-index)
+  cch sessions search fixed migration        # Messages containing both words, newest first
+  cch sessions search migration --project "work/*" --since 30d
+  cch sessions search "npm publish" --role tool --until 2026-06-30
+  cch sessions search migration --limit 50 --format json
+  cch sessions search --rebuild              # Re-index every session from scratch
+
+SESSION EXPORT:
+  # Transcript with prompts, replies, tool calls and results; secrets masked
+  cch sessions export 3f2a9c                  # Writes 3f2a9c....md (id prefix is enough)
+  cch sessions export 3f2a9c --format html --no-images
+  cch sessions export 3f2a9c --format json --stdout
+  cch sessions export 3f2a9c --collapse 0 --output full.md   # Keep every line of tool output
+
+TOKEN USAGE & COST:
+  cch usage                                   # Tokens and estimated cost per project
+  cch usage --by day --since 30d              # Daily spend for the last 30 days
+  cch usage --by model --project "work/*"
+  cch usage --by session --limit 10           # Most expensive sessions
+  cch usage --by day --format csv > usage.csv
+  cch usage prices                            # Show the price table
+  cch usage prices init                       # Copy it to ~/.cch/prices.json to edit
 
 SECURITY & SECRETS:
   # Full security audit
   cch --audit                # Complete analysis
   cch --audit --stats        # Quick summary only
   cch --audit --show-secrets # Show detected secrets
+  cch --audit --format json  # Versioned JSON report (also sarif, markdown)
+  cch cache analyze --format json  # Cache analysis as JSON
   
   # Emergency secret masking
   cch --mask-secrets-now     # Immediate action
@@ -289,6 +415,14 @@ SECURITY & SECRETS:
   cch --clean-config --mask-secrets     # Preview
   cch --clean-config --mask-secrets -e  # Execute
 
+  # Move MCP server env secrets out of ~/.claude.json (always previews first)
+  cch secrets externalize -e          # Detected secrets → encrypted vault in ~/.cch
+  cch secrets externalize --all -e    # Every env value, not just detected secrets
+  cch secrets externalize --server github -e  # One server only
+  cch secrets internalize -e          # Roll back: values return to the config
+                                      # Vault key: system keychain, or ~/.cch/vault.key
+                                      # (CCH_VAULT_BACKEND=file forces the key file)
+
 BACKUP & RESTORE:
   # Create backups
   cch -bc                    # Auto-timestamped backup
@@ -352,7 +486,14 @@ AI AGENT WORKFLOW:
 }
 
 export async function handleCLI(args: string[]): Promise<void> {
-  const { command, options } = parseArgs(args);
+  // The MCP server launcher owns stdout and takes raw arguments after "--",
+  // so it runs before option parsing and every startup check
+  if (args[0] === 'secrets' && args[1] === 'exec') {
+    await execWithSecrets(args.slice(2));
+    return;
+  }
+
+  const { command, commandArgs, options } = parseArgs(args);
   
   const {
     // Permission commands
@@ -432,18 +573,27 @@ export async function handleCLI(args: string[]): Promise<void> {
                        !addPerm_ && !removePerm_ && !addTool_ && !removeTool_ && 
                        command !== 'install' && command !== 'uninstall';
     
+    // JSON/SARIF/Markdown reports own stdout, so the startup warnings are skipped -
+    // the report itself carries the findings. Session exports and usage take their own formats.
+    const isSessionsExport = command === 'sessions' && args[1] === 'export';
+    const isUsage = command === 'usage';
+    const reportFormat = isSessionsExport || isUsage ? 'text' : parseReportFormat(options.format);
+    const isMachineReport = reportFormat !== 'text' ||
+      (isSessionsExport && options.stdout === true) ||
+      (isUsage && (options.format === 'csv' || options.format === 'json'));
+
     // Only ensure base commands exist if we're not just showing help or deleting data
     const isDeletingData = deleteData_ || dd;
     if (!showingHelp && !isDeletingData) {
       await ensureBaseCommandsExist(testMode);
       // Check for dangerous permissions on startup
-      if (!testMode) {
+      if (!testMode && !isMachineReport) {
         await checkPermissionsOnStartup(testMode);
       }
     }
 
     // 🚨 CRITICAL: Always check for secrets on every command (except help and version)
-    if (!showingHelp && !version_ && !v && !isDeletingData) {
+    if (!showingHelp && !version_ && !v && !isDeletingData && !isMachineReport) {
       await secretWarningService.checkAndWarnSecrets(testMode);
     }
 
@@ -466,6 +616,17 @@ export async function handleCLI(args: string[]): Promise<void> {
     const isCacheCommand = command === 'cache';
     const cacheSubcommand = args[1]; // Get subcommand like 'analyze' or 'stats'
 
+    // Trash commands
+    const isTrashCommand = command === 'trash';
+
+    // Secrets vault commands
+    const isSecretsCommand = command === 'secrets';
+    const secretsSubcommand = args[1];
+
+    // Session transcript commands
+    const isSessionsCommand = command === 'sessions';
+    const sessionsSubcommand = args[1];
+
     // Blob commands
     const isBlobCommand = command === 'blob';
     const blobSubcommand = args[1]; // Get subcommand like 'analyze' or 'clean'
@@ -508,6 +669,15 @@ export async function handleCLI(args: string[]): Promise<void> {
       await backup.restoreConfig(backupNameValue, testMode);
     } else if (isListPermissions) {
       await manage.listCommands(testMode);
+    } else if (isDiscoverPermissions && options.usage) {
+      await discover.suggestFromUsage({
+        since: typeof options.since === 'string' ? options.since : undefined,
+        project: typeof options.project === 'string' ? options.project : undefined,
+        minCalls: options['min-calls'] !== undefined ? parseInt(options['min-calls'] as string) : undefined,
+        prune: options.prune || false,
+        execute: options.execute || options.e || false,
+        testMode
+      });
     } else if (isDiscoverPermissions) {
       await discover.suggestCommands(testMode);
     } else if (isAddPermission) {
@@ -582,7 +752,7 @@ export async function handleCLI(args: string[]): Promise<void> {
       const fixMode = options.fix || false;
       const statsMode = options.stats || false;
       const showSecretsMode = options['show-secrets'] || false;
-      const result = await audit({ fix: fixMode, stats: statsMode, showSecrets: showSecretsMode, testMode });
+      const result = await audit({ fix: fixMode, stats: statsMode, showSecrets: showSecretsMode, format: reportFormat, testMode });
       console.log(result);
     } else if (isCleanConfig) {
       const aggressive = options.aggressive || false;
@@ -781,10 +951,23 @@ export async function handleCLI(args: string[]): Promise<void> {
           largeText: options['large-text'] !== false,  // Default true
           minSize: options['min-size'] ? parseInt(options['min-size'] as string) * 1024 : undefined,  // Convert KB to bytes
           sanitize: options.sanitize || false,
+          dedup: options.dedup || false,
           execute,
           force: isForce,
           testMode
         });
+      } else if (blobSubcommand === 'rehydrate') {
+        await rehydrateBlobs({
+          session: options.session as string | undefined,
+          project: options.project as string | undefined,
+          execute: options.execute || options.e || false,
+          testMode
+        });
+      } else if (blobSubcommand === 'prune') {
+        await pruneBlobs({
+          execute: options.execute || options.e || false,
+          testMode
+        });
       } else {
         // Default to analyze
         await analyzeBlobs({ testMode });
@@ -793,9 +976,23 @@ export async function handleCLI(args: string[]): Promise<void> {
       // Cache management commands
       if (cacheSubcommand === 'analyze') {
         const detailed = options.detailed || false;
-        await analyzeCache({ detailed, testMode });
+        await analyzeCache({ detailed, format: reportFormat, testMode });
       } else if (cacheSubcommand === 'stats') {
         await cacheStats({ testMode });
+      } else if (cacheSubcommand === 'trend') {
+        await cacheTrend({
+          days: options.days !== undefined ? parseInt(options.days as string) : undefined,
+          threshold: typeof options.threshold === 'string' ? options.threshold : undefined,
+          testMode
+        });
+      } else if (cacheSubcommand === 'project') {
+        await cacheProject({
+          target: args[2] && !args[2].startsWith('-') ? args[2] : undefined,
+          archive: typeof options.archive === 'string' ? options.archive : undefined,
+          clean: typeof options.clean === 'string' ? options.clean : undefined,
+          execute: options.execute || options.e || false,
+          testMode
+        });
       } else if (cacheSubcommand === 'clean') {
         const execute = options.execute || options.e || false;
         await cleanCache({
@@ -804,21 +1001,133 @@ export async function handleCLI(args: string[]): Promise<void> {
           large: options.large || false,
           threshold: options.threshold ? parseInt(options.threshold as string) : undefined,
           debug: options.debug || false,
+          fileHistory: options['file-history'] || false,
+          todos: options.todos || false,
+          shellSnapshots: options['shell-snapshots'] || false,
           empty: options.empty || false,
           all: options.all || false,
+          budget: typeof options.budget === 'string' ? options.budget : undefined,
+          aggressive: options.aggressive || false,
+          permanent: options.permanent || false,
           execute,
           force: isForce,
           testMode
         });
+      } else if (cacheSubcommand === 'gc') {
+        await cacheGc({
+          action: args[2] && !args[2].startsWith('-') ? args[2] : undefined,
+          execute: options.execute || options.e || false,
+          scheduler: typeof options.scheduler === 'string' ? options.scheduler : undefined,
+          interval: typeof options.interval === 'string' ? options.interval : undefined,
+          testMode
+        });
+      } else if (cacheSubcommand === 'archive') {
+        await archiveCache({
+          action: args[2] && !args[2].startsWith('-') ? args[2] : undefined,
+          stale: options.stale !== undefined ? parseInt(options.stale as string) : undefined,
+          large: options.large || false,
+          threshold: options.threshold !== undefined ? parseInt(options.threshold as string) : undefined,
+          project: typeof options.project === 'string' ? options.project : undefined,
+          execute: options.execute || options.e || false,
+          testMode
+        });
+      } else if (cacheSubcommand === 'unarchive') {
+        await unarchiveCache({
+          id: args[2] && !args[2].startsWith('-') ? args[2] : undefined,
+          testMode
+        });
       } else if (cacheSubcommand === 'scan-secrets') {
-        await scanCacheSecrets({ testMode });
+        await scanCacheSecrets({
+          full: options.full || false,
+          verify: options.verify || false,
+          network: options.network || false,
+          format: reportFormat,
+          testMode
+        });
       } else if (cacheSubcommand === 'mask-secrets') {
         const execute = options.execute || options.e || false;
-        await maskCacheSecrets({ execute, testMode });
+        await maskCacheSecrets({ execute, force: isForce, testMode });
+      } else if (cacheSubcommand === 'mask-backups') {
+        await manageMaskBackups({
+          action: args[2] && !args[2].startsWith('-') ? args[2] : undefined,
+          id: args[3] && !args[3].startsWith('-') ? args[3] : undefined,
+          force: isForce,
+          testMode
+        });
       } else {
         // Default to showing cache stats
         await cacheStats({ testMode });
       }
+    } else if (isTrashCommand) {
+      await manageTrash({
+        action: args[1] && !args[1].startsWith('-') ? args[1] : undefined,
+        id: args[2] && !args[2].startsWith('-') ? args[2] : undefined,
+        olderThan: options['older-than'] !== undefined ? parseInt(options['older-than'] as string) : undefined,
+        execute: options.execute || options.e || false,
+        testMode
+      });
+    } else if (isSessionsCommand) {
+      if (sessionsSubcommand === 'list') {
+        await listSessions({
+          project: typeof options.project === 'string' ? options.project : undefined,
+          since: typeof options.since === 'string' ? options.since : undefined,
+          until: typeof options.until === 'string' ? options.until : undefined,
+          sort: parseSessionSortKey(options.sort),
+          limit: options.limit !== undefined ? parseInt(options.limit as string) : undefined,
+          format: reportFormat,
+          testMode
+        });
+      } else if (sessionsSubcommand === 'search') {
+        await searchSessions({
+          query: commandArgs.slice(1).join(' ') || undefined,
+          project: typeof options.project === 'string' ? options.project : undefined,
+          since: typeof options.since === 'string' ? options.since : undefined,
+          until: typeof options.until === 'string' ? options.until : undefined,
+          role: parseSearchRole(options.role),
+          limit: options.limit !== undefined ? parseInt(options.limit as string) : undefined,
+          rebuild: options.rebuild || false,
+          format: reportFormat,
+          testMode
+        });
+      } else if (sessionsSubcommand === 'export') {
+        await exportSessionTranscript({
+          session: commandArgs[1],
+          format: parseExportFormat(options.format),
+          output: typeof options.output === 'string' ? options.output : undefined,
+          stdout: options.stdout || false,
+          collapse: typeof options.collapse === 'string' ? parseInt(options.collapse) : undefined,
+          images: !options['no-images'],
+          mask: !options['no-mask'],
+          force: options.force || false,
+          testMode
+        });
+      } else {
+        console.log('Usage: cch sessions list [--project <pattern>] [--since <date>] [--until <date>] [--sort <key>] [--limit <n>]');
+        console.log('       cch sessions search <query> [--project <pattern>] [--since <date>] [--until <date>] [--role user|assistant|tool]');
+        console.log('       cch sessions export <session-id> [--format md|html|json] [--output <file>] [--stdout] [--collapse <lines>] [--no-images] [--no-mask]');
+      }
+    } else if (isUsage) {
+      const usageAction = args[1] && !args[1].startsWith('-') ? args[1] : undefined;
+      await usage({
+        action: usageAction === 'prices' && args[2] === 'init' ? 'prices-init' : usageAction,
+        by: parseUsageDimension(options.by),
+        project: typeof options.project === 'string' ? options.project : undefined,
+        since: typeof options.since === 'string' ? options.since : undefined,
+        until: typeof options.until === 'string' ? options.until : undefined,
+        limit: options.limit !== undefined ? parseInt(options.limit as string) : undefined,
+        format: parseUsageFormat(options.format),
+        testMode
+      });
+    } else if (isSecretsCommand) {
+      const execute = options.execute || options.e || false;
+      const server = typeof options.server === 'string' ? options.server : undefined;
+      if (secretsSubcommand === 'externalize') {
+        await externalizeSecrets({ execute, all: options.all || false, server, testMode });
+      } else if (secretsSubcommand === 'internalize') {
+        await internalizeSecrets({ execute, server, testMode });
+      } else {
+        console.log('Usage: cch secrets <externalize|internalize> [--server <name>] [--execute]');
+      }
     } else if (isInstall) {
       await installToClaudeCode();
     } else if (isUninstall) {
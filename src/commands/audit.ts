@@ -10,18 +10,32 @@ import { promptConfirm } from '../utils/prompt';
 import { backupConfig } from './config/backup';
 import { cleanHistory, cleanDangerous } from './clean';
 import { withProgress } from '../utils/progress';
+import { getConfigPath } from '../core/paths';
+import { ReportFormat, toAuditJson, toAuditSarif, toAuditMarkdown } from '../services/report-formats';
 
 export interface AuditOptions {
   fix?: boolean;
   stats?: boolean;
   showSecrets?: boolean;
+  format?: ReportFormat;  // Anything but text skips the spinners so stdout stays parseable
   testMode?: boolean;
 }
 
 export async function audit(options: AuditOptions = {}): Promise<string> {
-  const { fix = false, stats = false, showSecrets = false, testMode = false } = options;
+  const { fix = false, stats = false, showSecrets = false, format = 'text', testMode = false } = options;
 
   try {
+    if (format !== 'text') {
+      const report = await new Analyzer().analyzeConfig(await loadClaudeConfig(testMode));
+      if (format === 'json') {
+        return JSON.stringify(toAuditJson(report), null, 2);
+      }
+      if (format === 'sarif') {
+        return JSON.stringify(toAuditSarif(report, getConfigPath(testMode)), null, 2);
+      }
+      return toAuditMarkdown(report);
+    }
+
     // Read Claude configuration
     const config = await withProgress(
       'Loading configuration',
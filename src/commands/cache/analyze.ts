@@ -4,21 +4,40 @@
  */
 
 import chalk from 'chalk';
+import path from 'path';
 import { CacheAnalyzer } from '../../services/cache-analyzer';
+import { recordAnalysis } from '../../services/cache-history';
+import { BlobStore } from '../../services/blob-store';
+import { ReportFormat, toCacheAnalysisJson, toCacheAnalysisSarif, toCacheAnalysisMarkdown } from '../../services/report-formats';
 
 export interface AnalyzeCacheOptions {
   project?: string;
   detailed?: boolean;
+  format?: ReportFormat;
   testMode?: boolean;
 }
 
 export async function analyzeCache(options: AnalyzeCacheOptions = {}): Promise<void> {
   try {
+    if (options.format && options.format !== 'text') {
+      const analysis = await new CacheAnalyzer(options.testMode).analyzeCacheStructure();
+      recordAnalysis(analysis, options.testMode);
+      if (options.format === 'json') {
+        console.log(JSON.stringify(toCacheAnalysisJson(analysis), null, 2));
+      } else if (options.format === 'sarif') {
+        console.log(JSON.stringify(toCacheAnalysisSarif(analysis), null, 2));
+      } else {
+        console.log(toCacheAnalysisMarkdown(analysis));
+      }
+      return;
+    }
+
     console.log(chalk.bold.cyan('\n📊 Claude Code Cache Analysis\n'));
     console.log('Analyzing cache structure...\n');
 
     const analyzer = new CacheAnalyzer(options.testMode);
     const analysis = await analyzer.analyzeCacheStructure();
+    recordAnalysis(analysis, options.testMode);
 
     // Display Overview
     console.log(chalk.bold('━━━ OVERVIEW ━━━'));
@@ -29,6 +48,11 @@ export async function analyzeCache(options: AnalyzeCacheOptions = {}): Promise<v
     if (analysis.overview.oldestSession && analysis.overview.newestSession) {
       console.log(`Age Range:       ${analyzer.formatDate(analysis.overview.oldestSession)} → ${analyzer.formatDate(analysis.overview.newestSession)}`);
     }
+    // Deduplicated payloads live in ~/.cch/blobs, outside the total above
+    const blobStore = await new BlobStore(options.testMode).getStats();
+    if (blobStore.blobs > 0) {
+      console.log(`Blob Store:      ${analyzer.formatBytes(blobStore.size)} in ${blobStore.blobs} blob(s) ${chalk.dim('(~/.cch/blobs - `cch blob prune` removes unreferenced ones)')}`);
+    }
     console.log('');
 
     // Display Cache Breakdown
@@ -74,7 +98,7 @@ export async function analyzeCache(options: AnalyzeCacheOptions = {}): Promise<v
     }
 
     // Display Issues
-    if (analysis.orphanedProjects.length > 0 || analysis.staleProjects.length > 0) {
+    if (analysis.orphanedProjects.length > 0 || analysis.unresolvedProjects.length > 0 || analysis.staleProjects.length > 0) {
       console.log(chalk.bold.yellow('━━━ ISSUES FOUND ━━━'));
 
       if (analysis.orphanedProjects.length > 0) {
@@ -87,6 +111,15 @@ export async function analyzeCache(options: AnalyzeCacheOptions = {}): Promise<v
         }
       }
 
+      if (analysis.unresolvedProjects.length > 0) {
+        console.log(chalk.dim(`ℹ️  ${analysis.unresolvedProjects.length} project caches whose path could not be resolved - not treated as orphaned`));
+        if (options.detailed) {
+          analysis.unresolvedProjects.forEach(project => {
+            console.log(chalk.dim(`    ${path.basename(project.cachePath)}`));
+          });
+        }
+      }
+
       if (analysis.staleProjects.length > 0) {
         const totalSize = analysis.staleProjects.reduce((sum, p) => sum + p.totalSize, 0);
         console.log(chalk.yellow(`⚠️  ${analysis.staleProjects.length} stale projects (not accessed in 60+ days, ${analyzer.formatBytes(totalSize)})`));
@@ -124,6 +157,7 @@ export async function analyzeCache(options: AnalyzeCacheOptions = {}): Promise<v
       console.log(chalk.dim('Next steps:'));
       console.log(chalk.dim('  • Run `cch cache clean --orphaned` to clean orphaned projects (safest)'));
       console.log(chalk.dim('  • Run `cch cache clean --stale 60` to clean old projects'));
+      console.log(chalk.dim('  • Run `cch cache clean --debug --file-history --todos --shell-snapshots` to apply retention rules'));
       console.log(chalk.dim('  • Run `cch cache clean --all` for comprehensive cleanup'));
       console.log(chalk.dim('  • All commands default to preview mode (--execute to apply changes)'));
     } else {
@@ -0,0 +1,244 @@
+/**
+ * Cache archive commands
+ * Moves stale or large sessions into compressed cold storage (~/.cch/archive) instead of
+ * deleting them, and unpacks them again so they can be resumed in Claude Code
+ */
+
+import chalk from 'chalk';
+import * as os from 'os';
+import { CacheAnalyzer, ProjectCache, SessionFile } from '../../services/cache-analyzer';
+import {
+  ArchiveCandidate,
+  archiveSessions,
+  listArchivedSessions,
+  findArchivedSessions,
+  unarchiveSession,
+  getArchiveDiskSize
+} from '../../services/session-archive';
+import { ActiveSessions } from '../../services/active-sessions';
+import { projectMatchesPatterns } from '../../utils/patterns';
+
+export interface ArchiveCacheOptions {
+  action?: string;       // run (default) or list
+  stale?: number;        // Sessions not modified in N days (default 60 when no other filter)
+  large?: boolean;       // Sessions over the threshold
+  threshold?: number;    // MB, for --large (default 10)
+  project?: string;      // Project name or path globs, comma separated
+  execute?: boolean;
+  testMode?: boolean;
+}
+
+export interface UnarchiveOptions {
+  id?: string;           // Session id or a unique prefix
+  testMode?: boolean;
+}
+
+const DEFAULT_STALE_DAYS = 60;
+const DEFAULT_THRESHOLD_MB = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function archiveCache(options: ArchiveCacheOptions = {}): Promise<void> {
+  try {
+    const action = options.action || 'run';
+
+    if (action === 'run') {
+      await runArchive(options);
+    } else if (action === 'list') {
+      await listArchive(options.testMode);
+    } else {
+      console.error(chalk.red(`Unknown action: ${action}`));
+      console.log('Usage: cch cache archive [list] [--stale <days>] [--large [--threshold <MB>]] [--project <pattern>] [--execute]');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error during cache archive:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+export async function unarchiveCache(options: UnarchiveOptions = {}): Promise<void> {
+  try {
+    if (!options.id) {
+      console.error(chalk.red('Specify the session id to unarchive'));
+      console.log('Usage: cch cache unarchive <session-id>   (see cch cache archive list)');
+      process.exit(1);
+    }
+
+    const matches = await findArchivedSessions(options.id, options.testMode);
+    if (matches.length === 0) {
+      console.error(chalk.red(`No archived session found for "${options.id}"`));
+      process.exit(1);
+    }
+    if (matches.length > 1) {
+      console.error(chalk.red(`"${options.id}" matches ${matches.length} archived sessions - use more of the id:`));
+      matches.slice(0, 10).forEach(s => console.log(`   ${s.sessionId}  ${chalk.dim(s.projectPath)}`));
+      process.exit(1);
+    }
+
+    const { restoredPath, session } = await unarchiveSession(matches[0], options.testMode);
+    const analyzer = new CacheAnalyzer(options.testMode);
+
+    console.log(chalk.green(`\n✅ Restored session ${session.sessionId} (${analyzer.formatBytes(session.size)})`));
+    console.log(chalk.dim(`   ${restoredPath.replace(os.homedir(), '~')}`));
+    console.log(chalk.dim(`   Resume it with: cd ${session.projectPath} && claude --resume ${session.sessionId}\n`));
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error during cache unarchive:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+async function runArchive(options: ArchiveCacheOptions): Promise<void> {
+  const analyzer = new CacheAnalyzer(options.testMode);
+  const analysis = await analyzer.analyzeCacheStructure();
+
+  const staleDays = options.stale ?? (options.large ? undefined : DEFAULT_STALE_DAYS);
+  const thresholdBytes = (options.threshold ?? DEFAULT_THRESHOLD_MB) * 1024 * 1024;
+  const activeSessions = await ActiveSessions.detect({ testMode: options.testMode });
+  const candidates = selectCandidates(analysis.projects, activeSessions, {
+    staleDays,
+    thresholdBytes: options.large ? thresholdBytes : undefined,
+    project: options.project
+  });
+
+  console.log(chalk.cyan.bold('\n📦 Archive Sessions\n'));
+
+  const criteria = [
+    staleDays !== undefined ? `not modified in ${staleDays} days` : null,
+    options.large ? `larger than ${analyzer.formatBytes(thresholdBytes)}` : null
+  ].filter(Boolean).join(' or ');
+  console.log(chalk.dim(`Sessions ${criteria}${options.project ? ` in projects matching ${options.project}` : ''}\n`));
+
+  if (candidates.length === 0) {
+    console.log(chalk.green('✅ No sessions to archive\n'));
+    return;
+  }
+
+  const byProject = new Map<string, Array<{ candidate: ArchiveCandidate; session: SessionFile }>>();
+  for (const entry of candidates) {
+    byProject.set(entry.candidate.projectPath, [...(byProject.get(entry.candidate.projectPath) || []), entry]);
+  }
+  for (const [projectPath, entries] of byProject) {
+    const size = entries.reduce((sum, e) => sum + e.session.size, 0);
+    console.log(`${chalk.yellow(projectPath.replace(os.homedir(), '~'))}  ${entries.length} session(s), ${analyzer.formatBytes(size)}`);
+  }
+
+  const totalSize = candidates.reduce((sum, e) => sum + e.session.size, 0);
+  console.log('');
+  console.log(`${chalk.bold('Total:')} ${candidates.length} session(s), ${analyzer.formatBytes(totalSize)}\n`);
+
+  if (!options.execute) {
+    console.log(chalk.yellow.bold('⚠️  This is a DRY RUN. Use --execute to apply changes.\n'));
+    console.log(chalk.dim(`Command: cch cache archive${formatFlags(options)} --execute\n`));
+    return;
+  }
+
+  const result = await archiveSessions(candidates.map(e => e.candidate), options.testMode);
+  const archivedSize = result.archived.reduce((sum, s) => sum + s.size, 0);
+  const compressedSize = result.archived.reduce((sum, s) => sum + s.compressedSize, 0);
+
+  console.log(chalk.green.bold(`✅ Archived ${result.archived.length} session(s)\n`));
+  console.log(`${chalk.bold('Original size:')}   ${analyzer.formatBytes(archivedSize)}`);
+  console.log(`${chalk.bold('Compressed size:')} ${analyzer.formatBytes(compressedSize)}`);
+  console.log(`${chalk.bold('Space freed:')}     ${chalk.green(analyzer.formatBytes(archivedSize - compressedSize))}\n`);
+
+  for (const { candidate, reason } of result.skipped) {
+    console.log(chalk.yellow(`⚠️  Skipped ${candidate.sessionId}: ${reason}`));
+  }
+  if (result.skipped.length > 0) {
+    console.log('');
+  }
+
+  console.log(chalk.dim('List archived sessions: cch cache archive list'));
+  console.log(chalk.dim('Restore one:            cch cache unarchive <session-id>\n'));
+}
+
+async function listArchive(testMode?: boolean): Promise<void> {
+  const analyzer = new CacheAnalyzer(testMode);
+  const sessions = await listArchivedSessions(testMode);
+
+  console.log(chalk.cyan.bold('\n📦 Archived Sessions\n'));
+
+  if (sessions.length === 0) {
+    console.log(chalk.green('No archived sessions\n'));
+    return;
+  }
+
+  for (const session of sessions) {
+    console.log(`${chalk.yellow(session.sessionId)}  ${analyzer.formatBytes(session.size).padStart(10)} → ${analyzer.formatBytes(session.compressedSize).padStart(10)}  ${chalk.dim(`last used ${analyzer.formatDate(new Date(session.modified))}`)}`);
+    console.log(`   ${session.projectPath.replace(os.homedir(), '~')}`);
+  }
+
+  const totalSize = sessions.reduce((sum, s) => sum + s.size, 0);
+  console.log('');
+  console.log(`${chalk.bold('Total:')} ${sessions.length} session(s), ${analyzer.formatBytes(totalSize)} stored in ${analyzer.formatBytes(await getArchiveDiskSize(testMode))}\n`);
+  console.log(chalk.dim('Restore one: cch cache unarchive <session-id>\n'));
+}
+
+/**
+ * Sessions matching the filters, skipping the current project and sessions in use
+ */
+function selectCandidates(
+  projects: ProjectCache[],
+  activeSessions: ActiveSessions,
+  filters: { staleDays?: number; thresholdBytes?: number; project?: string }
+): Array<{ candidate: ArchiveCandidate; session: SessionFile }> {
+  const now = Date.now();
+  const selected: Array<{ candidate: ArchiveCandidate; session: SessionFile }> = [];
+
+  for (const project of projects) {
+    if (project.isActive) continue;
+    if (filters.project && !projectMatchesPatterns(project.projectName, filters.project) &&
+        !projectMatchesPatterns(project.projectPath, filters.project)) continue;
+
+    for (const session of project.sessions) {
+      if (activeSessions.reasonForSession(session.sessionId)) continue;
+      const age = now - session.modified.getTime();
+
+      const reasons: string[] = [];
+      if (filters.staleDays !== undefined && age > filters.staleDays * DAY_MS) {
+        reasons.push(`not modified in ${filters.staleDays} days`);
+      }
+      if (filters.thresholdBytes !== undefined && session.size > filters.thresholdBytes) {
+        reasons.push(`larger than ${Math.round(filters.thresholdBytes / 1024 / 1024)}MB`);
+      }
+      if (reasons.length === 0) continue;
+
+      selected.push({
+        session,
+        candidate: {
+          sessionId: session.sessionId,
+          filePath: session.filePath,
+          projectPath: project.projectPath,
+          reason: reasons.join(', ')
+        }
+      });
+    }
+  }
+
+  return selected;
+}
+
+function formatFlags(options: ArchiveCacheOptions): string {
+  let flags = '';
+  if (options.stale !== undefined) flags += ` --stale ${options.stale}`;
+  if (options.large) flags += ' --large';
+  if (options.threshold !== undefined) flags += ` --threshold ${options.threshold}`;
+  if (options.project) flags += ` --project "${options.project}"`;
+  return flags;
+}
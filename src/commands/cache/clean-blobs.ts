@@ -9,6 +9,7 @@ import readline from 'readline';
 import { BlobRemover, BlobRemovalOptions } from '../../services/blob-remover';
 import { SessionParser } from '../../services/session-parser';
 import { CacheAnalyzer } from '../../services/cache-analyzer';
+import { ActiveSessions } from '../../services/active-sessions';
 
 export interface CleanBlobsOptions {
   session?: string;
@@ -17,6 +18,7 @@ export interface CleanBlobsOptions {
   largeText?: boolean;
   minSize?: number;
   sanitize?: boolean;
+  dedup?: boolean;
   execute?: boolean;
   force?: boolean;
   testMode?: boolean;
@@ -24,7 +26,7 @@ export interface CleanBlobsOptions {
 
 export async function cleanBlobs(options: CleanBlobsOptions = {}): Promise<void> {
   try {
-    const remover = new BlobRemover();
+    const remover = new BlobRemover(options.testMode);
     const parser = new SessionParser();
     const analyzer = new CacheAnalyzer(options.testMode);
 
@@ -63,6 +65,16 @@ export async function cleanBlobs(options: CleanBlobsOptions = {}): Promise<void>
         .map(s => s.filePath);
     }
 
+    // Never rewrite a session a running Claude Code is appending to
+    const activeSessions = await ActiveSessions.detect({ testMode: options.testMode });
+    sessionsToClean = sessionsToClean.filter(sessionPath => {
+      const inUse = activeSessions.reasonFor(sessionPath);
+      if (inUse) {
+        console.log(chalk.yellow(`⚠️  Skipping ${path.basename(sessionPath, '.jsonl')} - in use (${inUse})`));
+      }
+      return !inUse;
+    });
+
     if (sessionsToClean.length === 0) {
       console.log(chalk.green('✅ No sessions found that need cleanup!'));
       console.log('');
@@ -75,12 +87,15 @@ export async function cleanBlobs(options: CleanBlobsOptions = {}): Promise<void>
       removeLargeText: options.largeText !== false,  // Default true
       minBlobSize: options.minSize || 100 * 1024,  // Default 100KB
       sanitize: options.sanitize || false,
+      dedup: options.dedup || false,
       dryRun: !options.execute
     };
+    const mode = removalOptions.dedup ? 'dedup' : removalOptions.sanitize ? 'sanitize' : 'remove';
 
     // Show what will be cleaned
     console.log(chalk.bold('━━━ CLEANUP CONFIGURATION ━━━'));
-    console.log(`Mode:              ${removalOptions.sanitize ? chalk.yellow('Sanitize (replace with placeholders)') : chalk.red('Remove (delete messages)')}`);
+    console.log(`Mode:              ${mode === 'dedup' ? chalk.green('Dedup (move to ~/.cch/blobs, restorable)')
+      : mode === 'sanitize' ? chalk.yellow('Sanitize (replace with placeholders)') : chalk.red('Remove (delete messages)')}`);
     console.log(`Remove images:     ${removalOptions.removeImages ? chalk.green('Yes') : chalk.dim('No')}`);
     console.log(`Remove large text: ${removalOptions.removeLargeText ? chalk.green('Yes') : chalk.dim('No')}`);
     console.log(`Min blob size:     ${formatBytes(removalOptions.minBlobSize)}`);
@@ -90,7 +105,7 @@ export async function cleanBlobs(options: CleanBlobsOptions = {}): Promise<void>
 
     // Confirm with user (unless --force)
     if (!removalOptions.dryRun && !options.force) {
-      const confirmed = await confirmCleanup(sessionsToClean.length, removalOptions.sanitize);
+      const confirmed = await confirmCleanup(sessionsToClean.length, mode);
       if (!confirmed) {
         console.log('Cleanup cancelled.');
         process.exit(0);
@@ -105,6 +120,8 @@ export async function cleanBlobs(options: CleanBlobsOptions = {}): Promise<void>
     let totalNewSize = 0;
     let totalMessagesRemoved = 0;
     let totalMessagesSanitized = 0;
+    let totalBlobsStored = 0;
+    let totalBlobsReused = 0;
 
     for (const sessionPath of sessionsToClean) {
       const sessionName = path.basename(sessionPath).replace('.jsonl', '');
@@ -118,6 +135,8 @@ export async function cleanBlobs(options: CleanBlobsOptions = {}): Promise<void>
         totalNewSize += result.newSize;
         totalMessagesRemoved += result.messagesRemoved;
         totalMessagesSanitized += result.messagesSanitized;
+        totalBlobsStored += result.blobsStored || 0;
+        totalBlobsReused += result.blobsReused || 0;
 
         const savings = result.originalSize - result.newSize;
         const savingsPercent = result.originalSize > 0
@@ -126,10 +145,12 @@ export async function cleanBlobs(options: CleanBlobsOptions = {}): Promise<void>
 
         if (removalOptions.dryRun) {
           console.log(`  ${chalk.yellow('[DRY RUN]')} Would save ${chalk.green(formatBytes(savings))} (${savingsPercent}%)`);
-          console.log(`  Messages to ${removalOptions.sanitize ? 'sanitize' : 'remove'}: ${result.messagesRemoved}`);
+          console.log(`  Messages to ${mode === 'dedup' ? 'deduplicate' : mode}: ${result.messagesRemoved}`);
         } else {
           console.log(`  ${chalk.green('✓')} Saved ${chalk.green(formatBytes(savings))} (${savingsPercent}%)`);
-          if (removalOptions.sanitize) {
+          if (mode === 'dedup') {
+            console.log(`  Messages deduplicated: ${result.messagesDeduplicated || 0} (${result.blobsStored || 0} new blob(s), ${result.blobsReused || 0} already stored)`);
+          } else if (removalOptions.sanitize) {
             console.log(`  Messages sanitized: ${result.messagesSanitized}`);
           } else {
             console.log(`  Messages removed: ${result.messagesRemoved}`);
@@ -160,7 +181,11 @@ export async function cleanBlobs(options: CleanBlobsOptions = {}): Promise<void>
       console.log(`Failed:                   ${chalk.red(failedResults.length.toString())}`);
     }
 
-    if (removalOptions.sanitize) {
+    if (mode === 'dedup') {
+      console.log(removalOptions.dryRun
+        ? `Messages to deduplicate:  ${totalMessagesRemoved}`
+        : `Blobs stored:             ${totalBlobsStored} new, ${totalBlobsReused} shared with other sessions`);
+    } else if (removalOptions.sanitize) {
       console.log(`Messages sanitized:       ${totalMessagesSanitized}`);
     } else {
       console.log(`Messages removed:         ${totalMessagesRemoved}`);
@@ -174,10 +199,17 @@ export async function cleanBlobs(options: CleanBlobsOptions = {}): Promise<void>
     if (removalOptions.dryRun) {
       console.log(chalk.yellow('💡 This was a dry run. No files were modified.'));
       console.log(chalk.dim('   Run with --execute to apply changes'));
+      if (mode === 'dedup') {
+        // scan-secrets does not look inside the store, so masking has to happen first
+        console.log(chalk.dim('   Payloads are stored unmodified - run cch cache mask-secrets first if they hold secrets'));
+      }
       console.log('');
     } else {
       console.log(chalk.green('✅ Cleanup completed!'));
       console.log(chalk.dim('   Backups created in .backups/ directories'));
+      if (mode === 'dedup') {
+        console.log(chalk.dim('   Restore full sessions with: cch blob rehydrate'));
+      }
       console.log('');
     }
 
@@ -195,14 +227,15 @@ export async function cleanBlobs(options: CleanBlobsOptions = {}): Promise<void>
 /**
  * Confirm cleanup with user
  */
-async function confirmCleanup(sessionCount: number, sanitize: boolean): Promise<boolean> {
+async function confirmCleanup(sessionCount: number, mode: 'dedup' | 'sanitize' | 'remove'): Promise<boolean> {
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout
   });
 
   return new Promise((resolve) => {
-    const action = sanitize ? 'sanitize' : 'remove blobs from';
+    const action = mode === 'dedup' ? 'move blobs to the blob store from'
+      : mode === 'sanitize' ? 'sanitize' : 'remove blobs from';
     const question = chalk.yellow(`\n⚠️  About to ${action} ${sessionCount} session file(s). Continue? (y/N): `);
 
     rl.question(question, (answer) => {
@@ -6,6 +6,7 @@
 import chalk from 'chalk';
 import { CacheCleaner, CleanupItem } from '../../services/cache-cleaner';
 import { CacheAnalyzer } from '../../services/cache-analyzer';
+import { BudgetSummary, parseSize } from '../../services/cache-budget';
 import readline from 'readline';
 
 export interface CleanCacheOptions {
@@ -14,8 +15,14 @@ export interface CleanCacheOptions {
   large?: boolean;
   threshold?: number;
   debug?: boolean;
+  fileHistory?: boolean;
+  todos?: boolean;
+  shellSnapshots?: boolean;
   empty?: boolean;
   all?: boolean;
+  budget?: string;       // e.g. "500MB" - replaces the category flags
+  aggressive?: boolean;  // Allow risky items in budget mode
+  permanent?: boolean;   // Delete instead of moving to the trash
   execute?: boolean;
   force?: boolean;
   testMode?: boolean;
@@ -35,13 +42,34 @@ export async function cleanCache(options: CleanCacheOptions = {}): Promise<void>
       largeSessions: options.large || options.all,
       sessionThresholdMB: options.threshold || 10,
       oldDebugLogs: options.debug || options.all,
+      oldFileHistory: options.fileHistory || options.all,
+      oldTodos: options.todos || options.all,
+      oldShellSnapshots: options.shellSnapshots || options.all,
       emptyFiles: options.empty || options.all,
+      budgetBytes: options.budget !== undefined ? parseSize(options.budget) : undefined,
+      aggressive: options.aggressive,
+      permanent: options.permanent,
       dryRun: !options.execute,
       force: options.force
     };
 
-    // Get cleanup plan
-    const result = await cleaner.cleanCache(cleanOptions);
+    // Plan once: what is confirmed is exactly what gets removed
+    const planned = await cleaner.planCleanup(cleanOptions);
+    const preview = cleaner.previewCleanup(planned);
+
+    if (!cleanOptions.dryRun && !options.force && preview.itemsRemoved.length > 0) {
+      const confirmed = await confirmCleanup(preview, analyzer, planned.permanent);
+      if (!confirmed) {
+        console.log(chalk.yellow('\n❌ Cleanup cancelled.'));
+        return;
+      }
+    }
+
+    const result = cleanOptions.dryRun ? preview : await cleaner.executePlannedCleanup(planned);
+
+    if (result.budget) {
+      printBudget(result.budget, analyzer, planned.permanent);
+    }
 
     if (cleanOptions.dryRun) {
       // Display dry-run preview
@@ -100,9 +128,27 @@ export async function cleanCache(options: CleanCacheOptions = {}): Promise<void>
       if (result.debugLogsRemoved > 0) {
         console.log(`Debug logs to remove:    ${result.debugLogsRemoved}`);
       }
+      if (result.fileHistoryRemoved > 0) {
+        console.log(`File histories to remove: ${result.fileHistoryRemoved}`);
+      }
+      if (result.todosRemoved > 0) {
+        console.log(`Todo lists to remove:    ${result.todosRemoved}`);
+      }
+      if (result.shellSnapshotsRemoved > 0) {
+        console.log(`Shell snapshots to remove: ${result.shellSnapshotsRemoved}`);
+      }
       if (result.emptyFilesRemoved > 0) {
         console.log(`Empty files to remove:   ${result.emptyFilesRemoved}`);
       }
+      if (result.blobSessionsCleaned > 0) {
+        console.log(`Sessions to strip blobs: ${result.blobSessionsCleaned}`);
+      }
+      if (result.trashDeleted > 0) {
+        console.log(`Trash entries to delete: ${result.trashDeleted}`);
+      }
+      if (result.backupsDeleted > 0) {
+        console.log(`Session backups to delete: ${result.backupsDeleted}`);
+      }
       console.log(`Total space to free:     ${chalk.bold.green(analyzer.formatBytes(result.totalBytesFreed))}`);
       console.log('');
 
@@ -118,15 +164,6 @@ export async function cleanCache(options: CleanCacheOptions = {}): Promise<void>
         return;
       }
 
-      // Confirmation
-      if (!options.force) {
-        const confirmed = await confirmCleanup(result, analyzer);
-        if (!confirmed) {
-          console.log(chalk.yellow('\n❌ Cleanup cancelled.'));
-          return;
-        }
-      }
-
       console.log(chalk.bold.green('\n✅ Cache cleanup completed!\n'));
       console.log(chalk.bold('━━━ RESULTS ━━━'));
       console.log(`Projects removed:        ${result.projectsRemoved}`);
@@ -134,12 +171,48 @@ export async function cleanCache(options: CleanCacheOptions = {}): Promise<void>
       if (result.debugLogsRemoved > 0) {
         console.log(`Debug logs removed:      ${result.debugLogsRemoved}`);
       }
+      if (result.fileHistoryRemoved > 0) {
+        console.log(`File histories removed:  ${result.fileHistoryRemoved}`);
+      }
+      if (result.todosRemoved > 0) {
+        console.log(`Todo lists removed:      ${result.todosRemoved}`);
+      }
+      if (result.shellSnapshotsRemoved > 0) {
+        console.log(`Shell snapshots removed: ${result.shellSnapshotsRemoved}`);
+      }
       if (result.emptyFilesRemoved > 0) {
         console.log(`Empty files removed:     ${result.emptyFilesRemoved}`);
       }
-      console.log(`Total space freed:       ${chalk.bold.green(analyzer.formatBytes(result.totalBytesFreed))}`);
+      if (result.blobSessionsCleaned > 0) {
+        console.log(`Sessions stripped of blobs: ${result.blobSessionsCleaned}`);
+      }
+      if (result.trashDeleted > 0) {
+        console.log(`Trash entries deleted:   ${result.trashDeleted}`);
+      }
+      if (result.backupsDeleted > 0) {
+        console.log(`Session backups deleted: ${result.backupsDeleted}`);
+      }
+
+      if (result.budget?.sizeAfter !== undefined) {
+        const { totalSize, sizeAfter, budget } = result.budget;
+        const change = totalSize - sizeAfter;
+        console.log(`Cache size:              ${analyzer.formatBytes(totalSize)} → ${chalk.bold(analyzer.formatBytes(sizeAfter))} (measured)`);
+        const changeLabel = planned.permanent ? 'Disk change:            ' : 'Cache change:           ';
+        console.log(`${changeLabel} ${change >= 0 ? chalk.bold.green(`-${analyzer.formatBytes(change)}`) : chalk.bold.red(`+${analyzer.formatBytes(-change)}`)}`);
+        if (sizeAfter > budget) {
+          console.log(chalk.yellow(`⚠️  Still ${analyzer.formatBytes(sizeAfter - budget)} over the budget`));
+        }
+      } else {
+        console.log(`Total space freed:       ${chalk.bold.green(analyzer.formatBytes(result.totalBytesFreed))}`);
+      }
       console.log('');
-      console.log(chalk.dim('💡 Removed items have been moved to ~/.claude/.trash'));
+
+      if (planned.permanent) {
+        console.log(chalk.dim('💡 Deleted for good - nothing was moved to the trash'));
+      } else {
+        console.log(chalk.dim('💡 Removed items have been moved to ~/.claude/.trash'));
+        console.log(chalk.dim('   Undo with: cch trash restore <id>  (list them with: cch trash)'));
+      }
       console.log('');
     }
 
@@ -154,10 +227,39 @@ export async function cleanCache(options: CleanCacheOptions = {}): Promise<void>
   }
 }
 
+/**
+ * Show how the budget plan compares to the target
+ */
+function printBudget(budget: BudgetSummary, analyzer: CacheAnalyzer, permanent: boolean): void {
+  console.log(chalk.bold('━━━ BUDGET ━━━'));
+  console.log(`Cache size:              ${analyzer.formatBytes(budget.totalSize)}`);
+  console.log(`Budget:                  ${analyzer.formatBytes(budget.budget)}`);
+
+  if (budget.needed === 0) {
+    console.log(chalk.green('\n✅ Cache is already within the budget\n'));
+    return;
+  }
+
+  console.log(`Needs freeing:           ${analyzer.formatBytes(budget.needed)}`);
+  console.log(`Selected items free:     ${analyzer.formatBytes(budget.selected)}`);
+  if (!budget.reachable) {
+    console.log(chalk.yellow(`\n⚠️  The budget can't be reached with the available items`));
+    if (budget.excludedRisky > 0) {
+      console.log(chalk.dim(`   ${budget.excludedRisky} risky item(s) (whole sessions) were left out - add --aggressive to include them`));
+    }
+  }
+  if (permanent) {
+    console.log(chalk.dim('Cache size includes the trash and session backups; everything selected is deleted for good'));
+  } else if (budget.setAside) {
+    console.log(chalk.dim(`Not counted: ${analyzer.formatBytes(budget.setAside)} in the trash and session backups (add --permanent to count and delete them)`));
+  }
+  console.log('');
+}
+
 /**
  * Confirm cleanup with user
  */
-async function confirmCleanup(result: any, analyzer: CacheAnalyzer): Promise<boolean> {
+async function confirmCleanup(result: any, analyzer: CacheAnalyzer, permanent: boolean): Promise<boolean> {
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout
@@ -165,7 +267,7 @@ async function confirmCleanup(result: any, analyzer: CacheAnalyzer): Promise<boo
 
   return new Promise((resolve) => {
     console.log(chalk.bold.yellow('\n⚠️  CONFIRMATION REQUIRED\n'));
-    console.log(`About to remove ${result.projectsRemoved + result.sessionsRemoved} items`);
+    console.log(`About to remove ${result.itemsRemoved.length} items${permanent ? ' permanently (no trash)' : ''}`);
     console.log(`Total space to free: ${chalk.bold(analyzer.formatBytes(result.totalBytesFreed))}`);
     console.log('');
 
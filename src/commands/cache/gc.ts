@@ -0,0 +1,210 @@
+/**
+ * Cache gc command
+ * Applies the retention policy in ~/.cch/retention.json through CacheCleaner;
+ * meant to run unattended from cron or a systemd timer (`cch cache gc install`)
+ */
+
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { CacheCleaner, CleanupItem } from '../../services/cache-cleaner';
+import { CacheAnalyzer } from '../../services/cache-analyzer';
+import {
+  RetentionPolicyLoadResult,
+  loadRetentionPolicy,
+  policyToCleanOptions,
+  policyRetentionRules,
+  serializeDefaultPolicy
+} from '../../services/retention-policy';
+import { listTrash, filterOlderThan, deleteFromTrash } from '../../services/trash';
+import {
+  GcScheduler,
+  GcInterval,
+  GC_SCHEDULERS,
+  GC_INTERVALS,
+  detectScheduler,
+  installGcSchedule,
+  uninstallGcSchedule,
+  getGcLogPath
+} from '../../services/gc-schedule';
+import { getCacheGcLockPath } from '../../core/paths';
+import { acquireLock } from '../../utils/lockfile';
+
+export interface CacheGcOptions {
+  action?: string;       // run (default), init, install, uninstall
+  execute?: boolean;
+  scheduler?: string;    // cron or systemd, for install/uninstall
+  interval?: string;     // hourly, daily (default) or weekly, for install
+  testMode?: boolean;
+}
+
+export async function cacheGc(options: CacheGcOptions = {}): Promise<void> {
+  try {
+    const action = options.action || 'run';
+
+    if (action === 'run') {
+      await runGc(options.execute, options.testMode);
+    } else if (action === 'init') {
+      initPolicy(options.testMode);
+    } else if (action === 'install') {
+      installSchedule(options.scheduler, options.interval, options.testMode);
+    } else if (action === 'uninstall') {
+      uninstallSchedule(options.scheduler);
+    } else {
+      console.error(chalk.red(`Unknown action: ${action}`));
+      console.log('Usage: cch cache gc [init|install|uninstall] [--execute] [--scheduler cron|systemd] [--interval daily]');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error during cache gc:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+async function runGc(execute?: boolean, testMode?: boolean): Promise<void> {
+  // The defaults may only be previewed - deleting needs a policy someone has read
+  const loaded = loadValidPolicy(testMode, execute);
+
+  const { lock, holder } = acquireLock(getCacheGcLockPath(testMode));
+  if (!lock) {
+    console.log(chalk.yellow(`⚠️  cache gc is already running${holder ? ` (pid ${holder.pid}, since ${new Date(holder.acquiredAt).toLocaleString()})` : ''} - skipped`));
+    return;
+  }
+
+  try {
+    const { policy } = loaded;
+    const analyzer = new CacheAnalyzer(testMode);
+
+    console.log(chalk.cyan.bold(`\n🧹 Cache GC - ${new Date().toLocaleString()}\n`));
+    console.log(chalk.dim(`Policy: ${loaded.exists ? loaded.path.replace(os.homedir(), '~') : 'built-in defaults (create one with: cch cache gc init)'}\n`));
+
+    const cleaner = new CacheCleaner(testMode, policyRetentionRules(policy));
+    const result = await cleaner.cleanCache({ ...policyToCleanOptions(policy), dryRun: !execute });
+
+    const expiredTrash = policy.trashMaxAgeDays !== undefined
+      ? filterOlderThan(await listTrash(testMode), policy.trashMaxAgeDays)
+      : [];
+
+    if (result.itemsRemoved.length === 0 && expiredTrash.length === 0) {
+      console.log(chalk.green('✅ Nothing to clean - the cache is within the policy\n'));
+      return;
+    }
+
+    console.log(chalk.bold(execute ? 'Cleaned:\n' : 'Plan:\n'));
+    for (const [type, items] of groupByType(result.itemsRemoved)) {
+      const size = items.reduce((sum, i) => sum + i.size, 0);
+      console.log(`${chalk.yellow(type.padEnd(15))} ${String(items.length).padStart(5)} item(s) ${analyzer.formatBytes(size).padStart(10)}`);
+      items.slice(0, 5).forEach(item => {
+        console.log(chalk.dim(`   ${path.basename(item.path)} - ${item.reason}`));
+      });
+      if (items.length > 5) {
+        console.log(chalk.dim(`   ... and ${items.length - 5} more`));
+      }
+    }
+
+    if (expiredTrash.length > 0) {
+      const size = expiredTrash.reduce((sum, e) => sum + e.size, 0);
+      console.log(`${chalk.red('trash'.padEnd(15))} ${String(expiredTrash.length).padStart(5)} item(s) ${analyzer.formatBytes(size).padStart(10)}`);
+      console.log(chalk.dim(`   Trashed more than ${policy.trashMaxAgeDays} days ago - deleted permanently`));
+    }
+    console.log('');
+
+    if (!execute) {
+      console.log(chalk.yellow.bold('⚠️  This is a DRY RUN. Use --execute to apply changes.\n'));
+      console.log(chalk.dim(loaded.exists
+        ? 'Command: cch cache gc --execute\n'
+        : 'Write the policy to review first: cch cache gc init, then: cch cache gc --execute\n'));
+      return;
+    }
+
+    const freedFromTrash = await deleteFromTrash(expiredTrash, testMode);
+    console.log(`${chalk.bold('Moved to trash:')} ${analyzer.formatBytes(result.totalBytesFreed)}`);
+    console.log(`${chalk.bold('Trash emptied:')}  ${analyzer.formatBytes(freedFromTrash)}\n`);
+  } finally {
+    lock.release();
+  }
+}
+
+function initPolicy(testMode?: boolean): void {
+  const { path: policyPath, exists } = loadRetentionPolicy(testMode);
+  const displayPath = policyPath.replace(os.homedir(), '~');
+
+  if (exists) {
+    console.log(chalk.yellow(`⚠️  ${displayPath} already exists - edit it or remove it first\n`));
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(policyPath), { recursive: true });
+  fs.writeFileSync(policyPath, serializeDefaultPolicy());
+  console.log(chalk.green(`✅ Wrote the default retention policy to ${displayPath}\n`));
+  console.log(chalk.dim('Preview what it would clean: cch cache gc'));
+  console.log(chalk.dim('Run it every day:           cch cache gc install\n'));
+}
+
+function installSchedule(scheduler: string | undefined, interval: string | undefined, testMode?: boolean): void {
+  const resolvedScheduler = parseScheduler(scheduler);
+  const resolvedInterval = (interval || 'daily') as GcInterval;
+  if (!GC_INTERVALS.includes(resolvedInterval)) {
+    throw new Error(`Invalid --interval "${interval}". Use one of: ${GC_INTERVALS.join(', ')}`);
+  }
+
+  // Refuse to schedule a policy that would fail every run, or one nobody wrote
+  loadValidPolicy(testMode, true);
+
+  const location = installGcSchedule(resolvedScheduler, resolvedInterval);
+  console.log(chalk.green(`✅ Scheduled cch cache gc --execute (${resolvedInterval}, ${resolvedScheduler})`));
+  console.log(chalk.dim(`   Installed in ${location.replace(os.homedir(), '~')}`));
+  if (resolvedScheduler === 'cron') {
+    console.log(chalk.dim(`   Output goes to ${getGcLogPath().replace(os.homedir(), '~')}`));
+  } else {
+    console.log(chalk.dim('   Output: journalctl --user -u cch-cache-gc'));
+  }
+  console.log(chalk.dim('   Remove with: cch cache gc uninstall\n'));
+}
+
+function uninstallSchedule(scheduler: string | undefined): void {
+  const resolvedScheduler = parseScheduler(scheduler);
+  if (uninstallGcSchedule(resolvedScheduler)) {
+    console.log(chalk.green(`✅ Removed the scheduled cache gc (${resolvedScheduler})\n`));
+  } else {
+    console.log(chalk.yellow(`⚠️  No scheduled cache gc found in ${resolvedScheduler}\n`));
+  }
+}
+
+function loadValidPolicy(testMode?: boolean, requireFile?: boolean): RetentionPolicyLoadResult {
+  const loaded = loadRetentionPolicy(testMode);
+  if (requireFile && !loaded.exists) {
+    throw new Error(`No retention policy at ${loaded.path.replace(os.homedir(), '~')} - create one with \`cch cache gc init\`, review it, then try again`);
+  }
+  if (loaded.errors.length > 0) {
+    throw new Error(`Invalid retention policy ${loaded.path}:\n  ${loaded.errors.join('\n  ')}`);
+  }
+  return loaded;
+}
+
+function parseScheduler(scheduler: string | undefined): GcScheduler {
+  if (scheduler === undefined) {
+    return detectScheduler();
+  }
+  if (!GC_SCHEDULERS.includes(scheduler as GcScheduler)) {
+    throw new Error(`Invalid --scheduler "${scheduler}". Use one of: ${GC_SCHEDULERS.join(', ')}`);
+  }
+  return scheduler as GcScheduler;
+}
+
+function groupByType(items: CleanupItem[]): Map<string, CleanupItem[]> {
+  const groups = new Map<string, CleanupItem[]>();
+  for (const item of items) {
+    groups.set(item.type, [...(groups.get(item.type) || []), item]);
+  }
+  return groups;
+}
@@ -0,0 +1,129 @@
+/**
+ * Cache mask backups command
+ * Lists, restores and purges the backups written by `cch cache mask-secrets`
+ */
+
+import chalk from 'chalk';
+import * as os from 'os';
+import {
+  listMaskBackups,
+  findMaskBackup,
+  restoreMaskBackup,
+  purgeMaskBackup
+} from '../../services/mask-backups';
+import { formatBytes } from '../../utils/format';
+
+export interface MaskBackupsOptions {
+  action?: string;   // list (default), restore, purge
+  id?: string;       // Run id, "latest", or "all" for purge
+  force?: boolean;
+  testMode?: boolean;
+}
+
+export async function manageMaskBackups(options: MaskBackupsOptions = {}): Promise<void> {
+  try {
+    const action = options.action || 'list';
+
+    if (action === 'list') {
+      await listRuns(options.testMode);
+    } else if (action === 'restore') {
+      await restoreRun(options.id, options.force, options.testMode);
+    } else if (action === 'purge') {
+      await purgeRuns(options.id, options.testMode);
+    } else {
+      console.error(chalk.red(`Unknown action: ${action}`));
+      console.log('Usage: cch cache mask-backups [list|restore <id|latest>|purge <id|all>]');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error managing mask backups:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+async function listRuns(testMode?: boolean): Promise<void> {
+  const runs = await listMaskBackups(testMode);
+
+  console.log(chalk.cyan.bold('\n🗄️  Secret Masking Backups\n'));
+
+  if (runs.length === 0) {
+    console.log(chalk.green('No masking backups found\n'));
+    return;
+  }
+
+  for (const run of runs) {
+    const replacements = run.files.reduce((sum, f) => sum + f.replacements, 0);
+    console.log(`${chalk.yellow(run.id)}  ${new Date(run.createdAt).toLocaleString()}`);
+    console.log(`   ${run.files.length} file(s), ${replacements} secret(s) masked, ${formatBytes(run.size)}`);
+  }
+
+  console.log('');
+  console.log(chalk.dim('Restore: cch cache mask-backups restore <id|latest>'));
+  console.log(chalk.dim('Purge:   cch cache mask-backups purge <id|all>\n'));
+}
+
+async function restoreRun(id: string | undefined, force?: boolean, testMode?: boolean): Promise<void> {
+  if (!id) {
+    console.error(chalk.red('Specify a backup id or "latest"'));
+    console.log('Usage: cch cache mask-backups restore <id|latest> [--force]');
+    process.exit(1);
+  }
+
+  const run = await findMaskBackup(id, testMode);
+  if (!run) {
+    console.error(chalk.red(`No masking backup found for "${id}"`));
+    process.exit(1);
+  }
+
+  console.log(chalk.cyan.bold(`\n♻️  Restoring masking backup ${run.id}\n`));
+
+  const result = await restoreMaskBackup(run, force);
+
+  for (const filePath of result.restored) {
+    console.log(chalk.green(`✓ Restored ${filePath.replace(os.homedir(), '~')}`));
+  }
+  for (const { path: filePath, reason } of result.skipped) {
+    console.log(chalk.yellow(`⚠️  Skipped ${filePath.replace(os.homedir(), '~')}: ${reason}`));
+  }
+
+  console.log('');
+  console.log(`${chalk.bold('Files restored:')} ${result.restored.length}`);
+  if (result.skipped.length > 0) {
+    console.log(`${chalk.bold('Files skipped:')} ${result.skipped.length}`);
+  }
+  console.log(chalk.dim(`\nThe backup is kept - remove it with: cch cache mask-backups purge ${run.id}\n`));
+}
+
+async function purgeRuns(id: string | undefined, testMode?: boolean): Promise<void> {
+  if (!id) {
+    console.error(chalk.red('Specify a backup id, "latest" or "all"'));
+    console.log('Usage: cch cache mask-backups purge <id|latest|all>');
+    process.exit(1);
+  }
+
+  const runs = id === 'all'
+    ? await listMaskBackups(testMode)
+    : [await findMaskBackup(id, testMode)].filter((run): run is NonNullable<typeof run> => run !== undefined);
+
+  if (runs.length === 0) {
+    console.error(chalk.red(`No masking backup found for "${id}"`));
+    process.exit(1);
+  }
+
+  let freed = 0;
+  for (const run of runs) {
+    await purgeMaskBackup(run);
+    freed += run.size;
+    console.log(chalk.green(`✓ Purged ${run.id}`));
+  }
+
+  console.log(`\n${chalk.bold('Space freed:')} ${formatBytes(freed)}\n`);
+}
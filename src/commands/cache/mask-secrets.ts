@@ -4,13 +4,18 @@
  */
 
 import chalk from 'chalk';
-import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { SecretDetector } from '../../services/secret-detector';
+import { SecretDetector, CacheSecretResult } from '../../services/secret-detector';
+import { SecretMasker } from '../../services/secret-masker';
+import { MaskBackupSession, MaskBackupFile } from '../../services/mask-backups';
+import { ActiveSessions } from '../../services/active-sessions';
+import { PromptService } from '../../services/prompt';
+import { promptConfirm, isNonInteractive } from '../../utils/prompt';
 
 export interface MaskSecretsOptions {
   execute?: boolean;
+  force?: boolean;  // Mask every file without asking
   testMode?: boolean;
 }
 
@@ -18,11 +23,11 @@ export async function maskCacheSecrets(options: MaskSecretsOptions = {}): Promis
   try {
     console.log(chalk.cyan.bold('\n🔐 Claude Code Cache Secret Masking\n'));
 
-    const detector = new SecretDetector();
+    const detector = new SecretDetector({ testMode: options.testMode });
 
     console.log('Scanning for secrets...\n');
 
-    const result = await detector.scanCache({});
+    const result = await detector.scanCache({ withValues: true });
 
     if (result.totalSecrets === 0) {
       console.log(chalk.green('✅ No secrets to mask\n'));
@@ -36,7 +41,7 @@ export async function maskCacheSecrets(options: MaskSecretsOptions = {}): Promis
     }
 
     // Group by file
-    const fileGroups = new Map<string, typeof result.results[0]>();
+    const fileGroups = new Map<string, CacheSecretResult>();
     result.results.forEach(r => {
       const existing = fileGroups.get(r.location);
       if (existing) {
@@ -49,6 +54,9 @@ export async function maskCacheSecrets(options: MaskSecretsOptions = {}): Promis
 
     console.log(`Files to modify: ${chalk.cyan(fileGroups.size.toString())}\n`);
 
+    // Files of sessions in use are skipped: replacing them would race with Claude Code appending to them
+    const activeSessions = await ActiveSessions.detect({ testMode: options.testMode });
+
     // Show preview of what will be masked
     if (!options.execute) {
       console.log(chalk.cyan('Preview of files to be modified:\n'));
@@ -59,8 +67,9 @@ export async function maskCacheSecrets(options: MaskSecretsOptions = {}): Promis
           break;
         }
         const locationShort = filePath.replace(os.homedir(), '~');
+        const inUse = activeSessions.reasonFor(filePath);
         console.log(`  ${chalk.yellow(locationShort)}`);
-        console.log(`    ${fileResult.secrets.length} secret(s) - ${fileResult.type}`);
+        console.log(`    ${fileResult.secrets.length} secret(s) - ${fileResult.type}${inUse ? chalk.dim(` - in use, will be skipped (${inUse})`) : ''}`);
         console.log('');
         previewCount++;
       }
@@ -73,61 +82,67 @@ export async function maskCacheSecrets(options: MaskSecretsOptions = {}): Promis
     // Execute masking
     console.log(chalk.yellow.bold('⚠️  About to mask secrets in cache files.\n'));
     console.log(chalk.yellow('This will:'));
-    console.log(chalk.yellow('  • Create backups of all modified files'));
+    console.log(chalk.yellow('  • Back up all modified files to ~/.cch/backups/masked/'));
     console.log(chalk.yellow('  • Replace secrets with masked values'));
     console.log(chalk.yellow('  • Modify files in place\n'));
 
-    // Confirmation prompt (skip in test mode)
-    if (!options.testMode) {
-      console.log(chalk.red.bold('Are you sure you want to continue? (y/N): '));
-      // In a real implementation, we would use readline or similar to get user input
-      // For now, we'll proceed automatically in test mode
-      console.log(chalk.dim('Skipping confirmation in automated mode...\n'));
+    const selectedFiles = await selectFilesToMask(fileGroups, options.force || false);
+    if (!selectedFiles) {
+      return;
     }
 
     let maskedCount = 0;
     let filesModified = 0;
-    let backupsCreated = 0;
     const errors: string[] = [];
 
     console.log('Masking secrets...\n');
 
-    for (const [filePath, fileResult] of fileGroups) {
+    const backups = await MaskBackupSession.create(options.testMode);
+
+    for (const [filePath, fileResult] of selectedFiles) {
+      const locationShort = path.basename(filePath);
+      let backup: MaskBackupFile | undefined;
+
+      const inUse = activeSessions.reasonFor(filePath);
+      if (inUse) {
+        console.log(chalk.yellow(`- Skipped ${locationShort}: in use (${inUse})`));
+        continue;
+      }
+
       try {
-        // Create backup
-        const backupPath = `${filePath}.backup-${Date.now()}`;
-        await fs.promises.copyFile(filePath, backupPath);
-        backupsCreated++;
-
-        // Read file
-        let content = await fs.promises.readFile(filePath, 'utf-8');
-
-        // Mask each secret
-        for (const secret of fileResult.secrets) {
-          // Use a more robust replacement that handles regex special characters
-          const escapedValue = secret.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          content = content.replace(new RegExp(escapedValue, 'g'), secret.maskedValue);
-          maskedCount++;
+        backup = await backups.backup(filePath);
+
+        const masker = new SecretMasker(fileResult.secrets);
+        const { replacements } = await masker.maskFile(filePath, fileResult.type);
+
+        if (replacements === 0) {
+          await backups.discard(backup);
+          console.log(chalk.dim(`- Nothing left to mask in ${locationShort}`));
+          continue;
         }
 
-        // Write back
-        await fs.promises.writeFile(filePath, content, 'utf-8');
+        await backups.complete(backup, replacements);
+        maskedCount += replacements;
         filesModified++;
 
-        const locationShort = path.basename(filePath);
-        console.log(chalk.green(`✓ Masked ${fileResult.secrets.length} secret(s) in ${locationShort}`));
+        console.log(chalk.green(`✓ Masked ${replacements} occurrence(s) in ${locationShort}`));
       } catch (error) {
+        if (backup) {
+          await backups.discard(backup);
+        }
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
         errors.push(`${filePath}: ${errorMsg}`);
-        console.error(chalk.red(`✗ Failed to mask ${path.basename(filePath)}: ${errorMsg}`));
+        console.error(chalk.red(`✗ Failed to mask ${locationShort}: ${errorMsg}`));
       }
     }
 
+    await backups.finish();
+
     console.log('');
     console.log(chalk.green.bold('✅ Secret masking completed!\n'));
     console.log(`${chalk.bold('Files modified:')} ${filesModified}`);
     console.log(`${chalk.bold('Secrets masked:')} ${maskedCount}`);
-    console.log(`${chalk.bold('Backups created:')} ${backupsCreated}`);
+    console.log(`${chalk.bold('Backups created:')} ${filesModified}`);
 
     if (errors.length > 0) {
       console.log('');
@@ -137,8 +152,11 @@ export async function maskCacheSecrets(options: MaskSecretsOptions = {}): Promis
       });
     }
 
-    console.log('');
-    console.log(chalk.dim('Backup files can be found next to the original files with .backup-* extension\n'));
+    if (filesModified > 0) {
+      console.log('');
+      console.log(chalk.dim(`Backups saved to ${backups.path.replace(os.homedir(), '~')}`));
+      console.log(chalk.dim(`Restore with: cch cache mask-backups restore ${backups.id}\n`));
+    }
 
   } catch (error) {
     console.error(chalk.red('\n❌ Error masking secrets:'));
@@ -153,3 +171,54 @@ export async function maskCacheSecrets(options: MaskSecretsOptions = {}): Promis
     process.exit(1);
   }
 }
+
+/**
+ * Ask which files to mask: all of them, a chosen subset, or none
+ * Returns null when masking was cancelled or can't be confirmed
+ */
+export async function selectFilesToMask(
+  fileGroups: Map<string, CacheSecretResult>,
+  force: boolean
+): Promise<Map<string, CacheSecretResult> | null> {
+  if (force) {
+    return fileGroups;
+  }
+
+  if (isNonInteractive()) {
+    console.log(chalk.yellow('Cannot ask for confirmation in a non-interactive session.'));
+    console.log(chalk.dim('Re-run with --force to mask without confirmation:'));
+    console.log(chalk.dim('  cch cache mask-secrets --execute --force\n'));
+    return null;
+  }
+
+  const prompt = new PromptService();
+  const choice = await prompt.select('How do you want to proceed?', [
+    `Mask all ${fileGroups.size} file(s)`,
+    'Choose files to mask',
+    'Abort'
+  ]);
+
+  if (choice === 2) {
+    console.log(chalk.yellow('\nMasking cancelled.\n'));
+    return null;
+  }
+
+  if (choice === 0) {
+    return fileGroups;
+  }
+
+  const entries = [...fileGroups.entries()];
+  const indices = await prompt.multiSelect(
+    '\nSelect files to mask:',
+    entries.map(([filePath, r]) => `${filePath.replace(os.homedir(), '~')} (${r.secrets.length} secret(s), ${r.type})`)
+  );
+  const selected = new Map(indices.map(i => entries[i]));
+
+  const proceed = await promptConfirm(`\nMask secrets in ${selected.size} file(s)?`, true);
+  if (!proceed) {
+    console.log(chalk.yellow('Masking cancelled.\n'));
+    return null;
+  }
+
+  return selected;
+}
@@ -0,0 +1,257 @@
+/**
+ * Cache project command
+ * Inspects a single project's cache: every session with its size, messages, time span,
+ * first prompt, blob share and secrets, and archives or trashes individual sessions
+ */
+
+import chalk from 'chalk';
+import * as os from 'os';
+import * as path from 'path';
+import { CacheAnalyzer, ProjectCache, SessionFile } from '../../services/cache-analyzer';
+import { SessionParser, SessionSummary } from '../../services/session-parser';
+import { SecretDetector } from '../../services/secret-detector';
+import { ActiveSessions } from '../../services/active-sessions';
+import { archiveSessions } from '../../services/session-archive';
+import { moveToTrash } from '../../services/trash';
+
+export interface CacheProjectOptions {
+  target?: string;       // Project name, path or cache directory name
+  archive?: string;      // Session id (or unique prefix) to archive
+  clean?: string;        // Session id (or unique prefix) to move to the trash
+  execute?: boolean;
+  testMode?: boolean;
+}
+
+interface SessionDetails {
+  session: SessionFile;
+  summary?: SessionSummary;
+  blobPercentage?: number;
+  secrets: number;
+  inUse: string | null;
+}
+
+const PROMPT_WIDTH = 70;
+
+export async function cacheProject(options: CacheProjectOptions = {}): Promise<void> {
+  try {
+    if (!options.target) {
+      console.error(chalk.red('Specify the project to inspect'));
+      console.log('Usage: cch cache project <name|path> [--archive <session-id>] [--clean <session-id>] [--execute]');
+      process.exit(1);
+    }
+
+    const analyzer = new CacheAnalyzer(options.testMode);
+    const analysis = await analyzer.analyzeCacheStructure();
+    const matches = findProjects(analysis.projects, options.target);
+
+    if (matches.length === 0) {
+      console.error(chalk.red(`No cached project matches "${options.target}"`));
+      console.log(chalk.dim('List projects with: cch cache analyze --detailed'));
+      process.exit(1);
+    }
+    if (matches.length > 1) {
+      console.error(chalk.red(`"${options.target}" matches ${matches.length} projects - use the full path:`));
+      matches.slice(0, 10).forEach(p => console.log(`   ${p.projectPath.replace(os.homedir(), '~')}  ${chalk.dim(path.basename(p.cachePath))}`));
+      process.exit(1);
+    }
+
+    const project = matches[0];
+    const activeSessions = await ActiveSessions.detect({ testMode: options.testMode });
+
+    if (options.archive || options.clean) {
+      await runSessionAction(project, activeSessions, analyzer, options);
+      return;
+    }
+
+    await showProject(project, activeSessions, analyzer, options.testMode);
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error inspecting project cache:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+async function showProject(
+  project: ProjectCache,
+  activeSessions: ActiveSessions,
+  analyzer: CacheAnalyzer,
+  testMode?: boolean
+): Promise<void> {
+  const parser = new SessionParser();
+  const detector = new SecretDetector({ testMode });
+  const sessions = [...project.sessions].sort((a, b) => b.modified.getTime() - a.modified.getTime());
+  const secrets = await detector.scanSessionFilesIndexed(sessions.map(s => s.filePath));
+
+  const details: SessionDetails[] = [];
+  for (const session of sessions) {
+    const entry: SessionDetails = {
+      session,
+      secrets: secrets.get(session.filePath)?.length || 0,
+      inUse: activeSessions.reasonForSession(session.sessionId)
+    };
+    try {
+      entry.summary = await parser.summarizeSession(session.filePath);
+      entry.blobPercentage = (await parser.analyzeSessionBlobs(session.filePath)).blobPercentage;
+    } catch {
+      // Unreadable session; show what the file system knows
+    }
+    details.push(entry);
+  }
+
+  const agentCount = sessions.filter(s => s.isAgent).length;
+  const secretTotal = details.reduce((sum, d) => sum + d.secrets, 0);
+  const status = project.isActive ? chalk.green('current project')
+    : project.isOrphaned ? chalk.red('orphaned (project directory is gone)')
+    : project.pathConfidence === 'certain' ? 'exists'
+    : chalk.yellow(`path ${project.pathConfidence === 'likely' ? 'probably' : 'possibly'} ${project.projectPath.replace(os.homedir(), '~')}`);
+
+  console.log(chalk.cyan.bold(`\n📁 ${project.projectName}\n`));
+  console.log(`${chalk.bold('Path:')}      ${project.projectPath.replace(os.homedir(), '~')}`);
+  console.log(`${chalk.bold('Cache:')}     ${project.cachePath.replace(os.homedir(), '~')}`);
+  console.log(`${chalk.bold('Status:')}    ${status}`);
+  console.log(`${chalk.bold('Sessions:')}  ${sessions.length} (${sessions.length - agentCount} main, ${agentCount} agent)`);
+  console.log(`${chalk.bold('Size:')}      ${analyzer.formatBytes(project.totalSize)}`);
+  console.log(`${chalk.bold('Secrets:')}   ${secretTotal > 0 ? chalk.red(secretTotal.toString()) : chalk.green('0')}`);
+  console.log('');
+
+  if (details.length === 0) {
+    console.log(chalk.green('No sessions cached for this project\n'));
+    return;
+  }
+
+  console.log(chalk.bold('━━━ SESSIONS ━━━'));
+  for (const { session, summary, blobPercentage, secrets: secretCount, inUse } of details) {
+    const tags = [
+      session.isAgent ? chalk.dim('[agent]') : '',
+      inUse ? chalk.yellow('[IN USE]') : ''
+    ].filter(Boolean).join(' ');
+
+    console.log(`${chalk.yellow(session.sessionId)}  ${analyzer.formatBytes(session.size).padStart(10)}  ${tags}`);
+
+    const facts = [
+      summary ? `${summary.messageCount} messages` : 'unreadable',
+      formatSpan(summary, session, analyzer),
+      blobPercentage !== undefined ? `${blobPercentage.toFixed(0)}% blobs` : null,
+      secretCount > 0 ? chalk.red(`${secretCount} secret(s)`) : null
+    ].filter(Boolean).join(' · ');
+    console.log(`   ${facts}`);
+
+    if (summary?.firstPrompt) {
+      console.log(chalk.dim(`   "${truncate(summary.firstPrompt, PROMPT_WIDTH)}"`));
+    }
+  }
+  console.log('');
+
+  console.log(chalk.dim('Archive a session:     cch cache project <project> --archive <session-id>'));
+  console.log(chalk.dim('Move one to the trash: cch cache project <project> --clean <session-id>'));
+  console.log(chalk.dim('Strip its blobs:       cch blob clean --session <session-id>\n'));
+}
+
+async function runSessionAction(
+  project: ProjectCache,
+  activeSessions: ActiveSessions,
+  analyzer: CacheAnalyzer,
+  options: CacheProjectOptions
+): Promise<void> {
+  const action = options.archive ? 'archive' : 'clean';
+  const id = (options.archive || options.clean)!;
+
+  const exact = project.sessions.filter(s => s.sessionId === id);
+  const matches = exact.length > 0 ? exact : project.sessions.filter(s => s.sessionId.startsWith(id));
+  if (matches.length === 0) {
+    console.error(chalk.red(`No session "${id}" in ${project.projectName}`));
+    process.exit(1);
+  }
+  if (matches.length > 1) {
+    console.error(chalk.red(`"${id}" matches ${matches.length} sessions - use more of the id:`));
+    matches.slice(0, 10).forEach(s => console.log(`   ${s.sessionId}`));
+    process.exit(1);
+  }
+
+  const session = matches[0];
+  const inUse = activeSessions.reasonForSession(session.sessionId);
+  if (inUse) {
+    console.error(chalk.red(`Session ${session.sessionId} is in use (${inUse}) - leaving it alone`));
+    process.exit(1);
+  }
+
+  const verb = action === 'archive' ? 'Archive' : 'Move to trash';
+  console.log(chalk.cyan.bold(`\n📁 ${project.projectName}\n`));
+  console.log(`${verb}: ${chalk.yellow(session.sessionId)} (${analyzer.formatBytes(session.size)}, last used ${analyzer.formatDate(session.modified)})\n`);
+
+  if (!options.execute) {
+    console.log(chalk.yellow.bold('⚠️  This is a DRY RUN. Use --execute to apply changes.\n'));
+    console.log(chalk.dim(`Command: cch cache project "${options.target}" --${action} ${session.sessionId} --execute\n`));
+    return;
+  }
+
+  if (action === 'archive') {
+    const result = await archiveSessions([{
+      sessionId: session.sessionId,
+      filePath: session.filePath,
+      projectPath: project.projectPath,
+      reason: 'archived from cch cache project'
+    }], options.testMode);
+
+    if (result.archived.length === 0) {
+      const reason = result.skipped[0]?.reason || 'unknown reason';
+      console.error(chalk.red(`Session was not archived: ${reason}`));
+      process.exit(1);
+    }
+    const archived = result.archived[0];
+    console.log(chalk.green(`✅ Archived (${analyzer.formatBytes(archived.size)} → ${analyzer.formatBytes(archived.compressedSize)})`));
+    console.log(chalk.dim(`   Restore it with: cch cache unarchive ${session.sessionId}\n`));
+  } else {
+    const entry = await moveToTrash({
+      type: 'session',
+      path: session.filePath,
+      size: session.size,
+      reason: 'removed with cch cache project',
+      safety: 'safe'
+    }, options.testMode);
+    console.log(chalk.green(`✅ Moved to the trash (${analyzer.formatBytes(entry.size)})`));
+    console.log(chalk.dim(`   Restore it with: cch trash restore ${entry.id}\n`));
+  }
+}
+
+/**
+ * Projects matching a name, path or cache directory name
+ * Exact matches win; otherwise a case-insensitive name or path substring is tried
+ */
+function findProjects(projects: ProjectCache[], target: string): ProjectCache[] {
+  const expanded = target.startsWith('~') ? path.join(os.homedir(), target.slice(1)) : target;
+  const resolved = path.resolve(expanded).replace(/\/+$/, '');
+  const lower = target.toLowerCase();
+
+  const exact = projects.filter(p =>
+    p.projectPath === resolved ||
+    path.basename(p.cachePath) === target ||
+    p.projectName.toLowerCase() === lower
+  );
+  if (exact.length > 0) {
+    return exact;
+  }
+
+  return projects.filter(p =>
+    p.projectName.toLowerCase().includes(lower) || p.projectPath.toLowerCase().includes(lower)
+  );
+}
+
+function formatSpan(summary: SessionSummary | undefined, session: SessionFile, analyzer: CacheAnalyzer): string {
+  const from = summary?.firstTimestamp || session.created;
+  const to = summary?.lastTimestamp || session.modified;
+  const first = analyzer.formatDate(from);
+  const last = analyzer.formatDate(to);
+  return first === last ? first : `${first} → ${last}`;
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
@@ -0,0 +1,51 @@
+/**
+ * Blob prune command
+ * Removes payloads from the blob store that no session, backup, trashed item or archive references
+ */
+
+import chalk from 'chalk';
+import { BlobStore } from '../../services/blob-store';
+import { formatBytes } from '../../utils/format';
+
+export interface PruneBlobsOptions {
+  execute?: boolean;
+  testMode?: boolean;
+}
+
+export async function pruneBlobs(options: PruneBlobsOptions = {}): Promise<void> {
+  try {
+    const store = new BlobStore(options.testMode);
+
+    console.log(chalk.bold.cyan('\n✂️  Prune Blob Store\n'));
+    console.log('Searching sessions, backups, trash and archives for blob references...\n');
+
+    const before = await store.getStats();
+    const result = await store.prune({ dryRun: !options.execute });
+
+    console.log(chalk.bold('━━━ SUMMARY ━━━'));
+    console.log(`Blob store:               ${before.blobs} blob(s), ${formatBytes(before.size)}`);
+    console.log(`Still referenced:         ${result.referenced}`);
+    console.log(`${(options.execute ? 'Unreferenced removed:' : 'Unreferenced:').padEnd(26)}${result.unreferenced.length}`);
+    console.log(`${(options.execute ? 'Space freed:' : 'Space to free:').padEnd(26)}${chalk.bold.green(formatBytes(result.freed))}`);
+    console.log('');
+
+    if (result.unreferenced.length === 0) {
+      console.log(chalk.green('✅ Every stored blob is still referenced\n'));
+    } else if (!options.execute) {
+      console.log(chalk.yellow.bold('⚠️  This is a DRY RUN. Use --execute to apply changes.\n'));
+      console.log(chalk.dim('Command: cch blob prune --execute\n'));
+    }
+
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error pruning blobs:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
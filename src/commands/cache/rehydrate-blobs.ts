@@ -0,0 +1,122 @@
+/**
+ * Blob rehydrate command
+ * Puts payloads moved out by `cch blob clean --dedup` back into the session files
+ */
+
+import chalk from 'chalk';
+import path from 'path';
+import { BlobStore } from '../../services/blob-store';
+import { CacheAnalyzer } from '../../services/cache-analyzer';
+import { ActiveSessions } from '../../services/active-sessions';
+
+export interface RehydrateBlobsOptions {
+  session?: string;
+  project?: string;
+  execute?: boolean;
+  testMode?: boolean;
+}
+
+export async function rehydrateBlobs(options: RehydrateBlobsOptions = {}): Promise<void> {
+  try {
+    const store = new BlobStore(options.testMode);
+    const analyzer = new CacheAnalyzer(options.testMode);
+    const analysis = await analyzer.analyzeCacheStructure();
+
+    console.log(chalk.bold.cyan('\n💧 Rehydrate Deduplicated Blobs\n'));
+
+    let projects = analysis.projects;
+    if (options.project) {
+      const name = options.project.toLowerCase();
+      projects = projects.filter(p => p.projectName.toLowerCase() === name);
+      if (projects.length === 0) {
+        console.error(chalk.red(`❌ Project not found: ${options.project}`));
+        process.exit(1);
+      }
+    }
+
+    let sessions = projects.flatMap(p => p.sessions);
+    if (options.session) {
+      sessions = sessions.filter(s => s.sessionId === options.session || s.sessionId.startsWith(options.session!));
+      if (sessions.length === 0) {
+        console.error(chalk.red(`❌ Session not found: ${options.session}`));
+        process.exit(1);
+      }
+    }
+
+    const withReferences: string[] = [];
+    for (const session of sessions) {
+      if (await store.hasReferences(session.filePath)) {
+        withReferences.push(session.filePath);
+      }
+    }
+
+    if (withReferences.length === 0) {
+      console.log(chalk.green('✅ No sessions reference the blob store\n'));
+      return;
+    }
+
+    // A running Claude Code keeps appending to its session; rewriting it would lose lines
+    const activeSessions = await ActiveSessions.detect({ testMode: options.testMode });
+    let totalRestored = 0;
+    let totalGrowth = 0;
+    const missing = new Set<string>();
+
+    for (const sessionPath of withReferences) {
+      const sessionName = path.basename(sessionPath, '.jsonl');
+      const inUse = activeSessions.reasonFor(sessionPath);
+      if (inUse) {
+        console.log(chalk.yellow(`⚠️  Skipping ${sessionName} - in use (${inUse})`));
+        continue;
+      }
+
+      try {
+        const result = await store.rehydrateSession(sessionPath, { dryRun: !options.execute });
+        totalRestored += result.restored;
+        totalGrowth += result.newSize - result.originalSize;
+        result.missing.forEach(sha256 => missing.add(sha256));
+
+        const status = options.execute ? chalk.green('✓') : chalk.yellow('[DRY RUN]');
+        console.log(`${status} ${sessionName}  ${result.restored} blob(s), ${analyzer.formatBytes(result.originalSize)} → ${analyzer.formatBytes(result.newSize)}`);
+        if (result.missing.length > 0) {
+          console.log(chalk.red(`   ${result.missing.length} blob(s) missing from the store - left as references`));
+        }
+      } catch (error) {
+        console.log(`${chalk.red('✗')} ${sessionName}  ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const stats = await store.getStats();
+    console.log('');
+    console.log(chalk.bold('━━━ SUMMARY ━━━'));
+    console.log(`Sessions with references: ${withReferences.length}`);
+    console.log(`${(options.execute ? 'Blobs restored:' : 'Blobs to restore:').padEnd(26)}${totalRestored}`);
+    console.log(`Session growth:           ${analyzer.formatBytes(totalGrowth)}`);
+    if (missing.size > 0) {
+      console.log(`Missing from store:       ${chalk.red(missing.size.toString())}`);
+    }
+    console.log(`Blob store:               ${stats.blobs} blob(s), ${analyzer.formatBytes(stats.size)}`);
+    console.log('');
+
+    if (!options.execute) {
+      console.log(chalk.yellow.bold('⚠️  This is a DRY RUN. Use --execute to apply changes.\n'));
+      const flags = `${options.project ? ` --project ${options.project}` : ''}${options.session ? ` --session ${options.session}` : ''}`;
+      console.log(chalk.dim(`Command: cch blob rehydrate${flags} --execute\n`));
+    } else {
+      // Other sessions may still reference the same payloads, so the store is kept
+      console.log(chalk.dim('Blobs stay in ~/.cch/blobs, other sessions may share them'));
+      console.log(chalk.dim('Remove the ones nothing references with: cch blob prune\n'));
+    }
+
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error rehydrating blobs:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
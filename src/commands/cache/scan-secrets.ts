@@ -5,19 +5,39 @@
 
 import chalk from 'chalk';
 import * as os from 'os';
-import { SecretDetector } from '../../services/secret-detector';
+import { SecretDetector, DetectedSecret } from '../../services/secret-detector';
+import { createDefaultVerifierRegistry, VerificationStatus } from '../../services/secret-verifiers';
+import { ReportFormat, toCacheSecretsJson, toCacheSecretsSarif, toCacheSecretsMarkdown } from '../../services/report-formats';
 
 export interface ScanSecretsOptions {
   testMode?: boolean;
+  full?: boolean;     // Rescan every file instead of reusing the scan index
+  verify?: boolean;   // Run offline format/checksum verifiers on each finding
+  network?: boolean;  // Also ask providers whether credentials are live (implies verify)
+  format?: ReportFormat;
 }
 
+const STATUS_LABELS: Record<VerificationStatus, string> = {
+  active: chalk.red.bold('ACTIVE'),
+  revoked: chalk.green('revoked'),
+  invalid: chalk.gray('invalid'),
+  unknown: chalk.yellow('unverified')
+};
+
 export async function scanCacheSecrets(options: ScanSecretsOptions = {}): Promise<void> {
   try {
+    if (options.format && options.format !== 'text') {
+      await printReport(options);
+      return;
+    }
+
     console.log(chalk.cyan.bold('\n🔐 Claude Code Cache Secret Scan\n'));
 
-    const detector = new SecretDetector();
+    const detector = new SecretDetector({ testMode: options.testMode });
 
     const result = await detector.scanCache({
+      full: options.full,
+      withValues: options.verify || options.network,
       progressCallback: (p) => {
         // Create progress bar
         const barWidth = 20;
@@ -38,6 +58,11 @@ export async function scanCacheSecrets(options: ScanSecretsOptions = {}): Promis
       }
     });
 
+    if (result.indexStats.hits > 0) {
+      console.log(chalk.gray(`Reused ${result.indexStats.hits} unchanged file(s) from the scan index, scanned ${result.indexStats.misses}`));
+      console.log(chalk.gray('Use --full to rescan everything\n'));
+    }
+
     // Display results
     if (result.totalSecrets === 0) {
       console.log(chalk.green.bold('✅ No secrets found in cache!\n'));
@@ -49,6 +74,10 @@ export async function scanCacheSecrets(options: ScanSecretsOptions = {}): Promis
     console.log(`High confidence: ${chalk.red.bold(result.highConfidenceCount)}`);
     console.log('');
 
+    if (options.verify || options.network) {
+      await verifyFindings(result.results.flatMap(r => r.secrets), options.network || false);
+    }
+
     // Breakdown by location
     console.log(chalk.cyan('Breakdown by location:'));
     if (result.locationBreakdown.sessions > 0) {
@@ -63,6 +92,9 @@ export async function scanCacheSecrets(options: ScanSecretsOptions = {}): Promis
     if (result.locationBreakdown.fileHistory > 0) {
       console.log(`  📝 File history: ${result.locationBreakdown.fileHistory}`);
     }
+    if (result.locationBreakdown.projectFiles > 0) {
+      console.log(`  ⚙️  Project files (settings, .mcp.json, CLAUDE.md): ${result.locationBreakdown.projectFiles}`);
+    }
     console.log('');
 
     // Show top 10 secret locations
@@ -77,7 +109,12 @@ export async function scanCacheSecrets(options: ScanSecretsOptions = {}): Promis
 
         // Show first secret as example
         if (r.secrets[0]) {
-          console.log(`   Example: ${chalk.red(r.secrets[0].type)} - ${r.secrets[0].maskedValue}`);
+          const status = r.secrets[0].verification ? ` [${STATUS_LABELS[r.secrets[0].verification.status]}]` : '';
+          console.log(`   Example: ${chalk.red(r.secrets[0].type)} - ${r.secrets[0].maskedValue}${status}`);
+          if (r.secrets[0].lineNumber) {
+            const jsonPath = r.secrets[0].jsonPath ? ` at ${r.secrets[0].jsonPath}` : '';
+            console.log(`   ${chalk.dim(`Line ${r.secrets[0].lineNumber}${jsonPath}`)}`);
+          }
         }
         console.log('');
       });
@@ -101,3 +138,53 @@ export async function scanCacheSecrets(options: ScanSecretsOptions = {}): Promis
     process.exit(1);
   }
 }
+
+/**
+ * Scan without progress output and print a JSON, SARIF or Markdown report
+ */
+async function printReport(options: ScanSecretsOptions): Promise<void> {
+  const detector = new SecretDetector({ testMode: options.testMode });
+  const result = await detector.scanCache({ full: options.full, withValues: options.verify || options.network });
+
+  if (options.verify || options.network) {
+    await createDefaultVerifierRegistry().verifyAll(
+      result.results.flatMap(r => r.secrets),
+      { network: options.network || false }
+    );
+  }
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(toCacheSecretsJson(result), null, 2));
+  } else if (options.format === 'sarif') {
+    console.log(JSON.stringify(toCacheSecretsSarif(result), null, 2));
+  } else {
+    console.log(toCacheSecretsMarkdown(result));
+  }
+}
+
+/**
+ * Annotate findings with verifier results and print a status summary
+ */
+async function verifyFindings(secrets: DetectedSecret[], network: boolean): Promise<void> {
+  console.log(chalk.cyan(network
+    ? 'Verifying credentials with their providers...'
+    : 'Verifying credential formats offline (add --network to check with providers)...'));
+
+  await createDefaultVerifierRegistry().verifyAll(secrets, { network });
+
+  const counts: Record<VerificationStatus, number> = { active: 0, revoked: 0, invalid: 0, unknown: 0 };
+  for (const secret of secrets) {
+    counts[secret.verification!.status]++;
+  }
+
+  console.log(chalk.cyan('Verification:'));
+  for (const status of Object.keys(counts) as VerificationStatus[]) {
+    if (counts[status] > 0) {
+      console.log(`  ${STATUS_LABELS[status]}: ${counts[status]}`);
+    }
+  }
+  if (counts.active > 0) {
+    console.log(chalk.red.bold('  Rotate ACTIVE credentials first - they still work'));
+  }
+  console.log('');
+}
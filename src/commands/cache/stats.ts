@@ -5,6 +5,8 @@
 
 import chalk from 'chalk';
 import { CacheAnalyzer } from '../../services/cache-analyzer';
+import { recordAnalysis } from '../../services/cache-history';
+import { BlobStore } from '../../services/blob-store';
 
 export interface CacheStatsOptions {
   testMode?: boolean;
@@ -14,6 +16,7 @@ export async function cacheStats(options: CacheStatsOptions = {}): Promise<void>
   try {
     const analyzer = new CacheAnalyzer(options.testMode);
     const analysis = await analyzer.analyzeCacheStructure();
+    recordAnalysis(analysis, options.testMode);
 
     console.log(chalk.bold.cyan('\n📊 Cache Quick Stats\n'));
 
@@ -25,6 +28,12 @@ export async function cacheStats(options: CacheStatsOptions = {}): Promise<void>
     console.log(`${chalk.bold('Projects:')} ${analysis.overview.totalProjects}`);
     console.log(`${chalk.bold('Sessions:')} ${analysis.overview.totalSessions}`);
 
+    // Deduplicated payloads live in ~/.cch/blobs, outside the total above
+    const blobStore = await new BlobStore(options.testMode).getStats();
+    if (blobStore.blobs > 0) {
+      console.log(`${chalk.bold('Blob Store:')} ${analyzer.formatBytes(blobStore.size)} in ${blobStore.blobs} blob(s) ${chalk.dim('(~/.cch/blobs)')}`);
+    }
+
     // Top components
     const components = [
       { name: 'Projects', size: analysis.projects.reduce((sum, p) => sum + p.totalSize, 0) },
@@ -68,6 +77,7 @@ export async function cacheStats(options: CacheStatsOptions = {}): Promise<void>
       console.log(chalk.bold(`Potential Savings: ${chalk.green(analyzer.formatBytes(analysis.potentialSavings))}`));
       console.log(chalk.dim('Run `cch cache analyze` for detailed analysis'));
     }
+    console.log(chalk.dim('Run `cch cache trend` to see how the cache has grown'));
 
     console.log('');
 
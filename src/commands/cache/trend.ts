@@ -0,0 +1,125 @@
+/**
+ * Cache trend command
+ * Shows how the cache has grown across the snapshots recorded by `cache stats`/`cache analyze`
+ */
+
+import chalk from 'chalk';
+import path from 'path';
+import { CacheAnalyzer } from '../../services/cache-analyzer';
+import { computeTrend, loadSnapshots, CacheSnapshot } from '../../services/cache-history';
+import { parseSize } from '../../services/cache-budget';
+
+export interface CacheTrendOptions {
+  days?: number;         // Only look at the last N days
+  threshold?: string;    // Size to project, e.g. "2GB" (default 1GB)
+  testMode?: boolean;
+}
+
+const DEFAULT_THRESHOLD = '1GB';
+const SPARK_CHARS = '▁▂▃▄▅▆▇█';
+const SPARK_WIDTH = 40;
+
+export async function cacheTrend(options: CacheTrendOptions = {}): Promise<void> {
+  try {
+    const analyzer = new CacheAnalyzer(options.testMode);
+    const threshold = parseSize(options.threshold || DEFAULT_THRESHOLD);
+    const snapshots = loadSnapshots(options.testMode);
+    const trend = computeTrend(snapshots, { days: options.days, threshold });
+
+    console.log(chalk.bold.cyan('\n📈 Cache Growth Trend\n'));
+
+    if (!trend) {
+      console.log(chalk.yellow(options.days !== undefined
+        ? `Fewer than two snapshots in the last ${options.days} days (${snapshots.length} recorded in total).`
+        : `Not enough history yet (${snapshots.length} snapshot(s) recorded).`));
+      console.log(chalk.dim('A snapshot is recorded each time `cch cache stats` or `cch cache analyze` runs (at most one per hour).\n'));
+      return;
+    }
+
+    const { first, last } = trend;
+    const change = last.totalSize - first.totalSize;
+    console.log(`${chalk.bold('Period:')}      ${formatDate(first.takenAt)} → ${formatDate(last.takenAt)} (${trend.spanDays.toFixed(1)} days, ${trend.snapshots.length} snapshots)`);
+    console.log(`${chalk.bold('Total size:')}  ${analyzer.formatBytes(first.totalSize)} → ${chalk.cyan(analyzer.formatBytes(last.totalSize))} (${formatChange(change, analyzer)})`);
+    console.log(`${chalk.bold('Sessions:')}    ${first.sessions} → ${last.sessions}`);
+    console.log(`${chalk.bold('Growth rate:')} ${formatChange(trend.growthPerDay, analyzer)}/day`);
+    console.log(chalk.dim(`             ${sparkline(trend.snapshots)}`));
+    console.log('');
+
+    const categories = trend.categories.filter(c => c.from > 0 || c.to > 0).sort((a, b) => b.change - a.change);
+    if (categories.length > 0) {
+      console.log(chalk.bold('━━━ BY CATEGORY ━━━'));
+      categories.forEach(c => {
+        console.log(`${c.name.padEnd(18)} ${analyzer.formatBytes(c.from).padStart(10)} → ${analyzer.formatBytes(c.to).padStart(10)}  ${formatChange(c.change, analyzer)}`);
+      });
+      console.log('');
+    }
+
+    const growing = trend.projects.filter(p => p.change > 0).slice(0, 5);
+    if (growing.length > 0) {
+      console.log(chalk.bold('━━━ FASTEST-GROWING PROJECTS ━━━'));
+      growing.forEach((p, index) => {
+        const perDay = trend.spanDays > 0 ? ` ${chalk.dim(`(${formatChange(p.change / trend.spanDays, analyzer)}/day)`)}` : '';
+        console.log(`${(index + 1).toString().padStart(2)}. ${path.basename(p.name).padEnd(30)} ${analyzer.formatBytes(p.to).padStart(10)}  ${formatChange(p.change, analyzer)}${perDay}`);
+        console.log(chalk.dim(`    ${p.name}`));
+      });
+      console.log('');
+    }
+
+    const projection = trend.projection!;
+    console.log(chalk.bold('━━━ PROJECTION ━━━'));
+    if (projection.exceeded) {
+      console.log(chalk.red(`❗ Already over ${analyzer.formatBytes(projection.threshold)}`));
+      console.log(chalk.dim('   Run `cch cache clean --budget <size>` to get back under it'));
+    } else if (projection.reachedAt) {
+      const days = Math.ceil((projection.reachedAt.getTime() - Date.parse(last.takenAt)) / (24 * 60 * 60 * 1000));
+      console.log(chalk.yellow(`⚠️  Reaches ${analyzer.formatBytes(projection.threshold)} around ${projection.reachedAt.toLocaleDateString()} (in ~${days} days at the current rate)`));
+    } else {
+      console.log(chalk.green(`✅ Not growing - stays under ${analyzer.formatBytes(projection.threshold)} at the current rate`));
+    }
+    if (!options.threshold) {
+      console.log(chalk.dim('   Use --threshold <size> to project a different size'));
+    }
+    console.log('');
+
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error showing cache trend:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+function formatChange(bytes: number, analyzer: CacheAnalyzer): string {
+  if (Math.round(bytes) === 0) {
+    return chalk.dim('±0 B');
+  }
+  const text = `${bytes > 0 ? '+' : '-'}${analyzer.formatBytes(Math.abs(Math.round(bytes)))}`;
+  return bytes > 0 ? chalk.red(text) : chalk.green(text);
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString();
+}
+
+/**
+ * Total size over time, resampled to at most SPARK_WIDTH characters
+ */
+function sparkline(snapshots: CacheSnapshot[]): string {
+  const step = Math.max(1, snapshots.length / SPARK_WIDTH);
+  const sizes: number[] = [];
+  for (let i = 0; i < snapshots.length; i += step) {
+    sizes.push(snapshots[Math.floor(i)].totalSize);
+  }
+
+  const min = Math.min(...sizes);
+  const range = Math.max(...sizes) - min;
+  return sizes
+    .map(size => SPARK_CHARS[range === 0 ? 0 : Math.round(((size - min) / range) * (SPARK_CHARS.length - 1))])
+    .join('');
+}
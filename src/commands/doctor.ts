@@ -9,6 +9,8 @@ import { promptUser } from '../utils/prompt';
 import * as backup from './config/backup';
 import { LoggerService } from '../services/logger';
 import { ConfigService } from '../services/config';
+import { SecretDetector } from '../services/secret-detector';
+import { loadSecretRules, emptySecretRules } from '../services/secret-rules';
 
 interface AnalysisResult {
   wrapping: WrappingIssue[];
@@ -140,7 +142,39 @@ async function runSystemDiagnostics(testMode: boolean): Promise<void> {
     const exists = fs.existsSync(file.path);
     report.push(`${file.name}: ${exists ? '✅' : '❌'} ${file.path}`);
   }
-  
+
+  // Secret Rules
+  report.push('\n🔐 Secret Rules');
+  report.push('-'.repeat(30));
+
+  const secretRules = loadSecretRules(testMode);
+  if (!secretRules.exists) {
+    report.push(`Rules File: (not set) ${secretRules.path}`);
+  } else {
+    const { rules } = secretRules;
+    const knownPatterns = new Set([
+      ...new SecretDetector({ rules: emptySecretRules() }).getPatterns().map(p => p.name),
+      ...rules.patterns.map(p => p.name)
+    ]);
+    const unknownDisabled = rules.disabled.filter(name => !knownPatterns.has(name));
+
+    report.push(`Rules File: ${secretRules.errors.length === 0 ? '✅' : '❌'} ${secretRules.path}`);
+    report.push(`Custom Patterns: ${rules.patterns.length}`);
+    report.push(`Disabled Built-ins: ${rules.disabled.length > 0 ? rules.disabled.join(', ') : 'none'}`);
+    report.push(`Allowlist: ${rules.allowlist.values.length} values, ${rules.allowlist.paths.length} paths, ${rules.allowlist.hashes.length} hashes`);
+    report.push(rules.entropy.enabled
+      ? `Entropy Detection: hex ≥ ${rules.entropy.hex.threshold}, base64 ≥ ${rules.entropy.base64.threshold}` +
+        ` (off for ${rules.entropy.disabledLocations.join(', ') || 'no locations'})`
+      : 'Entropy Detection: disabled');
+
+    for (const error of secretRules.errors) {
+      report.push(`  ❌ ${error}`);
+    }
+    for (const name of unknownDisabled) {
+      report.push(`  ⚠️ disabled: "${name}" does not match any pattern`);
+    }
+  }
+
   // Log Analysis
   report.push('\n📋 Log Analysis');
   report.push('-'.repeat(30));
@@ -1,7 +1,7 @@
 import fs from 'fs';
 import path from 'path';
-import { glob } from 'glob';
 import { logger } from '../utils/logger';
+import { findClaudeFiles } from '../services/claude-files';
 
 interface SettingsFile {
   permissions?: {
@@ -89,26 +89,13 @@ export async function fixSettings(options: { execute?: boolean; verbose?: boolea
 }
 
 async function findSettingsFiles(): Promise<string[]> {
-  const files: string[] = [];
-  
-  // Global settings
-  const globalSettings = path.join(process.env.HOME!, '.claude', 'settings.json');
-  if (fs.existsSync(globalSettings)) {
-    files.push(globalSettings);
-  }
-  
-  // Find all .claude/settings*.json files, excluding node_modules
-  const pattern = '**/.claude/settings*.json';
-  const foundFiles = await glob(pattern, {
-    ignore: ['**/node_modules/**', '**/dist/**', '**/build/**'],
-    absolute: true,
-    cwd: process.cwd()
+  // Global settings plus every .claude/settings*.json below the current directory
+  const files = await findClaudeFiles({
+    kinds: ['settings'],
+    knownProjects: false,
+    searchRoot: process.cwd()
   });
-  
-  files.push(...foundFiles);
-  
-  // Remove duplicates
-  return [...new Set(files)];
+  return files.map(file => file.path);
 }
 
 function fixRule(rule: string): { fixed: string; changes: string[] } {
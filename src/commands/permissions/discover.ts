@@ -1,8 +1,17 @@
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import chalk from 'chalk';
-import { loadClaudeConfig, loadBaseCommands, saveBaseCommands } from '../../core/config';
+import { loadClaudeConfig, loadBaseCommands, saveBaseCommands, saveClaudeConfig } from '../../core/config';
+import { getBaseDir } from '../../core/paths';
+import { checkCommandSafety, PermissionSafety } from '../../core/guards';
+import { CacheAnalyzer } from '../../services/cache-analyzer';
+import { analyzeToolUsage, recommendPermissions, ToolUsageProject } from '../../services/tool-usage';
+import { createBackup } from '../../services/backup';
 import { logger } from '../../utils/logger';
 import { promptUser } from '../../utils/prompt';
+import { projectMatchesPatterns } from '../../utils/patterns';
+import { parseDateOption } from '../../utils/dates';
 import { applyPermissions } from './apply';
 
 interface PermissionFrequency {
@@ -136,4 +145,188 @@ export async function suggestCommands(testMode: boolean = false): Promise<void>
       logger.info('Run ' + chalk.cyan('cch -ap') + ' to apply these to all projects');
     }
   }
-}
\ No newline at end of file
+}
+
+export interface UsageSuggestionOptions {
+  since?: string;        // YYYY-MM-DD or a number of days (default 30d)
+  project?: string;      // Project name or path globs, comma separated
+  minCalls?: number;     // Prompted calls before a rule is suggested (default 3)
+  prune?: boolean;       // Also remove unused project rules when executing
+  execute?: boolean;
+  testMode?: boolean;
+}
+
+/**
+ * Suggest permissions from the tools sessions actually ran: rules for calls that kept
+ * prompting, and project rules nothing used in the window
+ */
+export async function suggestFromUsage(options: UsageSuggestionOptions = {}): Promise<void> {
+  try {
+    const testMode = options.testMode || false;
+    const sinceOption = options.since || '30d';
+    const since = parseDateOption(sinceOption, 'since');
+    if (options.minCalls !== undefined && (!Number.isInteger(options.minCalls) || options.minCalls < 1)) {
+      throw new Error('--min-calls must be a positive number');
+    }
+    const config = await loadClaudeConfig(testMode);
+    const basePermissions = await loadBaseCommands(testMode);
+    const userRules = readSettingsAllowRules(path.join(getBaseDir(testMode), '.claude', 'settings.json'));
+
+    const analysis = await new CacheAnalyzer(testMode).analyzeCacheStructure();
+    const projects: ToolUsageProject[] = [];
+    for (const project of analysis.projects) {
+      if (options.project && !projectMatchesPatterns(project.projectName, options.project) &&
+          !projectMatchesPatterns(project.projectPath, options.project)) continue;
+
+      const sessionFiles = project.sessions.filter(session => session.modified >= since).map(session => session.filePath);
+      if (sessionFiles.length === 0) continue;
+
+      projects.push({
+        projectName: project.projectName,
+        projectPath: project.projectPath,
+        sessionFiles,
+        allowRules: [
+          ...projectAllowedTools(config, project.projectPath),
+          ...basePermissions,
+          ...userRules,
+          ...readSettingsAllowRules(path.join(project.projectPath, '.claude', 'settings.json')),
+          ...readSettingsAllowRules(path.join(project.projectPath, '.claude', 'settings.local.json'))
+        ]
+      });
+    }
+
+    const usage = (await analyzeToolUsage(projects, { since })).filter(project => project.calls > 0);
+
+    console.log(chalk.bold.cyan(`\n🔍 Permission Suggestions From Tool Usage (since ${since.toLocaleDateString()})\n`));
+
+    if (usage.length === 0) {
+      console.log(chalk.yellow('No tool calls found in the sessions for this period\n'));
+      return;
+    }
+
+    const changes: Array<{ projectPath: string; add: string[]; prune: string[] }> = [];
+    const suggestedIn = new Map<string, string[]>();
+
+    for (const project of usage) {
+      const projectRules = projectAllowedTools(config, project.projectPath);
+      const { add, prune } = recommendPermissions(project, projectRules, { minCalls: options.minCalls, isUnsafe });
+      const rejected = project.permissions.filter(entry => entry.rejected > 0);
+
+      console.log(`${chalk.cyan(project.projectPath.replace(os.homedir(), '~'))}  ${chalk.dim(`${project.sessions} session(s) · ${project.calls} tool call(s)`)}`);
+
+      if (add.length > 0) {
+        console.log(chalk.green('  Add (prompted repeatedly, never rejected):'));
+        for (const entry of add) {
+          const example = entry.examples[0] ? chalk.dim(`  e.g. ${entry.examples[0]}`) : '';
+          console.log(`    ${chalk.green('+')} ${entry.rule}  ${chalk.gray(`${entry.prompted}/${entry.calls} call(s) prompted in ${entry.sessions} session(s)`)}${example}`);
+          suggestedIn.set(entry.rule, [...(suggestedIn.get(entry.rule) || []), project.projectName]);
+        }
+      }
+      if (rejected.length > 0) {
+        console.log(chalk.yellow('  Rejected at the prompt (not suggested):'));
+        for (const entry of rejected.slice(0, 5)) {
+          console.log(`    ${chalk.yellow('!')} ${entry.rule}  ${chalk.gray(`${entry.rejected} of ${entry.calls} call(s) rejected`)}`);
+        }
+      }
+      if (prune.length > 0) {
+        console.log(chalk.gray(`  Unused project rules${options.prune ? '' : ' (remove with --prune)'}:`));
+        for (const rule of prune) {
+          console.log(`    ${chalk.red('-')} ${rule}`);
+        }
+      }
+      if (add.length === 0 && rejected.length === 0 && prune.length === 0) {
+        console.log(chalk.gray('  Nothing to change - every call was already allowed or too rare to suggest'));
+      }
+      console.log('');
+
+      if (add.length > 0 || (options.prune && prune.length > 0)) {
+        changes.push({
+          projectPath: project.projectPath,
+          add: add.map(entry => entry.rule),
+          prune: options.prune ? prune : []
+        });
+      }
+    }
+
+    // The same rule prompting in several projects belongs in the base set
+    const shared = [...suggestedIn.entries()].filter(([rule, names]) => names.length >= 2 && rule.startsWith('Bash('));
+    if (shared.length > 0) {
+      console.log(chalk.cyan('Prompting in several projects - consider your base permissions instead:'));
+      for (const [rule, names] of shared) {
+        console.log(`  cch -add "${rule.slice(5, -1)}"  ${chalk.gray(`(${names.join(', ')})`)}`);
+      }
+      console.log('');
+    }
+
+    const added = changes.reduce((sum, change) => sum + change.add.length, 0);
+    const pruned = changes.reduce((sum, change) => sum + change.prune.length, 0);
+    if (changes.length === 0) {
+      logger.success('No project permissions to change');
+      return;
+    }
+
+    if (!options.execute) {
+      console.log(chalk.yellow.bold('⚠️  This is a DRY RUN. Use --execute to apply changes.\n'));
+      console.log(chalk.dim(`Would add ${added} and remove ${pruned} rule(s) in ${changes.length} project(s)`));
+      console.log(chalk.dim(`Command: cch -dp --usage --since ${sinceOption}${options.project ? ` --project "${options.project}"` : ''}${options.prune ? ' --prune' : ''} --execute\n`));
+      return;
+    }
+
+    // The scan can take minutes while Claude Code keeps writing ~/.claude.json,
+    // so the changes go onto a fresh copy instead of the one loaded before it
+    await createBackup('pre-permissions-usage', testMode);
+    const current = await loadClaudeConfig(testMode);
+    let applied = 0;
+    for (const change of changes) {
+      const project = current.projects?.[change.projectPath];
+      if (!project) {
+        logger.warning(`${change.projectPath} is not in the Claude config - skipped`);
+        continue;
+      }
+      const allowedTools = (project.allowedTools || []).filter(rule => !change.prune.includes(rule));
+      for (const rule of change.add) {
+        if (!allowedTools.includes(rule)) allowedTools.push(rule);
+      }
+      project.allowedTools = allowedTools;
+      applied++;
+    }
+    await saveClaudeConfig(current, testMode);
+
+    logger.success(`Updated permissions in ${applied} of ${changes.length} project(s)`);
+
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error analyzing tool usage:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+function projectAllowedTools(config: { projects?: Record<string, { allowedTools?: string[] }> }, projectPath: string): string[] {
+  return config.projects?.[projectPath]?.allowedTools || [];
+}
+
+/**
+ * permissions.allow from a Claude Code settings file, empty when missing or unreadable
+ */
+function readSettingsAllowRules(settingsPath: string): string[] {
+  try {
+    const settings = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+    const allow = settings?.permissions?.allow;
+    return Array.isArray(allow) ? allow.filter((rule: unknown): rule is string => typeof rule === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+// Dangerous or blocked Bash prefixes are never suggested, however often they prompted
+function isUnsafe(rule: string): boolean {
+  const match = rule.match(/^Bash\((.*)\)$/);
+  return !!match && checkCommandSafety(match[1]).safety !== PermissionSafety.SAFE;
+}
@@ -0,0 +1,51 @@
+/**
+ * Secrets exec command - launcher for externalized MCP servers
+ *   cch secrets exec <vault-id> [--test] -- <command> [args...]
+ *
+ * Claude Code talks to stdio MCP servers over stdout, so this command must never
+ * print anything there: errors go to stderr and the child inherits all three streams.
+ */
+
+import { spawn } from 'child_process';
+import * as os from 'os';
+import { SecretVault } from '../../services/secret-vault';
+import { resolveVaultEnv } from '../../services/mcp-secrets';
+
+/**
+ * @param argv Arguments after "secrets exec"
+ */
+export async function execWithSecrets(argv: string[]): Promise<void> {
+  const separator = argv.indexOf('--');
+  const [vaultId, ...flags] = separator === -1 ? argv : argv.slice(0, separator);
+  const [command, ...args] = separator === -1 ? [] : argv.slice(separator + 1);
+
+  if (!vaultId || !command) {
+    console.error('Usage: cch secrets exec <vault-id> -- <command> [args...]');
+    process.exit(1);
+  }
+
+  let env: NodeJS.ProcessEnv;
+  try {
+    env = resolveVaultEnv(SecretVault.open(flags.includes('--test')), vaultId, process.env);
+  } catch (error) {
+    console.error(`cch secrets exec: ${error instanceof Error ? error.message : 'could not read the vault'}`);
+    process.exit(1);
+  }
+
+  const child = spawn(command, args, { env, stdio: 'inherit' });
+
+  const forward = (signal: NodeJS.Signals) => child.kill(signal);
+  for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as NodeJS.Signals[]) {
+    process.on(signal, forward);
+  }
+
+  await new Promise<void>(() => {
+    child.on('error', error => {
+      console.error(`cch secrets exec: failed to start ${command}: ${error.message}`);
+      process.exit(127);
+    });
+    child.on('exit', (code, signal) => {
+      process.exit(signal ? 128 + os.constants.signals[signal] : code ?? 0);
+    });
+  });
+}
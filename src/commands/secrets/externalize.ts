@@ -0,0 +1,215 @@
+/**
+ * Secrets externalize/internalize commands
+ * Move MCP server env secrets from ~/.claude.json into the encrypted vault and back
+ */
+
+import chalk from 'chalk';
+import { loadClaudeConfig, saveClaudeConfig, ClaudeConfig } from '../../core/config';
+import { createBackup } from '../../services/backup';
+import { SecretDetector } from '../../services/secret-detector';
+import { SecretVault } from '../../services/secret-vault';
+import {
+  McpServerRef,
+  listMcpServers,
+  getWrappedVaultId,
+  isWrappable,
+  createVaultId,
+  externalizeServer,
+  internalizeServer,
+  WRAPPER_COMMAND
+} from '../../services/mcp-secrets';
+
+export interface ExternalizeOptions {
+  execute?: boolean;
+  all?: boolean;      // Move every env value, not just detected secrets
+  server?: string;    // Only this MCP server
+  testMode?: boolean;
+}
+
+export interface InternalizeOptions {
+  execute?: boolean;
+  server?: string;
+  testMode?: boolean;
+}
+
+const REDACTED_IN_BACKUP = '[moved to the cch vault]';
+
+interface PlannedServer {
+  ref: McpServerRef;
+  variables: string[];
+}
+
+export async function externalizeSecrets(options: ExternalizeOptions = {}): Promise<void> {
+  const { execute = false, all = false, testMode = false } = options;
+
+  try {
+    console.log(chalk.cyan.bold('\n🔐 Externalize MCP Server Secrets\n'));
+
+    const config = await loadClaudeConfig(testMode) as ClaudeConfig;
+    const detector = new SecretDetector({ testMode });
+    const planned: PlannedServer[] = [];
+
+    for (const ref of selectServers(config, options.server)) {
+      if (getWrappedVaultId(ref.server)) continue;
+
+      const env: Record<string, unknown> = ref.server.env || {};
+      const variables = Object.entries(env)
+        .filter(([name, value]) => typeof value === 'string' && value !== '' &&
+          (all || detector.scanText(`${name}=${value}`, `${ref.scope} ${ref.name}`, 'config').length > 0))
+        .map(([name]) => name);
+
+      if (variables.length === 0) continue;
+
+      if (!isWrappable(ref.server)) {
+        console.log(chalk.yellow(`⚠️  ${ref.scope} › ${ref.name}: not a stdio server, cannot be wrapped - skipped`));
+        continue;
+      }
+
+      planned.push({ ref, variables });
+    }
+
+    if (planned.length === 0) {
+      console.log(chalk.green('✅ No MCP server env secrets to externalize\n'));
+      if (!all) {
+        console.log(chalk.dim('Use --all to move every env value, not only detected secrets\n'));
+      }
+      return;
+    }
+
+    for (const { ref, variables } of planned) {
+      console.log(`${chalk.yellow(ref.scope)} › ${chalk.bold(ref.name)}`);
+      console.log(`   ${variables.join(', ')}`);
+    }
+    console.log('');
+
+    if (!execute) {
+      console.log(chalk.yellow.bold('⚠️  This is a DRY RUN. Use --execute to apply changes.\n'));
+      console.log(chalk.dim('Command: cch secrets externalize --execute\n'));
+      return;
+    }
+
+    // The backup must not become a plaintext copy of what moves into the vault -
+    // `cch secrets internalize` is the way back for those values
+    await createBackup('pre-externalize', testMode, backup => {
+      for (const { ref, variables } of planned) {
+        const server = ref.scope === 'global' ? backup.mcpServers?.[ref.name] : backup.projects?.[ref.scope]?.mcpServers?.[ref.name];
+        for (const name of variables) {
+          if (server?.env?.[name] !== undefined) server.env[name] = REDACTED_IN_BACKUP;
+        }
+      }
+    });
+
+    const vault = SecretVault.open(testMode);
+    for (const { ref, variables } of planned) {
+      const vaultId = createVaultId(ref.name);
+      vault.set(vaultId, {
+        env: Object.fromEntries(variables.map(name => [name, ref.server.env[name]])),
+        server: ref.name,
+        scope: ref.scope,
+        createdAt: new Date().toISOString()
+      });
+      replaceServer(config, ref, externalizeServer(ref.server, vaultId, variables));
+    }
+
+    // Vault first - the config must never point at entries that were not written
+    vault.save();
+    await saveClaudeConfig(config, testMode);
+
+    const moved = planned.reduce((sum, p) => sum + p.variables.length, 0);
+    console.log(chalk.green.bold(`✅ Moved ${moved} value(s) from ${planned.length} server(s) into the vault\n`));
+    console.log(`${chalk.bold('Key storage:')} ${vault.backend === 'keychain' ? 'system keychain' : '~/.cch/vault.key'}`);
+    console.log(chalk.dim(`Servers now start via "${WRAPPER_COMMAND} secrets exec" - ${WRAPPER_COMMAND} must be on the PATH Claude Code uses`));
+    console.log(chalk.dim('Undo with: cch secrets internalize --execute\n'));
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error externalizing secrets:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+export async function internalizeSecrets(options: InternalizeOptions = {}): Promise<void> {
+  const { execute = false, testMode = false } = options;
+
+  try {
+    console.log(chalk.cyan.bold('\n🔓 Internalize MCP Server Secrets\n'));
+
+    const config = await loadClaudeConfig(testMode) as ClaudeConfig;
+    const wrapped = selectServers(config, options.server)
+      .map(ref => ({ ref, vaultId: getWrappedVaultId(ref.server) }))
+      .filter((w): w is { ref: McpServerRef; vaultId: string } => w.vaultId !== undefined);
+
+    if (wrapped.length === 0) {
+      console.log(chalk.green('✅ No MCP servers use the vault\n'));
+      return;
+    }
+
+    const vault = SecretVault.open(testMode);
+    const restorable = wrapped.filter(({ ref, vaultId }) => {
+      const entry = vault.get(vaultId);
+      if (!entry) {
+        console.log(chalk.yellow(`⚠️  ${ref.scope} › ${ref.name}: vault entry ${vaultId} not found - skipped`));
+        return false;
+      }
+      console.log(`${chalk.yellow(ref.scope)} › ${chalk.bold(ref.name)}`);
+      console.log(`   ${Object.keys(entry.env).join(', ')}`);
+      return true;
+    });
+    console.log('');
+
+    if (restorable.length === 0) {
+      return;
+    }
+
+    if (!execute) {
+      console.log(chalk.yellow.bold('⚠️  This is a DRY RUN. Use --execute to apply changes.\n'));
+      console.log(chalk.dim('Command: cch secrets internalize --execute\n'));
+      return;
+    }
+
+    await createBackup('pre-internalize', testMode);
+
+    for (const { ref, vaultId } of restorable) {
+      replaceServer(config, ref, internalizeServer(ref.server, vault.get(vaultId)!.env));
+    }
+
+    // Config first - the vault entries stay until the plaintext values are back
+    await saveClaudeConfig(config, testMode);
+    for (const { vaultId } of restorable) {
+      vault.delete(vaultId);
+    }
+    vault.save();
+
+    console.log(chalk.green.bold(`✅ Restored env values for ${restorable.length} server(s)\n`));
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error internalizing secrets:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+function selectServers(config: ClaudeConfig, server?: string): McpServerRef[] {
+  const servers = listMcpServers(config);
+  return server ? servers.filter(ref => ref.name === server) : servers;
+}
+
+function replaceServer(config: ClaudeConfig, ref: McpServerRef, server: Record<string, any>): void {
+  if (ref.scope === 'global') {
+    config.mcpServers![ref.name] = server;
+  } else {
+    config.projects![ref.scope].mcpServers![ref.name] = server;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Sessions export command
+ * Writes a session transcript as Markdown, HTML or JSON for sharing, with secrets masked
+ */
+
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacheAnalyzer } from '../../services/cache-analyzer';
+import { ActiveSessions } from '../../services/active-sessions';
+import { exportSession, ExportFormat, DEFAULT_COLLAPSE_LINES } from '../../services/session-export';
+import { formatBytes } from '../../utils/format';
+
+export interface SessionsExportOptions {
+  session?: string;          // Session id, id prefix or path to a .jsonl file
+  format?: ExportFormat;
+  output?: string;           // Defaults to <session-id>.<format> in the current directory
+  stdout?: boolean;
+  collapse?: number;         // Keep this many lines of each tool output (0 keeps everything)
+  images?: boolean;          // Default true
+  mask?: boolean;            // Default true
+  force?: boolean;           // Overwrite an existing output file
+  testMode?: boolean;
+}
+
+export async function exportSessionTranscript(options: SessionsExportOptions = {}): Promise<void> {
+  try {
+    if (!options.session) {
+      console.error(chalk.red('Specify the session to export'));
+      console.log('Usage: cch sessions export <session-id> [--format md|html|json] [--output <file>] [--collapse <lines>] [--no-images]');
+      process.exit(1);
+    }
+
+    if (options.collapse !== undefined && (isNaN(options.collapse) || options.collapse < 0)) {
+      throw new Error('--collapse takes a number of lines (0 keeps every line)');
+    }
+
+    const format = options.format || 'md';
+    const sessionPath = await resolveSession(options.session, options.testMode);
+    const sessionId = path.basename(sessionPath, '.jsonl');
+
+    const result = await exportSession(sessionPath, {
+      format,
+      collapseLines: options.collapse ?? DEFAULT_COLLAPSE_LINES,
+      dropImages: options.images === false,
+      maskSecrets: options.mask !== false
+    });
+
+    if (options.stdout) {
+      process.stdout.write(result.output);
+      return;
+    }
+
+    const outputPath = path.resolve(options.output || `${sessionId}.${format}`);
+    if (fs.existsSync(outputPath) && !options.force) {
+      console.error(chalk.red(`❌ ${outputPath} already exists. Use --force to overwrite it.`));
+      process.exit(1);
+    }
+    await fs.promises.writeFile(outputPath, result.output, 'utf-8');
+
+    const { transcript } = result;
+    console.log(chalk.bold.cyan('\n📄 Session Export\n'));
+    console.log(`Session:            ${sessionId}`);
+    if (transcript.cwd) {
+      console.log(`Project:            ${transcript.cwd}`);
+    }
+    console.log(`Messages:           ${transcript.entries.filter(entry => entry.role !== 'tool').length}`);
+    console.log(`Tool outputs:       ${transcript.entries.filter(entry => entry.role === 'tool').length}${transcript.outputsCollapsed > 0 ? chalk.dim(` (${transcript.outputsCollapsed} collapsed)`) : ''}`);
+    if (transcript.imagesDropped > 0) {
+      console.log(`Images dropped:     ${transcript.imagesDropped}`);
+    }
+    if (options.mask !== false) {
+      console.log(`Secrets masked:     ${result.secretsMasked > 0 ? chalk.yellow(result.secretsMasked.toString()) : '0'}`);
+    }
+    console.log(`Size:               ${formatBytes(Buffer.byteLength(result.output, 'utf-8'))}`);
+    console.log('');
+    console.log(chalk.green(`✅ Exported to ${outputPath}\n`));
+
+    if (options.mask === false) {
+      console.log(chalk.yellow('⚠️  Secrets were NOT masked - review the file before sharing it\n'));
+    } else {
+      console.log(chalk.dim('Masking catches known secret formats only - skim the transcript before sharing it\n'));
+    }
+
+    // A running Claude Code keeps appending to its session
+    const activeSessions = await ActiveSessions.detect({ testMode: options.testMode });
+    const inUse = activeSessions.reasonFor(sessionPath);
+    if (inUse) {
+      console.log(chalk.yellow(`⚠️  The session is still in use (${inUse}) - the export stops at what was written so far\n`));
+    }
+
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error exporting session:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+/**
+ * Find a session by id or unique id prefix across all projects, or take a .jsonl path as is
+ */
+async function resolveSession(target: string, testMode?: boolean): Promise<string> {
+  if (target.endsWith('.jsonl') && fs.existsSync(target)) {
+    return path.resolve(target);
+  }
+
+  const analysis = await new CacheAnalyzer(testMode).analyzeCacheStructure();
+  const sessions = analysis.projects.flatMap(project => project.sessions);
+
+  const exact = sessions.find(session => session.sessionId === target);
+  if (exact) {
+    return exact.filePath;
+  }
+
+  const matches = sessions.filter(session => session.sessionId.startsWith(target));
+  if (matches.length === 1) {
+    return matches[0].filePath;
+  }
+  if (matches.length > 1) {
+    const listed = matches.slice(0, 10).map(session => `  ${session.sessionId}`).join('\n');
+    throw new Error(`"${target}" matches ${matches.length} sessions, use a longer prefix:\n${listed}`);
+  }
+  throw new Error(`Session not found: ${target}`);
+}
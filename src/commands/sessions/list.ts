@@ -0,0 +1,198 @@
+/**
+ * Sessions list command
+ * One row per session transcript: when it ran, how long, who said how much,
+ * which tools and models were involved and what it was about
+ */
+
+import chalk from 'chalk';
+import * as os from 'os';
+import { CacheAnalyzer } from '../../services/cache-analyzer';
+import { SessionParser, ListedSession, toSessionListJson } from '../../services/session-parser';
+import { ReportFormat } from '../../services/report-formats';
+import { projectMatchesPatterns } from '../../utils/patterns';
+import { parseDateOption } from '../../utils/dates';
+import { formatBytes } from '../../utils/format';
+
+export type SessionSortKey = 'ended' | 'started' | 'duration' | 'messages' | 'tokens' | 'size' | 'project';
+
+export const SESSION_SORT_KEYS: SessionSortKey[] = ['ended', 'started', 'duration', 'messages', 'tokens', 'size', 'project'];
+
+export interface SessionsListOptions {
+  project?: string;      // Project name or path globs, comma separated
+  since?: string;        // YYYY-MM-DD or a number of days, e.g. 30d
+  until?: string;        // YYYY-MM-DD (inclusive) or a number of days
+  sort?: SessionSortKey; // Default ended, newest first
+  limit?: number;        // Default 30
+  format?: ReportFormat;
+  testMode?: boolean;
+}
+
+const DEFAULT_LIMIT = 30;
+const PROMPT_WIDTH = 100;
+const TOOLS_SHOWN = 5;
+
+export async function listSessions(options: SessionsListOptions = {}): Promise<void> {
+  const json = options.format === 'json';
+
+  try {
+    if (options.format && options.format !== 'text' && !json) {
+      throw new Error(`--format ${options.format} is not supported by sessions list. Use json or leave it out.`);
+    }
+
+    const since = options.since ? parseDateOption(options.since, 'since') : undefined;
+    const until = options.until ? parseDateOption(options.until, 'until') : undefined;
+    const sort = options.sort || 'ended';
+    const limit = options.limit ?? DEFAULT_LIMIT;
+
+    const analysis = await new CacheAnalyzer(options.testMode).analyzeCacheStructure();
+    const parser = new SessionParser();
+    const listed: ListedSession[] = [];
+
+    for (const project of analysis.projects) {
+      if (options.project && !projectMatchesPatterns(project.projectName, options.project) &&
+          !projectMatchesPatterns(project.projectPath, options.project)) continue;
+
+      for (const session of project.sessions) {
+        // Nothing written since --since means nothing happened since either
+        if (since && session.modified < since) continue;
+
+        const summary = await parser.summarizeSession(session.filePath);
+        const started = summary.firstTimestamp || session.created;
+        const ended = summary.lastTimestamp || session.modified;
+        if (since && ended < since) continue;
+        if (until && started > until) continue;
+
+        listed.push({ session, projectName: project.projectName, projectPath: project.projectPath, summary });
+      }
+    }
+
+    listed.sort(compareBy(sort));
+    const shown = limit > 0 ? listed.slice(0, limit) : listed;
+
+    if (json) {
+      console.log(JSON.stringify(toSessionListJson(shown, listed.length), null, 2));
+      return;
+    }
+
+    console.log(chalk.bold.cyan('\n📋 Sessions\n'));
+    const filters = [
+      options.project ? `project ${options.project}` : null,
+      since ? `since ${since.toLocaleDateString()}` : null,
+      until ? `until ${until.toLocaleDateString()}` : null,
+      `sorted by ${sort}`
+    ].filter(Boolean);
+    console.log(chalk.dim(`${filters.join(' · ')}\n`));
+
+    if (listed.length === 0) {
+      console.log(chalk.yellow('No sessions found\n'));
+      return;
+    }
+
+    for (const { session, projectName, projectPath, summary } of shown) {
+      const started = summary.firstTimestamp || session.created;
+      const ended = summary.lastTimestamp || session.modified;
+      const tags = [session.isAgent ? chalk.dim('[agent]') : ''].filter(Boolean).join(' ');
+      console.log(`${chalk.dim(formatSpan(started, ended))}  ${chalk.cyan(projectName)}  ${chalk.yellow(session.sessionId)}${tags ? `  ${tags}` : ''}`);
+
+      const counts = [
+        `${summary.userMessages - summary.toolResults} user`,
+        `${summary.assistantMessages} assistant`,
+        `${summary.toolResults} tool`,
+        `~${formatTokens(summary.estimatedTokens)} tokens`,
+        formatBytes(session.size)
+      ];
+      if (summary.models.length > 0) {
+        counts.push(summary.models.join(', '));
+      }
+      console.log(`   ${counts.join(chalk.dim(' · '))}`);
+
+      const tools = Object.entries(summary.tools).sort((a, b) => b[1] - a[1]);
+      if (tools.length > 0) {
+        const listedTools = tools.slice(0, TOOLS_SHOWN).map(([name, count]) => `${name}×${count}`);
+        const more = tools.length - TOOLS_SHOWN;
+        console.log(chalk.dim(`   Tools: ${listedTools.join(', ')}${more > 0 ? ` +${more} more` : ''}`));
+      }
+      if (summary.firstPrompt) {
+        console.log(`   ${chalk.white(`"${truncate(summary.firstPrompt, PROMPT_WIDTH)}"`)}`);
+      }
+      console.log(chalk.dim(`   ${projectPath.replace(os.homedir(), '~')}`));
+      console.log('');
+    }
+
+    const totalMessages = listed.reduce((sum, entry) => sum + entry.summary.messageCount, 0);
+    const totalTokens = listed.reduce((sum, entry) => sum + entry.summary.estimatedTokens, 0);
+    const more = listed.length - shown.length;
+    console.log(`${chalk.bold(listed.length.toString())} session(s) · ${totalMessages} messages · ~${formatTokens(totalTokens)} tokens${more > 0 ? chalk.dim(` - showing ${shown.length}, use --limit 0 for all`) : ''}`);
+    console.log(chalk.dim('Export one with: cch sessions export <session-id>\n'));
+
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error listing sessions:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+export function parseSessionSortKey(value: unknown): SessionSortKey | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string' && (SESSION_SORT_KEYS as string[]).includes(value)) {
+    return value as SessionSortKey;
+  }
+  throw new Error(`Invalid --sort "${value === true ? '' : value}". Use one of: ${SESSION_SORT_KEYS.join(', ')}`);
+}
+
+/**
+ * Project sorts A-Z; everything else largest or newest first
+ */
+function compareBy(sort: SessionSortKey): (a: ListedSession, b: ListedSession) => number {
+  const started = (entry: ListedSession) => (entry.summary.firstTimestamp || entry.session.created).getTime();
+  const ended = (entry: ListedSession) => (entry.summary.lastTimestamp || entry.session.modified).getTime();
+
+  switch (sort) {
+    case 'project':
+      return (a, b) => a.projectName.localeCompare(b.projectName) || ended(b) - ended(a);
+    case 'started':
+      return (a, b) => started(b) - started(a);
+    case 'duration':
+      return (a, b) => (ended(b) - started(b)) - (ended(a) - started(a));
+    case 'messages':
+      return (a, b) => b.summary.messageCount - a.summary.messageCount;
+    case 'tokens':
+      return (a, b) => b.summary.estimatedTokens - a.summary.estimatedTokens;
+    case 'size':
+      return (a, b) => b.session.size - a.session.size;
+    default:
+      return (a, b) => ended(b) - ended(a);
+  }
+}
+
+function formatSpan(started: Date, ended: Date): string {
+  const day = (date: Date) => date.toLocaleDateString();
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const end = day(started) === day(ended) ? time(ended) : `${day(ended)} ${time(ended)}`;
+  return `${day(started)} ${time(started)} → ${end} (${formatDuration(ended.getTime() - started.getTime())})`;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens < 1000) return tokens.toString();
+  if (tokens < 1000000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1000000).toFixed(1)}M`;
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
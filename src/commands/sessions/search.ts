@@ -0,0 +1,137 @@
+/**
+ * Sessions search command
+ * Finds messages across every session transcript through the on-disk search index,
+ * which is brought up to date (changed sessions only) before each search
+ */
+
+import chalk from 'chalk';
+import * as os from 'os';
+import { CacheAnalyzer } from '../../services/cache-analyzer';
+import { SessionSearchIndex, SearchRole, IndexableSession, toSessionSearchJson } from '../../services/session-search';
+import { ReportFormat } from '../../services/report-formats';
+import { parseDateOption } from '../../utils/dates';
+
+export interface SessionsSearchOptions {
+  query?: string;
+  project?: string;      // Project name or path globs, comma separated
+  since?: string;        // YYYY-MM-DD or a number of days, e.g. 30d
+  until?: string;        // YYYY-MM-DD (inclusive) or a number of days
+  role?: SearchRole;
+  limit?: number;
+  rebuild?: boolean;     // Throw the index away and index everything again
+  format?: ReportFormat;
+  testMode?: boolean;
+}
+
+export async function searchSessions(options: SessionsSearchOptions = {}): Promise<void> {
+  const json = options.format === 'json';
+
+  try {
+    if (options.format && options.format !== 'text' && !json) {
+      throw new Error(`--format ${options.format} is not supported by sessions search. Use json or leave it out.`);
+    }
+    if (!options.query && !options.rebuild) {
+      console.error(chalk.red('Specify what to search for'));
+      console.log('Usage: cch sessions search <query> [--project <pattern>] [--since <date|Nd>] [--until <date|Nd>] [--role user|assistant|tool] [--limit <n>]');
+      process.exit(1);
+    }
+
+    const since = options.since ? parseDateOption(options.since, 'since') : undefined;
+    const until = options.until ? parseDateOption(options.until, 'until') : undefined;
+
+    const analysis = await new CacheAnalyzer(options.testMode).analyzeCacheStructure();
+    const sessions: IndexableSession[] = analysis.projects.flatMap(project => project.sessions.map(session => ({
+      filePath: session.filePath,
+      sessionId: session.sessionId,
+      projectName: project.projectName,
+      projectPath: project.projectPath,
+      isAgent: session.isAgent
+    })));
+
+    const index = SessionSearchIndex.load(options.testMode);
+    if (options.rebuild) {
+      index.clear();
+    }
+
+    const showProgress = !json && process.stdout.isTTY;
+    const stats = await index.update(sessions, (done, total) => {
+      if (showProgress) process.stdout.write(`\r${chalk.dim(`Indexing sessions... ${done + 1}/${total}`)}`);
+    });
+    if (showProgress && stats.indexed > 0) process.stdout.write('\r\x1b[K');
+    await index.save();
+
+    if (!options.query) {
+      console.log(chalk.green(`\n✅ Rebuilt the search index (${stats.total} sessions)\n`));
+      return;
+    }
+
+    const result = await index.search(options.query, {
+      project: options.project,
+      since,
+      until,
+      role: options.role,
+      limit: options.limit
+    });
+
+    if (json) {
+      console.log(JSON.stringify(toSessionSearchJson(options.query, result, stats), null, 2));
+      return;
+    }
+
+    console.log(chalk.bold.cyan(`\n🔎 Session Search: "${options.query}"\n`));
+    const filters = [
+      options.project ? `project ${options.project}` : null,
+      since ? `since ${since.toLocaleDateString()}` : null,
+      until ? `until ${until.toLocaleDateString()}` : null,
+      options.role ? `${options.role} messages` : null
+    ].filter(Boolean);
+    console.log(chalk.dim(`${stats.total} sessions indexed${stats.indexed > 0 ? ` (${stats.indexed} updated)` : ''}${filters.length > 0 ? ` · ${filters.join(', ')}` : ''}\n`));
+
+    if (result.terms.length === 0) {
+      console.log(chalk.yellow('The query has no searchable words (at least 2 letters or digits)\n'));
+      return;
+    }
+    if (result.hits.length === 0) {
+      console.log(chalk.yellow('No matches\n'));
+      return;
+    }
+
+    for (const hit of result.hits) {
+      const when = hit.timestamp ? formatTimestamp(hit.timestamp) : 'unknown time';
+      const tags = [chalk.dim(`[${hit.role}]`), hit.isAgent ? chalk.dim('[agent]') : ''].filter(Boolean).join(' ');
+      console.log(`${chalk.dim(when)}  ${chalk.cyan(hit.projectName)}  ${chalk.yellow(hit.sessionId)}  ${tags}`);
+      console.log(`   ${highlight(hit.snippet, result.terms)}`);
+      console.log(chalk.dim(`   ${hit.projectPath.replace(os.homedir(), '~')}`));
+      console.log('');
+    }
+
+    const more = result.totalMatches - result.hits.length;
+    console.log(`${chalk.bold(result.totalMatches.toString())} matching message(s) in ${result.sessionsMatched} session(s)${more > 0 ? chalk.dim(` - showing the newest ${result.hits.length}, use --limit for more`) : ''}`);
+    console.log(chalk.dim('Resume one with: cd <project> && claude --resume <session-id>\n'));
+
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error searching sessions:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+function formatTimestamp(date: Date): string {
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+/**
+ * Highlight every occurrence of the query terms
+ */
+function highlight(snippet: string, terms: string[]): string {
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+  return snippet.replace(pattern, match => chalk.bold.yellow(match));
+}
@@ -0,0 +1,152 @@
+/**
+ * Trash command
+ * Lists, restores and empties the items `cch cache clean` moved to ~/.claude/.trash
+ */
+
+import chalk from 'chalk';
+import * as os from 'os';
+import {
+  TrashEntry,
+  listTrash,
+  findTrashEntry,
+  restoreFromTrash,
+  deleteFromTrash,
+  filterOlderThan
+} from '../services/trash';
+import { formatBytes } from '../utils/format';
+
+export interface TrashOptions {
+  action?: string;     // list (default), restore, empty, size
+  id?: string;         // Item id or "latest" for restore
+  olderThan?: number;  // Days, for empty
+  execute?: boolean;
+  testMode?: boolean;
+}
+
+export async function manageTrash(options: TrashOptions = {}): Promise<void> {
+  try {
+    const action = options.action || 'list';
+
+    if (action === 'list') {
+      await listItems(options.testMode);
+    } else if (action === 'restore') {
+      await restoreItem(options.id, options.testMode);
+    } else if (action === 'empty') {
+      await emptyTrash(options.olderThan, options.execute, options.testMode);
+    } else if (action === 'size') {
+      await showSize(options.testMode);
+    } else {
+      console.error(chalk.red(`Unknown action: ${action}`));
+      console.log('Usage: cch trash [list|restore <id|latest>|empty [--older-than <days>]|size]');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error managing trash:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+async function listItems(testMode?: boolean): Promise<void> {
+  const entries = await listTrash(testMode);
+
+  console.log(chalk.cyan.bold('\n🗑️  Cache Trash\n'));
+
+  if (entries.length === 0) {
+    console.log(chalk.green('Trash is empty\n'));
+    return;
+  }
+
+  for (const entry of entries) {
+    console.log(`${chalk.yellow(entry.id)}  ${new Date(entry.trashedAt).toLocaleString()}  ${formatBytes(entry.size)}`);
+    console.log(`   ${entry.originalPath ? entry.originalPath.replace(os.homedir(), '~') : chalk.dim('(original path unknown)')}`);
+    console.log(chalk.dim(`   ${entry.reason}`));
+  }
+
+  console.log('');
+  console.log(`${chalk.bold('Total:')} ${entries.length} item(s), ${formatBytes(entries.reduce((sum, e) => sum + e.size, 0))}`);
+  console.log('');
+  console.log(chalk.dim('Restore: cch trash restore <id|latest>'));
+  console.log(chalk.dim('Empty:   cch trash empty [--older-than <days>] --execute\n'));
+}
+
+async function restoreItem(id: string | undefined, testMode?: boolean): Promise<void> {
+  if (!id) {
+    console.error(chalk.red('Specify a trash id or "latest"'));
+    console.log('Usage: cch trash restore <id|latest>');
+    process.exit(1);
+  }
+
+  const entry = await findTrashEntry(id, testMode);
+  if (!entry) {
+    console.error(chalk.red(`No trashed item found for "${id}"`));
+    process.exit(1);
+  }
+
+  console.log(chalk.cyan.bold(`\n♻️  Restoring ${entry.id}\n`));
+
+  const result = await restoreFromTrash([entry], testMode);
+
+  for (const restored of result.restored) {
+    console.log(chalk.green(`✓ Restored ${restored.originalPath!.replace(os.homedir(), '~')}`));
+  }
+  for (const { entry: skipped, reason } of result.skipped) {
+    console.log(chalk.yellow(`⚠️  Skipped ${skipped.originalPath?.replace(os.homedir(), '~') || skipped.name}: ${reason}`));
+  }
+  console.log('');
+
+  if (result.skipped.length > 0) {
+    process.exit(1);
+  }
+}
+
+async function emptyTrash(olderThan: number | undefined, execute?: boolean, testMode?: boolean): Promise<void> {
+  if (olderThan !== undefined && (Number.isNaN(olderThan) || olderThan < 0)) {
+    console.error(chalk.red('--older-than expects a number of days'));
+    process.exit(1);
+  }
+
+  const entries = await listTrash(testMode);
+  const selected: TrashEntry[] = olderThan !== undefined ? filterOlderThan(entries, olderThan) : entries;
+
+  console.log(chalk.cyan.bold('\n🗑️  Empty Cache Trash\n'));
+
+  if (selected.length === 0) {
+    console.log(chalk.green(olderThan !== undefined ? `No items older than ${olderThan} days\n` : 'Trash is empty\n'));
+    return;
+  }
+
+  const total = selected.reduce((sum, e) => sum + e.size, 0);
+  console.log(`${selected.length} item(s), ${formatBytes(total)}${olderThan !== undefined ? ` trashed more than ${olderThan} days ago` : ''}\n`);
+
+  if (!execute) {
+    console.log(chalk.yellow.bold('⚠️  This is a DRY RUN. Use --execute to apply changes.\n'));
+    console.log(chalk.dim(`Command: cch trash empty${olderThan !== undefined ? ` --older-than ${olderThan}` : ''} --execute\n`));
+    return;
+  }
+
+  const freed = await deleteFromTrash(selected, testMode);
+  console.log(chalk.green.bold(`✅ Permanently deleted ${selected.length} item(s)\n`));
+  console.log(`${chalk.bold('Space freed:')} ${formatBytes(freed)}\n`);
+}
+
+async function showSize(testMode?: boolean): Promise<void> {
+  const entries = await listTrash(testMode);
+  const total = entries.reduce((sum, e) => sum + e.size, 0);
+  const oldest = entries[entries.length - 1];
+
+  console.log(chalk.cyan.bold('\n🗑️  Cache Trash Size\n'));
+  console.log(`${chalk.bold('Items:')} ${entries.length}`);
+  console.log(`${chalk.bold('Size:')}  ${formatBytes(total)}`);
+  if (oldest) {
+    console.log(`${chalk.bold('Oldest:')} ${new Date(oldest.trashedAt).toLocaleString()}`);
+  }
+  console.log('');
+}
@@ -0,0 +1,242 @@
+/**
+ * Usage command
+ * Token usage and estimated cost from the session transcripts, per project, day, model or session
+ */
+
+import chalk from 'chalk';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CacheAnalyzer } from '../services/cache-analyzer';
+import { collectUsage, summarizeUsage, toUsageJson, UsageDimension, UsageRow, UsageSession } from '../services/usage-analyzer';
+import { loadPriceTable, serializeDefaultPriceTable, PriceTable } from '../services/model-prices';
+import { projectMatchesPatterns } from '../utils/patterns';
+import { parseDateOption } from '../utils/dates';
+
+export type UsageFormat = 'table' | 'csv' | 'json';
+
+export const USAGE_FORMATS: UsageFormat[] = ['table', 'csv', 'json'];
+
+export interface UsageOptions {
+  action?: string;       // report (default), prices, prices-init
+  by?: UsageDimension;   // Default project
+  project?: string;      // Project name or path globs, comma separated
+  since?: string;        // YYYY-MM-DD or a number of days, e.g. 30d
+  until?: string;        // YYYY-MM-DD (inclusive) or a number of days
+  limit?: number;        // Rows to show in the table (default all)
+  format?: UsageFormat;
+  testMode?: boolean;
+}
+
+const CSV_COLUMNS = ['key', 'requests', 'inputTokens', 'outputTokens', 'cacheWriteTokens', 'cacheReadTokens', 'cost', 'unpricedRequests'] as const;
+
+export async function usage(options: UsageOptions = {}): Promise<void> {
+  try {
+    const action = options.action || 'report';
+
+    if (action === 'report') {
+      await showUsage(options);
+    } else if (action === 'prices') {
+      showPrices(options.testMode);
+    } else if (action === 'prices-init') {
+      initPrices(options.testMode);
+    } else {
+      console.error(chalk.red(`Unknown action: ${action}`));
+      console.log('Usage: cch usage [prices [init]] [--by project|day|model|session] [--since <date>] [--until <date>] [--format table|csv|json]');
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(chalk.red('\n❌ Error analyzing usage:'));
+    if (error instanceof Error) {
+      console.error(chalk.red(error.message));
+      if (options.testMode) {
+        console.error(error.stack);
+      }
+    } else {
+      console.error(chalk.red('Unknown error occurred'));
+    }
+    process.exit(1);
+  }
+}
+
+export function parseUsageFormat(value: unknown): UsageFormat {
+  if (value === undefined || value === false || value === 'text') return 'table';
+  if (typeof value === 'string' && (USAGE_FORMATS as string[]).includes(value)) {
+    return value as UsageFormat;
+  }
+  throw new Error(`Invalid --format "${value === true ? '' : value}". Use one of: ${USAGE_FORMATS.join(', ')}`);
+}
+
+async function showUsage(options: UsageOptions): Promise<void> {
+  const format = options.format || 'table';
+  const by = options.by || 'project';
+  const since = options.since ? parseDateOption(options.since, 'since') : undefined;
+  const until = options.until ? parseDateOption(options.until, 'until') : undefined;
+  const prices = loadValidPrices(options.testMode);
+
+  const analysis = await new CacheAnalyzer(options.testMode).analyzeCacheStructure();
+  const sessions: UsageSession[] = [];
+  const projectOfSession = new Map<string, string>();
+
+  for (const project of analysis.projects) {
+    if (options.project && !projectMatchesPatterns(project.projectName, options.project) &&
+        !projectMatchesPatterns(project.projectPath, options.project)) continue;
+
+    for (const session of project.sessions) {
+      // Nothing written since --since means no requests since either
+      if (since && session.modified < since) continue;
+      sessions.push({
+        filePath: session.filePath,
+        sessionId: session.sessionId,
+        projectName: project.projectName,
+        projectPath: project.projectPath
+      });
+      projectOfSession.set(session.sessionId, project.projectName);
+    }
+  }
+
+  const records = await collectUsage(sessions, { since, until });
+  const summary = summarizeUsage(records, by, prices);
+
+  if (format === 'json') {
+    console.log(JSON.stringify(toUsageJson(summary, prices.currency, { since, until }), null, 2));
+    return;
+  }
+
+  if (format === 'csv') {
+    console.log([by, ...CSV_COLUMNS.slice(1)].join(','));
+    for (const row of summary.rows) {
+      console.log(CSV_COLUMNS.map(column => csvField(column === 'cost' ? row.cost.toFixed(4) : row[column])).join(','));
+    }
+    return;
+  }
+
+  console.log(chalk.bold.cyan('\n💰 Token Usage\n'));
+  const filters = [
+    options.project ? `project ${options.project}` : null,
+    since ? `since ${since.toLocaleDateString()}` : null,
+    until ? `until ${until.toLocaleDateString()}` : null,
+    `by ${by}`
+  ].filter(Boolean);
+  console.log(chalk.dim(`${filters.join(' · ')}\n`));
+
+  if (summary.rows.length === 0) {
+    console.log(chalk.yellow('No usage found in the session transcripts\n'));
+    return;
+  }
+
+  const label = (row: UsageRow): string => {
+    if (by === 'project') return row.key.replace(os.homedir(), '~');
+    if (by === 'session') return `${row.key.slice(0, 8)} ${chalk.dim(projectOfSession.get(row.key) || '')}`;
+    return row.key;
+  };
+
+  const shown = options.limit && options.limit > 0 ? summary.rows.slice(0, options.limit) : summary.rows;
+  const labels = shown.map(row => label(row));
+  const width = Math.min(48, Math.max(by.length, ...labels.map(text => visibleLength(text))));
+
+  console.log(chalk.bold(`${pad(capitalize(by), width)}  ${'Requests'.padStart(8)}  ${'Input'.padStart(8)}  ${'Output'.padStart(8)}  ${'Cache wr'.padStart(8)}  ${'Cache rd'.padStart(8)}  ${'Cost'.padStart(10)}`));
+  shown.forEach((row, index) => {
+    console.log(formatRow(labels[index], row, width, prices.currency));
+  });
+  console.log(chalk.dim('─'.repeat(width + 62)));
+  console.log(chalk.bold(formatRow('Total', summary.total, width, prices.currency)));
+  console.log('');
+
+  const more = summary.rows.length - shown.length;
+  if (more > 0) {
+    console.log(chalk.dim(`${more} more row(s) - use --limit 0 to show all\n`));
+  }
+  if (summary.unpricedModels.length > 0) {
+    console.log(chalk.yellow(`⚠️  No price for ${summary.unpricedModels.join(', ')} - ${summary.total.unpricedRequests} request(s) counted at 0`));
+    console.log(chalk.dim('   Add them to the price table: cch usage prices init, then edit ~/.cch/prices.json\n'));
+  }
+  console.log(chalk.dim(`Costs are estimates in ${prices.currency} from the price table (cch usage prices)\n`));
+}
+
+function showPrices(testMode?: boolean): void {
+  const loaded = loadPriceTable(testMode);
+  const prices = loadValidPrices(testMode);
+
+  console.log(chalk.bold.cyan('\n💲 Model Prices\n'));
+  console.log(chalk.dim(`Source: ${loaded.exists ? loaded.path.replace(os.homedir(), '~') : 'built-in list prices (create a file with: cch usage prices init)'}`));
+  console.log(chalk.dim(`${prices.currency} per million tokens\n`));
+
+  const width = Math.max(5, ...Object.keys(prices.models).map(model => model.length));
+  console.log(chalk.bold(`${'Model'.padEnd(width)}  ${'Input'.padStart(8)}  ${'Output'.padStart(8)}  ${'Cache wr'.padStart(8)}  ${'Cache rd'.padStart(8)}`));
+  for (const [model, price] of Object.entries(prices.models).sort((a, b) => a[0].localeCompare(b[0]))) {
+    console.log(`${model.padEnd(width)}  ${formatPrice(price.input)}  ${formatPrice(price.output)}  ${formatPrice(price.cacheWrite)}  ${formatPrice(price.cacheRead)}`);
+  }
+  console.log('');
+}
+
+function initPrices(testMode?: boolean): void {
+  const { path: pricesPath, exists } = loadPriceTable(testMode);
+  const displayPath = pricesPath.replace(os.homedir(), '~');
+
+  if (exists) {
+    console.log(chalk.yellow(`⚠️  ${displayPath} already exists - edit it or remove it first\n`));
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(pricesPath), { recursive: true });
+  fs.writeFileSync(pricesPath, serializeDefaultPriceTable());
+  console.log(chalk.green(`✅ Wrote the built-in price table to ${displayPath}\n`));
+  console.log(chalk.dim('Edit the prices (per million tokens) or add models, then run: cch usage\n'));
+}
+
+/**
+ * A broken price file would silently skew every cost, so refuse to use it
+ */
+function loadValidPrices(testMode?: boolean): PriceTable {
+  const loaded = loadPriceTable(testMode);
+  if (loaded.errors.length > 0) {
+    throw new Error(`${loaded.path.replace(os.homedir(), '~')} is invalid:\n  ${loaded.errors.join('\n  ')}`);
+  }
+  return loaded.table;
+}
+
+function formatRow(label: string, row: UsageRow, width: number, currency: string): string {
+  const cost = row.unpricedRequests === row.requests ? '-' : formatCost(row.cost, currency);
+  return `${pad(label, width)}  ${row.requests.toString().padStart(8)}  ${formatTokens(row.inputTokens).padStart(8)}  ${formatTokens(row.outputTokens).padStart(8)}  ${formatTokens(row.cacheWriteTokens).padStart(8)}  ${formatTokens(row.cacheReadTokens).padStart(8)}  ${cost.padStart(10)}`;
+}
+
+function formatCost(cost: number, currency: string): string {
+  return currency === 'USD' ? `$${cost.toFixed(2)}` : `${cost.toFixed(2)} ${currency}`;
+}
+
+function formatPrice(price: number): string {
+  return price.toFixed(2).padStart(8);
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens < 1000) return tokens.toString();
+  if (tokens < 1000000) return `${(tokens / 1000).toFixed(1)}k`;
+  if (tokens < 1000000000) return `${(tokens / 1000000).toFixed(1)}M`;
+  return `${(tokens / 1000000000).toFixed(1)}B`;
+}
+
+/**
+ * Pad or cut to a width, ignoring color codes
+ */
+function pad(text: string, width: number): string {
+  const length = visibleLength(text);
+  if (length > width) {
+    const plain = text.replace(/\x1b\[[0-9;]*m/g, '');
+    return `${plain.slice(0, width - 1)}…`;
+  }
+  return text + ' '.repeat(width - length);
+}
+
+function visibleLength(text: string): number {
+  return text.replace(/\x1b\[[0-9;]*m/g, '').length;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
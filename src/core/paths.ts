@@ -29,6 +29,54 @@ export function getPermissionsPath(testMode: boolean = false): string {
   return path.join(getDataDir(testMode), 'permissions.json');
 }
 
+export function getSecretPatternsPath(testMode: boolean = false): string {
+  return path.join(getDataDir(testMode), 'secret-patterns.json');
+}
+
+export function getSecretScanIndexPath(testMode: boolean = false, scope: 'cache' | 'config' = 'cache'): string {
+  return path.join(getDataDir(testMode), 'secret-scan-index', `${scope}.json`);
+}
+
+export function getVaultPath(testMode: boolean = false): string {
+  return path.join(getDataDir(testMode), 'vault.json');
+}
+
+export function getVaultKeyPath(testMode: boolean = false): string {
+  return path.join(getDataDir(testMode), 'vault.key');
+}
+
+export function getFingerprintKeyPath(testMode: boolean = false): string {
+  return path.join(getDataDir(testMode), 'fingerprint.key');
+}
+
+export function getRetentionPolicyPath(testMode: boolean = false): string {
+  return path.join(getDataDir(testMode), 'retention.json');
+}
+
+export function getCacheGcLockPath(testMode: boolean = false): string {
+  return path.join(getDataDir(testMode), 'cache-gc.lock');
+}
+
+export function getCacheHistoryPath(testMode: boolean = false): string {
+  return path.join(getDataDir(testMode), 'cache-history.jsonl');
+}
+
+export function getSessionArchiveDir(testMode: boolean = false): string {
+  return path.join(getDataDir(testMode), 'archive');
+}
+
+export function getBlobStoreDir(testMode: boolean = false): string {
+  return path.join(getDataDir(testMode), 'blobs');
+}
+
+export function getSessionIndexDir(testMode: boolean = false): string {
+  return path.join(getDataDir(testMode), 'session-index');
+}
+
+export function getModelPricesPath(testMode: boolean = false): string {
+  return path.join(getDataDir(testMode), 'prices.json');
+}
+
 // Keep the old function name for now to avoid breaking changes
 export function getBaseCommandsPath(testMode: boolean = false): string {
   return getPermissionsPath(testMode);
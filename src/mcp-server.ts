@@ -17,6 +17,9 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
+import type { ProjectTreeNode } from './services/analyzer';
+import type { AuditJsonReport } from './services/report-formats';
+import type { SessionSearchJsonReport } from './services/session-search';
 
 // Tool schemas
 const reloadMcpSchema = z.object({
@@ -99,6 +102,15 @@ const listProjectsSchema = z.object({
   includeStats: z.boolean().optional().describe('Include project statistics'),
 });
 
+const searchSessionsSchema = z.object({
+  query: z.string().describe('Words to search for; every word must appear in the message'),
+  project: z.string().optional().describe('Comma-separated project name or path patterns'),
+  since: z.string().optional().describe('Only messages from this date (YYYY-MM-DD) or the last N days (e.g. 30d)'),
+  until: z.string().optional().describe('Only messages up to this date (YYYY-MM-DD)'),
+  role: z.enum(['user', 'assistant', 'tool']).optional().describe('Only user prompts, assistant replies or tool calls'),
+  limit: z.number().optional().default(10).describe('Maximum number of matches to return'),
+});
+
 // Tool definitions with proper JSON Schema
 const TOOLS = [
   {
@@ -369,6 +381,42 @@ const TOOLS = [
       }
     },
   },
+  {
+    name: 'search-sessions',
+    description: 'Full-text search across past Claude Code session transcripts (user prompts, assistant replies and tool calls). Use this to find the session where something was discussed or done.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Words to search for; every word must appear in the message'
+        },
+        project: {
+          type: 'string',
+          description: 'Comma-separated project name or path patterns'
+        },
+        since: {
+          type: 'string',
+          description: 'Only messages from this date (YYYY-MM-DD) or the last N days (e.g. 30d)'
+        },
+        until: {
+          type: 'string',
+          description: 'Only messages up to this date (YYYY-MM-DD)'
+        },
+        role: {
+          type: 'string',
+          enum: ['user', 'assistant', 'tool'],
+          description: 'Only user prompts, assistant replies or tool calls'
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of matches to return',
+          default: 10
+        }
+      },
+      required: ['query']
+    },
+  },
   {
     name: 'list-projects',
     description: 'Show all projects in Claude Code configuration. Use this when asked to list or show projects.',
@@ -402,6 +450,22 @@ const executeCliCommand = (command: string): string => {
   }
 };
 
+// Render the project tree from an `--audit --format json` report
+const formatProjectTree = (node: ProjectTreeNode, prefix: string = ''): string[] => {
+  const lines: string[] = [];
+  const children = node.children || [];
+  children.forEach((child, index) => {
+    const isLast = index === children.length - 1;
+    const name = child.projectCount ? `${child.name}/ (${child.projectCount} projects)` : child.name;
+    lines.push(prefix + (isLast ? '└── ' : '├── ') + name);
+    lines.push(...formatProjectTree(child, prefix + (isLast ? '    ' : '│   ')));
+  });
+  return lines;
+};
+
+// Quote a value for the shell, so queries can contain quotes and $
+const shellQuote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
 // Helper function to parse common CLI output patterns
 const parseCliOutput = (output: string): string => {
   // Remove ANSI color codes and clean up output
@@ -921,17 +985,59 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
       
+      case 'search-sessions': {
+        const params = searchSessionsSchema.parse(args);
+
+        let cliCommand = `npx claude-code-helper sessions search ${shellQuote(params.query)} --format json --limit ${params.limit}`;
+        if (params.project) {
+          cliCommand += ` --project ${shellQuote(params.project)}`;
+        }
+        if (params.since) {
+          cliCommand += ` --since ${shellQuote(params.since)}`;
+        }
+        if (params.until) {
+          cliCommand += ` --until ${shellQuote(params.until)}`;
+        }
+        if (params.role) {
+          cliCommand += ` --role ${params.role}`;
+        }
+
+        const report: SessionSearchJsonReport = JSON.parse(executeCliCommand(cliCommand));
+
+        if (report.hits.length === 0) {
+          return {
+            content: [{
+              type: 'text',
+              text: `No session messages match "${params.query}"`
+            }]
+          };
+        }
+
+        let output = `🔎 **${report.totalMatches} message(s) in ${report.sessionsMatched} session(s) match "${params.query}"**\n\n`;
+        for (const hit of report.hits) {
+          output += `- **${hit.project}** \`${hit.sessionId}\` (${hit.role}, ${hit.timestamp ? hit.timestamp.slice(0, 16).replace('T', ' ') : 'unknown time'})\n`;
+          output += `  ${hit.snippet}\n`;
+          output += `  Project: ${hit.projectPath}\n`;
+        }
+        if (report.totalMatches > report.hits.length) {
+          output += `\nShowing the newest ${report.hits.length}; raise limit for more.\n`;
+        }
+        output += '\nResume a session with: claude --resume <session-id> (from the project directory)';
+
+        return {
+          content: [{
+            type: 'text',
+            text: output
+          }]
+        };
+      }
+
       case 'list-projects': {
         const params = listProjectsSchema.parse(args);
         
-        // Use audit command to get project tree, then extract just the projects
-        const auditOutput = executeCliCommand('npx claude-code-helper --audit');
+        const report: AuditJsonReport = JSON.parse(executeCliCommand('npx claude-code-helper --audit --format json'));
         
-        // Extract project tree section from audit output
-        const lines = auditOutput.split('\n');
-        const treeStartIndex = lines.findIndex(line => line.includes('PROJECT TREE:'));
-        
-        if (treeStartIndex === -1) {
+        if (!report.tree?.children?.length) {
           return {
             content: [{
               type: 'text',
@@ -940,41 +1046,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
         
-        // Find where tree section ends (next major section)
-        const treeEndIndex = lines.findIndex((line, idx) => 
-          idx > treeStartIndex && line.match(/^[A-Z ]+:$/)
-        );
-        
-        const treeLines = lines.slice(
-          treeStartIndex, 
-          treeEndIndex === -1 ? undefined : treeEndIndex
-        );
-        
         let output = '📂 **Projects in Claude Code Configuration**\n\n';
-        
-        // Extract project count from overview if available
-        const overviewLine = lines.find(line => line.includes('Total projects:'));
-        if (overviewLine) {
-          const projectCount = overviewLine.match(/(\d+)/)?.[1];
-          if (projectCount) {
-            output += `**Total Projects:** ${projectCount}\n\n`;
-          }
-        }
-        
-        // Add the tree structure
-        treeLines.forEach(line => {
-          if (line.trim() && !line.includes('PROJECT TREE:')) {
-            output += line + '\n';
-          }
-        });
+        output += `**Total Projects:** ${report.overview.totalProjects}\n\n`;
+        output += formatProjectTree(report.tree).join('\n') + '\n';
         
         if (params.includeStats) {
-          // Add additional stats from the overview section
-          const configSizeLine = lines.find(line => line.includes('Total config size:'));
-          if (configSizeLine) {
-            output += '\n**Configuration Stats:**\n';
-            output += `${configSizeLine.trim()}\n`;
-          }
+          output += '\n**Configuration Stats:**\n';
+          output += `- Total config size: ${(report.overview.totalConfigSize / 1024 / 1024).toFixed(1)} MB\n`;
+          output += `- MCP tools installed: ${report.overview.mcpToolsInstalled}\n`;
+          output += `- Total permissions: ${report.overview.totalPermissions}\n`;
         }
         
         return {
@@ -0,0 +1,293 @@
+/**
+ * Detection of Claude Code sessions that are currently in use
+ *
+ * On Linux, running `claude` processes are found through /proc: a session is in use when
+ * a process holds its file open, resumes it by id, or has written to it (or created its
+ * session-env marker) since the process started in that project. Without /proc, every
+ * session touched in the last 24 hours counts as in use.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getBaseDir } from '../core/paths';
+import { encodeProjectPath } from './project-paths';
+
+export type DetectionMethod = 'proc' | 'mtime';
+
+export interface ClaudeProcess {
+  pid: number;
+  args: string[];
+  cwd?: string;
+  startedAt?: Date;
+  openFiles: string[];
+}
+
+export interface ActiveSessionOptions {
+  testMode?: boolean;
+  claudeDir?: string;   // Defaults to ~/.claude
+  procDir?: string;     // Defaults to /proc
+  now?: Date;
+}
+
+interface SessionRecord {
+  id: string;
+  path: string;
+  projectDir: string;
+  modified: number;
+}
+
+const FALLBACK_WINDOW_MS = 24 * 60 * 60 * 1000;
+const SESSION_ID = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+
+export class ActiveSessions {
+  private constructor(
+    readonly method: DetectionMethod,
+    readonly processes: ClaudeProcess[],
+    private active: Map<string, string>,   // Session id -> why it is in use
+    private projectsDir: string
+  ) {}
+
+  static async detect(options: ActiveSessionOptions = {}): Promise<ActiveSessions> {
+    const claudeDir = options.claudeDir || path.join(getBaseDir(options.testMode), '.claude');
+    const procDir = options.procDir || '/proc';
+    const now = (options.now || new Date()).getTime();
+    const projectsDir = path.join(claudeDir, 'projects');
+
+    const sessions = listSessions(projectsDir);
+    const markers = listSessionEnvMarkers(path.join(claudeDir, 'session-env'));
+    const active = new Map<string, string>();
+    const mark = (id: string, reason: string) => {
+      if (!active.has(id)) active.set(id, reason);
+    };
+
+    if (!isProcAvailable(procDir)) {
+      for (const session of sessions) {
+        if (now - session.modified < FALLBACK_WINDOW_MS) mark(session.id, 'modified in the last 24 hours');
+      }
+      for (const [id, modified] of markers) {
+        if (now - modified < FALLBACK_WINDOW_MS) mark(id, 'session-env marker from the last 24 hours');
+      }
+      return new ActiveSessions('mtime', [], active, projectsDir);
+    }
+
+    const processes = findClaudeProcesses(procDir);
+    const byPath = new Map(sessions.map(s => [s.path, s]));
+
+    for (const proc of processes) {
+      const label = `Claude Code pid ${proc.pid}`;
+
+      for (const file of proc.openFiles) {
+        const session = byPath.get(file);
+        if (session) mark(session.id, `open in ${label}`);
+      }
+
+      for (const arg of proc.args) {
+        const resumed = arg.match(SESSION_ID);
+        if (resumed) mark(resumed[0], `resumed by ${label}`);
+      }
+
+      if (!proc.cwd) continue;
+      const projectDir = encodeProjectPath(proc.cwd);
+      const started = proc.startedAt ? proc.startedAt.getTime() : 0;
+      const projectSessions = sessions.filter(s => s.projectDir === projectDir);
+
+      for (const session of projectSessions) {
+        if (session.modified >= started) mark(session.id, `written since ${label} started in ${proc.cwd}`);
+      }
+
+      const projectIds = new Set(projectSessions.map(s => s.id));
+      for (const [id, modified] of markers) {
+        if (modified >= started && (projectIds.has(id) || !sessions.some(s => s.id === id))) {
+          mark(id, `session-env marker created by ${label}`);
+        }
+      }
+
+      // `claude --continue` picks up the newest session of the project
+      if (proc.args.includes('--continue') || proc.args.includes('-c')) {
+        const newest = projectSessions.reduce<SessionRecord | null>((latest, s) =>
+          !latest || s.modified > latest.modified ? s : latest, null);
+        if (newest) mark(newest.id, `continued by ${label}`);
+      }
+    }
+
+    return new ActiveSessions('proc', processes, active, projectsDir);
+  }
+
+  /**
+   * Why the session is in use, or null if it is not
+   */
+  reasonForSession(sessionId: string): string | null {
+    return this.active.get(sessionId) || null;
+  }
+
+  /**
+   * Why a cache path belongs to a session in use, or null if it does not
+   * Covers session files, whole project directories and per-session data (debug logs,
+   * todos, file-history, session-env) named after the session id.
+   */
+  reasonFor(itemPath: string): string | null {
+    if (path.dirname(itemPath) === this.projectsDir) {
+      for (const [id, reason] of this.active) {
+        if (fs.existsSync(path.join(itemPath, `${id}.jsonl`))) {
+          return `session ${id.slice(0, 8)} is ${reason}`;
+        }
+      }
+      return null;
+    }
+
+    const name = path.basename(itemPath);
+    const sessionId = name.endsWith('.jsonl') ? name.slice(0, -'.jsonl'.length) : name.match(SESSION_ID)?.[0];
+    return sessionId ? this.reasonForSession(sessionId) : null;
+  }
+
+  get activeSessionIds(): string[] {
+    return Array.from(this.active.keys());
+  }
+}
+
+/**
+ * Running Claude Code processes, with their working directory, start time and open files
+ */
+export function findClaudeProcesses(procDir: string = '/proc'): ClaudeProcess[] {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(procDir).filter(e => /^\d+$/.test(e));
+  } catch {
+    return [];
+  }
+
+  const bootTime = readBootTime(procDir);
+  const processes: ClaudeProcess[] = [];
+
+  for (const entry of entries) {
+    const pid = parseInt(entry, 10);
+    if (pid === process.pid) continue;
+
+    const pidDir = path.join(procDir, entry);
+    let args: string[];
+    try {
+      args = fs.readFileSync(path.join(pidDir, 'cmdline'), 'utf-8').split('\0').filter(Boolean);
+    } catch {
+      continue;  // Gone, or not ours to read
+    }
+    if (!isClaudeCommand(args)) continue;
+
+    processes.push({
+      pid,
+      args,
+      cwd: readLink(path.join(pidDir, 'cwd')),
+      startedAt: readStartTime(pidDir, bootTime),
+      openFiles: readOpenFiles(path.join(pidDir, 'fd'))
+    });
+  }
+
+  return processes;
+}
+
+/**
+ * `claude`, or node/bun running the Claude Code package or its `claude` bin script
+ */
+export function isClaudeCommand(args: string[]): boolean {
+  const isClaude = (arg: string) => path.basename(arg) === 'claude' || arg.includes('@anthropic-ai/claude-code');
+  if (args.length === 0) return false;
+  if (isClaude(args[0])) return true;
+  return /^(node|bun)(\.exe)?$/.test(path.basename(args[0])) && args.length > 1 && isClaude(args[1]);
+}
+
+function isProcAvailable(procDir: string): boolean {
+  return fs.existsSync(path.join(procDir, 'self')) || fs.existsSync(path.join(procDir, 'stat'));
+}
+
+function listSessions(projectsDir: string): SessionRecord[] {
+  const sessions: SessionRecord[] = [];
+  let projectDirs: string[];
+  try {
+    projectDirs = fs.readdirSync(projectsDir);
+  } catch {
+    return sessions;
+  }
+
+  for (const projectDir of projectDirs) {
+    let files: string[];
+    try {
+      files = fs.readdirSync(path.join(projectsDir, projectDir)).filter(f => f.endsWith('.jsonl'));
+    } catch {
+      continue;
+    }
+    for (const file of files) {
+      const filePath = path.join(projectsDir, projectDir, file);
+      try {
+        sessions.push({
+          id: file.slice(0, -'.jsonl'.length),
+          path: filePath,
+          projectDir,
+          modified: fs.statSync(filePath).mtimeMs
+        });
+      } catch {
+        continue;
+      }
+    }
+  }
+  return sessions;
+}
+
+function listSessionEnvMarkers(sessionEnvDir: string): Map<string, number> {
+  const markers = new Map<string, number>();
+  try {
+    for (const entry of fs.readdirSync(sessionEnvDir)) {
+      const id = entry.match(SESSION_ID)?.[0];
+      if (!id) continue;
+      markers.set(id, fs.statSync(path.join(sessionEnvDir, entry)).mtimeMs);
+    }
+  } catch {
+    // No session-env directory
+  }
+  return markers;
+}
+
+function readLink(linkPath: string): string | undefined {
+  try {
+    return fs.readlinkSync(linkPath);
+  } catch {
+    return undefined;
+  }
+}
+
+function readOpenFiles(fdDir: string): string[] {
+  try {
+    return fs.readdirSync(fdDir)
+      .map(fd => readLink(path.join(fdDir, fd)))
+      .filter((target): target is string => !!target && target.endsWith('.jsonl'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Boot time from /proc/stat, in ms since the epoch
+ */
+function readBootTime(procDir: string): number | undefined {
+  try {
+    const match = fs.readFileSync(path.join(procDir, 'stat'), 'utf-8').match(/^btime (\d+)$/m);
+    return match ? parseInt(match[1], 10) * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Process start time from field 22 of /proc/<pid>/stat (clock ticks since boot)
+ * Clock ticks are 100 per second on every Linux configuration Node supports.
+ */
+function readStartTime(pidDir: string, bootTime: number | undefined): Date | undefined {
+  if (bootTime === undefined) return undefined;
+  try {
+    const stat = fs.readFileSync(path.join(pidDir, 'stat'), 'utf-8');
+    // The command name in field 2 may contain spaces, so split after its closing paren
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    const ticks = parseInt(fields[19], 10);
+    return Number.isNaN(ticks) ? undefined : new Date(bootTime + ticks * 10);
+  } catch {
+    return undefined;
+  }
+}
@@ -19,8 +19,13 @@ export interface BackupInfo {
 
 /**
  * Create a compressed backup with given prefix
+ * `redact` may strip values from the copy that must not end up in a backup
  */
-export async function createBackup(prefix: string, testMode: boolean = false): Promise<string> {
+export async function createBackup(
+  prefix: string,
+  testMode: boolean = false,
+  redact?: (config: ClaudeConfig) => void
+): Promise<string> {
   const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
   const backupDir = getBackupsDir(testMode);
   const backupPath = `${backupDir}/${prefix}-${timestamp}.json.gz`;
@@ -32,6 +37,9 @@ export async function createBackup(prefix: string, testMode: boolean = false): P
   
   // Read config and compress
   const config = await loadClaudeConfig(testMode) as ClaudeConfig;
+  if (redact) {
+    redact(config);
+  }
   const configStr = JSON.stringify(config, null, 2);
   
   // Create gzip stream and write compressed data
@@ -6,12 +6,16 @@
 import fs from 'fs';
 import path from 'path';
 import { SessionParser, MessageBlob, SessionBlobAnalysis } from './session-parser';
+import { BlobStore } from './blob-store';
+import { formatBytes } from '../utils/format';
 
 export interface BlobRemovalOptions {
   removeImages: boolean;
   removeLargeText: boolean;
   minBlobSize: number;  // Only remove blobs >X bytes
   sanitize: boolean;    // Replace with placeholders instead of removing
+  dedup?: boolean;      // Move payloads into the blob store and leave references
+  backup?: boolean;     // Copy the session to <project>/.backups first (default true)
   dryRun: boolean;
 }
 
@@ -21,17 +25,38 @@ export interface BlobRemovalResult {
   newSize: number;
   messagesRemoved: number;
   messagesSanitized: number;
+  messagesDeduplicated?: number;
+  blobsStored?: number;   // Payloads new to the blob store
+  blobsReused?: number;   // Payloads the store already had from another session
   blobsRemoved: MessageBlob[];
   backupPath?: string;
   success: boolean;
   error?: string;
 }
 
+// Payloads smaller than this would barely outweigh their reference marker
+const MIN_DEDUP_SIZE = 1024;
+
+/**
+ * Replace base64 image data URIs in a string with size placeholders
+ */
+export function replaceImageDataUris(text: string): string {
+  return text.replace(
+    /data:image\/([^;]+);base64,[A-Za-z0-9+/=]+/g,
+    (match, imageType) => {
+      const estimatedBytes = Math.floor(match.length * 0.75);
+      return `[IMAGE REMOVED: ${imageType.toUpperCase()}, ~${formatBytes(estimatedBytes)}]`;
+    }
+  );
+}
+
 export class BlobRemover {
   private parser: SessionParser;
+  private store: BlobStore;
 
-  constructor() {
+  constructor(testMode: boolean = false) {
     this.parser = new SessionParser();
+    this.store = new BlobStore(testMode);
   }
 
   /**
@@ -67,7 +92,7 @@ export class BlobRemover {
       }
 
       // 3. Create backup
-      const backupPath = await this.backupSession(sessionPath);
+      const backupPath = options.backup === false ? undefined : await this.backupSession(sessionPath);
 
       if (options.dryRun) {
         return this.buildDryRunResult(sessionPath, originalSize, blobsToRemove, backupPath);
@@ -80,8 +105,31 @@ export class BlobRemover {
       let cleanedMessages: any[];
       let messagesSanitized = 0;
       let messagesRemoved = 0;
+      let messagesDeduplicated = 0;
+      let blobsStored = 0;
+      let blobsReused = 0;
 
-      if (options.sanitize) {
+      if (options.dedup) {
+        // Dedup mode: move payloads into the blob store, keep the messages
+        const messageIndicesToDedup = new Set(
+          blobsToRemove.map(b => b.message.messageIndex)
+        );
+
+        cleanedMessages = [];
+        for (const [index, msg] of messages.entries()) {
+          if (!messageIndicesToDedup.has(index)) {
+            cleanedMessages.push(msg);
+            continue;
+          }
+          const deduped = await this.store.dedupValue(msg, (text, jsonPath) => this.shouldDedup(text, jsonPath, options));
+          if (deduped.stored.length > 0) {
+            messagesDeduplicated++;
+            blobsStored += deduped.stored.filter(b => b.added).length;
+            blobsReused += deduped.stored.filter(b => !b.added).length;
+          }
+          cleanedMessages.push(deduped.value);
+        }
+      } else if (options.sanitize) {
         // Sanitize mode: replace blobs with placeholders
         const messageIndicesToSanitize = new Set(
           blobsToRemove.map(b => b.message.messageIndex)
@@ -120,6 +168,7 @@ export class BlobRemover {
         newSize,
         messagesRemoved,
         messagesSanitized,
+        ...(options.dedup ? { messagesDeduplicated, blobsStored, blobsReused } : {}),
         blobsRemoved: blobsToRemove,
         backupPath,
         success: true
@@ -139,6 +188,20 @@ export class BlobRemover {
     }
   }
 
+  /**
+   * Whether a string leaf of a blob message goes into the blob store
+   * Images are data URIs or image block sources, base64 files come from toolUseResult,
+   * anything else large counts as large text
+   */
+  private shouldDedup(text: string, jsonPath: string, options: BlobRemovalOptions): boolean {
+    const size = Buffer.byteLength(text, 'utf-8');
+    if (size < Math.max(options.minBlobSize, MIN_DEDUP_SIZE)) return false;
+
+    if (jsonPath === 'toolUseResult.file.base64') return true;
+    const isImage = text.startsWith('data:image/') || jsonPath.endsWith('.source.data');
+    return isImage ? options.removeImages : options.removeLargeText;
+  }
+
   /**
    * Sanitize message by replacing blobs with placeholders
    */
@@ -150,21 +213,14 @@ export class BlobRemover {
     const hasLargeText = blobs.some(b => b.blobType === 'large-text');
     const hasDataDump = blobs.some(b => b.blobType === 'data-dump');
 
-    // Parse message for modification
-    const sanitized = JSON.parse(messageStr);
-
     // Replace base64 images with placeholder
     if (hasImages) {
-      messageStr = messageStr.replace(
-        /data:image\/([^;]+);base64,[A-Za-z0-9+/=]+/g,
-        (match, imageType) => {
-          const originalSize = match.length;
-          const estimatedBytes = Math.floor(originalSize * 0.75);
-          return `[IMAGE REMOVED: ${imageType.toUpperCase()}, ~${this.formatBytes(estimatedBytes)}]`;
-        }
-      );
+      messageStr = replaceImageDataUris(messageStr);
     }
 
+    // Parse message for modification (after the image placeholders went in)
+    const sanitized = JSON.parse(messageStr);
+
     // Replace toolUseResult base64 files with placeholder
     if (hasDataDump && sanitized.toolUseResult && sanitized.toolUseResult.file && sanitized.toolUseResult.file.base64) {
       const base64Size = Buffer.byteLength(sanitized.toolUseResult.file.base64, 'utf-8');
@@ -249,7 +305,7 @@ export class BlobRemover {
     sessionPath: string,
     originalSize: number,
     blobsToRemove: MessageBlob[],
-    backupPath: string
+    backupPath: string | undefined
   ): BlobRemovalResult {
     const estimatedSavings = blobsToRemove.reduce((sum, b) => sum + b.blobSize, 0);
     const newSize = originalSize - estimatedSavings;
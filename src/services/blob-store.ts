@@ -0,0 +1,425 @@
+/**
+ * Content-addressed blob store for deduplicated session blobs
+ * `cch blob clean --dedup` moves large string payloads (screenshots, base64 files, huge
+ * tool outputs) into ~/.cch/blobs/<sha256> and leaves a reference marker in the session.
+ * The same screenshot pasted into ten sessions is stored once; `cch blob rehydrate`
+ * puts the payloads back.
+ *
+ * Payloads are stored exactly as they were, so rehydrating gives back the original
+ * session; masking is left to mask-secrets. The store is outside what scan-secrets
+ * looks at, which is why it is written owner-only. Image blocks are stored whole and
+ * replaced by a text block, so a session resumed before rehydrating still holds only
+ * valid content blocks.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as readline from 'readline';
+import { createGunzip } from 'zlib';
+import { getBaseDir, getBlobStoreDir, getSessionArchiveDir } from '../core/paths';
+import { readJsonlLines } from '../utils/jsonl';
+import { formatBytes } from '../utils/format';
+import { getTrashDir } from './trash';
+
+export interface StoredBlob {
+  sha256: string;
+  size: number;        // Bytes of the stored payload (UTF-8)
+  added: boolean;      // False when the store already had it
+}
+
+export interface DedupValueResult {
+  value: any;
+  stored: StoredBlob[];
+}
+
+export interface BlobPruneResult {
+  referenced: number;      // Stored blobs something still references
+  unreferenced: string[];  // Hashes of the blobs removed (or, with dryRun, to remove)
+  freed: number;           // Bytes of those blobs
+}
+
+export interface RehydrateResult {
+  sessionFile: string;
+  references: number;  // Markers found
+  restored: number;
+  missing: string[];   // Hashes not in the store (markers left as they are)
+  originalSize: number;
+  newSize: number;
+}
+
+// [BLOB STORED: sha256:<hex>, 1.2 MB - cch blob rehydrate]
+const REFERENCE_PATTERN = /^\[BLOB STORED: sha256:([0-9a-f]{64}), [^\]]*\]$/;
+const REFERENCE_PREFIX = '[BLOB STORED: sha256:';
+const REFERENCE_HASHES = /\[BLOB STORED: sha256:([0-9a-f]{64}),/g;
+// The text block standing in for an image block: [BLOB STORED: sha256:<hex>, image block, 1.2 MB - ...]
+const IMAGE_BLOCK_LABEL = 'image block';
+
+export class BlobStore {
+  private dir: string;
+
+  constructor(private testMode: boolean = false) {
+    this.dir = getBlobStoreDir(testMode);
+  }
+
+  /**
+   * Add a payload to the store unmodified
+   * Writing is skipped when the hash is already there
+   */
+  async put(content: string): Promise<StoredBlob> {
+    const sha256 = hashString(content);
+    const size = Buffer.byteLength(content, 'utf-8');
+    const blobPath = this.pathFor(sha256);
+
+    if (fs.existsSync(blobPath)) {
+      // Reused blobs count as new for a prune that is running meanwhile
+      const now = new Date();
+      await fs.promises.utimes(blobPath, now, now);
+      return { sha256, size, added: false };
+    }
+
+    await fs.promises.mkdir(this.dir, { recursive: true, mode: 0o700 });
+    const tempPath = `${blobPath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, content, { encoding: 'utf-8', mode: 0o600 });
+    await fs.promises.rename(tempPath, blobPath);
+    return { sha256, size, added: true };
+  }
+
+  /**
+   * A stored payload, or null if it is missing or does not match its hash
+   */
+  async get(sha256: string): Promise<string | null> {
+    try {
+      const content = await fs.promises.readFile(this.pathFor(sha256), 'utf-8');
+      return hashString(content) === sha256 ? content : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Replace the string leaves `select` picks with references, storing their payloads
+   * An image block whose data is picked is replaced as a whole by a text block.
+   */
+  async dedupValue(value: any, select: (text: string, jsonPath: string) => boolean): Promise<DedupValueResult> {
+    const stored: StoredBlob[] = [];
+
+    const visit = async (node: any, jsonPath: string): Promise<any> => {
+      if (isImageBlock(node)) {
+        if (!select(node.source.data, `${jsonPath}.source.data`)) return node;
+        const blob = await this.put(JSON.stringify(node));
+        stored.push(blob);
+        return { type: 'text', text: formatBlobReference(blob, IMAGE_BLOCK_LABEL) };
+      }
+      if (typeof node === 'string') {
+        if (isBlobReference(node) || !select(node, jsonPath)) return node;
+        const blob = await this.put(node);
+        stored.push(blob);
+        return formatBlobReference(blob);
+      }
+      if (Array.isArray(node)) {
+        const result = [];
+        for (const [index, item] of node.entries()) {
+          result.push(await visit(item, `${jsonPath}[${index}]`));
+        }
+        return result;
+      }
+      if (node && typeof node === 'object') {
+        const result: Record<string, any> = {};
+        for (const [key, child] of Object.entries(node)) {
+          result[key] = await visit(child, jsonPath ? `${jsonPath}.${key}` : key);
+        }
+        return result;
+      }
+      return node;
+    };
+
+    return { value: await visit(value, ''), stored };
+  }
+
+  /**
+   * Replace references in a parsed value with their payloads
+   */
+  async rehydrateValue(value: any): Promise<{ value: any; restored: number; missing: string[] }> {
+    let restored = 0;
+    const missing: string[] = [];
+
+    const visit = async (node: any): Promise<any> => {
+      if (node && node.type === 'text' && typeof node.text === 'string' && isImageBlockReference(node.text)) {
+        const sha256 = parseBlobReference(node.text)!;
+        const content = await this.get(sha256);
+        if (content === null) {
+          missing.push(sha256);
+          return node;
+        }
+        restored++;
+        return JSON.parse(content);
+      }
+      if (typeof node === 'string') {
+        const sha256 = parseBlobReference(node);
+        if (!sha256 || isImageBlockReference(node)) return node;
+        const content = await this.get(sha256);
+        if (content === null) {
+          missing.push(sha256);
+          return node;
+        }
+        restored++;
+        return content;
+      }
+      if (Array.isArray(node)) {
+        const result = [];
+        for (const item of node) {
+          result.push(await visit(item));
+        }
+        return result;
+      }
+      if (node && typeof node === 'object') {
+        const result: Record<string, any> = {};
+        for (const [key, child] of Object.entries(node)) {
+          result[key] = await visit(child);
+        }
+        return result;
+      }
+      return node;
+    };
+
+    return { value: await visit(value), restored, missing };
+  }
+
+  /**
+   * Put every stored payload back into a session file
+   * Like masking, the result is written next to the session and renamed over it, and
+   * nothing is written if the session changes meanwhile. With dryRun nothing is written.
+   */
+  async rehydrateSession(sessionPath: string, options: { dryRun?: boolean } = {}): Promise<RehydrateResult> {
+    const before = await fs.promises.stat(sessionPath);
+    const tempPath = `${sessionPath}.cch-rehydrate-${process.pid}.tmp`;
+    const result: RehydrateResult = {
+      sessionFile: sessionPath,
+      references: 0,
+      restored: 0,
+      missing: [],
+      originalSize: before.size,
+      newSize: before.size
+    };
+
+    const out = options.dryRun ? null : fs.createWriteStream(tempPath, { encoding: 'utf-8', mode: before.mode & 0o777 });
+    let newSize = 0;
+    let lastLine = 0;
+
+    try {
+      try {
+        for await (const line of readJsonlLines(sessionPath)) {
+          // Keep blank lines where they were
+          while (++lastLine < line.lineNumber) {
+            newSize += 1;
+            if (out) await write(out, '\n');
+          }
+
+          let output = line.raw;
+          if (line.value !== undefined && line.raw.includes(REFERENCE_PREFIX)) {
+            const rehydrated = await this.rehydrateValue(line.value);
+            result.references += rehydrated.restored + rehydrated.missing.length;
+            result.restored += rehydrated.restored;
+            result.missing.push(...rehydrated.missing);
+            if (rehydrated.restored > 0) {
+              output = JSON.stringify(rehydrated.value);
+            }
+          }
+
+          newSize += Buffer.byteLength(output, 'utf-8') + 1;
+          if (out) await write(out, output + '\n');
+        }
+      } finally {
+        if (out) {
+          await new Promise<void>((resolve, reject) => {
+            out.on('error', reject);
+            out.end(resolve);
+          });
+        }
+      }
+
+      if (result.restored > 0) {
+        result.newSize = newSize;
+      }
+
+      if (out && result.restored > 0) {
+        // A live session may have been appended to while we were reading it
+        const after = await fs.promises.stat(sessionPath);
+        if (after.size !== before.size || after.mtimeMs !== before.mtimeMs) {
+          throw new Error('Session changed while rehydrating - file left unchanged, try again');
+        }
+        await fs.promises.rename(tempPath, sessionPath);
+      }
+      return result;
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  }
+
+  /**
+   * Whether a session file contains any blob references, without parsing it
+   */
+  async hasReferences(sessionPath: string): Promise<boolean> {
+    for await (const line of readJsonlLines(sessionPath)) {
+      if (line.raw.includes(REFERENCE_PREFIX)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Number of blobs and bytes in the store
+   */
+  async getStats(): Promise<{ blobs: number; size: number }> {
+    let blobs = 0;
+    let size = 0;
+    let entries: string[];
+    try {
+      entries = await fs.promises.readdir(this.dir);
+    } catch {
+      return { blobs, size };
+    }
+    for (const entry of entries) {
+      if (!/^[0-9a-f]{64}$/.test(entry)) continue;
+      try {
+        size += (await fs.promises.stat(path.join(this.dir, entry))).size;
+        blobs++;
+      } catch {
+        continue;
+      }
+    }
+    return { blobs, size };
+  }
+
+  /**
+   * Remove the blobs nothing references any more
+   * References are searched in the sessions under ~/.claude/projects (with their .backups),
+   * the trash and the session archives, so anything that can still be restored keeps its
+   * payloads. Blobs written or reused after the search started are kept, which protects
+   * a `cch blob clean --dedup` running at the same time. With dryRun nothing is removed.
+   */
+  async prune(options: { dryRun?: boolean } = {}): Promise<BlobPruneResult> {
+    const startedAt = Date.now();
+    const references = await this.findReferences();
+    const result: BlobPruneResult = { referenced: 0, unreferenced: [], freed: 0 };
+
+    let entries: string[];
+    try {
+      entries = await fs.promises.readdir(this.dir);
+    } catch {
+      return result;
+    }
+
+    for (const entry of entries) {
+      if (!/^[0-9a-f]{64}$/.test(entry)) continue;
+      if (references.has(entry)) {
+        result.referenced++;
+        continue;
+      }
+      try {
+        const blobPath = this.pathFor(entry);
+        const stats = await fs.promises.stat(blobPath);
+        if (stats.mtimeMs >= startedAt) continue;
+        if (!options.dryRun) {
+          await fs.promises.rm(blobPath);
+        }
+        result.unreferenced.push(entry);
+        result.freed += stats.size;
+      } catch {
+        continue;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Hashes referenced by any session, session backup, trashed item or archive
+   */
+  private async findReferences(): Promise<Set<string>> {
+    const references = new Set<string>();
+    const roots = [path.join(getBaseDir(this.testMode), '.claude', 'projects'), getTrashDir(this.testMode), getSessionArchiveDir(this.testMode)];
+
+    for (const root of roots) {
+      for (const filePath of await listFiles(root)) {
+        if (!filePath.endsWith('.jsonl') && !filePath.endsWith('.gz')) continue;
+        try {
+          const raw = fs.createReadStream(filePath);
+          let input: NodeJS.ReadableStream = raw;
+          if (filePath.endsWith('.gz')) {
+            const gunzip = createGunzip();
+            raw.on('error', error => gunzip.destroy(error));
+            input = raw.pipe(gunzip);
+          }
+          for await (const line of readline.createInterface({ input, crlfDelay: Infinity })) {
+            if (!line.includes(REFERENCE_PREFIX)) continue;
+            for (const match of line.matchAll(REFERENCE_HASHES)) {
+              references.add(match[1]);
+            }
+          }
+        } catch {
+          // Unreadable files can't be restored from either
+          continue;
+        }
+      }
+    }
+    return references;
+  }
+
+  private pathFor(sha256: string): string {
+    return path.join(this.dir, sha256);
+  }
+}
+
+export function formatBlobReference(blob: Pick<StoredBlob, 'sha256' | 'size'>, label?: string): string {
+  return `${REFERENCE_PREFIX}${blob.sha256}, ${label ? `${label}, ` : ''}${formatBytes(blob.size)} - cch blob rehydrate]`;
+}
+
+export function parseBlobReference(text: string): string | null {
+  if (!text.startsWith(REFERENCE_PREFIX)) return null;
+  const match = text.match(REFERENCE_PATTERN);
+  return match ? match[1] : null;
+}
+
+export function isBlobReference(text: string): boolean {
+  return parseBlobReference(text) !== null;
+}
+
+function isImageBlockReference(text: string): boolean {
+  return isBlobReference(text) && text.includes(`, ${IMAGE_BLOCK_LABEL}, `);
+}
+
+function isImageBlock(node: any): boolean {
+  return node?.type === 'image' && typeof node.source?.data === 'string' && !isBlobReference(node.source.data);
+}
+
+/**
+ * Files under a directory, recursively; a missing directory has none
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+function hashString(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+function write(stream: fs.WriteStream, chunk: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write(chunk, error => (error ? reject(error) : resolve()));
+  });
+}
@@ -6,6 +6,17 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import {
+  RetentionRules,
+  RetentionTarget,
+  ExpiredEntry,
+  DEFAULT_RETENTION_RULES,
+  RETENTION_TARGETS,
+  findExpiredEntries
+} from './cache-retention';
+import { PathConfidence, encodeProjectPath, resolveProjectPath } from './project-paths';
+import { getConfigPath } from '../core/paths';
+import { formatBytes } from '../utils/format';
 
 // Data models
 
@@ -26,7 +37,8 @@ export interface ProjectCache {
   totalSize: number;
   sessions: SessionFile[];
   lastAccessed: Date;
-  isOrphaned: boolean;
+  pathConfidence: PathConfidence;  // How sure projectPath is (see project-paths)
+  isOrphaned: boolean;             // Only set when the missing path is certain
   isActive: boolean;
 }
 
@@ -85,13 +97,15 @@ export interface CacheAnalysis {
   history: HistoryFile | null;
   largestSessions: SessionFile[];
   orphanedProjects: ProjectCache[];
+  unresolvedProjects: ProjectCache[];  // No existing path found, but too uncertain to call orphaned
   staleProjects: ProjectCache[];
+  expired: Record<RetentionTarget, ExpiredEntry[]>;  // Past the retention rules
   recommendations: CacheRecommendation[];
   potentialSavings: number;
 }
 
 export interface CacheRecommendation {
-  type: 'orphaned' | 'stale' | 'large-session' | 'old-debug' | 'empty-files';
+  type: 'orphaned' | 'stale' | 'large-session' | 'old-debug' | 'old-file-history' | 'old-todos' | 'old-shell-snapshots' | 'empty-files';
   severity: 'high' | 'medium' | 'low';
   description: string;
   targetPath: string;
@@ -99,13 +113,21 @@ export interface CacheRecommendation {
   safetyLevel: 'safe' | 'caution' | 'risky';
 }
 
+// How much of each session is read when looking for its cwd
+const SESSIONS_SAMPLED_FOR_CWD = 3;
+const SESSION_HEAD_BYTES = 256 * 1024;
+
 export class CacheAnalyzer {
   private claudeDir: string;
+  private testMode: boolean;
+  private retentionRules: RetentionRules;
 
-  constructor(testMode: boolean = false) {
+  constructor(testMode: boolean = false, retentionRules: RetentionRules = DEFAULT_RETENTION_RULES) {
+    this.testMode = testMode;
     this.claudeDir = testMode
       ? path.join(__dirname, '../../tests/data/.claude')
       : path.join(os.homedir(), '.claude');
+    this.retentionRules = retentionRules;
   }
 
   /**
@@ -117,14 +139,15 @@ export class CacheAnalyzer {
       throw new Error(`Claude cache directory not found: ${this.claudeDir}`);
     }
 
-    const [projects, fileHistory, debug, todos, sessionEnv, shellSnapshots, history] = await Promise.all([
+    const [projects, fileHistory, debug, todos, sessionEnv, shellSnapshots, history, expired] = await Promise.all([
       this.analyzeProjects(),
       this.analyzeFileHistory(),
       this.analyzeDebugLogs(),
       this.analyzeTodos(),
       this.analyzeSessionEnv(),
       this.analyzeShellSnapshots(),
-      this.analyzeHistory()
+      this.analyzeHistory(),
+      this.findExpired()
     ]);
 
     // Calculate totals
@@ -152,6 +175,7 @@ export class CacheAnalyzer {
 
     // Find orphaned and stale projects
     const orphanedProjects = projects.filter(p => p.isOrphaned);
+    const unresolvedProjects = projects.filter(p => !p.isOrphaned && p.pathConfidence !== 'certain' && !fs.existsSync(p.projectPath));
     const staleProjects = this.findStaleProjects(projects, 60);
 
     // Generate recommendations
@@ -159,7 +183,8 @@ export class CacheAnalyzer {
       orphanedProjects,
       staleProjects,
       largestSessions,
-      sessionEnv
+      sessionEnv,
+      expired
     );
 
     // Calculate potential savings
@@ -183,7 +208,9 @@ export class CacheAnalyzer {
       history,
       largestSessions,
       orphanedProjects,
+      unresolvedProjects,
       staleProjects,
+      expired,
       recommendations,
       potentialSavings
     };
@@ -200,9 +227,10 @@ export class CacheAnalyzer {
     }
 
     const projectDirs = await fs.promises.readdir(projectsDir);
+    const knownPaths = await this.getConfiguredProjectPaths();
 
     const projects = await Promise.all(
-      projectDirs.map(dir => this.analyzeProjectDir(dir))
+      projectDirs.map(dir => this.analyzeProjectDir(dir, knownPaths))
     );
 
     return projects.filter(p => p !== null) as ProjectCache[];
@@ -211,7 +239,7 @@ export class CacheAnalyzer {
   /**
    * Analyze individual project directory
    */
-  private async analyzeProjectDir(dirName: string): Promise<ProjectCache | null> {
+  private async analyzeProjectDir(dirName: string, knownPaths: string[]): Promise<ProjectCache | null> {
     const cachePath = path.join(this.claudeDir, 'projects', dirName);
 
     // Check if it's a directory
@@ -224,21 +252,18 @@ export class CacheAnalyzer {
     const files = await fs.promises.readdir(cachePath);
     const sessionFiles = files.filter(f => f.endsWith('.jsonl'));
 
-    // Get actual project path from first session file (more reliable than decoding)
-    let projectPath = this.decodeProjectPath(dirName); // Fallback
-    if (sessionFiles.length > 0) {
-      const realPath = await this.getProjectPathFromSession(path.join(cachePath, sessionFiles[0]));
-      if (realPath) {
-        projectPath = realPath;
-      }
-    }
+    // Resolve the real project path from session cwds, config keys and the disk
+    const sessionCwds = await this.getSessionCwds(cachePath, sessionFiles);
+    const resolved = resolveProjectPath(dirName, { sessionCwds, knownPaths });
+    const projectPath = resolved.path;
+    const projectName = path.basename(projectPath);
 
-    // Check if project still exists
-    const isOrphaned = !fs.existsSync(projectPath);
-    const isActive = process.cwd() === projectPath;
+    // Only a path we are sure about counts as gone
+    const isOrphaned = !resolved.exists && resolved.confidence === 'certain';
+    const isActive = encodeProjectPath(process.cwd()) === dirName;
 
     const sessions = await Promise.all(
-      sessionFiles.map(f => this.analyzeSessionFile(cachePath, f, this.getProjectName(dirName)))
+      sessionFiles.map(f => this.analyzeSessionFile(cachePath, f, projectName))
     );
 
     // Filter out any null sessions
@@ -252,12 +277,13 @@ export class CacheAnalyzer {
       : new Date(0);
 
     return {
-      projectName: this.getProjectName(dirName),
+      projectName,
       projectPath,
       cachePath,
       totalSize,
       sessions: validSessions.sort((a, b) => b.size - a.size),
       lastAccessed,
+      pathConfidence: resolved.confidence,
       isOrphaned,
       isActive
     };
@@ -470,6 +496,16 @@ export class CacheAnalyzer {
     }
   }
 
+  /**
+   * Debug logs, file-history, todos and shell snapshots past the retention rules
+   */
+  private async findExpired(): Promise<Record<RetentionTarget, ExpiredEntry[]>> {
+    const results = await Promise.all(
+      RETENTION_TARGETS.map(target => findExpiredEntries(this.claudeDir, target, this.retentionRules[target]))
+    );
+    return Object.fromEntries(RETENTION_TARGETS.map((target, i) => [target, results[i]])) as Record<RetentionTarget, ExpiredEntry[]>;
+  }
+
   /**
    * Get all files recursively in a directory
    */
@@ -505,55 +541,61 @@ export class CacheAnalyzer {
   }
 
   /**
-   * Decode project path from cache directory name
+   * Distinct `cwd` values near the top of the project's most recent sessions
+   * Only the first part of each file is read, since sessions can be very large
    */
-  /**
-   * Get the actual project path from a session file
-   * This is more reliable than decoding the directory name,
-   * especially for projects with hyphens in their names.
-   */
-  private async getProjectPathFromSession(sessionFilePath: string): Promise<string | null> {
-    try {
-      const content = await fs.promises.readFile(sessionFilePath, 'utf-8');
-      const lines = content.split('\n').slice(0, 10); // Check first 10 lines
-
-      for (const line of lines) {
-        if (!line) continue;
-        try {
-          const json = JSON.parse(line);
-          const projectPath = json.projectPath || json.project_path || json.cwd;
-          if (projectPath) {
-            return projectPath;
+  private async getSessionCwds(cachePath: string, sessionFiles: string[]): Promise<string[]> {
+    const cwds = new Set<string>();
+
+    const recent = await Promise.all(sessionFiles.map(async f => {
+      const filePath = path.join(cachePath, f);
+      const stats = await fs.promises.stat(filePath).catch(() => null);
+      return { filePath, modified: stats ? stats.mtime.getTime() : 0 };
+    }));
+    recent.sort((a, b) => b.modified - a.modified);
+
+    for (const { filePath } of recent.slice(0, SESSIONS_SAMPLED_FOR_CWD)) {
+      let handle: fs.promises.FileHandle | null = null;
+      try {
+        handle = await fs.promises.open(filePath, 'r');
+        const buffer = Buffer.alloc(SESSION_HEAD_BYTES);
+        const { bytesRead } = await handle.read(buffer, 0, SESSION_HEAD_BYTES, 0);
+        const lines = buffer.toString('utf-8', 0, bytesRead).split('\n').slice(0, 10); // Check first 10 lines
+
+        for (const line of lines) {
+          if (!line) continue;
+          try {
+            const json = JSON.parse(line);
+            const cwd = json.cwd || json.projectPath || json.project_path;
+            if (typeof cwd === 'string' && cwd) {
+              cwds.add(cwd);
+            }
+          } catch (e) {
+            // Skip malformed or truncated lines
+            continue;
           }
-        } catch (e) {
-          // Skip malformed lines
-          continue;
         }
+      } catch (error) {
+        // Unreadable session - the other evidence still applies
+      } finally {
+        await handle?.close();
       }
-
-      return null;
-    } catch (error) {
-      // If we can't read/parse, return null to fall back to decoding
-      return null;
     }
-  }
 
-  private decodeProjectPath(encodedName: string): string {
-    // "-Users-merlin--dev-ldis" -> "/Users/merlin/_dev/ldis"
-    // NOTE: This has issues with hyphens in project names (e.g., "ai-engine" becomes "ai/engine")
-    // We try to read from session files first (see getProjectPathFromSession)
-    return encodedName
-      .replace(/^-/, '/')
-      .replace(/--/g, '/_')
-      .replace(/-/g, '/');
+    return Array.from(cwds);
   }
 
   /**
-   * Get friendly project name
+   * Project keys from ~/.claude.json
    */
-  private getProjectName(encodedName: string): string {
-    const fullPath = this.decodeProjectPath(encodedName);
-    return path.basename(fullPath);
+  private async getConfiguredProjectPaths(): Promise<string[]> {
+    try {
+      const content = await fs.promises.readFile(getConfigPath(this.testMode), 'utf-8');
+      const config = JSON.parse(content);
+      return config?.projects && typeof config.projects === 'object' ? Object.keys(config.projects) : [];
+    } catch (error) {
+      return [];
+    }
   }
 
   /**
@@ -563,7 +605,8 @@ export class CacheAnalyzer {
     orphanedProjects: ProjectCache[],
     staleProjects: ProjectCache[],
     largestSessions: SessionFile[],
-    sessionEnv: SessionEnvCache
+    sessionEnv: SessionEnvCache,
+    expired: Record<RetentionTarget, ExpiredEntry[]>
   ): CacheRecommendation[] {
     const recommendations: CacheRecommendation[] = [];
 
@@ -607,6 +650,25 @@ export class CacheAnalyzer {
       });
     }
 
+    // Check for debug logs, file-history, todos and shell snapshots past their retention rules
+    const retentionTypes: Record<RetentionTarget, CacheRecommendation['type']> = {
+      'debug': 'old-debug',
+      'file-history': 'old-file-history',
+      'todos': 'old-todos',
+      'shell-snapshots': 'old-shell-snapshots'
+    };
+    for (const target of RETENTION_TARGETS) {
+      if (expired[target].length === 0) continue;
+      recommendations.push({
+        type: retentionTypes[target],
+        severity: 'low',
+        description: `${expired[target].length} ${target} entries past the retention policy (${this.describeRule(target)})`,
+        targetPath: `~/.claude/${target}/`,
+        sizeImpact: expired[target].reduce((sum, e) => sum + e.size, 0),
+        safetyLevel: target === 'file-history' ? 'caution' : 'safe'
+      });
+    }
+
     // Check for empty files in session-env
     if (sessionEnv.emptyFileCount > 0) {
       recommendations.push({
@@ -622,15 +684,23 @@ export class CacheAnalyzer {
     return recommendations;
   }
 
+  /**
+   * Short description of a retention rule, e.g. "older than 14 days, over 100 MB, keeps last 10"
+   */
+  describeRule(target: RetentionTarget): string {
+    const rule = this.retentionRules[target];
+    const parts: string[] = [];
+    if (rule.maxAgeDays !== undefined) parts.push(`older than ${rule.maxAgeDays} days`);
+    if (rule.maxTotalMB !== undefined) parts.push(`over ${rule.maxTotalMB} MB`);
+    if (rule.keepLast !== undefined) parts.push(`keeps last ${rule.keepLast}`);
+    return parts.join(', ') || 'no limits';
+  }
+
   /**
    * Format bytes to human-readable size
    */
   formatBytes(bytes: number): string {
-    if (bytes === 0) return '0 B';
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
-    return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+    return formatBytes(bytes);
   }
 
   /**
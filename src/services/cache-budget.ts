@@ -0,0 +1,75 @@
+/**
+ * Size budget for `cch cache clean --budget <size>`
+ *
+ * Cleanup candidates are ranked from least to most disruptive - orphaned projects,
+ * stale projects, blobs inside large sessions, then whole old sessions (oldest first
+ * within each group) - and the smallest prefix of that ranking that brings the cache
+ * under the budget is selected.
+ */
+
+import type { CleanupItem } from './cache-cleaner';
+
+export interface BudgetSummary {
+  budget: number;        // Bytes
+  totalSize: number;     // Cache size before cleanup, trash and session backups included only when permanent
+  needed: number;        // Bytes to free to get under the budget
+  selected: number;      // Bytes the selected items free
+  reachable: boolean;
+  excludedRisky: number; // Risky candidates left out without --aggressive
+  sizeAfter?: number;    // Measured again after an executed cleanup
+  setAside?: number;     // Trash and session backups left out of totalSize (not permanent)
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 * 1024,
+  GB: 1024 * 1024 * 1024,
+  TB: 1024 * 1024 * 1024 * 1024
+};
+
+/**
+ * Parse sizes like "500MB", "1.5 GB" or "200k"; a bare number is megabytes
+ */
+export function parseSize(value: string): number {
+  const match = value.trim().toUpperCase().match(/^(\d+(?:\.\d+)?)\s*([KMGT]?B?|[KMGT])?$/);
+  if (!match) {
+    throw new Error(`Invalid size "${value}". Use e.g. 500MB, 2GB or 750 (MB)`);
+  }
+
+  const unit = match[2] ? (match[2].endsWith('B') ? match[2] : `${match[2]}B`) : 'MB';
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[unit]);
+}
+
+/**
+ * The fewest candidates, in ranking order, that free at least `needed` bytes
+ * Once the target is reached, earlier picks that turned out unnecessary are dropped
+ * again, least preferred first, so a single large item can replace several small ones
+ */
+export function selectForBudget(candidates: CleanupItem[], needed: number): CleanupItem[] {
+  if (needed <= 0) {
+    return [];
+  }
+
+  const selected: CleanupItem[] = [];
+  let freed = 0;
+  for (const candidate of candidates) {
+    if (freed >= needed) break;
+    if (candidate.size <= 0) continue;
+    selected.push(candidate);
+    freed += candidate.size;
+  }
+
+  if (freed < needed) {
+    return selected;
+  }
+
+  for (let i = selected.length - 2; i >= 0; i--) {
+    if (freed - selected[i].size >= needed) {
+      freed -= selected[i].size;
+      selected.splice(i, 1);
+    }
+  }
+
+  return selected;
+}
@@ -5,8 +5,21 @@
 
 import fs from 'fs';
 import path from 'path';
-import os from 'os';
-import { CacheAnalyzer, ProjectCache, SessionFile } from './cache-analyzer';
+import { CacheAnalyzer, CacheAnalysis, ProjectCache, SessionFile } from './cache-analyzer';
+import { SessionParser } from './session-parser';
+import { BlobRemover } from './blob-remover';
+import { moveToTrash, listTrash, deleteFromTrash, getTrashDir, getPathSize } from './trash';
+import { encodeProjectPath } from './project-paths';
+import { ActiveSessions } from './active-sessions';
+import { BudgetSummary, selectForBudget } from './cache-budget';
+import {
+  RetentionRules,
+  RetentionTarget,
+  ExpiredEntry,
+  ProjectOverride,
+  DEFAULT_RETENTION_RULES,
+  resolveProjectOverride
+} from './cache-retention';
 
 export interface CleanCacheOptions {
   orphanedProjects?: boolean;
@@ -14,13 +27,20 @@ export interface CleanCacheOptions {
   largeSessions?: boolean;
   sessionThresholdMB?: number;
   oldDebugLogs?: boolean;
+  oldFileHistory?: boolean;
+  oldTodos?: boolean;
+  oldShellSnapshots?: boolean;
   emptyFiles?: boolean;
+  projectOverrides?: ProjectOverride[];  // Protected projects and per-project limits
+  budgetBytes?: number;   // Select the least disruptive items that get the cache under this size
+  aggressive?: boolean;   // Let the budget select risky items (whole sessions of live projects)
+  permanent?: boolean;    // Delete instead of trashing; a budget then also counts and deletes the trash and session backups
   dryRun?: boolean;
   force?: boolean;
 }
 
 export interface CleanupItem {
-  type: 'session' | 'project' | 'debug' | 'file-history' | 'empty';
+  type: 'session' | 'project' | 'blobs' | 'debug' | 'file-history' | 'todo' | 'shell-snapshot' | 'empty' | 'trash' | 'backup';
   path: string;
   size: number;
   reason: string;
@@ -32,67 +52,100 @@ export interface CleanupPlan {
   totalSize: number;
 }
 
+/**
+ * A plan as previewed, so the items confirmed are the items removed
+ */
+export interface PlannedCleanup {
+  plan: CleanupPlan;
+  budget?: BudgetSummary;
+  permanent: boolean;
+}
+
 export interface CacheCleanupResult {
   sessionsRemoved: number;
   projectsRemoved: number;
   debugLogsRemoved: number;
+  fileHistoryRemoved: number;
+  todosRemoved: number;
+  shellSnapshotsRemoved: number;
   emptyFilesRemoved: number;
+  blobSessionsCleaned: number;
+  trashDeleted: number;     // Trash entries deleted for good (budget mode with permanent)
+  backupsDeleted: number;   // Blob-removal session backups deleted (budget mode with permanent)
   totalBytesFreed: number;
   backupPath?: string;
   itemsRemoved: CleanupItem[];
+  budget?: BudgetSummary;
 }
 
+// Blobs below this size are left in place by budget cleanup (same default as `cch blob clean`)
+const BUDGET_MIN_BLOB_SIZE = 100 * 1024;
+
+// Anything written this recently is left alone, e.g. a session that has just started.
+// Without /proc there is no way to see running sessions, so the window is a whole day.
+const RECENT_WRITE_MS = 10 * 60 * 1000;
+const RECENT_WRITE_FALLBACK_MS = 24 * 60 * 60 * 1000;
+
 export class CacheCleaner {
   private analyzer: CacheAnalyzer;
-  private claudeDir: string;
+  private testMode: boolean;
+  private activeSessions: ActiveSessions | null = null;
 
-  constructor(testMode: boolean = false) {
-    this.analyzer = new CacheAnalyzer(testMode);
-    this.claudeDir = testMode
-      ? path.join(__dirname, '../../tests/data/.claude')
-      : path.join(os.homedir(), '.claude');
+  constructor(testMode: boolean = false, retentionRules: RetentionRules = DEFAULT_RETENTION_RULES) {
+    this.analyzer = new CacheAnalyzer(testMode, retentionRules);
+    this.testMode = testMode;
   }
 
   /**
    * Main cleanup entry point
    */
   async cleanCache(options: CleanCacheOptions): Promise<CacheCleanupResult> {
-    const {
-      orphanedProjects = false,
-      staleDays,
-      largeSessions = false,
-      sessionThresholdMB = 10,
-      oldDebugLogs = false,
-      emptyFiles = false,
-      dryRun = true,
-      force = false
-    } = options;
-
-    // Always analyze first
+    const planned = await this.planCleanup(options);
+    if (options.dryRun ?? true) {
+      return this.previewCleanup(planned);
+    }
+    return this.executePlannedCleanup(planned);
+  }
+
+  /**
+   * Analyze the cache and decide what to remove - a budget replaces the individual category options
+   */
+  async planCleanup(options: CleanCacheOptions): Promise<PlannedCleanup> {
     const analysis = await this.analyzer.analyzeCacheStructure();
+    this.activeSessions = await ActiveSessions.detect({ testMode: this.testMode });
+    const permanent = options.permanent ?? false;
 
-    // Build cleanup plan
-    const cleanupPlan = this.buildCleanupPlan(analysis, options);
-
-    if (cleanupPlan.items.length === 0) {
-      return {
-        sessionsRemoved: 0,
-        projectsRemoved: 0,
-        debugLogsRemoved: 0,
-        emptyFilesRemoved: 0,
-        totalBytesFreed: 0,
-        itemsRemoved: []
-      };
+    if (options.budgetBytes !== undefined) {
+      const { plan, budget } = await this.buildBudgetPlan(analysis, options, options.budgetBytes, permanent);
+      return { plan, budget, permanent };
     }
+    return { plan: this.buildCleanupPlan(analysis, options), permanent };
+  }
+
+  /**
+   * What executing a plan would remove, without touching anything
+   */
+  previewCleanup(planned: PlannedCleanup): CacheCleanupResult {
+    return { ...this.buildDryRunResult(planned.plan), budget: planned.budget };
+  }
 
-    if (dryRun) {
-      return this.buildDryRunResult(cleanupPlan);
+  /**
+   * Remove exactly the items of a plan; items that became unsafe since planning are skipped
+   * A budget cleanup measures the cache again afterwards instead of estimating
+   */
+  async executePlannedCleanup(planned: PlannedCleanup): Promise<CacheCleanupResult> {
+    if (planned.plan.items.length === 0) {
+      return this.previewCleanup(planned);
     }
 
-    // Execute cleanup
-    const result = await this.executeCleanup(cleanupPlan);
+    // A session may have been started while the plan was being confirmed
+    this.activeSessions = await ActiveSessions.detect({ testMode: this.testMode });
+    const result = await this.executeCleanup(planned.plan, planned.permanent);
+    if (planned.budget) {
+      planned.budget.sizeAfter = await this.measureCacheSize(await this.analyzer.analyzeCacheStructure(), planned.permanent);
+    }
 
-    return result;
+    return { ...result, budget: planned.budget };
   }
 
   /**
@@ -104,9 +157,12 @@ export class CacheCleaner {
   ): CleanupPlan {
     const items: CleanupItem[] = [];
 
+    const overrideFor = (project: ProjectCache) => resolveProjectOverride(project.projectPath, options.projectOverrides);
+
     // Orphaned projects (SAFE)
     if (options.orphanedProjects) {
       analysis.orphanedProjects.forEach((project: ProjectCache) => {
+        if (overrideFor(project).protected) return;
         items.push({
           type: 'project',
           path: project.cachePath,
@@ -118,39 +174,62 @@ export class CacheCleaner {
     }
 
     // Stale projects (CAUTION - may still be referenced)
-    if (options.staleDays) {
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - options.staleDays);
+    analysis.projects.forEach((project: ProjectCache) => {
+      const override = overrideFor(project);
+      const staleDays = override.staleDays ?? options.staleDays;
+      if (!staleDays || override.protected || project.isActive) return;
+      if (items.some(item => item.path === project.cachePath)) return;
 
-      const staleProjects = analysis.projects.filter((p: ProjectCache) =>
-        !p.isActive && p.lastAccessed < cutoffDate
-      );
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - staleDays);
+      if (project.lastAccessed >= cutoffDate) return;
 
-      staleProjects.forEach((project: ProjectCache) => {
-        items.push({
-          type: 'project',
-          path: project.cachePath,
-          size: project.totalSize,
-          reason: `Not accessed in ${options.staleDays} days (last: ${this.analyzer.formatDate(project.lastAccessed)})`,
-          safety: 'caution'
-        });
+      items.push({
+        type: 'project',
+        path: project.cachePath,
+        size: project.totalSize,
+        reason: `Not accessed in ${staleDays} days (last: ${this.analyzer.formatDate(project.lastAccessed)})`,
+        safety: 'caution'
       });
-    }
+    });
 
     // Large sessions (CAUTION - may still be useful)
-    if (options.largeSessions) {
-      const threshold = options.sessionThresholdMB! * 1024 * 1024;
-      const largeSessions = analysis.largestSessions.filter((s: SessionFile) =>
-        s.size > threshold && !this.isActiveSession(s)
-      );
+    analysis.projects.forEach((project: ProjectCache) => {
+      const override = overrideFor(project);
+      const thresholdMB = override.largeSessionMB ?? (options.largeSessions ? options.sessionThresholdMB ?? 10 : undefined);
+      if (thresholdMB === undefined || override.protected) return;
+      if (items.some(item => item.path === project.cachePath)) return;
+
+      project.sessions
+        .filter((s: SessionFile) => s.size > thresholdMB * 1024 * 1024 && !this.isActiveSession(s))
+        .forEach((session: SessionFile) => {
+          items.push({
+            type: 'session',
+            path: session.filePath,
+            size: session.size,
+            reason: `Large session file (${this.analyzer.formatBytes(session.size)})`,
+            safety: 'caution'
+          });
+        });
+    });
 
-      largeSessions.forEach((session: SessionFile) => {
+    // Debug logs, todos and shell snapshots past their retention rules (SAFE)
+    // File-history backs checkpoint rewinds, so it gets CAUTION
+    const retention: Array<[boolean | undefined, RetentionTarget, CleanupItem['type'], CleanupItem['safety']]> = [
+      [options.oldDebugLogs, 'debug', 'debug', 'safe'],
+      [options.oldFileHistory, 'file-history', 'file-history', 'caution'],
+      [options.oldTodos, 'todos', 'todo', 'safe'],
+      [options.oldShellSnapshots, 'shell-snapshots', 'shell-snapshot', 'safe']
+    ];
+    for (const [enabled, target, type, safety] of retention) {
+      if (!enabled) continue;
+      analysis.expired[target].forEach((entry: ExpiredEntry) => {
         items.push({
-          type: 'session',
-          path: session.filePath,
-          size: session.size,
-          reason: `Large session file (${this.analyzer.formatBytes(session.size)})`,
-          safety: 'caution'
+          type,
+          path: entry.path,
+          size: entry.size,
+          reason: `${entry.reason} (last modified ${this.analyzer.formatDate(entry.modified)})`,
+          safety
         });
       });
     }
@@ -173,27 +252,205 @@ export class CacheCleaner {
   }
 
   /**
-   * Check if session is currently active
+   * Rank everything cleanable and select the fewest items that get under the budget:
+   * orphaned projects (safe), trashed items and session backups (only when deleting
+   * permanently), stale projects and blobs in large sessions (caution), then whole
+   * sessions (risky, only with aggressive) - oldest first within each group
    */
-  private isActiveSession(session: SessionFile): boolean {
-    // Check if modified in last 24 hours
-    const dayAgo = new Date();
-    dayAgo.setDate(dayAgo.getDate() - 1);
-    return session.modified > dayAgo;
+  private async buildBudgetPlan(
+    analysis: CacheAnalysis,
+    options: CleanCacheOptions,
+    budgetBytes: number,
+    permanent: boolean
+  ): Promise<{ plan: CleanupPlan; budget: BudgetSummary }> {
+    const overrideFor = (project: ProjectCache) => resolveProjectOverride(project.projectPath, options.projectOverrides);
+    const projects = analysis.projects
+      .filter(p => !p.isActive && !overrideFor(p).protected)
+      .sort((a, b) => a.lastAccessed.getTime() - b.lastAccessed.getTime());
+
+    const orphaned: CleanupItem[] = [];
+    const stale: CleanupItem[] = [];
+    const kept: ProjectCache[] = [];
+    for (const project of projects) {
+      const staleDays = overrideFor(project).staleDays ?? options.staleDays ?? 60;
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - staleDays);
+
+      if (project.isOrphaned) {
+        orphaned.push({
+          type: 'project',
+          path: project.cachePath,
+          size: project.totalSize,
+          reason: `Orphaned project (${project.projectPath} no longer exists)`,
+          safety: 'safe'
+        });
+      } else if (project.lastAccessed < cutoffDate) {
+        stale.push({
+          type: 'project',
+          path: project.cachePath,
+          size: project.totalSize,
+          reason: `Not accessed in ${staleDays} days (last: ${this.analyzer.formatDate(project.lastAccessed)})`,
+          safety: 'caution'
+        });
+      } else {
+        kept.push(project);
+      }
+    }
+
+    const sessions = kept
+      .flatMap(project => project.sessions.map(session => ({ project, session })))
+      .filter(({ session }) => !this.isActiveSession(session))
+      .sort((a, b) => a.session.modified.getTime() - b.session.modified.getTime());
+
+    const blobs: CleanupItem[] = [];
+    const blobSavings = new Map<string, number>();
+    const parser = new SessionParser();
+    for (const { project, session } of sessions) {
+      const thresholdMB = overrideFor(project).largeSessionMB ?? options.sessionThresholdMB ?? 10;
+      if (session.size <= thresholdMB * 1024 * 1024) continue;
+
+      try {
+        const blobAnalysis = await parser.analyzeSessionBlobs(session.filePath);
+        const savings = blobAnalysis.messagesWithBlobs
+          .filter(blob => blob.blobSize >= BUDGET_MIN_BLOB_SIZE)
+          .reduce((sum, blob) => sum + blob.blobSize, 0);
+        if (savings === 0) continue;
+
+        blobSavings.set(session.filePath, savings);
+        blobs.push({
+          type: 'blobs',
+          path: session.filePath,
+          size: savings,
+          reason: `Blobs in large session (${this.analyzer.formatBytes(savings)} of ${this.analyzer.formatBytes(session.size)}, conversation kept)`,
+          safety: 'caution'
+        });
+      } catch {
+        // Unreadable session - leave it to the other candidates
+      }
+    }
+
+    const oldSessions: CleanupItem[] = sessions.map(({ session }) => ({
+      type: 'session',
+      path: session.filePath,
+      size: session.size - (blobSavings.get(session.filePath) || 0),
+      reason: `Old session (last used ${this.analyzer.formatDate(session.modified)})`,
+      safety: 'risky'
+    }));
+
+    // Earlier cleanups left these behind inside ~/.claude; they are restorable, so
+    // only a permanent cleanup counts them against the budget and deletes them
+    const trashDir = getTrashDir(this.testMode);
+    const trashed: CleanupItem[] = (permanent ? await listTrash(this.testMode) : [])
+      .reverse()
+      .map(entry => ({
+        type: 'trash',
+        path: path.join(trashDir, entry.name),
+        size: entry.size,
+        reason: `Already in the trash since ${this.analyzer.formatDate(new Date(entry.trashedAt))} (${entry.reason})`,
+        safety: 'caution'
+      }));
+    const backups = (permanent ? await this.listSessionBackups(projects) : [])
+      .map(backup => ({
+        type: 'backup' as const,
+        path: backup.path,
+        size: backup.size,
+        reason: `Session backup from an earlier blob removal (${this.analyzer.formatDate(backup.modified)})`,
+        safety: 'caution' as const
+      }));
+
+    const ranked = [...orphaned, ...trashed, ...backups, ...stale, ...blobs, ...oldSessions];
+    const candidates = ranked.filter(item => options.aggressive || item.safety !== 'risky');
+    const totalSize = await this.measureCacheSize(analysis, permanent);
+    const needed = Math.max(0, totalSize - budgetBytes);
+    const items = selectForBudget(candidates, needed);
+    const selected = items.reduce((sum, i) => sum + i.size, 0);
+
+    return {
+      plan: { items, totalSize: selected },
+      budget: {
+        budget: budgetBytes,
+        totalSize,
+        needed,
+        selected,
+        reachable: selected >= needed,
+        excludedRisky: ranked.length - candidates.length,
+        ...(!permanent && { setAside: await this.measureSetAside(analysis) })
+      }
+    };
+  }
+
+  /**
+   * What the cache takes on disk: everything the analyzer counts, and with permanent
+   * also the trash and the session backups blob removal keeps next to the sessions
+   */
+  private async measureCacheSize(analysis: CacheAnalysis, permanent: boolean): Promise<number> {
+    return analysis.overview.totalSize + (permanent ? await this.measureSetAside(analysis) : 0);
   }
 
   /**
-   * Execute cleanup (moves to trash, not delete)
+   * Bytes in the trash and in session backups
    */
-  private async executeCleanup(plan: CleanupPlan): Promise<CacheCleanupResult> {
-    const trashDir = path.join(this.claudeDir, '.trash');
-    await fs.promises.mkdir(trashDir, { recursive: true });
+  private async measureSetAside(analysis: CacheAnalysis): Promise<number> {
+    let size = 0;
+    const trashDir = getTrashDir(this.testMode);
+    if (fs.existsSync(trashDir)) {
+      size += await getPathSize(trashDir);
+    }
+    for (const backup of await this.listSessionBackups(analysis.projects)) {
+      size += backup.size;
+    }
+    return size;
+  }
 
+  /**
+   * Files in <project>/.backups, oldest first
+   */
+  private async listSessionBackups(projects: ProjectCache[]): Promise<Array<{ path: string; size: number; modified: Date }>> {
+    const backups: Array<{ path: string; size: number; modified: Date }> = [];
+    for (const project of projects) {
+      const backupDir = path.join(project.cachePath, '.backups');
+      let names: string[];
+      try {
+        names = await fs.promises.readdir(backupDir);
+      } catch {
+        continue;
+      }
+      for (const name of names) {
+        try {
+          const stats = await fs.promises.stat(path.join(backupDir, name));
+          if (stats.isFile()) {
+            backups.push({ path: path.join(backupDir, name), size: stats.size, modified: stats.mtime });
+          }
+        } catch {
+          // Removed meanwhile
+        }
+      }
+    }
+    return backups.sort((a, b) => a.modified.getTime() - b.modified.getTime());
+  }
+
+  /**
+   * Check if session is in use by a running Claude Code
+   */
+  private isActiveSession(session: SessionFile): boolean {
+    return !!this.activeSessions?.reasonForSession(session.sessionId);
+  }
+
+  /**
+   * Execute cleanup (moves to trash, not delete - unless permanent)
+   */
+  private async executeCleanup(plan: CleanupPlan, permanent: boolean = false): Promise<CacheCleanupResult> {
     const result: CacheCleanupResult = {
       sessionsRemoved: 0,
       projectsRemoved: 0,
       debugLogsRemoved: 0,
+      fileHistoryRemoved: 0,
+      todosRemoved: 0,
+      shellSnapshotsRemoved: 0,
       emptyFilesRemoved: 0,
+      blobSessionsCleaned: 0,
+      trashDeleted: 0,
+      backupsDeleted: 0,
       totalBytesFreed: 0,
       itemsRemoved: []
     };
@@ -201,8 +458,9 @@ export class CacheCleaner {
     for (const item of plan.items) {
       try {
         // Safety check
-        if (!this.isSafeToClean(item.path)) {
-          console.warn(`Skipping ${item.path} - safety check failed`);
+        const unsafe = this.unsafeReason(item.path);
+        if (unsafe) {
+          console.warn(`Skipping ${item.path} - ${unsafe}`);
           continue;
         }
 
@@ -210,18 +468,47 @@ export class CacheCleaner {
           // Handle empty files separately
           await this.cleanEmptyFiles(item.path);
           result.emptyFilesRemoved += parseInt(item.reason.match(/\d+/)?.[0] || '0');
+        } else if (item.type === 'blobs') {
+          // Replace blobs with placeholders, keeping the conversation resumable
+          const removal = await new BlobRemover(this.testMode).removeBlobsFromSession(item.path, {
+            removeImages: true,
+            removeLargeText: true,
+            minBlobSize: BUDGET_MIN_BLOB_SIZE,
+            sanitize: true,
+            backup: !permanent,
+            dryRun: false
+          });
+          if (!removal.success) {
+            throw new Error(removal.error);
+          }
+          result.blobSessionsCleaned++;
+          result.totalBytesFreed += removal.originalSize - removal.newSize;
+          result.itemsRemoved.push(item);
+        } else if (item.type === 'trash') {
+          const entry = (await listTrash(this.testMode)).find(e => path.join(getTrashDir(this.testMode), e.name) === item.path);
+          if (entry) {
+            await deleteFromTrash([entry], this.testMode);
+          }
+          result.trashDeleted++;
+          result.totalBytesFreed += item.size;
+          result.itemsRemoved.push(item);
+        } else if (item.type === 'backup') {
+          await fs.promises.rm(item.path, { force: true });
+          result.backupsDeleted++;
+          result.totalBytesFreed += item.size;
+          result.itemsRemoved.push(item);
         } else {
-          // Move to trash instead of delete (safer)
-          const itemName = path.basename(item.path);
-          const timestamp = Date.now();
-          const trashPath = path.join(trashDir, `${timestamp}-${itemName}`);
-
-          await fs.promises.rename(item.path, trashPath);
+          if (permanent) {
+            await fs.promises.rm(item.path, { recursive: true, force: true });
+          } else {
+            // Move to trash instead of delete (safer, restorable with `cch trash restore`)
+            await moveToTrash(item, this.testMode);
+          }
 
           // Update result
           if (item.type === 'project') result.projectsRemoved++;
           else if (item.type === 'session') result.sessionsRemoved++;
-          else if (item.type === 'debug') result.debugLogsRemoved++;
+          else this.countRetentionItem(result, item);
 
           result.totalBytesFreed += item.size;
           result.itemsRemoved.push(item);
@@ -243,7 +530,13 @@ export class CacheCleaner {
       sessionsRemoved: 0,
       projectsRemoved: 0,
       debugLogsRemoved: 0,
+      fileHistoryRemoved: 0,
+      todosRemoved: 0,
+      shellSnapshotsRemoved: 0,
       emptyFilesRemoved: 0,
+      blobSessionsCleaned: 0,
+      trashDeleted: 0,
+      backupsDeleted: 0,
       totalBytesFreed: plan.totalSize,
       itemsRemoved: plan.items
     };
@@ -251,9 +544,13 @@ export class CacheCleaner {
     plan.items.forEach(item => {
       if (item.type === 'project') result.projectsRemoved++;
       else if (item.type === 'session') result.sessionsRemoved++;
-      else if (item.type === 'debug') result.debugLogsRemoved++;
+      else if (item.type === 'blobs') result.blobSessionsCleaned++;
+      else if (item.type === 'trash') result.trashDeleted++;
+      else if (item.type === 'backup') result.backupsDeleted++;
       else if (item.type === 'empty') {
         result.emptyFilesRemoved += parseInt(item.reason.match(/\d+/)?.[0] || '0');
+      } else {
+        this.countRetentionItem(result, item);
       }
     });
 
@@ -261,50 +558,51 @@ export class CacheCleaner {
   }
 
   /**
-   * Check if path is safe to delete
+   * Count a removed debug log, file-history, todo or shell snapshot entry
    */
-  private isSafeToClean(itemPath: string): boolean {
-    const cwd = process.cwd();
-    const cwdCachePath = this.pathToCachePath(cwd);
+  private countRetentionItem(result: CacheCleanupResult, item: CleanupItem): void {
+    if (item.type === 'debug') result.debugLogsRemoved++;
+    else if (item.type === 'file-history') result.fileHistoryRemoved++;
+    else if (item.type === 'todo') result.todosRemoved++;
+    else if (item.type === 'shell-snapshot') result.shellSnapshotsRemoved++;
+  }
 
+  /**
+   * Why a path must not be cleaned, or null if it is safe to
+   */
+  private unsafeReason(itemPath: string): string | null {
     // Check 1: Not current project
-    if (itemPath.includes(cwdCachePath)) {
-      return false;
+    const cwdCacheDir = encodeProjectPath(process.cwd());
+    if (itemPath.split(path.sep).includes(cwdCacheDir)) {
+      return 'belongs to the current project';
     }
 
-    // Check 2: Not recently modified
+    // Check 2: Not used by a running Claude Code session
+    const inUse = this.activeSessions?.reasonFor(itemPath);
+    if (inUse) {
+      return `in use (${inUse})`;
+    }
+
+    // Check 3: Not being written right now
     try {
       const stats = fs.statSync(itemPath);
-      const dayAgo = new Date();
-      dayAgo.setDate(dayAgo.getDate() - 1);
-
-      if (stats.mtime > dayAgo) {
-        return false;
+      const recentMs = this.activeSessions?.method === 'proc' ? RECENT_WRITE_MS : RECENT_WRITE_FALLBACK_MS;
+      if (Date.now() - stats.mtimeMs < recentMs) {
+        return 'modified too recently';
       }
     } catch (error) {
       // If we can't stat the file, it might not exist or be accessible
-      return false;
+      return 'cannot be accessed';
     }
 
-    // Check 3: Not a config file
+    // Check 4: Not a config file
     const basename = path.basename(itemPath);
     const configFiles = ['settings.json', 'settings.local.json', 'CLAUDE.md'];
     if (configFiles.includes(basename)) {
-      return false;
+      return 'is a config file';
     }
 
-    return true;
-  }
-
-  /**
-   * Convert project path to cache path format
-   */
-  private pathToCachePath(projectPath: string): string {
-    // "/Users/merlin/_dev/ldis" -> "-Users-merlin--dev-ldis"
-    return projectPath
-      .replace(/\//g, '-')
-      .replace(/_/g, '--')
-      .replace(/^-/, '');
+    return null;
   }
 
   /**
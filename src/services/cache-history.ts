@@ -0,0 +1,213 @@
+/**
+ * Cache growth history for `cch cache trend`
+ * Every `cache stats` / `cache analyze` run records a compact snapshot of the cache
+ * sizes in ~/.cch/cache-history.jsonl, one JSON object per line
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getCacheHistoryPath } from '../core/paths';
+import type { CacheAnalysis } from './cache-analyzer';
+
+export interface CacheSnapshot {
+  takenAt: string;
+  totalSize: number;
+  sessions: number;
+  categories: Record<string, number>;  // Bytes per cache category
+  projects: Record<string, number>;    // Bytes per project path
+}
+
+export interface SizeChange {
+  name: string;
+  from: number;
+  to: number;
+  change: number;
+}
+
+export interface CacheProjection {
+  threshold: number;
+  exceeded: boolean;     // Already over the threshold
+  reachedAt?: Date;      // When the current growth rate crosses it, if it is growing
+}
+
+export interface CacheTrend {
+  snapshots: CacheSnapshot[];  // The ones inside the window, oldest first
+  first: CacheSnapshot;
+  last: CacheSnapshot;
+  spanDays: number;
+  growthPerDay: number;        // Least-squares slope of the total size
+  categories: SizeChange[];
+  projects: SizeChange[];      // Fastest growing first
+  projection?: CacheProjection;
+}
+
+// One snapshot is kept per interval; a later run in the same one replaces it
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_SNAPSHOTS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createSnapshot(analysis: CacheAnalysis, now: Date = new Date()): CacheSnapshot {
+  const projects: Record<string, number> = {};
+  for (const project of analysis.projects) {
+    if (project.totalSize > 0) {
+      projects[project.projectPath] = (projects[project.projectPath] || 0) + project.totalSize;
+    }
+  }
+
+  return {
+    takenAt: now.toISOString(),
+    totalSize: analysis.overview.totalSize,
+    sessions: analysis.overview.totalSessions,
+    categories: {
+      projects: analysis.projects.reduce((sum, p) => sum + p.totalSize, 0),
+      'file-history': analysis.fileHistory.totalSize,
+      debug: analysis.debug.totalSize,
+      todos: analysis.todos.totalSize,
+      'session-env': analysis.sessionEnv.totalSize,
+      'shell-snapshots': analysis.shellSnapshots.totalSize,
+      history: analysis.history?.size || 0
+    },
+    projects
+  };
+}
+
+/**
+ * Snapshots in the history file, oldest first; unreadable lines are skipped
+ */
+export function loadSnapshots(testMode: boolean = false): CacheSnapshot[] {
+  const historyPath = getCacheHistoryPath(testMode);
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+
+  const snapshots: CacheSnapshot[] = [];
+  for (const line of fs.readFileSync(historyPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const snapshot = JSON.parse(line);
+      if (typeof snapshot.takenAt === 'string' && typeof snapshot.totalSize === 'number') {
+        snapshots.push({ categories: {}, projects: {}, sessions: 0, ...snapshot });
+      }
+    } catch {
+      continue;
+    }
+  }
+  return snapshots.sort((a, b) => Date.parse(a.takenAt) - Date.parse(b.takenAt));
+}
+
+/**
+ * Add a snapshot to the history
+ * Appends, unless the previous snapshot was taken in the same clock hour (it is replaced)
+ * or the history is full (the oldest snapshots are dropped). Comparing buckets rather
+ * than the gap to the previous snapshot keeps runs every few minutes from replacing
+ * one rolling snapshot forever.
+ */
+export function recordSnapshot(snapshot: CacheSnapshot, testMode: boolean = false): void {
+  const historyPath = getCacheHistoryPath(testMode);
+  const snapshots = loadSnapshots(testMode);
+  const previous = snapshots[snapshots.length - 1];
+
+  const replacesPrevious = previous !== undefined &&
+    intervalOf(snapshot.takenAt) === intervalOf(previous.takenAt);
+
+  if (!replacesPrevious && snapshots.length < MAX_SNAPSHOTS) {
+    fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+    fs.appendFileSync(historyPath, JSON.stringify(snapshot) + '\n');
+    return;
+  }
+
+  const kept = [...(replacesPrevious ? snapshots.slice(0, -1) : snapshots), snapshot].slice(-MAX_SNAPSHOTS);
+  const tempPath = `${historyPath}.tmp`;
+  fs.writeFileSync(tempPath, kept.map(s => JSON.stringify(s)).join('\n') + '\n');
+  fs.renameSync(tempPath, historyPath);
+}
+
+function intervalOf(takenAt: string): number {
+  return Math.floor(Date.parse(takenAt) / SNAPSHOT_INTERVAL_MS);
+}
+
+/**
+ * Snapshot an analysis into the history, for the commands that analyze the cache anyway
+ * The history is a side effect, so failing to write it is not an error
+ */
+export function recordAnalysis(analysis: CacheAnalysis, testMode: boolean = false): boolean {
+  try {
+    recordSnapshot(createSnapshot(analysis), testMode);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Growth over the snapshots of the last `days` days (all of them when omitted)
+ * Returns null with fewer than two snapshots in the window
+ */
+export function computeTrend(
+  snapshots: CacheSnapshot[],
+  options: { days?: number; threshold?: number; now?: Date } = {}
+): CacheTrend | null {
+  const now = options.now || new Date();
+  const windowed = options.days !== undefined
+    ? snapshots.filter(s => now.getTime() - Date.parse(s.takenAt) <= options.days! * DAY_MS)
+    : snapshots;
+
+  if (windowed.length < 2) {
+    return null;
+  }
+
+  const first = windowed[0];
+  const last = windowed[windowed.length - 1];
+  const growthPerDay = slopePerDay(windowed);
+
+  const trend: CacheTrend = {
+    snapshots: windowed,
+    first,
+    last,
+    spanDays: (Date.parse(last.takenAt) - Date.parse(first.takenAt)) / DAY_MS,
+    growthPerDay,
+    categories: compareSizes(first.categories, last.categories),
+    projects: compareSizes(first.projects, last.projects).sort((a, b) => b.change - a.change)
+  };
+
+  if (options.threshold !== undefined) {
+    const exceeded = last.totalSize >= options.threshold;
+    trend.projection = { threshold: options.threshold, exceeded };
+    if (!exceeded && growthPerDay > 0) {
+      const days = (options.threshold - last.totalSize) / growthPerDay;
+      trend.projection.reachedAt = new Date(Date.parse(last.takenAt) + days * DAY_MS);
+    }
+  }
+
+  return trend;
+}
+
+/**
+ * Least-squares growth of the total size, in bytes per day
+ * Less thrown off by a single cleanup than comparing the first and last snapshot
+ */
+function slopePerDay(snapshots: CacheSnapshot[]): number {
+  const origin = Date.parse(snapshots[0].takenAt);
+  const xs = snapshots.map(s => (Date.parse(s.takenAt) - origin) / DAY_MS);
+  const ys = snapshots.map(s => s.totalSize);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 0; i < xs.length; i++) {
+    numerator += (xs[i] - meanX) * (ys[i] - meanY);
+    denominator += (xs[i] - meanX) ** 2;
+  }
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function compareSizes(from: Record<string, number>, to: Record<string, number>): SizeChange[] {
+  const names = new Set([...Object.keys(from), ...Object.keys(to)]);
+  return Array.from(names).map(name => ({
+    name,
+    from: from[name] || 0,
+    to: to[name] || 0,
+    change: (to[name] || 0) - (from[name] || 0)
+  }));
+}
@@ -0,0 +1,158 @@
+/**
+ * Retention rules for the per-session side caches in ~/.claude
+ * (debug logs, file-history snapshots, todo lists and shell snapshots)
+ *
+ * Each top-level entry of a cache directory - a file, or a per-session directory for
+ * file-history - is kept or expired as a whole. The newest keepLast entries are always
+ * kept; of the rest, entries older than maxAgeDays expire, then the oldest remaining
+ * ones until the cache fits in maxTotalMB.
+ *
+ * Project caches are matched against overrides by project path, which can protect
+ * a project or give it its own stale and large-session limits.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { projectMatchesPatterns } from '../utils/patterns';
+
+export type RetentionTarget = 'debug' | 'file-history' | 'todos' | 'shell-snapshots';
+
+export const RETENTION_TARGETS: RetentionTarget[] = ['debug', 'file-history', 'todos', 'shell-snapshots'];
+
+export interface RetentionRule {
+  maxAgeDays?: number;
+  maxTotalMB?: number;
+  keepLast?: number;
+}
+
+export type RetentionRules = Record<RetentionTarget, RetentionRule>;
+
+export const DEFAULT_RETENTION_RULES: RetentionRules = {
+  'debug': { maxAgeDays: 14, maxTotalMB: 100, keepLast: 10 },
+  'file-history': { maxAgeDays: 30, maxTotalMB: 500, keepLast: 20 },
+  'todos': { maxAgeDays: 30, keepLast: 50 },
+  'shell-snapshots': { maxAgeDays: 7, keepLast: 10 }
+};
+
+/**
+ * Project-specific retention, for project paths matching a glob (e.g. "/home/me/work/**")
+ */
+export interface ProjectOverride {
+  pattern: string;
+  protected?: boolean;      // Never clean this project's cache
+  staleDays?: number;
+  largeSessionMB?: number;
+}
+
+export interface RetentionEntry {
+  path: string;
+  size: number;      // Bytes, including everything below a directory
+  modified: Date;    // Newest mtime, including everything below a directory
+}
+
+export interface ExpiredEntry extends RetentionEntry {
+  reason: string;
+}
+
+/**
+ * Directory under ~/.claude that holds a retention target
+ */
+export function getRetentionDir(claudeDir: string, target: RetentionTarget): string {
+  return path.join(claudeDir, target);
+}
+
+/**
+ * Top-level entries of a cache directory
+ * Symlinks (e.g. debug/latest) are skipped - they point at entries listed anyway
+ */
+export async function listRetentionEntries(dir: string): Promise<RetentionEntry[]> {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const entries: RetentionEntry[] = [];
+  for (const name of await fs.promises.readdir(dir)) {
+    try {
+      const fullPath = path.join(dir, name);
+      const stats = await fs.promises.lstat(fullPath);
+      if (stats.isSymbolicLink()) continue;
+      entries.push({ path: fullPath, ...await measure(fullPath, stats) });
+    } catch {
+      // Skip entries that can't be accessed
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Entries a rule expires, oldest first
+ */
+export function applyRetentionRule(entries: RetentionEntry[], rule: RetentionRule, now: Date = new Date()): ExpiredEntry[] {
+  const newestFirst = [...entries].sort((a, b) => b.modified.getTime() - a.modified.getTime());
+  const candidates = newestFirst.slice(rule.keepLast ?? 0);
+  const expired: ExpiredEntry[] = [];
+
+  let remaining = candidates;
+  if (rule.maxAgeDays !== undefined) {
+    const cutoff = now.getTime() - rule.maxAgeDays * 24 * 60 * 60 * 1000;
+    remaining = [];
+    for (const entry of candidates) {
+      if (entry.modified.getTime() < cutoff) {
+        expired.push({ ...entry, reason: `Older than ${rule.maxAgeDays} days` });
+      } else {
+        remaining.push(entry);
+      }
+    }
+  }
+
+  if (rule.maxTotalMB !== undefined) {
+    const limit = rule.maxTotalMB * 1024 * 1024;
+    const expiredSize = expired.reduce((sum, e) => sum + e.size, 0);
+    let total = entries.reduce((sum, e) => sum + e.size, 0) - expiredSize;
+    for (const entry of [...remaining].reverse()) {
+      if (total <= limit) break;
+      expired.push({ ...entry, reason: `Over the ${rule.maxTotalMB} MB limit` });
+      total -= entry.size;
+    }
+  }
+
+  return expired.sort((a, b) => a.modified.getTime() - b.modified.getTime());
+}
+
+/**
+ * Expired entries of one target under a ~/.claude directory
+ */
+export async function findExpiredEntries(
+  claudeDir: string,
+  target: RetentionTarget,
+  rule: RetentionRule,
+  now: Date = new Date()
+): Promise<ExpiredEntry[]> {
+  return applyRetentionRule(await listRetentionEntries(getRetentionDir(claudeDir, target)), rule, now);
+}
+
+/**
+ * Combined override for a project path; later overrides win
+ */
+export function resolveProjectOverride(projectPath: string, overrides: ProjectOverride[] = []): Omit<ProjectOverride, 'pattern'> {
+  return overrides
+    .filter(override => projectMatchesPatterns(projectPath, [override.pattern]))
+    .reduce<Omit<ProjectOverride, 'pattern'>>((merged, { pattern: _pattern, ...override }) => ({ ...merged, ...override }), {});
+}
+
+async function measure(fullPath: string, stats: fs.Stats): Promise<{ size: number; modified: Date }> {
+  if (!stats.isDirectory()) {
+    return { size: stats.size, modified: stats.mtime };
+  }
+
+  let size = 0;
+  let modified = stats.mtime;
+  for (const name of await fs.promises.readdir(fullPath)) {
+    const childPath = path.join(fullPath, name);
+    const child = await measure(childPath, await fs.promises.lstat(childPath));
+    size += child.size;
+    if (child.modified > modified) modified = child.modified;
+  }
+  return { size, modified };
+}
@@ -0,0 +1,136 @@
+/**
+ * Discovery of Claude Code files that live outside ~/.claude.json
+ * Global and per-project settings, .mcp.json server definitions and CLAUDE.md memory files
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { getBaseDir } from '../core/paths';
+import { loadClaudeConfig } from '../core/config';
+
+export type ClaudeFileKind = 'settings' | 'mcp' | 'memory';
+
+export interface ClaudeFile {
+  path: string;
+  kind: ClaudeFileKind;
+  project?: string;  // Project directory, undefined for files in ~/.claude
+}
+
+export interface ClaudeFileDiscoveryOptions {
+  testMode?: boolean;
+  kinds?: ClaudeFileKind[];   // Defaults to every kind
+  knownProjects?: boolean;    // Include the projects listed in ~/.claude.json (default true)
+  projectDirs?: string[];     // Extra project directories to check
+  searchRoot?: string;        // Also search recursively below this directory
+}
+
+const ALL_KINDS: ClaudeFileKind[] = ['settings', 'mcp', 'memory'];
+
+// Relative to a project directory
+const PROJECT_PATTERNS: Record<ClaudeFileKind, string[]> = {
+  settings: ['.claude/settings*.json'],
+  mcp: ['.mcp.json'],
+  memory: ['CLAUDE.md', 'CLAUDE.local.md', '.claude/CLAUDE.md']
+};
+
+// Relative to ~/.claude
+const GLOBAL_PATTERNS: Record<ClaudeFileKind, string[]> = {
+  settings: ['settings*.json'],
+  mcp: [],
+  memory: ['CLAUDE.md']
+};
+
+const SEARCH_IGNORE = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**'];
+
+/**
+ * Find Claude files globally, in every known project, and optionally below a search root
+ */
+export async function findClaudeFiles(options: ClaudeFileDiscoveryOptions = {}): Promise<ClaudeFile[]> {
+  const kinds = options.kinds || ALL_KINDS;
+  const files = new Map<string, ClaudeFile>();
+
+  const add = (filePath: string, project?: string) => {
+    const kind = classifyClaudeFile(filePath);
+    if (kind && kinds.includes(kind) && !files.has(filePath)) {
+      files.set(filePath, { path: filePath, kind, ...(project && { project }) });
+    }
+  };
+
+  const globalDir = path.join(getBaseDir(options.testMode), '.claude');
+  for (const filePath of await matchFiles(globalDir, kinds.flatMap(kind => GLOBAL_PATTERNS[kind]))) {
+    add(filePath);
+  }
+
+  const projectDirs = [...(options.projectDirs || [])];
+  if (options.knownProjects !== false) {
+    projectDirs.push(...await getKnownProjectDirs(options.testMode));
+  }
+
+  for (const projectDir of new Set(projectDirs)) {
+    for (const filePath of await matchFiles(projectDir, kinds.flatMap(kind => PROJECT_PATTERNS[kind]))) {
+      add(filePath, projectDir);
+    }
+  }
+
+  if (options.searchRoot) {
+    const patterns = kinds.flatMap(kind => PROJECT_PATTERNS[kind]).map(pattern => `**/${pattern}`);
+    for (const filePath of await matchFiles(options.searchRoot, patterns, SEARCH_IGNORE)) {
+      add(filePath, projectRootOf(filePath));
+    }
+  }
+
+  return [...files.values()];
+}
+
+/**
+ * Work out what kind of Claude file a path is, if any
+ */
+export function classifyClaudeFile(filePath: string): ClaudeFileKind | undefined {
+  const name = path.basename(filePath);
+  if (/^settings.*\.json$/.test(name) && path.basename(path.dirname(filePath)) === '.claude') {
+    return 'settings';
+  }
+  if (name === '.mcp.json') {
+    return 'mcp';
+  }
+  if (name === 'CLAUDE.md' || name === 'CLAUDE.local.md') {
+    return 'memory';
+  }
+  return undefined;
+}
+
+/**
+ * Project directories from ~/.claude.json that still exist on disk
+ */
+async function getKnownProjectDirs(testMode?: boolean): Promise<string[]> {
+  let projects: Record<string, unknown>;
+  try {
+    projects = (await loadClaudeConfig(testMode)).projects || {};
+  } catch {
+    return [];
+  }
+
+  return Object.keys(projects).filter(projectPath => {
+    if (!path.isAbsolute(projectPath)) return false;
+    try {
+      return fs.statSync(projectPath).isDirectory();
+    } catch {
+      return false;
+    }
+  });
+}
+
+async function matchFiles(cwd: string, patterns: string[], ignore: string[] = []): Promise<string[]> {
+  if (patterns.length === 0 || !fs.existsSync(cwd)) {
+    return [];
+  }
+
+  const matches = await glob(patterns, { cwd, absolute: true, dot: true, nodir: true, ignore });
+  return matches.sort();
+}
+
+function projectRootOf(filePath: string): string {
+  const dir = path.dirname(filePath);
+  return path.basename(dir) === '.claude' ? path.dirname(dir) : dir;
+}
@@ -0,0 +1,169 @@
+/**
+ * Scheduling `cch cache gc --execute` with cron or a systemd user timer
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import { getDataDir } from '../core/paths';
+
+export type GcScheduler = 'cron' | 'systemd';
+export type GcInterval = 'hourly' | 'daily' | 'weekly';
+
+export const GC_SCHEDULERS: GcScheduler[] = ['cron', 'systemd'];
+export const GC_INTERVALS: GcInterval[] = ['hourly', 'daily', 'weekly'];
+
+const CRON_MARKER = '# cch-cache-gc';
+const SYSTEMD_UNIT = 'cch-cache-gc';
+
+const CRON_TIMES: Record<GcInterval, string> = {
+  hourly: '17 * * * *',
+  daily: '17 3 * * *',
+  weekly: '17 3 * * 0'
+};
+
+export interface SystemdUnits {
+  service: string;
+  timer: string;
+}
+
+/**
+ * systemd user timers on Linux when systemctl is there, cron otherwise
+ */
+export function detectScheduler(): GcScheduler {
+  if (process.platform !== 'linux' || !process.env.XDG_RUNTIME_DIR) {
+    return 'cron';
+  }
+  try {
+    execFileSync('which', ['systemctl'], { stdio: 'ignore' });
+    return 'systemd';
+  } catch {
+    return 'cron';
+  }
+}
+
+/**
+ * Command line that runs gc with this runtime and script
+ * Absolute paths, since cron and systemd start jobs with a minimal PATH
+ */
+export function resolveGcCommand(): string {
+  const script = fs.realpathSync(process.argv[1]);
+  return `${shellQuote(process.execPath)} ${shellQuote(script)} cache gc --execute`;
+}
+
+export function getGcLogPath(): string {
+  return path.join(getDataDir(), 'cache-gc.log');
+}
+
+export function buildCronEntry(command: string, interval: GcInterval, logPath: string = getGcLogPath()): string {
+  return `${CRON_TIMES[interval]} ${command} >> ${shellQuote(logPath)} 2>&1 ${CRON_MARKER}`;
+}
+
+export function buildSystemdUnits(command: string, interval: GcInterval): SystemdUnits {
+  return {
+    service: [
+      '[Unit]',
+      'Description=Claude Code cache garbage collection (cch cache gc)',
+      '',
+      '[Service]',
+      'Type=oneshot',
+      `ExecStart=/bin/sh -c ${shellQuote(command)}`,
+      'Nice=10',
+      ''
+    ].join('\n'),
+    timer: [
+      '[Unit]',
+      'Description=Run cch cache gc on a schedule',
+      '',
+      '[Timer]',
+      `OnCalendar=${interval}`,
+      'RandomizedDelaySec=15min',
+      'Persistent=true',
+      '',
+      '[Install]',
+      'WantedBy=timers.target',
+      ''
+    ].join('\n')
+  };
+}
+
+/**
+ * Replace any earlier cch gc line in a crontab with the given entry (or just remove it)
+ */
+export function updateCrontab(crontab: string, entry?: string): string {
+  const lines = crontab.split('\n').filter(line => line.trim() !== '' && !line.includes(CRON_MARKER));
+  if (entry) {
+    lines.push(entry);
+  }
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+/**
+ * Install the schedule; returns where it was installed
+ */
+export function installGcSchedule(scheduler: GcScheduler, interval: GcInterval, command: string = resolveGcCommand()): string {
+  if (scheduler === 'cron') {
+    fs.mkdirSync(path.dirname(getGcLogPath()), { recursive: true });
+    execFileSync('crontab', ['-'], { input: updateCrontab(readCrontab(), buildCronEntry(command, interval)) });
+    return 'user crontab';
+  }
+
+  const unitDir = getSystemdUserDir();
+  const units = buildSystemdUnits(command, interval);
+  fs.mkdirSync(unitDir, { recursive: true });
+  fs.writeFileSync(path.join(unitDir, `${SYSTEMD_UNIT}.service`), units.service);
+  fs.writeFileSync(path.join(unitDir, `${SYSTEMD_UNIT}.timer`), units.timer);
+  execFileSync('systemctl', ['--user', 'daemon-reload'], { stdio: 'ignore' });
+  execFileSync('systemctl', ['--user', 'enable', '--now', `${SYSTEMD_UNIT}.timer`], { stdio: 'ignore' });
+  return path.join(unitDir, `${SYSTEMD_UNIT}.timer`);
+}
+
+/**
+ * Remove the schedule; returns false when none was installed
+ */
+export function uninstallGcSchedule(scheduler: GcScheduler): boolean {
+  if (scheduler === 'cron') {
+    const crontab = readCrontab();
+    if (!crontab.includes(CRON_MARKER)) {
+      return false;
+    }
+    const updated = updateCrontab(crontab);
+    if (updated) {
+      execFileSync('crontab', ['-'], { input: updated });
+    } else {
+      execFileSync('crontab', ['-r'], { stdio: 'ignore' });
+    }
+    return true;
+  }
+
+  const timerPath = path.join(getSystemdUserDir(), `${SYSTEMD_UNIT}.timer`);
+  if (!fs.existsSync(timerPath)) {
+    return false;
+  }
+  try {
+    execFileSync('systemctl', ['--user', 'disable', '--now', `${SYSTEMD_UNIT}.timer`], { stdio: 'ignore' });
+  } catch {
+    // Already stopped or systemd not reachable - the unit files are removed anyway
+  }
+  fs.rmSync(timerPath, { force: true });
+  fs.rmSync(path.join(getSystemdUserDir(), `${SYSTEMD_UNIT}.service`), { force: true });
+  execFileSync('systemctl', ['--user', 'daemon-reload'], { stdio: 'ignore' });
+  return true;
+}
+
+function readCrontab(): string {
+  try {
+    return execFileSync('crontab', ['-l'], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] });
+  } catch {
+    return '';  // No crontab yet
+  }
+}
+
+function getSystemdUserDir(): string {
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'systemd', 'user');
+}
+
+function shellQuote(value: string): string {
+  return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
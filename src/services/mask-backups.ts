@@ -0,0 +1,219 @@
+/**
+ * Central backups for cache secret masking
+ * Each masking run gets its own directory under ~/.cch/backups/masked/<id>/
+ * holding gzipped originals and a manifest, so a run can be restored or purged as a whole
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createGzip, createGunzip } from 'zlib';
+import { pipeline } from 'stream/promises';
+import { getBackupsDir } from '../core/paths';
+import { hashFile } from '../utils/file-hash';
+
+const MANIFEST_FILE = 'manifest.json';
+
+export interface MaskBackupFile {
+  originalPath: string;
+  backupFile: string;       // Relative to the run directory
+  originalHash: string;     // sha256 of the file before masking
+  maskedHash?: string;      // sha256 after masking, used to detect later edits
+  replacements: number;
+}
+
+export interface MaskBackupManifest {
+  id: string;
+  createdAt: string;
+  files: MaskBackupFile[];
+}
+
+export interface MaskBackupRun extends MaskBackupManifest {
+  dir: string;
+  size: number;  // Bytes on disk
+}
+
+export interface RestoreResult {
+  restored: string[];
+  skipped: Array<{ path: string; reason: string }>;
+}
+
+export function getMaskBackupsDir(testMode: boolean = false): string {
+  return path.join(getBackupsDir(testMode), 'masked');
+}
+
+/**
+ * Backups for a single masking run; files are added before they are modified
+ */
+export class MaskBackupSession {
+  private manifest: MaskBackupManifest;
+
+  private constructor(private dir: string, id: string) {
+    this.manifest = { id, createdAt: new Date().toISOString(), files: [] };
+  }
+
+  static async create(testMode: boolean = false): Promise<MaskBackupSession> {
+    const baseId = new Date().toISOString().replace(/:/g, '-').split('.')[0];
+    const root = getMaskBackupsDir(testMode);
+    await fs.promises.mkdir(root, { recursive: true });
+
+    let id = baseId;
+    for (let n = 2; fs.existsSync(path.join(root, id)); n++) {
+      id = `${baseId}-${n}`;
+    }
+
+    const dir = path.join(root, id);
+    await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 });
+    return new MaskBackupSession(dir, id);
+  }
+
+  get id(): string {
+    return this.manifest.id;
+  }
+
+  get path(): string {
+    return this.dir;
+  }
+
+  /**
+   * Store a gzipped copy of the file and return its manifest entry
+   */
+  async backup(originalPath: string): Promise<MaskBackupFile> {
+    const backupFile = `${this.manifest.files.length + 1}-${path.basename(originalPath)}.gz`;
+    await pipeline(
+      fs.createReadStream(originalPath),
+      createGzip(),
+      fs.createWriteStream(path.join(this.dir, backupFile), { mode: 0o600 })
+    );
+
+    const entry: MaskBackupFile = {
+      originalPath,
+      backupFile,
+      originalHash: await hashFile(originalPath),
+      replacements: 0
+    };
+    this.manifest.files.push(entry);
+    await this.save();
+    return entry;
+  }
+
+  /**
+   * Record the outcome of masking a backed-up file
+   */
+  async complete(entry: MaskBackupFile, replacements: number): Promise<void> {
+    entry.replacements = replacements;
+    entry.maskedHash = await hashFile(entry.originalPath);
+    await this.save();
+  }
+
+  /**
+   * Drop a backup whose file ended up unchanged (nothing masked or masking failed)
+   */
+  async discard(entry: MaskBackupFile): Promise<void> {
+    this.manifest.files = this.manifest.files.filter(f => f !== entry);
+    await fs.promises.rm(path.join(this.dir, entry.backupFile), { force: true });
+    await this.save();
+  }
+
+  /**
+   * Remove the run directory if nothing was backed up
+   */
+  async finish(): Promise<void> {
+    if (this.manifest.files.length === 0) {
+      await fs.promises.rm(this.dir, { recursive: true, force: true });
+    }
+  }
+
+  private async save(): Promise<void> {
+    await fs.promises.writeFile(path.join(this.dir, MANIFEST_FILE), JSON.stringify(this.manifest, null, 2));
+  }
+}
+
+/**
+ * List masking runs, newest first
+ */
+export async function listMaskBackups(testMode: boolean = false): Promise<MaskBackupRun[]> {
+  const root = getMaskBackupsDir(testMode);
+  if (!fs.existsSync(root)) {
+    return [];
+  }
+
+  const runs: MaskBackupRun[] = [];
+  for (const entry of await fs.promises.readdir(root, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+
+    const dir = path.join(root, entry.name);
+    try {
+      const manifest: MaskBackupManifest = JSON.parse(
+        await fs.promises.readFile(path.join(dir, MANIFEST_FILE), 'utf-8')
+      );
+      let size = 0;
+      for (const file of await fs.promises.readdir(dir)) {
+        size += (await fs.promises.stat(path.join(dir, file))).size;
+      }
+      runs.push({ ...manifest, dir, size });
+    } catch {
+      // Not a masking run (or a corrupt manifest) - leave it alone
+    }
+  }
+
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Find a run by id, or the newest run for "latest"
+ */
+export async function findMaskBackup(id: string, testMode: boolean = false): Promise<MaskBackupRun | undefined> {
+  const runs = await listMaskBackups(testMode);
+  return id === 'latest' ? runs[0] : runs.find(run => run.id === id);
+}
+
+/**
+ * Restore the originals of a masking run
+ * Files edited since masking (e.g. sessions that kept growing) are skipped unless forced,
+ * since restoring them would drop the newer content
+ */
+export async function restoreMaskBackup(run: MaskBackupRun, force: boolean = false): Promise<RestoreResult> {
+  const result: RestoreResult = { restored: [], skipped: [] };
+
+  for (const file of run.files) {
+    try {
+      if (fs.existsSync(file.originalPath) && !force && file.maskedHash) {
+        if (await hashFile(file.originalPath) !== file.maskedHash) {
+          result.skipped.push({ path: file.originalPath, reason: 'modified since masking (use --force to overwrite)' });
+          continue;
+        }
+      }
+
+      const tempPath = `${file.originalPath}.cch-restore-${process.pid}.tmp`;
+      await fs.promises.mkdir(path.dirname(file.originalPath), { recursive: true });
+      await pipeline(
+        fs.createReadStream(path.join(run.dir, file.backupFile)),
+        createGunzip(),
+        fs.createWriteStream(tempPath, { mode: 0o600 })
+      );
+
+      if (await hashFile(tempPath) !== file.originalHash) {
+        await fs.promises.rm(tempPath, { force: true });
+        result.skipped.push({ path: file.originalPath, reason: 'backup is corrupt (checksum mismatch)' });
+        continue;
+      }
+
+      await fs.promises.rename(tempPath, file.originalPath);
+      result.restored.push(file.originalPath);
+    } catch (error) {
+      result.skipped.push({
+        path: file.originalPath,
+        reason: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Delete a masking run and all of its backups
+ */
+export async function purgeMaskBackup(run: MaskBackupRun): Promise<void> {
+  await fs.promises.rm(run.dir, { recursive: true, force: true });
+}
@@ -0,0 +1,102 @@
+/**
+ * Moving MCP server env secrets between ~/.claude.json and the secret vault
+ *
+ * An externalized server is rewritten to launch through
+ *   cch secrets exec <vault-id> -- <original command> <original args...>
+ * which loads the moved variables from the vault and starts the original server.
+ */
+
+import * as crypto from 'crypto';
+import type { ClaudeConfig } from '../core/config';
+import type { SecretVault } from './secret-vault';
+
+export const WRAPPER_COMMAND = 'cch';
+const WRAPPER_ARGS = ['secrets', 'exec'];
+
+export interface McpServerRef {
+  scope: string;   // 'global' or the project path
+  name: string;
+  server: Record<string, any>;
+}
+
+/**
+ * Every MCP server definition in the config, global ones first
+ */
+export function listMcpServers(config: ClaudeConfig): McpServerRef[] {
+  const servers: McpServerRef[] = [];
+
+  for (const [name, server] of Object.entries(config.mcpServers || {})) {
+    servers.push({ scope: 'global', name, server });
+  }
+  for (const [projectPath, project] of Object.entries(config.projects || {})) {
+    for (const [name, server] of Object.entries(project.mcpServers || {})) {
+      servers.push({ scope: projectPath, name, server });
+    }
+  }
+
+  return servers;
+}
+
+/**
+ * The vault id of a server that already launches through the wrapper
+ */
+export function getWrappedVaultId(server: Record<string, any>): string | undefined {
+  const args: unknown[] = Array.isArray(server.args) ? server.args : [];
+  if (server.command !== WRAPPER_COMMAND || args[0] !== WRAPPER_ARGS[0] || args[1] !== WRAPPER_ARGS[1] || args[3] !== '--') {
+    return undefined;
+  }
+  return typeof args[2] === 'string' ? args[2] : undefined;
+}
+
+/**
+ * Only stdio servers are started by a command we can wrap
+ */
+export function isWrappable(server: Record<string, any>): boolean {
+  return typeof server.command === 'string' && (server.type === undefined || server.type === 'stdio');
+}
+
+export function createVaultId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'server';
+  return `${slug}-${crypto.randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Rewrite a server to launch through the wrapper, without the given env variables
+ */
+export function externalizeServer(server: Record<string, any>, vaultId: string, variables: string[]): Record<string, any> {
+  const { env = {}, ...rest } = server;
+  const remaining = Object.fromEntries(Object.entries(env).filter(([name]) => !variables.includes(name)));
+
+  return {
+    ...rest,
+    command: WRAPPER_COMMAND,
+    args: [...WRAPPER_ARGS, vaultId, '--', server.command, ...(server.args || [])],
+    ...(Object.keys(remaining).length > 0 && { env: remaining })
+  };
+}
+
+/**
+ * Undo externalizeServer: restore the original command and put the vault values back in env
+ */
+export function internalizeServer(server: Record<string, any>, env: Record<string, string>): Record<string, any> {
+  const [command, ...args] = server.args.slice(WRAPPER_ARGS.length + 2);
+  const { env: remaining = {}, args: _wrapperArgs, ...rest } = server;
+
+  return {
+    ...rest,
+    command,
+    ...(args.length > 0 && { args }),
+    env: { ...remaining, ...env }
+  };
+}
+
+/**
+ * Environment for a wrapped server: the vault values on top of the inherited environment
+ */
+export function resolveVaultEnv(vault: SecretVault, vaultId: string, baseEnv: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const entry = vault.get(vaultId);
+  if (!entry) {
+    throw new Error(`No vault entry "${vaultId}" - restore ~/.cch/vault.json from a backup or re-add the server env values`);
+  }
+  return { ...baseEnv, ...entry.env };
+}
@@ -0,0 +1,186 @@
+/**
+ * Model price table (~/.cch/prices.json) for `cch usage` cost estimates
+ *
+ * {
+ *   "currency": "USD",
+ *   "models": {
+ *     "claude-sonnet-4-5": { "input": 3, "output": 15, "cacheWrite": 3.75, "cacheRead": 0.3 },
+ *     "my-gateway-model": { "input": 2.5, "output": 12 }
+ *   }
+ * }
+ *
+ * Prices are per million tokens. Models in the file replace or extend the built-in
+ * list prices; cacheWrite and cacheRead default to 1.25x and 0.1x the input price.
+ * Model ids are matched without their date suffix and cloud provider decoration,
+ * so "us.anthropic.claude-sonnet-4-5-20250929-v1:0" uses "claude-sonnet-4-5".
+ */
+
+import fs from 'fs';
+import { getModelPricesPath } from '../core/paths';
+
+export interface ModelPrice {
+  input: number;       // Per million tokens
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+export interface PriceTable {
+  currency: string;
+  models: Record<string, ModelPrice>;
+}
+
+export interface PriceTableLoadResult {
+  path: string;
+  exists: boolean;
+  table: PriceTable;
+  errors: string[];
+}
+
+// Anthropic list prices, 5-minute cache writes
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'claude-opus-4-1': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4-5': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  'claude-3-opus': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 }
+};
+
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+export function defaultPriceTable(): PriceTable {
+  return { currency: 'USD', models: JSON.parse(JSON.stringify(DEFAULT_MODEL_PRICES)) };
+}
+
+/**
+ * Load the price file, falling back to the built-in prices when there is none
+ */
+export function loadPriceTable(testMode: boolean = false): PriceTableLoadResult {
+  const pricesPath = getModelPricesPath(testMode);
+
+  if (!fs.existsSync(pricesPath)) {
+    return { path: pricesPath, exists: false, table: defaultPriceTable(), errors: [] };
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(pricesPath, 'utf8'));
+  } catch (error) {
+    return {
+      path: pricesPath,
+      exists: true,
+      table: defaultPriceTable(),
+      errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'unknown error'}`]
+    };
+  }
+
+  const { table, errors } = validatePriceTable(raw);
+  return { path: pricesPath, exists: true, table, errors };
+}
+
+/**
+ * Validate raw price file contents
+ */
+export function validatePriceTable(raw: any): { table: PriceTable; errors: string[] } {
+  const table = defaultPriceTable();
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { table, errors: ['Price file must contain a JSON object'] };
+  }
+
+  if (raw.currency !== undefined) {
+    if (typeof raw.currency !== 'string' || !raw.currency.trim()) {
+      errors.push('"currency" must be a string');
+    } else {
+      table.currency = raw.currency.trim();
+    }
+  }
+
+  if (raw.models !== undefined) {
+    if (!raw.models || typeof raw.models !== 'object' || Array.isArray(raw.models)) {
+      errors.push('"models" must be an object of model id -> prices');
+    } else {
+      for (const [model, def] of Object.entries<any>(raw.models)) {
+        const price = parsePrice(def, `models.${model}`, errors);
+        if (price) {
+          table.models[normalizeModelId(model)] = price;
+        }
+      }
+    }
+  }
+
+  return { table, errors };
+}
+
+/**
+ * Price of a model, or undefined when the table does not know it
+ */
+export function findModelPrice(table: PriceTable, model: string): ModelPrice | undefined {
+  const id = normalizeModelId(model);
+  return Object.prototype.hasOwnProperty.call(table.models, id) ? table.models[id] : undefined;
+}
+
+/**
+ * Strip what varies between releases and providers:
+ * "us.anthropic.claude-opus-4-1-20250805-v1:0" and "claude-opus-4-1@20250805" -> "claude-opus-4-1"
+ */
+export function normalizeModelId(model: string): string {
+  return model.trim().toLowerCase()
+    .replace(/^([a-z]+\.)?anthropic\./, '')
+    .replace(/-v\d+(:\d+)?$/, '')
+    .replace(/[-@]\d{8}$/, '');
+}
+
+/**
+ * The built-in prices as a file, for `cch usage prices init`
+ */
+export function serializeDefaultPriceTable(): string {
+  return JSON.stringify(defaultPriceTable(), null, 2) + '\n';
+}
+
+function parsePrice(def: any, where: string, errors: string[]): ModelPrice | null {
+  if (!def || typeof def !== 'object' || Array.isArray(def)) {
+    errors.push(`"${where}" must be an object with input and output prices`);
+    return null;
+  }
+
+  const before = errors.length;
+  const input = requiredPrice(def, 'input', where, errors);
+  const output = requiredPrice(def, 'output', where, errors);
+  const cacheWrite = optionalPrice(def, 'cacheWrite', where, errors);
+  const cacheRead = optionalPrice(def, 'cacheRead', where, errors);
+  if (errors.length !== before) return null;
+
+  return {
+    input,
+    output,
+    cacheWrite: cacheWrite ?? input * CACHE_WRITE_MULTIPLIER,
+    cacheRead: cacheRead ?? input * CACHE_READ_MULTIPLIER
+  };
+}
+
+function requiredPrice(def: any, key: string, where: string, errors: string[]): number {
+  if (def[key] === undefined) {
+    errors.push(`"${where}.${key}" is required`);
+    return 0;
+  }
+  return optionalPrice(def, key, where, errors) ?? 0;
+}
+
+function optionalPrice(def: any, key: string, where: string, errors: string[]): number | undefined {
+  const value = def[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    errors.push(`"${where}.${key}" must be a non-negative number`);
+    return undefined;
+  }
+  return value;
+}
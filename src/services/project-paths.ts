@@ -0,0 +1,157 @@
+/**
+ * Project path encoding for ~/.claude/projects
+ *
+ * Claude Code names each project's cache directory after the project path with every
+ * character other than a letter or digit replaced by "-", so "/Users/merlin/_dev/ai-engine"
+ * becomes "-Users-merlin--dev-ai-engine". Encoding is exact; decoding is ambiguous, so
+ * a directory name is resolved from evidence - session `cwd` fields, `~/.claude.json`
+ * project keys and the directories that actually exist on disk - and the result says
+ * how sure it is.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export type PathConfidence = 'certain' | 'likely' | 'unknown';
+export type PathSource = 'session' | 'config' | 'disk' | 'decoded';
+
+export interface ResolvedProjectPath {
+  path: string;
+  exists: boolean;
+  confidence: PathConfidence;
+  source: PathSource;
+}
+
+export interface ProjectPathHints {
+  sessionCwds?: string[];   // `cwd` values read from the project's sessions
+  knownPaths?: string[];    // Project keys from ~/.claude.json
+}
+
+// Bounds the disk search for names with many plausible splits
+const MAX_DIRS_SCANNED = 500;
+
+/**
+ * Cache directory name for a project path
+ */
+export function encodeProjectPath(projectPath: string): string {
+  return projectPath.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+/**
+ * Best guess when nothing else is known: every "-" read as a path separator
+ */
+export function decodeProjectPathNaive(encodedName: string): string {
+  return encodedName.replace(/^-/, '/').replace(/-/g, '/');
+}
+
+/**
+ * Existing directories whose path encodes to `encodedName`
+ * Walks down from the filesystem root, following only entries whose encoded name
+ * matches the next part of the encoded path. Stops after `limit` matches.
+ */
+export function findProjectPathsOnDisk(encodedName: string, limit: number = 2): string[] {
+  const root = path.parse(os.homedir()).root;
+  const encodedRoot = encodeProjectPath(root);
+  if (!encodedName.startsWith(encodedRoot)) {
+    return [];
+  }
+
+  const matches: string[] = [];
+  let scanned = 0;
+
+  const search = (dir: string, remaining: string): void => {
+    if (matches.length >= limit || scanned >= MAX_DIRS_SCANNED) return;
+    if (remaining === '') {
+      matches.push(dir);
+      return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    scanned++;
+
+    for (const entry of entries) {
+      const encoded = encodeProjectPath(entry.name);
+      const rest = remaining === encoded
+        ? ''
+        : remaining.startsWith(`${encoded}-`) ? remaining.slice(encoded.length + 1) : null;
+      if (rest === null) continue;
+
+      const entryPath = path.join(dir, entry.name);
+      if (!entry.isDirectory() && !(entry.isSymbolicLink() && isDirectory(entryPath))) continue;
+
+      search(entryPath, rest);
+      if (matches.length >= limit) return;
+    }
+  };
+
+  search(root, encodedName.slice(encodedRoot.length));
+  return matches;
+}
+
+/**
+ * Resolve a cache directory name to the project path it belongs to
+ *
+ * - certain: a session cwd or ~/.claude.json key encodes to the name, or exactly one
+ *   existing directory does
+ * - likely: the name matches several existing directories, or the recorded path is gone
+ *   but another directory with the same encoding exists
+ * - unknown: no evidence at all; `path` is a naive decode and must not be acted on
+ */
+export function resolveProjectPath(encodedName: string, hints: ProjectPathHints = {}): ResolvedProjectPath {
+  const recorded = findRecordedPath(encodedName, hints);
+
+  if (recorded) {
+    if (fs.existsSync(recorded.path)) {
+      return { path: recorded.path, exists: true, confidence: 'certain', source: recorded.source };
+    }
+
+    const onDisk = findProjectPathsOnDisk(encodedName, 1);
+    if (onDisk.length > 0) {
+      return { path: onDisk[0], exists: true, confidence: 'likely', source: 'disk' };
+    }
+    return { path: recorded.path, exists: false, confidence: 'certain', source: recorded.source };
+  }
+
+  const onDisk = findProjectPathsOnDisk(encodedName);
+  if (onDisk.length > 0) {
+    return { path: onDisk[0], exists: true, confidence: onDisk.length === 1 ? 'certain' : 'likely', source: 'disk' };
+  }
+
+  return { path: decodeProjectPathNaive(encodedName), exists: false, confidence: 'unknown', source: 'decoded' };
+}
+
+/**
+ * A session cwd or config key that encodes to the name
+ * Sessions record the directory Claude was in, which can be below the project root,
+ * so cwd ancestors are tried as well.
+ */
+function findRecordedPath(
+  encodedName: string,
+  hints: ProjectPathHints
+): { path: string; source: PathSource } | null {
+  for (const cwd of hints.sessionCwds || []) {
+    for (let candidate = cwd; ; candidate = path.dirname(candidate)) {
+      if (encodeProjectPath(candidate) === encodedName) {
+        return { path: candidate, source: 'session' };
+      }
+      if (path.dirname(candidate) === candidate) break;
+    }
+  }
+
+  const known = (hints.knownPaths || []).find(p => encodeProjectPath(p) === encodedName);
+  return known ? { path: known, source: 'config' } : null;
+}
+
+function isDirectory(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
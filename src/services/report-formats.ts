@@ -0,0 +1,564 @@
+/**
+ * Machine-readable report output (JSON, SARIF, Markdown)
+ *
+ * JSON reports share a versioned envelope so CI jobs and the MCP server can
+ * consume them without scraping terminal text. Bump REPORT_SCHEMA_VERSION when
+ * a field is removed or changes meaning; adding fields is backwards compatible.
+ * The session and usage reports are built next to their services, on `envelope`.
+ * Raw secret values and their surrounding context are never serialized - only
+ * the masked value and where it was found.
+ */
+
+import { createHash } from 'crypto';
+import { pathToFileURL } from 'url';
+import { formatBytes } from '../utils/format';
+import type { AuditReport, ProjectTreeNode, SecurityIssue } from './analyzer';
+import type { CacheAnalysis, CacheRecommendation, ProjectCache, SessionFile } from './cache-analyzer';
+import type { CacheSecretResult, CacheSecretScanResult, DetectedSecret } from './secret-detector';
+import type { SecretVerification } from './secret-verifiers';
+import type { PathConfidence } from './project-paths';
+
+export type ReportFormat = 'text' | 'json' | 'sarif' | 'markdown';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'sarif', 'markdown'];
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type ReportKind = 'audit' | 'cache-secrets' | 'cache-analysis' | 'session-search' | 'session-export' | 'session-list' | 'usage';
+
+/**
+ * Validate a --format value, defaulting to text
+ */
+export function parseReportFormat(value: unknown): ReportFormat {
+  if (value === undefined || value === false) {
+    return 'text';
+  }
+  if (typeof value === 'string' && (REPORT_FORMATS as string[]).includes(value)) {
+    return value as ReportFormat;
+  }
+  throw new Error(`Invalid --format "${value === true ? '' : value}". Use one of: ${REPORT_FORMATS.join(', ')}`);
+}
+
+export interface ReportEnvelope {
+  schemaVersion: number;
+  kind: ReportKind;
+  tool: 'claude-code-helper';
+  generatedAt: string;
+}
+
+export interface ReportSecret {
+  type: string;
+  category: string;
+  confidence: DetectedSecret['confidence'];
+  maskedValue: string;
+  location: string;
+  lineNumber?: number;
+  jsonPath?: string;
+  verification?: SecretVerification;
+}
+
+export interface AuditJsonReport extends ReportEnvelope {
+  kind: 'audit';
+  overview: AuditReport['overview'];
+  security: SecurityIssue[];
+  secrets: {
+    totalCount: number;
+    highConfidenceCount: number;
+    categoryCounts: Record<string, number>;
+    findings: ReportSecret[];
+  };
+  bloat: {
+    totalPastes: number;
+    totalSize: number;
+    potentialReduction: number;
+    projects: Array<{ project: string; pasteCount: number; totalSize: number; reduction: number }>;
+  };
+  tree: ProjectTreeNode;
+  recommendations: string[];
+}
+
+export interface CacheSecretsJsonReport extends ReportEnvelope {
+  kind: 'cache-secrets';
+  totalSecrets: number;
+  highConfidenceCount: number;
+  locationBreakdown: CacheSecretScanResult['locationBreakdown'];
+  index: CacheSecretScanResult['indexStats'];
+  files: Array<{ path: string; type: CacheSecretResult['type']; findings: ReportSecret[] }>;
+}
+
+export interface ReportProject {
+  name: string;
+  path: string;
+  cachePath: string;
+  totalSize: number;
+  sessionCount: number;
+  lastAccessed: string;
+  pathConfidence: PathConfidence;
+  isOrphaned: boolean;
+  isActive: boolean;
+}
+
+export interface ReportSession {
+  sessionId: string;
+  project: string;
+  path: string;
+  size: number;
+  modified: string;
+  isAgent: boolean;
+}
+
+export interface CacheAnalysisJsonReport extends ReportEnvelope {
+  kind: 'cache-analysis';
+  overview: {
+    cacheDir: string;
+    totalSize: number;
+    totalProjects: number;
+    totalSessions: number;
+    oldestSession: string | null;
+    newestSession: string | null;
+  };
+  components: Record<'fileHistory' | 'debug' | 'todos' | 'sessionEnv' | 'shellSnapshots' | 'history', { totalSize: number; fileCount: number }>;
+  projects: ReportProject[];
+  largestSessions: ReportSession[];
+  orphanedProjects: string[];
+  unresolvedProjects: string[];
+  staleProjects: string[];
+  recommendations: CacheRecommendation[];
+  potentialSavings: number;
+}
+
+/**
+ * The fields every JSON report starts with, for services that serialize their own reports
+ */
+export function envelope<K extends ReportKind>(kind: K): ReportEnvelope & { kind: K } {
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    kind,
+    tool: 'claude-code-helper',
+    generatedAt: new Date().toISOString()
+  };
+}
+
+function toReportSecret(secret: DetectedSecret): ReportSecret {
+  return {
+    type: secret.type,
+    category: secret.category,
+    confidence: secret.confidence,
+    maskedValue: secret.maskedValue,
+    location: secret.location,
+    ...(secret.lineNumber !== undefined && { lineNumber: secret.lineNumber }),
+    ...(secret.jsonPath !== undefined && { jsonPath: secret.jsonPath }),
+    ...(secret.verification !== undefined && { verification: secret.verification })
+  };
+}
+
+export function toAuditJson(report: AuditReport): AuditJsonReport {
+  return {
+    ...envelope('audit'),
+    overview: report.overview,
+    security: report.security,
+    secrets: {
+      totalCount: report.secrets.totalCount,
+      highConfidenceCount: report.secrets.highConfidenceCount,
+      categoryCounts: report.secrets.categoryCounts,
+      findings: report.secrets.secrets.map(toReportSecret)
+    },
+    bloat: {
+      totalPastes: report.bloat.totalPastes,
+      totalSize: report.bloat.totalSize,
+      potentialReduction: report.bloat.potentialReduction,
+      projects: [...report.bloat.projectSummaries].map(([project, summary]) => ({ project, ...summary }))
+    },
+    tree: report.tree,
+    recommendations: report.recommendations
+  };
+}
+
+export function toCacheSecretsJson(result: CacheSecretScanResult): CacheSecretsJsonReport {
+  return {
+    ...envelope('cache-secrets'),
+    totalSecrets: result.totalSecrets,
+    highConfidenceCount: result.highConfidenceCount,
+    locationBreakdown: result.locationBreakdown,
+    index: result.indexStats,
+    files: result.results.map(r => ({
+      path: r.location,
+      type: r.type,
+      findings: r.secrets.map(toReportSecret)
+    }))
+  };
+}
+
+function toReportProject(project: ProjectCache): ReportProject {
+  return {
+    name: project.projectName,
+    path: project.projectPath,
+    cachePath: project.cachePath,
+    totalSize: project.totalSize,
+    sessionCount: project.sessions.length,
+    lastAccessed: project.lastAccessed.toISOString(),
+    pathConfidence: project.pathConfidence,
+    isOrphaned: project.isOrphaned,
+    isActive: project.isActive
+  };
+}
+
+function toReportSession(session: SessionFile): ReportSession {
+  return {
+    sessionId: session.sessionId,
+    project: session.project,
+    path: session.filePath,
+    size: session.size,
+    modified: session.modified.toISOString(),
+    isAgent: session.isAgent
+  };
+}
+
+export function toCacheAnalysisJson(analysis: CacheAnalysis): CacheAnalysisJsonReport {
+  return {
+    ...envelope('cache-analysis'),
+    overview: {
+      cacheDir: analysis.overview.cacheDir,
+      totalSize: analysis.overview.totalSize,
+      totalProjects: analysis.overview.totalProjects,
+      totalSessions: analysis.overview.totalSessions,
+      oldestSession: analysis.overview.oldestSession?.toISOString() ?? null,
+      newestSession: analysis.overview.newestSession?.toISOString() ?? null
+    },
+    components: {
+      fileHistory: { totalSize: analysis.fileHistory.totalSize, fileCount: analysis.fileHistory.fileCount },
+      debug: { totalSize: analysis.debug.totalSize, fileCount: analysis.debug.logCount },
+      todos: { totalSize: analysis.todos.totalSize, fileCount: analysis.todos.fileCount },
+      sessionEnv: { totalSize: analysis.sessionEnv.totalSize, fileCount: analysis.sessionEnv.fileCount },
+      shellSnapshots: { totalSize: analysis.shellSnapshots.totalSize, fileCount: analysis.shellSnapshots.fileCount },
+      history: { totalSize: analysis.history?.size ?? 0, fileCount: analysis.history ? 1 : 0 }
+    },
+    projects: analysis.projects.map(toReportProject),
+    largestSessions: analysis.largestSessions.map(toReportSession),
+    orphanedProjects: analysis.orphanedProjects.map(p => p.projectName),
+    unresolvedProjects: analysis.unresolvedProjects.map(p => p.cachePath),
+    staleProjects: analysis.staleProjects.map(p => p.projectName),
+    recommendations: analysis.recommendations,
+    potentialSavings: analysis.potentialSavings
+  };
+}
+
+// SARIF 2.1.0 - https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+/**
+ * The part of a SARIF log these reports produce
+ */
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri: string;
+      rules: SarifRule[];
+    };
+  };
+  results: SarifResult[];
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations: SarifLocation[];
+  partialFingerprints?: Record<string, string>;
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLocation {
+  physicalLocation?: {
+    artifactLocation: { uri: string };
+    region?: { startLine: number };
+  };
+  logicalLocations?: Array<{ fullyQualifiedName: string }>;
+}
+
+interface SarifFinding {
+  ruleId: string;
+  ruleName: string;
+  level: SarifLevel;
+  message: string;
+  filePath?: string;
+  lineNumber?: number;
+  logicalLocation?: string;
+  fingerprint?: string;
+  properties?: Record<string, unknown>;
+}
+
+const CONFIDENCE_LEVELS: Record<DetectedSecret['confidence'], SarifLevel> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'note'
+};
+
+const SEVERITY_LEVELS: Record<string, SarifLevel> = {
+  HIGH: 'error',
+  high: 'error',
+  MEDIUM: 'warning',
+  medium: 'warning',
+  LOW: 'note',
+  low: 'note'
+};
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Stable fingerprint so code scanning can track a finding across runs. It is built
+ * from the type and location only - a hash of the value could be brute-forced for
+ * short secrets like PINs or card numbers, and SARIF files get shared.
+ */
+function locationFingerprint(type: string, filePath: string, lineNumber?: number, logicalLocation?: string): string {
+  return createHash('sha256').update(`${type}:${filePath}:${lineNumber ?? ''}:${logicalLocation ?? ''}`).digest('hex').slice(0, 32);
+}
+
+function secretFinding(secret: DetectedSecret, filePath: string, logicalLocation?: string): SarifFinding {
+  const location = logicalLocation ?? secret.jsonPath;
+  return {
+    ruleId: `secret/${slug(secret.type)}`,
+    ruleName: secret.type,
+    level: CONFIDENCE_LEVELS[secret.confidence],
+    message: `${secret.type} detected: ${secret.maskedValue}`,
+    filePath,
+    lineNumber: secret.lineNumber,
+    logicalLocation: location,
+    fingerprint: locationFingerprint(secret.type, filePath, secret.lineNumber, location),
+    properties: {
+      category: secret.category,
+      confidence: secret.confidence,
+      ...(secret.verification && { verification: secret.verification.status })
+    }
+  };
+}
+
+function buildSarif(findings: SarifFinding[]): SarifLog {
+  const rules = new Map<string, SarifRule>();
+  for (const finding of findings) {
+    if (!rules.has(finding.ruleId)) {
+      rules.set(finding.ruleId, { id: finding.ruleId, name: finding.ruleName, shortDescription: { text: finding.ruleName } });
+    }
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'claude-code-helper',
+          informationUri: 'https://github.com/light-merlin-dark/claude-code-helper',
+          rules: [...rules.values()]
+        }
+      },
+      results: findings.map(finding => ({
+        ruleId: finding.ruleId,
+        level: finding.level,
+        message: { text: finding.message },
+        locations: [{
+          ...(finding.filePath && {
+            physicalLocation: {
+              artifactLocation: { uri: pathToFileURL(finding.filePath).href },
+              ...(finding.lineNumber !== undefined && { region: { startLine: finding.lineNumber } })
+            }
+          }),
+          ...(finding.logicalLocation && { logicalLocations: [{ fullyQualifiedName: finding.logicalLocation }] })
+        }],
+        ...(finding.fingerprint && { partialFingerprints: { 'secretLocation/v1': finding.fingerprint } }),
+        ...(finding.properties && { properties: finding.properties })
+      }))
+    }]
+  };
+}
+
+/**
+ * Config secrets and dangerous permissions, located in the Claude config file
+ */
+export function toAuditSarif(report: AuditReport, configPath: string): SarifLog {
+  const findings = report.secrets.secrets.map(secret => secretFinding(secret, configPath, secret.location));
+
+  for (const issue of report.security) {
+    findings.push({
+      ruleId: `permission/${slug(issue.permission)}`,
+      ruleName: `Dangerous permission: ${issue.permission}`,
+      level: SEVERITY_LEVELS[issue.severity],
+      message: `${issue.permission} is allowed in ${issue.projects.length} project(s): ${issue.description}`,
+      filePath: configPath,
+      properties: { projects: issue.projects }
+    });
+  }
+
+  return buildSarif(findings);
+}
+
+export function toCacheSecretsSarif(result: CacheSecretScanResult): SarifLog {
+  return buildSarif(result.results.flatMap(r => r.secrets.map(secret => secretFinding(secret, r.location))));
+}
+
+/**
+ * Cleanup recommendations as results against the cache path they target
+ */
+export function toCacheAnalysisSarif(analysis: CacheAnalysis): SarifLog {
+  return buildSarif(analysis.recommendations.map(rec => ({
+    ruleId: `cache/${rec.type}`,
+    ruleName: rec.type,
+    level: SEVERITY_LEVELS[rec.severity],
+    message: rec.description,
+    filePath: rec.targetPath || undefined,
+    properties: { sizeImpact: rec.sizeImpact, safetyLevel: rec.safetyLevel }
+  })));
+}
+
+// Markdown
+
+function cell(value: string | number): string {
+  return String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function table(headers: string[], rows: Array<Array<string | number>>): string[] {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+  ];
+}
+
+function secretRows(secrets: DetectedSecret[], location: (secret: DetectedSecret) => string): Array<Array<string | number>> {
+  return secrets.map(secret => [
+    secret.confidence,
+    secret.type,
+    `\`${secret.maskedValue}\``,
+    location(secret),
+    secret.verification?.status ?? ''
+  ]);
+}
+
+function treeLines(node: ProjectTreeNode, depth: number): string[] {
+  const lines: string[] = [];
+  if (depth >= 0) {
+    const name = node.projectCount ? `${node.name}/ (${node.projectCount} projects)` : node.name;
+    lines.push(`${'  '.repeat(depth)}- ${name}`);
+  }
+  for (const child of node.children || []) {
+    lines.push(...treeLines(child, depth + 1));
+  }
+  return lines;
+}
+
+export function toAuditMarkdown(report: AuditReport): string {
+  const lines: string[] = ['# Claude Code Configuration Audit', ''];
+
+  lines.push('## Overview', '');
+  lines.push(...table(['Metric', 'Value'], [
+    ['Projects', report.overview.totalProjects],
+    ['Config size', formatBytes(report.overview.totalConfigSize)],
+    ['MCP tools', report.overview.mcpToolsInstalled],
+    ['Permissions', report.overview.totalPermissions]
+  ]), '');
+
+  lines.push('## Secrets', '');
+  if (report.secrets.totalCount === 0) {
+    lines.push('No secrets detected.', '');
+  } else {
+    lines.push(`${report.secrets.totalCount} potential secret(s), ${report.secrets.highConfidenceCount} high confidence.`, '');
+    lines.push(...table(['Confidence', 'Type', 'Value', 'Location', 'Status'],
+      secretRows(report.secrets.secrets, secret => secret.location)), '');
+  }
+
+  if (report.security.length > 0) {
+    lines.push('## Dangerous Permissions', '');
+    lines.push(...table(['Severity', 'Permission', 'Projects', 'Description'],
+      report.security.map(issue => [issue.severity, `\`${issue.permission}\``, issue.projects.length, issue.description])), '');
+  }
+
+  if (report.bloat.totalPastes > 0) {
+    lines.push('## Config Bloat', '');
+    lines.push(...table(['Project', 'Large pastes', 'History size', 'Reduction'],
+      [...report.bloat.projectSummaries].map(([project, summary]) => [
+        project, summary.pasteCount, formatBytes(summary.totalSize), formatBytes(summary.reduction)
+      ])), '');
+  }
+
+  lines.push('## Project Tree', '');
+  lines.push(...treeLines(report.tree, -1), '');
+
+  if (report.recommendations.length > 0) {
+    lines.push('## Recommendations', '');
+    report.recommendations.forEach((rec, idx) => lines.push(`${idx + 1}. ${rec}`));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+export function toCacheSecretsMarkdown(result: CacheSecretScanResult): string {
+  const lines: string[] = ['# Claude Code Cache Secret Scan', ''];
+
+  if (result.totalSecrets === 0) {
+    lines.push('No secrets found in cache.', '');
+    return lines.join('\n');
+  }
+
+  lines.push(`${result.totalSecrets} secret(s) found, ${result.highConfidenceCount} high confidence.`, '');
+  lines.push(...table(['Location', 'Secrets'], [
+    ['Session files', result.locationBreakdown.sessions],
+    ['Shell snapshots', result.locationBreakdown.shellSnapshots],
+    ['Debug logs', result.locationBreakdown.debugLogs],
+    ['File history', result.locationBreakdown.fileHistory],
+    ['Project files', result.locationBreakdown.projectFiles]
+  ]), '');
+
+  lines.push('## Findings', '');
+  lines.push(...table(['Confidence', 'Type', 'Value', 'Location', 'Status'],
+    result.results.flatMap(r => secretRows(r.secrets, secret =>
+      `${r.location}${secret.lineNumber ? `:${secret.lineNumber}` : ''}${secret.jsonPath ? ` (${secret.jsonPath})` : ''}`
+    ))), '');
+
+  return lines.join('\n');
+}
+
+export function toCacheAnalysisMarkdown(analysis: CacheAnalysis): string {
+  const report = toCacheAnalysisJson(analysis);
+  const lines: string[] = ['# Claude Code Cache Analysis', ''];
+
+  lines.push(...table(['Metric', 'Value'], [
+    ['Cache directory', `\`${report.overview.cacheDir}\``],
+    ['Total size', formatBytes(report.overview.totalSize)],
+    ['Projects', report.overview.totalProjects],
+    ['Sessions', report.overview.totalSessions],
+    ['Potential savings', formatBytes(report.potentialSavings)]
+  ]), '');
+
+  lines.push('## Largest Projects', '');
+  lines.push(...table(['Project', 'Size', 'Sessions', 'Status'],
+    report.projects.slice(0, 10).map(p => [
+      p.name, formatBytes(p.totalSize), p.sessionCount, p.isActive ? 'active' : p.isOrphaned ? 'orphaned' : ''
+    ])), '');
+
+  if (report.recommendations.length > 0) {
+    lines.push('## Recommendations', '');
+    lines.push(...table(['Severity', 'Recommendation', 'Savings', 'Safety'],
+      report.recommendations.map(rec => [rec.severity, rec.description, formatBytes(rec.sizeImpact), rec.safetyLevel])), '');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,256 @@
+/**
+ * Declarative cache retention policy (~/.cch/retention.json) for `cch cache gc`
+ *
+ * {
+ *   "projects": { "orphaned": true, "staleDays": 90, "largeSessionMB": 50 },
+ *   "debug": { "maxAgeDays": 14, "maxTotalMB": 100, "keepLast": 10 },
+ *   "file-history": false,
+ *   "emptyFiles": true,
+ *   "trash": { "maxAgeDays": 30 },
+ *   "protect": ["~/work/client-*"],
+ *   "overrides": [{ "pattern": "~/work/monorepo", "staleDays": 180 }]
+ * }
+ *
+ * Categories left out of the file use the defaults; false turns a category off.
+ * Project globs match the project path, "~/" is expanded.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import { getRetentionPolicyPath } from '../core/paths';
+import {
+  RetentionRule,
+  RetentionRules,
+  RetentionTarget,
+  ProjectOverride,
+  DEFAULT_RETENTION_RULES,
+  RETENTION_TARGETS
+} from './cache-retention';
+import type { CleanCacheOptions } from './cache-cleaner';
+
+export interface ProjectRetention {
+  orphaned: boolean;
+  staleDays?: number;
+  largeSessionMB?: number;
+}
+
+export interface RetentionPolicy {
+  projects: ProjectRetention;
+  caches: Partial<RetentionRules>;  // Only the enabled categories
+  emptyFiles: boolean;
+  trashMaxAgeDays?: number;
+  protect: string[];
+  overrides: ProjectOverride[];
+}
+
+export interface RetentionPolicyLoadResult {
+  path: string;
+  exists: boolean;
+  policy: RetentionPolicy;
+  errors: string[];
+}
+
+export function defaultRetentionPolicy(): RetentionPolicy {
+  return {
+    projects: { orphaned: true, staleDays: 90 },
+    caches: JSON.parse(JSON.stringify(DEFAULT_RETENTION_RULES)),
+    emptyFiles: true,
+    trashMaxAgeDays: 30,
+    protect: [],
+    overrides: []
+  };
+}
+
+/**
+ * Load the policy file, falling back to the defaults when there is none
+ * Errors are returned rather than thrown so callers can refuse to clean on a broken policy
+ */
+export function loadRetentionPolicy(testMode: boolean = false): RetentionPolicyLoadResult {
+  const policyPath = getRetentionPolicyPath(testMode);
+
+  if (!fs.existsSync(policyPath)) {
+    return { path: policyPath, exists: false, policy: defaultRetentionPolicy(), errors: [] };
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(policyPath, 'utf8'));
+  } catch (error) {
+    return {
+      path: policyPath,
+      exists: true,
+      policy: defaultRetentionPolicy(),
+      errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'unknown error'}`]
+    };
+  }
+
+  const { policy, errors } = validateRetentionPolicy(raw);
+  return { path: policyPath, exists: true, policy, errors };
+}
+
+/**
+ * Validate raw policy file contents
+ */
+export function validateRetentionPolicy(raw: any): { policy: RetentionPolicy; errors: string[] } {
+  const policy = defaultRetentionPolicy();
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { policy, errors: ['Policy file must contain a JSON object'] };
+  }
+
+  if (raw.projects === false) {
+    policy.projects = { orphaned: false };
+  } else if (raw.projects !== undefined) {
+    if (typeof raw.projects !== 'object' || Array.isArray(raw.projects)) {
+      errors.push('"projects" must be an object or false');
+    } else {
+      if (raw.projects.orphaned !== undefined) {
+        if (typeof raw.projects.orphaned !== 'boolean') {
+          errors.push('"projects.orphaned" must be true or false');
+        } else {
+          policy.projects.orphaned = raw.projects.orphaned;
+        }
+      }
+      policy.projects.staleDays = optionalLimit(raw.projects, 'staleDays', 'projects.staleDays', errors, policy.projects.staleDays);
+      policy.projects.largeSessionMB = optionalLimit(raw.projects, 'largeSessionMB', 'projects.largeSessionMB', errors, policy.projects.largeSessionMB);
+    }
+  }
+
+  for (const target of RETENTION_TARGETS) {
+    if (raw[target] === false) {
+      delete policy.caches[target];
+    } else if (raw[target] !== undefined) {
+      const rule = parseRule(raw[target], target, errors);
+      if (rule) {
+        policy.caches[target] = rule;
+      }
+    }
+  }
+
+  if (raw.emptyFiles !== undefined) {
+    if (typeof raw.emptyFiles !== 'boolean') {
+      errors.push('"emptyFiles" must be true or false');
+    } else {
+      policy.emptyFiles = raw.emptyFiles;
+    }
+  }
+
+  if (raw.trash === false) {
+    policy.trashMaxAgeDays = undefined;
+  } else if (raw.trash !== undefined) {
+    if (typeof raw.trash !== 'object' || Array.isArray(raw.trash)) {
+      errors.push('"trash" must be an object or false');
+    } else {
+      policy.trashMaxAgeDays = optionalLimit(raw.trash, 'maxAgeDays', 'trash.maxAgeDays', errors, policy.trashMaxAgeDays);
+    }
+  }
+
+  if (raw.protect !== undefined) {
+    if (!Array.isArray(raw.protect) || raw.protect.some((p: unknown) => typeof p !== 'string' || !p)) {
+      errors.push('"protect" must be an array of project path globs');
+    } else {
+      policy.protect = raw.protect.map(expandHome);
+    }
+  }
+
+  if (raw.overrides !== undefined) {
+    if (!Array.isArray(raw.overrides)) {
+      errors.push('"overrides" must be an array');
+    } else {
+      raw.overrides.forEach((def: any, index: number) => {
+        const where = `overrides[${index}]`;
+        if (!def || typeof def !== 'object' || typeof def.pattern !== 'string' || !def.pattern) {
+          errors.push(`${where}: "pattern" must be a project path glob`);
+          return;
+        }
+        if (def.protected !== undefined && typeof def.protected !== 'boolean') {
+          errors.push(`${where}: "protected" must be true or false`);
+          return;
+        }
+        policy.overrides.push({
+          pattern: expandHome(def.pattern),
+          ...(def.protected !== undefined && { protected: def.protected }),
+          ...(def.staleDays !== undefined && { staleDays: optionalLimit(def, 'staleDays', `${where}.staleDays`, errors) }),
+          ...(def.largeSessionMB !== undefined && { largeSessionMB: optionalLimit(def, 'largeSessionMB', `${where}.largeSessionMB`, errors) })
+        });
+      });
+    }
+  }
+
+  return { policy, errors };
+}
+
+/**
+ * Cleanup options that evaluate the policy through CacheCleaner
+ * Protected globs become overrides placed last, so they win over any limits
+ */
+export function policyToCleanOptions(policy: RetentionPolicy): CleanCacheOptions {
+  return {
+    orphanedProjects: policy.projects.orphaned,
+    staleDays: policy.projects.staleDays,
+    largeSessions: policy.projects.largeSessionMB !== undefined,
+    sessionThresholdMB: policy.projects.largeSessionMB,
+    oldDebugLogs: policy.caches['debug'] !== undefined,
+    oldFileHistory: policy.caches['file-history'] !== undefined,
+    oldTodos: policy.caches['todos'] !== undefined,
+    oldShellSnapshots: policy.caches['shell-snapshots'] !== undefined,
+    emptyFiles: policy.emptyFiles,
+    projectOverrides: [
+      ...policy.overrides,
+      ...policy.protect.map(pattern => ({ pattern, protected: true }))
+    ]
+  };
+}
+
+/**
+ * Retention rules for CacheAnalyzer; disabled categories keep the defaults since they are not cleaned
+ */
+export function policyRetentionRules(policy: RetentionPolicy): RetentionRules {
+  return { ...DEFAULT_RETENTION_RULES, ...policy.caches };
+}
+
+/**
+ * The default policy as a file, for `cch cache gc init`
+ */
+export function serializeDefaultPolicy(): string {
+  const policy = defaultRetentionPolicy();
+  return JSON.stringify({
+    projects: policy.projects,
+    ...policy.caches,
+    emptyFiles: policy.emptyFiles,
+    trash: { maxAgeDays: policy.trashMaxAgeDays },
+    protect: [],
+    overrides: []
+  }, null, 2) + '\n';
+}
+
+function parseRule(def: any, target: RetentionTarget, errors: string[]): RetentionRule | null {
+  if (!def || typeof def !== 'object' || Array.isArray(def)) {
+    errors.push(`"${target}" must be an object or false`);
+    return null;
+  }
+
+  const before = errors.length;
+  const rule: RetentionRule = {
+    maxAgeDays: optionalLimit(def, 'maxAgeDays', `${target}.maxAgeDays`, errors),
+    maxTotalMB: optionalLimit(def, 'maxTotalMB', `${target}.maxTotalMB`, errors),
+    keepLast: optionalLimit(def, 'keepLast', `${target}.keepLast`, errors)
+  };
+  return errors.length === before ? rule : null;
+}
+
+function optionalLimit(def: any, key: string, where: string, errors: string[], fallback?: number): number | undefined {
+  const value = def[key];
+  if (value === undefined) return fallback;
+  if (value === null || value === false) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    errors.push(`"${where}" must be a non-negative number`);
+    return fallback;
+  }
+  return value;
+}
+
+function expandHome(pattern: string): string {
+  return pattern.startsWith('~/') ? os.homedir() + pattern.slice(1) : pattern;
+}
@@ -5,6 +5,22 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import * as crypto from 'crypto';
+import { readJsonlLines, walkStringLeaves } from '../utils/jsonl';
+import { projectMatchesPatterns } from '../utils/patterns';
+import { shannonEntropy, detectCharset } from '../utils/entropy';
+import { luhnCheck } from '../utils/checksums';
+import {
+  SecretRules,
+  SecretAllowlist,
+  EntropySettings,
+  DEFAULT_ENTROPY_SETTINGS,
+  loadSecretRules,
+  hashSecretValue
+} from './secret-rules';
+import { SecretScanIndex, SecretScanIndexStats } from './secret-scan-index';
+import { findClaudeFiles, ClaudeFile } from './claude-files';
+import type { SecretVerification } from './secret-verifiers';
 
 export interface SecretPattern {
   name: string;
@@ -16,12 +32,15 @@ export interface SecretPattern {
 
 export interface DetectedSecret {
   type: string;
-  value: string;
+  value: string;        // Empty when reused from the scan index (see CacheScanOptions.withValues)
   maskedValue: string;
   location: string;
   confidence: 'high' | 'medium' | 'low';
   category: string;
   context: string;
+  lineNumber?: number;  // 1-based line within a .jsonl session file
+  jsonPath?: string;    // Path to the string leaf, e.g. "message.content[2].text"
+  verification?: SecretVerification;  // Set by SecretVerifierRegistry when verification is requested
 }
 
 export interface SecretScanResult {
@@ -31,17 +50,26 @@ export interface SecretScanResult {
   categoryCounts: Record<string, number>;
 }
 
+export interface SecretDetectorOptions {
+  rules?: SecretRules;   // Defaults to ~/.cch/secret-patterns.json
+  testMode?: boolean;
+}
+
 export interface CacheScanOptions {
   progressCallback?: (progress: ScanProgress) => void;
+  full?: boolean;  // Ignore the scan index and rescan every file
+  withValues?: boolean;  // Rescan files with findings so every secret carries its value (masking, verification)
 }
 
 export interface CacheSecretResult {
   location: string;
-  type: 'session' | 'shell-snapshot' | 'debug-log' | 'file-history';
+  type: 'session' | 'shell-snapshot' | 'debug-log' | 'file-history' | 'project-file';
   secrets: DetectedSecret[];
-  lineNumber?: number;
+  lineNumber?: number;  // First line containing a secret
 }
 
+export type SecretLocationType = 'config' | CacheSecretResult['type'];
+
 export interface CacheSecretScanResult {
   totalSecrets: number;
   highConfidenceCount: number;
@@ -51,8 +79,10 @@ export interface CacheSecretScanResult {
     shellSnapshots: number;
     debugLogs: number;
     fileHistory: number;
+    projectFiles: number;  // Settings, .mcp.json and CLAUDE.md files
   };
   summary: string;
+  indexStats: SecretScanIndexStats;  // Files reused from the index (hits) vs rescanned (misses)
 }
 
 export interface ScanProgress {
@@ -62,6 +92,15 @@ export interface ScanProgress {
   percentage: number;
 }
 
+// Longer runs are usually embedded blobs (images, minified bundles), not credentials
+const MAX_ENTROPY_CANDIDATE_LENGTH = 256;
+
+// Git commit SHAs are everywhere in sessions and clear the hex threshold
+const GIT_SHA = /^[0-9a-f]{40}$/;
+
+// Tokens introduced like this are content hashes, not secrets
+const HASH_CONTEXT = /(sha\d*|md5|commit|integrity|hash|digest|checksum|etag)["'\s:=-]*$/i;
+
 export class SecretDetector {
   private patterns: SecretPattern[] = [
     // API Keys - High confidence patterns
@@ -226,17 +265,84 @@ export class SecretDetector {
     }
   ];
 
+  private allowlist: SecretAllowlist = { values: [], paths: [], hashes: [] };
+  private entropy: EntropySettings = DEFAULT_ENTROPY_SETTINGS;
+  private testMode: boolean;
+
+  constructor(options: SecretDetectorOptions = {}) {
+    this.testMode = options.testMode ?? false;
+    this.applyRules(options.rules ?? loadSecretRules(options.testMode).rules);
+  }
+
+  /**
+   * Apply user-defined rules: custom patterns replace built-ins with the same name,
+   * disabled built-ins are dropped, and the allowlist filters every match
+   */
+  private applyRules(rules: SecretRules): void {
+    const customNames = new Set(rules.patterns.map(p => p.name));
+    const disabled = new Set(rules.disabled);
+
+    this.patterns = this.patterns
+      .filter(p => !customNames.has(p.name) && !disabled.has(p.name))
+      .concat(rules.patterns.filter(p => !disabled.has(p.name)));
+
+    this.allowlist = {
+      values: [...rules.allowlist.values],
+      paths: rules.allowlist.paths.map(p => p.replace(/^~(?=\/|$)/, os.homedir())),
+      hashes: [...rules.allowlist.hashes]
+    };
+
+    this.entropy = rules.entropy;
+  }
+
+  /**
+   * Active patterns after user rules have been applied
+   */
+  getPatterns(): SecretPattern[] {
+    return [...this.patterns];
+  }
+
+  /**
+   * Digest of everything that affects findings, so indexed results are dropped when rules change
+   */
+  getRulesFingerprint(): string {
+    const rules = {
+      patterns: this.patterns.map(p => [p.name, p.pattern.source, p.pattern.flags, p.confidence, p.category]),
+      allowlist: this.allowlist,
+      entropy: this.entropy
+    };
+    return crypto.createHash('sha256').update(JSON.stringify(rules)).digest('hex');
+  }
+
+  /**
+   * Check whether a location (file path or label) is covered by allowlist.paths
+   */
+  isPathAllowlisted(location: string): boolean {
+    return this.allowlist.paths.length > 0 && projectMatchesPatterns(location, this.allowlist.paths);
+  }
+
+  private isAllowlisted(value: string, location?: string): boolean {
+    if (this.allowlist.values.some(allowed => value.includes(allowed))) {
+      return true;
+    }
+    if (this.allowlist.hashes.length > 0 && this.allowlist.hashes.includes(hashSecretValue(value))) {
+      return true;
+    }
+    return location !== undefined && this.isPathAllowlisted(location);
+  }
+
   /**
    * Scan text content for secrets
+   * locationType decides whether the entropy pass runs (see entropy.disabledLocations)
    */
-  scanText(text: string, location: string = 'unknown'): DetectedSecret[] {
+  scanText(text: string, location: string = 'unknown', locationType?: SecretLocationType): DetectedSecret[] {
     const secrets: DetectedSecret[] = [];
     
     for (const pattern of this.patterns) {
       const matches = text.matchAll(pattern.pattern);
       
       for (const match of matches) {
-        if (match[0] && this.isValidSecret(match[0], pattern)) {
+        if (match[0] && this.isValidSecret(match[0], pattern) && !this.isAllowlisted(match[0], location)) {
           const context = this.extractContext(text, match.index || 0);
           
           secrets.push({
@@ -251,10 +357,60 @@ export class SecretDetector {
         }
       }
     }
+
+    if (this.isEntropyEnabled(locationType)) {
+      secrets.push(...this.scanEntropy(text, location, secrets));
+    }
     
     return this.deduplicateSecrets(secrets);
   }
 
+  private isEntropyEnabled(locationType?: SecretLocationType): boolean {
+    return this.entropy.enabled &&
+      (locationType === undefined || !this.entropy.disabledLocations.includes(locationType));
+  }
+
+  /**
+   * Flag random-looking tokens that no pattern recognises
+   * Candidates already matched by a pattern, UUIDs, git SHAs, paths and labelled hashes are skipped
+   */
+  private scanEntropy(text: string, location: string, patternHits: DetectedSecret[]): DetectedSecret[] {
+    const secrets: DetectedSecret[] = [];
+    const candidates = text.matchAll(/[A-Za-z0-9+\/_=-]{16,}/g);
+
+    for (const match of candidates) {
+      const value = match[0];
+      const index = match.index || 0;
+      const charset = detectCharset(value);
+      if (!charset || value.length > MAX_ENTROPY_CANDIDATE_LENGTH) continue;
+
+      const settings = this.entropy[charset];
+      if (value.length < settings.minLength || shannonEntropy(value) < settings.threshold) continue;
+
+      // base64 needs a mix of character classes; long lowercase words joined by dashes are not secrets
+      if (charset === 'base64' && !(/[a-z]/.test(value) && /[A-Z]/.test(value) && /[0-9]/.test(value))) continue;
+
+      if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) continue;
+      if (GIT_SHA.test(value)) continue;
+      if (value.includes('/') && /^\/|\/\w+\//.test(value)) continue;
+      if (HASH_CONTEXT.test(text.substring(Math.max(0, index - 24), index))) continue;
+      if (patternHits.some(hit => hit.value.includes(value) || value.includes(hit.value))) continue;
+      if (!this.isValidSecret(value) || this.isAllowlisted(value, location)) continue;
+
+      secrets.push({
+        type: charset === 'hex' ? 'High Entropy Hex String' : 'High Entropy Base64 String',
+        value,
+        maskedValue: this.maskSecret(value),
+        location,
+        confidence: 'medium',
+        category: 'entropy',
+        context: this.extractContext(text, index)
+      });
+    }
+
+    return secrets;
+  }
+
   /**
    * Scan entire Claude config for secrets
    */
@@ -267,14 +423,14 @@ export class SecretDetector {
         if (project) {
           // Scan project configuration
           const projectConfigText = JSON.stringify(project, null, 2);
-          const projectSecrets = this.scanText(projectConfigText, `Project: ${projectPath}`);
+          const projectSecrets = this.scanText(projectConfigText, `Project: ${projectPath}`, 'config');
           allSecrets.push(...projectSecrets);
           
           // Scan conversation history
           if (project.history) {
             project.history.forEach((entry: any, index: number) => {
               const entryText = JSON.stringify(entry, null, 2);
-              const entrySecrets = this.scanText(entryText, `${projectPath} - History Entry ${index + 1}`);
+              const entrySecrets = this.scanText(entryText, `${projectPath} - History Entry ${index + 1}`, 'config');
               allSecrets.push(...entrySecrets);
               
               // Scan pasted content specifically
@@ -283,7 +439,8 @@ export class SecretDetector {
                   if (paste && paste.content) {
                     const pasteSecrets = this.scanText(
                       paste.content, 
-                      `${projectPath} - Pasted Content (${pasteId})`
+                      `${projectPath} - Pasted Content (${pasteId})`,
+                      'config'
                     );
                     allSecrets.push(...pasteSecrets);
                   }
@@ -297,12 +454,30 @@ export class SecretDetector {
     
     // Scan global configuration
     const globalConfigText = JSON.stringify(config, null, 2);
-    const globalSecrets = this.scanText(globalConfigText, 'Global Configuration');
+    const globalSecrets = this.scanText(globalConfigText, 'Global Configuration', 'config');
     allSecrets.push(...globalSecrets);
     
     return this.summarizeResults(allSecrets);
   }
 
+  /**
+   * Scan the Claude config file, reusing indexed findings while it is unchanged
+   * Runs on every CLI command, so it keeps its own small index
+   */
+  async scanConfigFile(configPath: string): Promise<SecretScanResult> {
+    const index = SecretScanIndex.load(this.getRulesFingerprint(), 'config', this.testMode);
+    const stats = await fs.promises.stat(configPath);
+
+    const findings = await this.scanIndexed(index, configPath, 'config', stats, false, async () => {
+      const config = JSON.parse(await fs.promises.readFile(configPath, 'utf8'));
+      return this.scanConfig(config).secrets;
+    });
+
+    index.prune(['config']);
+    await index.save();
+    return this.summarizeResults(findings);
+  }
+
   /**
    * Mask secrets in configuration
    */
@@ -365,9 +540,9 @@ export class SecretDetector {
     return lines.join('\n');
   }
 
-  private isValidSecret(value: string, pattern: SecretPattern): boolean {
+  private isValidSecret(value: string, pattern?: SecretPattern): boolean {
     // Special validation for credit cards
-    if (pattern.name === 'Credit Card') {
+    if (pattern?.name === 'Credit Card') {
       return this.isValidCreditCard(value);
     }
     
@@ -397,26 +572,8 @@ export class SecretDetector {
       return false;
     }
     
-    // Apply Luhn algorithm
-    let sum = 0;
-    let isEven = false;
-    
-    for (let i = digits.length - 1; i >= 0; i--) {
-      let digit = parseInt(digits[i], 10);
-      
-      if (isEven) {
-        digit *= 2;
-        if (digit > 9) {
-          digit -= 9;
-        }
-      }
-      
-      sum += digit;
-      isEven = !isEven;
-    }
-    
     // Must pass Luhn check
-    if (sum % 10 !== 0) {
+    if (!luhnCheck(digits)) {
       return false;
     }
     
@@ -447,7 +604,7 @@ export class SecretDetector {
       .trim();
   }
 
-  private maskSecret(value: string, pattern: SecretPattern): string {
+  private maskSecret(value: string, pattern?: SecretPattern): string {
     if (value.length <= 8) {
       return '*'.repeat(value.length);
     }
@@ -468,7 +625,7 @@ export class SecretDetector {
       const matches = maskedText.matchAll(pattern.pattern);
       
       for (const match of matches) {
-        if (match[0] && this.isValidSecret(match[0], pattern)) {
+        if (match[0] && this.isValidSecret(match[0], pattern) && !this.isAllowlisted(match[0])) {
           const masked = this.maskSecret(match[0], pattern);
           maskedText = maskedText.replace(match[0], masked);
           count++;
@@ -517,7 +674,8 @@ export class SecretDetector {
       'password': '🔒',
       'credential': '🔐',
       'personal': '👤',
-      'crypto': '🔑'
+      'crypto': '🔑',
+      'entropy': '🎲'
     };
     return emojis[category] || '🔍';
   }
@@ -534,30 +692,71 @@ export class SecretDetector {
    */
   async scanCache(options: CacheScanOptions = {}): Promise<CacheSecretScanResult> {
     const results: CacheSecretResult[] = [];
+    const index = SecretScanIndex.load(this.getRulesFingerprint(), 'cache', this.testMode);
+    if (options.full) {
+      index.clear();
+    }
 
     // 1. Scan session .jsonl files
-    const sessionResults = await this.scanSessionFiles(options.progressCallback);
+    const withValues = options.withValues ?? false;
+    const sessionResults = await this.scanSessionFiles(index, withValues, options.progressCallback);
     results.push(...sessionResults);
 
     // 2. Scan shell snapshots (command history)
-    const shellResults = await this.scanShellSnapshots(options.progressCallback);
+    const shellResults = await this.scanShellSnapshots(index, withValues, options.progressCallback);
     results.push(...shellResults);
 
     // 3. Scan debug logs
-    const debugResults = await this.scanDebugLogs(options.progressCallback);
+    const debugResults = await this.scanDebugLogs(index, withValues, options.progressCallback);
     results.push(...debugResults);
 
     // 4. Scan file history
-    const fileHistoryResults = await this.scanFileHistory(options.progressCallback);
+    const fileHistoryResults = await this.scanFileHistory(index, withValues, options.progressCallback);
     results.push(...fileHistoryResults);
 
-    return this.summarizeCacheResults(results);
+    // 5. Scan project-level settings, .mcp.json and CLAUDE.md files
+    const projectFileResults = await this.scanProjectFiles(index, withValues, options.progressCallback);
+    results.push(...projectFileResults);
+
+    index.prune(['session', 'shell-snapshot', 'debug-log', 'file-history', 'project-file']);
+    await index.save();
+
+    return this.summarizeCacheResults(
+      results.filter(r => !this.isPathAllowlisted(r.location)),
+      index.getStats()
+    );
+  }
+
+  /**
+   * Return indexed findings for an unchanged file, otherwise scan it and record the result
+   * The index keeps no secret values, so `withValues` rescans files that have findings
+   */
+  private async scanIndexed(
+    index: SecretScanIndex,
+    filePath: string,
+    type: SecretLocationType,
+    stats: fs.Stats,
+    withValues: boolean,
+    scan: () => Promise<DetectedSecret[]>
+  ): Promise<DetectedSecret[]> {
+    const cached = await index.lookup(filePath, stats, withValues);
+    if (cached) {
+      return cached.map(({ fingerprint, ...finding }) => ({ ...finding, value: '', context: '' }));
+    }
+
+    const findings = await scan();
+    await index.record(filePath, type, stats, findings);
+    return findings;
   }
 
   /**
    * Scan session .jsonl files for secrets
    */
-  private async scanSessionFiles(progressCallback?: (progress: ScanProgress) => void): Promise<CacheSecretResult[]> {
+  private async scanSessionFiles(
+    index: SecretScanIndex,
+    withValues: boolean,
+    progressCallback?: (progress: ScanProgress) => void
+  ): Promise<CacheSecretResult[]> {
     const projectsDir = path.join(os.homedir(), '.claude/projects');
 
     if (!fs.existsSync(projectsDir)) {
@@ -605,16 +804,17 @@ export class SecretDetector {
             // Skip tiny files
             if (stats.size < 100) return null;
 
-            const content = await fs.promises.readFile(filePath, 'utf-8');
-
-            // Scan entire file content at once instead of line-by-line
-            const secrets = this.scanText(content, `${projectName}/${sessionFile}`);
+            const secrets = await this.scanIndexed(index, filePath, 'session', stats, withValues, async () => {
+              const result = await this.scanSessionFile(filePath, `${projectName}/${sessionFile}`);
+              return result ? result.secrets : [];
+            });
 
             if (secrets.length > 0) {
               return {
                 location: filePath,
                 type: 'session' as const,
-                secrets
+                secrets,
+                lineNumber: secrets[0].lineNumber
               };
             }
           } catch (error) {
@@ -650,10 +850,88 @@ export class SecretDetector {
     return results;
   }
 
+  /**
+   * Secrets in the given session files, reusing the cache scan index for unchanged ones
+   */
+  async scanSessionFilesIndexed(filePaths: string[]): Promise<Map<string, DetectedSecret[]>> {
+    const index = SecretScanIndex.load(this.getRulesFingerprint(), 'cache', this.testMode);
+    const results = new Map<string, DetectedSecret[]>();
+
+    for (const filePath of filePaths) {
+      if (this.isPathAllowlisted(filePath)) {
+        results.set(filePath, []);
+        continue;
+      }
+      try {
+        const stats = await fs.promises.stat(filePath);
+        const location = `${path.basename(path.dirname(filePath))}/${path.basename(filePath)}`;
+        results.set(filePath, await this.scanIndexed(index, filePath, 'session', stats, false, async () => {
+          const result = await this.scanSessionFile(filePath, location);
+          return result ? result.secrets : [];
+        }));
+      } catch (error) {
+        // Skip files that vanished or can't be read
+        continue;
+      }
+    }
+
+    await index.save();
+    return results;
+  }
+
+  /**
+   * Stream a .jsonl session file line by line, scanning each string leaf
+   * so every hit carries its line number and JSON path
+   */
+  async scanSessionFile(filePath: string, location: string = filePath): Promise<CacheSecretResult | null> {
+    if (this.isPathAllowlisted(filePath)) {
+      return null;
+    }
+
+    const secrets: DetectedSecret[] = [];
+    const seen = new Set<string>();
+
+    const collect = (found: DetectedSecret[], lineNumber: number, jsonPath?: string) => {
+      for (const secret of found) {
+        const key = `${secret.type}:${secret.value}:${lineNumber}:${jsonPath || ''}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        secrets.push({ ...secret, lineNumber, jsonPath });
+      }
+    };
+
+    for await (const line of readJsonlLines(filePath)) {
+      if (line.value === undefined) {
+        // Not valid JSON - scan the raw line so nothing slips through
+        collect(this.scanText(line.raw, location, 'session'), line.lineNumber);
+        continue;
+      }
+
+      walkStringLeaves(line.value, (text, jsonPath) => {
+        collect(this.scanText(text, location, 'session'), line.lineNumber, jsonPath);
+      });
+    }
+
+    if (secrets.length === 0) {
+      return null;
+    }
+
+    return {
+      location: filePath,
+      type: 'session',
+      secrets,
+      lineNumber: secrets[0].lineNumber
+    };
+  }
+
   /**
    * Scan shell snapshots for secrets in command history
    */
-  private async scanShellSnapshots(progressCallback?: (progress: ScanProgress) => void): Promise<CacheSecretResult[]> {
+  private async scanShellSnapshots(
+    index: SecretScanIndex,
+    withValues: boolean,
+    progressCallback?: (progress: ScanProgress) => void
+  ): Promise<CacheSecretResult[]> {
     const snapshotsDir = path.join(os.homedir(), '.claude/shell-snapshots');
 
     if (!fs.existsSync(snapshotsDir)) {
@@ -678,8 +956,10 @@ export class SecretDetector {
             const stats = await fs.promises.stat(filePath);
             if (!stats.isFile() || stats.size < 100) return null;
 
-            const content = await fs.promises.readFile(filePath, 'utf-8');
-            const secrets = this.scanText(content, `shell-snapshots/${file}`);
+            const secrets = await this.scanIndexed(index, filePath, 'shell-snapshot', stats, withValues, async () => {
+              const content = await fs.promises.readFile(filePath, 'utf-8');
+              return this.scanText(content, `shell-snapshots/${file}`, 'shell-snapshot');
+            });
 
             if (secrets.length > 0) {
               return {
@@ -724,7 +1004,11 @@ export class SecretDetector {
   /**
    * Scan debug logs for secrets
    */
-  private async scanDebugLogs(progressCallback?: (progress: ScanProgress) => void): Promise<CacheSecretResult[]> {
+  private async scanDebugLogs(
+    index: SecretScanIndex,
+    withValues: boolean,
+    progressCallback?: (progress: ScanProgress) => void
+  ): Promise<CacheSecretResult[]> {
     const debugDir = path.join(os.homedir(), '.claude/debug');
 
     if (!fs.existsSync(debugDir)) {
@@ -764,8 +1048,10 @@ export class SecretDetector {
       const chunkResults = await Promise.all(
         chunk.map(async (file) => {
           try {
-            const content = await fs.promises.readFile(file.path, 'utf-8');
-            const secrets = this.scanText(content, `debug/${file.name}`);
+            const secrets = await this.scanIndexed(index, file.path, 'debug-log', file.stats, withValues, async () => {
+              const content = await fs.promises.readFile(file.path, 'utf-8');
+              return this.scanText(content, `debug/${file.name}`, 'debug-log');
+            });
 
             if (secrets.length > 0) {
               return {
@@ -810,7 +1096,11 @@ export class SecretDetector {
   /**
    * Scan file history for secrets
    */
-  private async scanFileHistory(progressCallback?: (progress: ScanProgress) => void): Promise<CacheSecretResult[]> {
+  private async scanFileHistory(
+    index: SecretScanIndex,
+    withValues: boolean,
+    progressCallback?: (progress: ScanProgress) => void
+  ): Promise<CacheSecretResult[]> {
     const historyDir = path.join(os.homedir(), '.claude/file-history');
 
     if (!fs.existsSync(historyDir)) {
@@ -835,8 +1125,10 @@ export class SecretDetector {
             const stats = await fs.promises.stat(filePath);
             if (!stats.isFile() || stats.size < 100) return null;
 
-            const content = await fs.promises.readFile(filePath, 'utf-8');
-            const secrets = this.scanText(content, `file-history/${file}`);
+            const secrets = await this.scanIndexed(index, filePath, 'file-history', stats, withValues, async () => {
+              const content = await fs.promises.readFile(filePath, 'utf-8');
+              return this.scanText(content, `file-history/${file}`, 'file-history');
+            });
 
             if (secrets.length > 0) {
               return {
@@ -878,17 +1170,134 @@ export class SecretDetector {
     return results;
   }
 
+  /**
+   * Scan Claude settings, .mcp.json and CLAUDE.md files in ~/.claude and every known project
+   */
+  private async scanProjectFiles(
+    index: SecretScanIndex,
+    withValues: boolean,
+    progressCallback?: (progress: ScanProgress) => void
+  ): Promise<CacheSecretResult[]> {
+    const files = await findClaudeFiles({ testMode: this.testMode });
+    const results: CacheSecretResult[] = [];
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      try {
+        const stats = await fs.promises.stat(file.path);
+        const secrets = await this.scanIndexed(index, file.path, 'project-file', stats, withValues, () => this.scanProjectFile(file));
+
+        if (secrets.length > 0) {
+          results.push({
+            location: file.path,
+            type: 'project-file',
+            secrets,
+            lineNumber: secrets[0].lineNumber
+          });
+        }
+      } catch (error) {
+        // Skip unreadable files
+      }
+
+      progressCallback?.({
+        stage: 'Project Files',
+        current: i + 1,
+        total: files.length,
+        percentage: Math.round(((i + 1) / files.length) * 100)
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Scan one project-level Claude file
+   * JSON files are scanned per string leaf with the key in front of the value, so
+   * `"env": { "DB_PASSWORD": "..." }` matches the same rules as `DB_PASSWORD=...`;
+   * every hit carries its line number and key path
+   */
+  async scanProjectFile(file: ClaudeFile): Promise<DetectedSecret[]> {
+    if (this.isPathAllowlisted(file.path)) {
+      return [];
+    }
+
+    const content = await fs.promises.readFile(file.path, 'utf-8');
+    const secrets: DetectedSecret[] = [];
+    const seen = new Set<string>();
+    const collect = (found: DetectedSecret[], lineNumber?: number, jsonPath?: string) => {
+      for (const secret of found) {
+        const key = `${secret.type}:${secret.value}:${lineNumber}:${jsonPath || ''}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        secrets.push({ ...secret, lineNumber, jsonPath });
+      }
+    };
+
+    let parsed: any;
+    if (file.kind !== 'memory') {
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        parsed = undefined;
+      }
+    }
+
+    if (parsed === undefined) {
+      content.split('\n').forEach((line, i) => {
+        collect(this.scanText(line, file.path, 'project-file'), i + 1);
+      });
+      return secrets;
+    }
+
+    let searchFrom = 0;
+    walkStringLeaves(parsed, (text, jsonPath) => {
+      // Leaves are visited in document order, so search forward for the encoded value
+      const offset = content.indexOf(JSON.stringify(text).slice(1, -1), searchFrom);
+      if (offset !== -1) searchFrom = offset;
+      const lineNumber = offset === -1 ? undefined : content.slice(0, offset).split('\n').length;
+
+      const key = lastJsonPathKey(jsonPath);
+      const prefix = key ? `${key}=` : '';
+      const found = this.scanText(prefix + text, file.path, 'project-file')
+        .map(secret => this.trimToValue(secret, prefix, text))
+        .filter((secret): secret is DetectedSecret => secret !== null);
+      collect(found, lineNumber, jsonPath);
+    });
+
+    return secrets;
+  }
+
+  /**
+   * Cut a hit that started in a prepended key down to the part inside the value,
+   * so masking only touches the value; hits entirely inside the key are dropped
+   */
+  private trimToValue(secret: DetectedSecret, prefix: string, text: string): DetectedSecret | null {
+    if (text.includes(secret.value)) {
+      return secret;
+    }
+
+    for (let i = 1; i < secret.value.length; i++) {
+      const value = secret.value.slice(i);
+      if (prefix.endsWith(secret.value.slice(0, i)) && text.startsWith(value)) {
+        const pattern = this.patterns.find(p => p.name === secret.type);
+        return { ...secret, value, maskedValue: this.maskSecret(value, pattern) };
+      }
+    }
+    return null;
+  }
+
   /**
    * Summarize cache scan results
    */
-  private summarizeCacheResults(results: CacheSecretResult[]): CacheSecretScanResult {
+  private summarizeCacheResults(results: CacheSecretResult[], indexStats: SecretScanIndexStats): CacheSecretScanResult {
     let totalSecrets = 0;
     let highConfidenceCount = 0;
     const locationBreakdown = {
       sessions: 0,
       shellSnapshots: 0,
       debugLogs: 0,
-      fileHistory: 0
+      fileHistory: 0,
+      projectFiles: 0
     };
 
     for (const result of results) {
@@ -913,6 +1322,9 @@ export class SecretDetector {
         case 'file-history':
           locationBreakdown.fileHistory += result.secrets.length;
           break;
+        case 'project-file':
+          locationBreakdown.projectFiles += result.secrets.length;
+          break;
       }
     }
 
@@ -925,7 +1337,17 @@ export class SecretDetector {
       highConfidenceCount,
       results,
       locationBreakdown,
-      summary
+      summary,
+      indexStats
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The object key a JSON path ends in, e.g. "GITHUB_TOKEN" for "mcpServers.github.env.GITHUB_TOKEN"
+ */
+function lastJsonPathKey(jsonPath: string): string | undefined {
+  const match = jsonPath.match(/(?:^|\.)([A-Za-z_$][A-Za-z0-9_$]*)$|\[("(?:[^"\\]|\\.)*")\]$/);
+  if (!match) return undefined;
+  return match[1] ?? JSON.parse(match[2]);
+}
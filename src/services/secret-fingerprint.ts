@@ -0,0 +1,42 @@
+/**
+ * Keyed secret fingerprints
+ * A plain hash of a short secret (a PIN, phone or card number) can be brute-forced,
+ * so fingerprints are HMACs under a random per-install key in ~/.cch/fingerprint.key.
+ * They match across runs on the same machine and mean nothing anywhere else.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { getFingerprintKeyPath } from '../core/paths';
+
+const keys = new Map<string, Buffer>();
+
+/**
+ * HMAC-SHA256 of a secret's type and value, truncated to 32 hex characters
+ */
+export function secretFingerprint(type: string, value: string, testMode: boolean = false): string {
+  return crypto.createHmac('sha256', fingerprintKey(testMode)).update(`${type}:${value}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * The install's fingerprint key, created owner-only on first use
+ */
+function fingerprintKey(testMode: boolean): Buffer {
+  const keyPath = getFingerprintKeyPath(testMode);
+  const cached = keys.get(keyPath);
+  if (cached) return cached;
+
+  let key: Buffer;
+  try {
+    key = Buffer.from(fs.readFileSync(keyPath, 'utf8').trim(), 'hex');
+    if (key.length < 32) throw new Error('Fingerprint key too short');
+  } catch {
+    key = crypto.randomBytes(32);
+    fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+    fs.writeFileSync(keyPath, key.toString('hex'), { mode: 0o600 });
+  }
+
+  keys.set(keyPath, key);
+  return key;
+}
@@ -0,0 +1,209 @@
+/**
+ * Structure-preserving secret masking for Claude Code cache files
+ * Session .jsonl files are masked per string leaf, so a secret that spans escape
+ * sequences in the raw line is still found and the line stays valid JSON.
+ * Other files are masked in their raw text, so JSON documents keep their formatting.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { readJsonlLines } from '../utils/jsonl';
+import type { CacheSecretResult, DetectedSecret } from './secret-detector';
+
+export interface MaskFileResult {
+  filePath: string;
+  replacements: number;
+}
+
+export class SecretMasker {
+  private replacements: Array<[string, string]>;
+
+  /**
+   * @param secrets Findings to mask - each value is replaced by its maskedValue
+   */
+  constructor(secrets: DetectedSecret[]) {
+    const byValue = new Map<string, string>();
+    for (const secret of secrets) {
+      byValue.set(secret.value, secret.maskedValue);
+    }
+    // Longest first so a secret containing another is masked whole
+    this.replacements = [...byValue.entries()].sort((a, b) => b[0].length - a[0].length);
+  }
+
+  /**
+   * Mask a cache file in place
+   * The masked copy is written next to the original, validated, then renamed over it,
+   * so an interrupted or invalid run never leaves a half-written file behind
+   */
+  async maskFile(filePath: string, type: CacheSecretResult['type']): Promise<MaskFileResult> {
+    const tempPath = `${filePath}.cch-mask-${process.pid}.tmp`;
+    const before = await fs.promises.stat(filePath);
+
+    try {
+      const replacements = type === 'session'
+        ? await this.writeMaskedJsonl(filePath, tempPath)
+        : await this.writeMaskedText(filePath, tempPath);
+
+      if (replacements > 0) {
+        // A live session may have been appended to while we were reading it
+        const after = await fs.promises.stat(filePath);
+        if (after.size !== before.size || after.mtimeMs !== before.mtimeMs) {
+          throw new Error('File changed while masking - file left unchanged, try again');
+        }
+
+        await fs.promises.chmod(tempPath, before.mode);
+        await fs.promises.rename(tempPath, filePath);
+      } else {
+        await fs.promises.unlink(tempPath);
+      }
+
+      return { filePath, replacements };
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Mask every occurrence of the known secret values in a string
+   * With `jsonEscaped`, values are matched as they appear inside JSON string literals
+   */
+  maskString(text: string, jsonEscaped: boolean = false): { text: string; count: number } {
+    let count = 0;
+    for (const [rawValue, rawMasked] of this.replacements) {
+      const value = jsonEscaped ? escapeJsonString(rawValue) : rawValue;
+      if (!text.includes(value)) continue;
+      const parts = text.split(value);
+      count += parts.length - 1;
+      text = parts.join(jsonEscaped ? escapeJsonString(rawMasked) : rawMasked);
+    }
+    return { text, count };
+  }
+
+  /**
+   * Return a copy of a parsed JSON value with every string leaf (and key) masked
+   */
+  maskValue(value: any): { value: any; count: number } {
+    let count = 0;
+
+    const visit = (node: any): any => {
+      if (typeof node === 'string') {
+        const masked = this.maskString(node);
+        count += masked.count;
+        return masked.text;
+      }
+      if (Array.isArray(node)) {
+        return node.map(visit);
+      }
+      if (node && typeof node === 'object') {
+        const result: Record<string, any> = {};
+        for (const [key, child] of Object.entries(node)) {
+          const maskedKey = this.maskString(key);
+          count += maskedKey.count;
+          result[maskedKey.text] = visit(child);
+        }
+        return result;
+      }
+      return node;
+    };
+
+    return { value: visit(value), count };
+  }
+
+  private async writeMaskedJsonl(filePath: string, tempPath: string): Promise<number> {
+    const out = fs.createWriteStream(tempPath, { encoding: 'utf-8' });
+    let replacements = 0;
+    let lastLine = 0;
+
+    try {
+      for await (const line of readJsonlLines(filePath)) {
+        // Keep blank lines where they were
+        while (++lastLine < line.lineNumber) {
+          await write(out, '\n');
+        }
+
+        let output = line.raw;
+        if (line.value === undefined) {
+          // Already invalid - mask the raw text and leave its structure alone
+          const masked = this.maskString(line.raw);
+          replacements += masked.count;
+          output = masked.text;
+        } else {
+          const masked = this.maskValue(line.value);
+          if (masked.count > 0) {
+            replacements += masked.count;
+            output = JSON.stringify(masked.value);
+            assertValidJson(output, `${path.basename(filePath)} line ${line.lineNumber}`);
+          }
+        }
+
+        await write(out, output + '\n');
+      }
+    } finally {
+      await new Promise<void>((resolve, reject) => {
+        out.on('error', reject);
+        out.end(resolve);
+      });
+    }
+
+    return replacements;
+  }
+
+  private async writeMaskedText(filePath: string, tempPath: string): Promise<number> {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      parsed = undefined;
+    }
+
+    if (parsed === undefined) {
+      const { text, count } = this.maskString(content);
+      await fs.promises.writeFile(tempPath, text, 'utf-8');
+      return count;
+    }
+
+    // A JSON document is masked in its raw text too, never re-serialized. The raw
+    // replacements have to account for exactly the secrets its string leaves hold;
+    // otherwise (a value written with \u escapes, say) the file is left alone.
+    const { text, count } = this.maskString(content, true);
+    const expected = this.maskValue(parsed).count;
+    if (count !== expected) {
+      throw new Error(`Masking the raw text of ${path.basename(filePath)} covers ${count} of ${expected} secret(s) - file left unchanged`);
+    }
+    assertValidJson(text, path.basename(filePath));
+
+    await fs.promises.writeFile(tempPath, text, 'utf-8');
+    return count;
+  }
+}
+
+function write(stream: fs.WriteStream, chunk: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write(chunk, error => (error ? reject(error) : resolve()));
+  });
+}
+
+/**
+ * A string as it appears between the quotes of a JSON string literal
+ */
+function escapeJsonString(value: string): string {
+  return JSON.stringify(value).slice(1, -1);
+}
+
+function isValidJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function assertValidJson(text: string, label: string): void {
+  if (!isValidJson(text)) {
+    throw new Error(`Masking would produce invalid JSON in ${label} - file left unchanged`);
+  }
+}
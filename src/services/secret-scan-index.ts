@@ -0,0 +1,189 @@
+/**
+ * Persistent secret-scan index stored in ~/.cch/secret-scan-index/
+ * cache.json covers ~/.claude cache files, config.json covers ~/.claude.json
+ * (kept apart so the per-command config check never parses the large cache index)
+ *
+ * Remembers size, mtime, content hash and findings per scanned file so
+ * repeated scans skip files that are unchanged
+ *
+ * Findings are stored without the secret or its context: type, location, a masked
+ * preview and a keyed fingerprint. Unchanged files are answered from the index; only
+ * callers that need the raw values (masking, verification) read files with findings
+ * again, so the index never becomes another copy of the secrets.
+ * It is still written owner-only (0600).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getSecretScanIndexPath } from '../core/paths';
+import { hashFile } from '../utils/file-hash';
+import { secretFingerprint } from './secret-fingerprint';
+import type { DetectedSecret, SecretLocationType } from './secret-detector';
+
+// Version 1 stored raw values - bumping it makes the next scan rewrite those indexes
+const INDEX_VERSION = 2;
+
+export interface IndexedFinding {
+  type: string;
+  maskedValue: string;
+  location: string;
+  confidence: DetectedSecret['confidence'];
+  category: string;
+  lineNumber?: number;
+  jsonPath?: string;
+  fingerprint: string;  // Keyed hash of type and value (secret-fingerprint)
+}
+
+export interface SecretScanIndexEntry {
+  type: SecretLocationType;
+  size: number;
+  mtimeMs: number;
+  hash: string;         // sha256 of the file contents when it was scanned
+  scannedAt: string;
+  findings: IndexedFinding[];
+}
+
+interface SecretScanIndexFile {
+  version: number;
+  rulesFingerprint: string;  // Entries are discarded whenever patterns, allowlist or entropy settings change
+  entries: Record<string, SecretScanIndexEntry>;
+}
+
+export interface SecretScanIndexStats {
+  hits: number;
+  misses: number;
+}
+
+export class SecretScanIndex {
+  private entries: Record<string, SecretScanIndexEntry> = {};
+  private visited = new Set<string>();
+  private dirty = false;
+  private stats: SecretScanIndexStats = { hits: 0, misses: 0 };
+
+  constructor(private indexPath: string, private rulesFingerprint: string, private testMode: boolean = false) {}
+
+  /**
+   * Load the index for the current rules; a missing, corrupt or outdated index starts empty
+   */
+  static load(rulesFingerprint: string, scope: 'cache' | 'config', testMode: boolean = false): SecretScanIndex {
+    const index = new SecretScanIndex(getSecretScanIndexPath(testMode, scope), rulesFingerprint, testMode);
+
+    try {
+      const data: SecretScanIndexFile = JSON.parse(fs.readFileSync(index.indexPath, 'utf8'));
+      if (data.version === INDEX_VERSION && data.rulesFingerprint === rulesFingerprint && data.entries) {
+        index.entries = data.entries;
+      } else {
+        index.dirty = true;
+      }
+    } catch {
+      // No index yet
+    }
+
+    return index;
+  }
+
+  /**
+   * Return the indexed findings if the file is unchanged, or null if it must be scanned
+   * A size/mtime match is trusted; if only the mtime moved, the content hash decides.
+   * With `withValues`, files with findings are misses too, since only a scan has the values.
+   */
+  async lookup(filePath: string, stats: fs.Stats, withValues: boolean = false): Promise<IndexedFinding[] | null> {
+    this.visited.add(filePath);
+    const entry = this.entries[filePath];
+
+    if (entry && entry.size === stats.size && !(withValues && entry.findings.length > 0)) {
+      if (entry.mtimeMs === stats.mtimeMs) {
+        this.stats.hits++;
+        return entry.findings;
+      }
+
+      if (await hashFile(filePath) === entry.hash) {
+        entry.mtimeMs = stats.mtimeMs;
+        this.dirty = true;
+        this.stats.hits++;
+        return entry.findings;
+      }
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  /**
+   * Record the findings of a fresh scan
+   * `stats` must be taken before scanning so a write during the scan forces a rescan next time
+   */
+  async record(filePath: string, type: SecretLocationType, stats: fs.Stats, findings: DetectedSecret[]): Promise<void> {
+    this.visited.add(filePath);
+    this.entries[filePath] = {
+      type,
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      hash: await hashFile(filePath),
+      scannedAt: new Date().toISOString(),
+      findings: findings.map(finding => this.redact(finding))
+    };
+    this.dirty = true;
+  }
+
+  /**
+   * Drop all entries so every file is rescanned (cch cache scan-secrets --full)
+   */
+  clear(): void {
+    this.entries = {};
+    this.dirty = true;
+  }
+
+  /**
+   * Drop entries of the given types that were not seen during this run
+   * (deleted, cleaned or no longer in scope)
+   */
+  prune(types: SecretLocationType[]): void {
+    for (const [filePath, entry] of Object.entries(this.entries)) {
+      if (types.includes(entry.type) && !this.visited.has(filePath)) {
+        delete this.entries[filePath];
+        this.dirty = true;
+      }
+    }
+  }
+
+  private redact(finding: DetectedSecret): IndexedFinding {
+    return {
+      type: finding.type,
+      maskedValue: finding.maskedValue,
+      location: finding.location,
+      confidence: finding.confidence,
+      category: finding.category,
+      lineNumber: finding.lineNumber,
+      jsonPath: finding.jsonPath,
+      fingerprint: secretFingerprint(finding.type, finding.value, this.testMode)
+    };
+  }
+
+  getStats(): SecretScanIndexStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Write the index if anything changed; failures only cost speed on the next run
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    const data: SecretScanIndexFile = {
+      version: INDEX_VERSION,
+      rulesFingerprint: this.rulesFingerprint,
+      entries: this.entries
+    };
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.indexPath), { recursive: true });
+      const tempPath = `${this.indexPath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(data), { mode: 0o600 });
+      await fs.promises.rename(tempPath, this.indexPath);
+      this.dirty = false;
+    } catch {
+      // Index is a cache - ignore write failures
+    }
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Encrypted local secret store for values moved out of ~/.claude.json
+ *
+ * The vault is a single AES-256-GCM encrypted file under ~/.cch. Its key lives in
+ * the OS keychain (macOS Keychain, or the Secret Service via secret-tool on Linux)
+ * when one is available, otherwise in a 0600 key file next to the vault.
+ * Set CCH_VAULT_BACKEND=file to skip the keychain.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { execFileSync } from 'child_process';
+import { getVaultPath, getVaultKeyPath } from '../core/paths';
+
+export type VaultBackend = 'keychain' | 'file';
+
+export interface VaultKeyStore {
+  backend: VaultBackend;
+  getKey(): Buffer | null;
+  setKey(key: Buffer): void;
+}
+
+export interface VaultEntry {
+  env: Record<string, string>;  // Variable name -> secret value
+  server: string;               // MCP server name the values belong to
+  scope: string;                // 'global' or the project path
+  createdAt: string;
+}
+
+interface VaultFile {
+  version: number;
+  backend: VaultBackend;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const VAULT_VERSION = 1;
+const KEYCHAIN_SERVICE = 'cch-vault';
+const KEYCHAIN_ACCOUNT = 'claude-code-helper';
+
+/**
+ * Key kept in a file readable only by the current user
+ */
+export class FileKeyStore implements VaultKeyStore {
+  readonly backend = 'file' as const;
+
+  constructor(private keyPath: string) {}
+
+  getKey(): Buffer | null {
+    try {
+      return Buffer.from(fs.readFileSync(this.keyPath, 'utf-8').trim(), 'hex');
+    } catch {
+      return null;
+    }
+  }
+
+  setKey(key: Buffer): void {
+    fs.mkdirSync(path.dirname(this.keyPath), { recursive: true });
+    fs.writeFileSync(this.keyPath, key.toString('hex'), { mode: 0o600 });
+  }
+}
+
+/**
+ * Key kept in the macOS Keychain or the freedesktop Secret Service
+ */
+export class KeychainKeyStore implements VaultKeyStore {
+  readonly backend = 'keychain' as const;
+
+  static isAvailable(): boolean {
+    if (process.platform === 'darwin') {
+      return true;
+    }
+    if (process.platform === 'linux' && process.env.DBUS_SESSION_BUS_ADDRESS) {
+      try {
+        execFileSync('which', ['secret-tool'], { stdio: 'ignore' });
+        return true;
+      } catch {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  getKey(): Buffer | null {
+    try {
+      const hex = process.platform === 'darwin'
+        ? execFileSync('security', ['find-generic-password', '-s', KEYCHAIN_SERVICE, '-a', KEYCHAIN_ACCOUNT, '-w'], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] })
+        : execFileSync('secret-tool', ['lookup', 'service', KEYCHAIN_SERVICE, 'account', KEYCHAIN_ACCOUNT], { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] });
+      return hex.trim() ? Buffer.from(hex.trim(), 'hex') : null;
+    } catch {
+      return null;
+    }
+  }
+
+  setKey(key: Buffer): void {
+    const hex = key.toString('hex');
+    if (process.platform === 'darwin') {
+      execFileSync('security', ['add-generic-password', '-U', '-s', KEYCHAIN_SERVICE, '-a', KEYCHAIN_ACCOUNT, '-w', hex], { stdio: 'ignore' });
+    } else {
+      execFileSync('secret-tool', ['store', '--label=Claude Code Helper vault key', 'service', KEYCHAIN_SERVICE, 'account', KEYCHAIN_ACCOUNT], { input: hex, stdio: ['pipe', 'ignore', 'ignore'] });
+    }
+  }
+}
+
+export function createVaultKeyStore(backend: VaultBackend, testMode: boolean = false): VaultKeyStore {
+  return backend === 'keychain' ? new KeychainKeyStore() : new FileKeyStore(getVaultKeyPath(testMode));
+}
+
+/**
+ * Keychain when available, file otherwise; tests always use the file
+ */
+function defaultBackend(testMode: boolean): VaultBackend {
+  if (testMode || process.env.CCH_VAULT_BACKEND === 'file') {
+    return 'file';
+  }
+  return KeychainKeyStore.isAvailable() ? 'keychain' : 'file';
+}
+
+export class SecretVault {
+  private constructor(
+    private vaultPath: string,
+    private keyStore: VaultKeyStore,
+    private entries: Record<string, VaultEntry>
+  ) {}
+
+  /**
+   * Open the vault, creating an empty one (and its key) on first use
+   * An existing vault always uses the backend it was created with
+   */
+  static open(testMode: boolean = false, vaultPath: string = getVaultPath(testMode)): SecretVault {
+    if (!fs.existsSync(vaultPath)) {
+      return new SecretVault(vaultPath, createVaultKeyStore(defaultBackend(testMode), testMode), {});
+    }
+
+    const file: VaultFile = JSON.parse(fs.readFileSync(vaultPath, 'utf-8'));
+    if (file.version !== VAULT_VERSION) {
+      throw new Error(`Unsupported vault version ${file.version} in ${vaultPath}`);
+    }
+
+    const keyStore = createVaultKeyStore(file.backend, testMode);
+    const key = keyStore.getKey();
+    if (!key) {
+      throw new Error(`Vault key not found in ${file.backend === 'keychain' ? 'the system keychain' : getVaultKeyPath(testMode)} - cannot decrypt ${vaultPath}`);
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    let plaintext: string;
+    try {
+      plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new Error(`Vault ${vaultPath} could not be decrypted - wrong key or corrupted file`);
+    }
+
+    return new SecretVault(vaultPath, keyStore, JSON.parse(plaintext).entries);
+  }
+
+  get backend(): VaultBackend {
+    return this.keyStore.backend;
+  }
+
+  get(id: string): VaultEntry | undefined {
+    return this.entries[id];
+  }
+
+  set(id: string, entry: VaultEntry): void {
+    this.entries[id] = entry;
+  }
+
+  delete(id: string): void {
+    delete this.entries[id];
+  }
+
+  list(): Array<[string, VaultEntry]> {
+    return Object.entries(this.entries);
+  }
+
+  /**
+   * Encrypt and write the vault atomically with mode 0600
+   */
+  save(): void {
+    let key = this.keyStore.getKey();
+    if (!key) {
+      key = crypto.randomBytes(32);
+      this.keyStore.setKey(key);
+    }
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify({ entries: this.entries }), 'utf-8'), cipher.final()]);
+
+    const file: VaultFile = {
+      version: VAULT_VERSION,
+      backend: this.keyStore.backend,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    fs.mkdirSync(path.dirname(this.vaultPath), { recursive: true });
+    const tempPath = `${this.vaultPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.renameSync(tempPath, this.vaultPath);
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Secret verification - checks whether a detected credential could still be live
+ *
+ * Verifiers are keyed by SecretPattern.name. Offline verifiers only inspect the
+ * value (format, checksums); network verifiers call the provider and only run
+ * when network verification is explicitly enabled
+ */
+
+import { crc32, toBase62, luhnCheck } from '../utils/checksums';
+import type { DetectedSecret } from './secret-detector';
+
+/**
+ * active   - the provider accepted the credential
+ * revoked  - the provider rejected it (expired, rotated or deleted)
+ * invalid  - fails its format or checksum, so it can never have been live
+ * unknown  - could not be determined (no verifier, offline only, network error)
+ */
+export type VerificationStatus = 'active' | 'revoked' | 'invalid' | 'unknown';
+
+export interface SecretVerification {
+  status: VerificationStatus;
+  verifier: string;
+  reason: string;
+  checkedAt: string;
+}
+
+export interface VerifierContext {
+  baseUrl?: string;   // Overrides the provider endpoint (used by the test stub server)
+  timeoutMs: number;
+}
+
+export interface SecretVerifier {
+  name: string;
+  patterns: string[];  // SecretPattern names this verifier handles
+  network: boolean;
+  verify(secret: DetectedSecret, context: VerifierContext): Promise<Omit<SecretVerification, 'verifier' | 'checkedAt'>>;
+}
+
+export interface VerifyOptions {
+  network?: boolean;                    // Contact providers - off unless explicitly requested
+  endpoints?: Record<string, string>;   // Base URL overrides keyed by verifier name
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export class SecretVerifierRegistry {
+  private verifiers: SecretVerifier[] = [];
+
+  register(verifier: SecretVerifier): this {
+    this.verifiers = this.verifiers.filter(v => v.name !== verifier.name).concat(verifier);
+    return this;
+  }
+
+  getVerifiers(patternName: string): SecretVerifier[] {
+    return this.verifiers.filter(v => v.patterns.includes(patternName));
+  }
+
+  /**
+   * Verify one secret: offline checks first, then the provider if network verification is enabled
+   */
+  async verify(secret: DetectedSecret, options: VerifyOptions = {}): Promise<SecretVerification> {
+    const verifiers = this.getVerifiers(secret.type);
+    const checkedAt = new Date().toISOString();
+    let offline: SecretVerification | undefined;
+
+    for (const verifier of verifiers.filter(v => !v.network)) {
+      const result = await this.run(verifier, secret, options);
+      offline = { ...result, verifier: verifier.name, checkedAt };
+      if (result.status !== 'unknown') {
+        return offline;
+      }
+    }
+
+    const online = verifiers.find(v => v.network);
+    if (online && options.network) {
+      const result = await this.run(online, secret, options);
+      return { ...result, verifier: online.name, checkedAt };
+    }
+
+    if (offline) {
+      return online
+        ? { ...offline, reason: `${offline.reason}; network verification not enabled` }
+        : offline;
+    }
+
+    return {
+      status: 'unknown',
+      verifier: online ? online.name : 'none',
+      reason: online ? 'network verification not enabled' : `no verifier for ${secret.type}`,
+      checkedAt
+    };
+  }
+
+  /**
+   * Verify every secret, annotating each with its result
+   * Identical values are only checked once
+   */
+  async verifyAll(secrets: DetectedSecret[], options: VerifyOptions = {}): Promise<void> {
+    const results = new Map<string, Promise<SecretVerification>>();
+
+    for (const secret of secrets) {
+      const key = `${secret.type}:${secret.value}`;
+      if (!results.has(key)) {
+        results.set(key, this.verify(secret, options));
+      }
+      secret.verification = await results.get(key)!;
+    }
+  }
+
+  private async run(
+    verifier: SecretVerifier,
+    secret: DetectedSecret,
+    options: VerifyOptions
+  ): Promise<Omit<SecretVerification, 'verifier' | 'checkedAt'>> {
+    try {
+      return await verifier.verify(secret, {
+        baseUrl: options.endpoints?.[verifier.name],
+        timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      });
+    } catch (error) {
+      return { status: 'unknown', reason: error instanceof Error ? error.message : 'verification failed' };
+    }
+  }
+}
+
+/**
+ * Registry with the built-in offline and network verifiers
+ */
+export function createDefaultVerifierRegistry(): SecretVerifierRegistry {
+  return new SecretVerifierRegistry()
+    .register(githubChecksumVerifier)
+    .register(awsAccessKeyFormatVerifier)
+    .register(creditCardVerifier)
+    .register(httpStatusVerifier('github-api', ['GitHub Token'], {
+      baseUrl: 'https://api.github.com',
+      path: '/user',
+      headers: token => ({ Authorization: `Bearer ${token}` })
+    }))
+    .register(httpStatusVerifier('anthropic-api', ['Anthropic API Key'], {
+      baseUrl: 'https://api.anthropic.com',
+      path: '/v1/models',
+      headers: key => ({ 'x-api-key': key, 'anthropic-version': '2023-06-01' })
+    }))
+    .register(httpStatusVerifier('openai-api', ['OpenAI API Key'], {
+      baseUrl: 'https://api.openai.com',
+      path: '/v1/models',
+      headers: key => ({ Authorization: `Bearer ${key}` })
+    }))
+    .register(httpStatusVerifier('stripe-api', ['Stripe API Key'], {
+      baseUrl: 'https://api.stripe.com',
+      path: '/v1/balance',
+      headers: key => ({ Authorization: `Bearer ${key}` }),
+      unsupported: key => key.startsWith('pk_') ? 'publishable keys cannot be verified' : undefined
+    }));
+}
+
+/**
+ * GitHub tokens (ghp_, gho_, ghu_, ghs_, ghr_) end in a base62 CRC-32 of their random part
+ */
+export const githubChecksumVerifier: SecretVerifier = {
+  name: 'github-checksum',
+  patterns: ['GitHub Token'],
+  network: false,
+  async verify(secret) {
+    const match = secret.value.match(/^gh[pousr]_([A-Za-z0-9]{30})([A-Za-z0-9]{6})$/);
+    if (!match) {
+      return { status: 'unknown', reason: 'no offline checksum for this token format' };
+    }
+
+    return toBase62(crc32(match[1]), 6) === match[2]
+      ? { status: 'unknown', reason: 'checksum valid' }
+      : { status: 'invalid', reason: 'checksum mismatch - not a real GitHub token' };
+  }
+};
+
+/**
+ * AWS access key IDs are AKIA/ASIA followed by 16 uppercase base32 characters
+ */
+export const awsAccessKeyFormatVerifier: SecretVerifier = {
+  name: 'aws-key-format',
+  patterns: ['AWS Access Key'],
+  network: false,
+  async verify(secret) {
+    return /^(AKIA|ASIA)[A-Z2-7]{16}$/.test(secret.value)
+      ? { status: 'unknown', reason: 'format valid' }
+      : { status: 'invalid', reason: 'not a valid AWS access key ID format' };
+  }
+};
+
+export const creditCardVerifier: SecretVerifier = {
+  name: 'luhn',
+  patterns: ['Credit Card'],
+  network: false,
+  async verify(secret) {
+    return luhnCheck(secret.value.replace(/[\s-]/g, ''))
+      ? { status: 'unknown', reason: 'Luhn checksum valid' }
+      : { status: 'invalid', reason: 'fails Luhn checksum' };
+  }
+};
+
+export interface HttpVerifierRequest {
+  baseUrl: string;
+  path: string;
+  headers: (value: string) => Record<string, string>;
+  unsupported?: (value: string) => string | undefined;  // Reason this value can't be checked, if any
+}
+
+/**
+ * Network verifier for APIs that answer 2xx for a live credential and 401 for a dead one
+ */
+export function httpStatusVerifier(name: string, patterns: string[], request: HttpVerifierRequest): SecretVerifier {
+  return {
+    name,
+    patterns,
+    network: true,
+    async verify(secret, context) {
+      const unsupported = request.unsupported?.(secret.value);
+      if (unsupported) {
+        return { status: 'unknown', reason: unsupported };
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), context.timeoutMs);
+
+      try {
+        const response = await fetch(`${context.baseUrl ?? request.baseUrl}${request.path}`, {
+          method: 'GET',
+          headers: { 'User-Agent': 'claude-code-helper', ...request.headers(secret.value) },
+          signal: controller.signal
+        });
+
+        if (response.ok) {
+          return { status: 'active', reason: `${request.path} returned ${response.status}` };
+        }
+        if (response.status === 401) {
+          return { status: 'revoked', reason: `${request.path} returned 401` };
+        }
+        // 403/429 mean the credential was recognised but refused - not proof either way
+        return { status: 'unknown', reason: `unexpected response ${response.status}` };
+      } catch (error) {
+        const reason = controller.signal.aborted
+          ? `timed out after ${context.timeoutMs}ms`
+          : error instanceof Error ? error.message : 'request failed';
+        return { status: 'unknown', reason };
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+}
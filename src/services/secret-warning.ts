@@ -4,8 +4,8 @@
  */
 
 import chalk from 'chalk';
-import { SecretDetector, DetectedSecret } from './secret-detector';
-import { loadClaudeConfig, ClaudeConfig } from '../core/config';
+import { SecretDetector, DetectedSecret, SecretScanResult } from './secret-detector';
+import { getConfigPath } from '../core/paths';
 
 export interface SecretWarning {
   totalSecrets: number;
@@ -15,7 +15,19 @@ export interface SecretWarning {
 }
 
 export class SecretWarningService {
-  private secretDetector = new SecretDetector();
+  private detectors = new Map<boolean, SecretDetector>();
+
+  /**
+   * Scan the Claude config; unchanged configs are answered from the scan index
+   */
+  private async scanConfig(testMode: boolean): Promise<SecretScanResult> {
+    let detector = this.detectors.get(testMode);
+    if (!detector) {
+      detector = new SecretDetector({ testMode });
+      this.detectors.set(testMode, detector);
+    }
+    return detector.scanConfigFile(getConfigPath(testMode));
+  }
 
   /**
    * Check for secrets and display warnings if found
@@ -23,9 +35,8 @@ export class SecretWarningService {
    */
   async checkAndWarnSecrets(testMode: boolean = false): Promise<SecretWarning | null> {
     try {
-      // Quick config load and scan
-      const config = await loadClaudeConfig(testMode) as ClaudeConfig;
-      const scanResult = this.secretDetector.scanConfig(config);
+      // Quick config scan
+      const scanResult = await this.scanConfig(testMode);
       
       if (scanResult.totalCount === 0) {
         return null; // No secrets found
@@ -124,8 +135,7 @@ export class SecretWarningService {
    */
   async hasSecrets(testMode: boolean = false): Promise<boolean> {
     try {
-      const config = await loadClaudeConfig(testMode) as ClaudeConfig;
-      const scanResult = this.secretDetector.scanConfig(config);
+      const scanResult = await this.scanConfig(testMode);
       return scanResult.totalCount > 0;
     } catch (error) {
       return false;
@@ -137,8 +147,7 @@ export class SecretWarningService {
    */
   async getSecretStats(testMode: boolean = false): Promise<string> {
     try {
-      const config = await loadClaudeConfig(testMode) as ClaudeConfig;
-      const scanResult = this.secretDetector.scanConfig(config);
+      const scanResult = await this.scanConfig(testMode);
       
       if (scanResult.totalCount === 0) {
         return 'No secrets detected';
@@ -0,0 +1,257 @@
+/**
+ * Compressed cold storage for Claude Code sessions
+ *
+ * `cch cache archive` packs sessions into one archive per project and run under
+ * ~/.cch/archive/<project-dir>/<run>.sessions.gz. Every session is its own gzip member,
+ * so the file as a whole is still a valid .gz, while the index records each member's
+ * byte range and a single session can be unpacked without reading the others.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createGzip, createGunzip } from 'zlib';
+import { pipeline } from 'stream/promises';
+import { getSessionArchiveDir } from '../core/paths';
+import { hashFile } from '../utils/file-hash';
+
+const INDEX_FILE = 'index.json';
+
+export interface ArchiveCandidate {
+  sessionId: string;
+  filePath: string;      // ~/.claude/projects/<project-dir>/<session>.jsonl
+  projectPath: string;
+  reason: string;
+}
+
+export interface ArchivedSession {
+  sessionId: string;
+  projectPath: string;
+  originalPath: string;
+  archiveFile: string;     // Relative to the archive directory
+  offset: number;          // Start of this session's gzip member
+  compressedSize: number;
+  size: number;            // Uncompressed bytes
+  sha256: string;
+  modified: string;        // Original mtime, restored on unarchive
+  archivedAt: string;
+  reason: string;
+}
+
+interface ArchiveIndex {
+  version: number;
+  sessions: ArchivedSession[];
+}
+
+export interface ArchiveResult {
+  archived: ArchivedSession[];
+  skipped: Array<{ candidate: ArchiveCandidate; reason: string }>;
+}
+
+export interface UnarchiveResult {
+  restoredPath: string;
+  session: ArchivedSession;
+}
+
+/**
+ * Compress the candidates into per-project archives and remove the originals
+ * A session that changes while it is being compressed is left where it is.
+ */
+export async function archiveSessions(candidates: ArchiveCandidate[], testMode: boolean = false): Promise<ArchiveResult> {
+  const archiveDir = getSessionArchiveDir(testMode);
+  const result: ArchiveResult = { archived: [], skipped: [] };
+  const runId = new Date().toISOString().replace(/:/g, '-').split('.')[0];
+  // Fail before compressing anything if the index cannot be updated afterwards
+  await readIndex(testMode);
+
+  const byProject = new Map<string, ArchiveCandidate[]>();
+  for (const candidate of candidates) {
+    const projectDir = path.basename(path.dirname(candidate.filePath));
+    byProject.set(projectDir, [...(byProject.get(projectDir) || []), candidate]);
+  }
+
+  for (const [projectDir, projectCandidates] of byProject) {
+    await fs.promises.mkdir(path.join(archiveDir, projectDir), { recursive: true, mode: 0o700 });
+
+    let archiveFile = path.join(projectDir, `${runId}.sessions.gz`);
+    for (let n = 2; fs.existsSync(path.join(archiveDir, archiveFile)); n++) {
+      archiveFile = path.join(projectDir, `${runId}-${n}.sessions.gz`);
+    }
+    const archivePath = path.join(archiveDir, archiveFile);
+
+    const archived: ArchivedSession[] = [];
+    for (const candidate of projectCandidates) {
+      try {
+        const before = await fs.promises.stat(candidate.filePath);
+        const sha256 = await hashFile(candidate.filePath);
+        const offset = fs.existsSync(archivePath) ? (await fs.promises.stat(archivePath)).size : 0;
+
+        await pipeline(
+          fs.createReadStream(candidate.filePath),
+          createGzip({ level: 9 }),
+          fs.createWriteStream(archivePath, { flags: 'a', mode: 0o600 })
+        );
+
+        const after = await fs.promises.stat(candidate.filePath);
+        if (after.size !== before.size || after.mtimeMs !== before.mtimeMs) {
+          // Claude Code wrote to it meanwhile; the member stays unreferenced in the archive
+          result.skipped.push({ candidate, reason: 'modified while archiving' });
+          continue;
+        }
+
+        archived.push({
+          sessionId: candidate.sessionId,
+          projectPath: candidate.projectPath,
+          originalPath: candidate.filePath,
+          archiveFile,
+          offset,
+          compressedSize: (await fs.promises.stat(archivePath)).size - offset,
+          size: before.size,
+          sha256,
+          modified: before.mtime.toISOString(),
+          archivedAt: new Date().toISOString(),
+          reason: candidate.reason
+        });
+      } catch (error) {
+        result.skipped.push({ candidate, reason: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    if (archived.length === 0) {
+      await fs.promises.rm(archivePath, { force: true });
+      await fs.promises.rmdir(path.dirname(archivePath)).catch(() => undefined);
+      continue;
+    }
+
+    // Record the sessions before removing them, so a crash cannot lose one
+    await updateIndex(testMode, sessions => [...sessions, ...archived]);
+    for (const session of archived) {
+      await fs.promises.rm(session.originalPath, { force: true });
+    }
+    result.archived.push(...archived);
+  }
+
+  return result;
+}
+
+/**
+ * Archived sessions, most recently archived first
+ */
+export async function listArchivedSessions(testMode: boolean = false): Promise<ArchivedSession[]> {
+  const index = await readIndex(testMode);
+  return [...index.sessions].sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+}
+
+/**
+ * Archived sessions whose id is `query` or starts with it
+ */
+export async function findArchivedSessions(query: string, testMode: boolean = false): Promise<ArchivedSession[]> {
+  const sessions = await listArchivedSessions(testMode);
+  const exact = sessions.filter(s => s.sessionId === query);
+  return exact.length > 0 ? exact : sessions.filter(s => s.sessionId.startsWith(query));
+}
+
+/**
+ * Unpack a session back to where it was archived from
+ * Never overwrites an existing session; the archive file is deleted with its last session.
+ */
+export async function unarchiveSession(session: ArchivedSession, testMode: boolean = false): Promise<UnarchiveResult> {
+  const archiveDir = getSessionArchiveDir(testMode);
+  const archivePath = path.join(archiveDir, session.archiveFile);
+
+  if (fs.existsSync(session.originalPath)) {
+    throw new Error(`${session.originalPath} already exists`);
+  }
+  if (!fs.existsSync(archivePath)) {
+    throw new Error(`Archive file is missing: ${archivePath}`);
+  }
+
+  await fs.promises.mkdir(path.dirname(session.originalPath), { recursive: true });
+  const tempPath = `${session.originalPath}.cch-unarchive-${process.pid}.tmp`;
+  try {
+    await pipeline(
+      fs.createReadStream(archivePath, { start: session.offset, end: session.offset + session.compressedSize - 1 }),
+      createGunzip(),
+      fs.createWriteStream(tempPath, { mode: 0o600 })
+    );
+
+    if (await hashFile(tempPath) !== session.sha256) {
+      throw new Error('Archived session is corrupt (checksum mismatch)');
+    }
+
+    const modified = new Date(session.modified);
+    await fs.promises.utimes(tempPath, modified, modified);
+    await fs.promises.rename(tempPath, session.originalPath);
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+
+  const remaining = await updateIndex(testMode, sessions => sessions.filter(s =>
+    !(s.archiveFile === session.archiveFile && s.offset === session.offset)
+  ));
+  if (!remaining.some(s => s.archiveFile === session.archiveFile)) {
+    await fs.promises.rm(archivePath, { force: true });
+    await fs.promises.rmdir(path.dirname(archivePath)).catch(() => undefined);
+  }
+
+  return { restoredPath: session.originalPath, session };
+}
+
+/**
+ * Bytes the archive files take on disk
+ */
+export async function getArchiveDiskSize(testMode: boolean = false): Promise<number> {
+  const files = new Set((await readIndex(testMode)).sessions.map(s => s.archiveFile));
+  let total = 0;
+  for (const file of files) {
+    try {
+      total += (await fs.promises.stat(path.join(getSessionArchiveDir(testMode), file))).size;
+    } catch {
+      continue;
+    }
+  }
+  return total;
+}
+
+async function readIndex(testMode: boolean): Promise<ArchiveIndex> {
+  const indexPath = path.join(getSessionArchiveDir(testMode), INDEX_FILE);
+  let index: any;
+  try {
+    index = JSON.parse(await fs.promises.readFile(indexPath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: 1, sessions: [] };
+    }
+    throw corruptIndexError(indexPath, error);
+  }
+  // Treating a damaged index as empty would orphan every archived session on the next write
+  if (!index || !Array.isArray(index.sessions)) {
+    throw corruptIndexError(indexPath, new Error('no sessions list'));
+  }
+  return { version: 1, sessions: index.sessions };
+}
+
+function corruptIndexError(indexPath: string, cause: unknown): Error {
+  const reason = cause instanceof Error ? cause.message : String(cause);
+  return new Error(
+    `Archive index ${indexPath} is unreadable (${reason}) - fix it or restore ${INDEX_FILE}.bak before using the archive`
+  );
+}
+
+async function updateIndex(
+  testMode: boolean,
+  update: (sessions: ArchivedSession[]) => ArchivedSession[]
+): Promise<ArchivedSession[]> {
+  const archiveDir = getSessionArchiveDir(testMode);
+  const index = await readIndex(testMode);
+  index.sessions = update(index.sessions);
+
+  await fs.promises.mkdir(archiveDir, { recursive: true, mode: 0o700 });
+  const indexPath = path.join(archiveDir, INDEX_FILE);
+  const tempPath = `${indexPath}.tmp`;
+  await fs.promises.writeFile(tempPath, JSON.stringify(index, null, 2), { mode: 0o600 });
+  if (fs.existsSync(indexPath)) {
+    await fs.promises.copyFile(indexPath, `${indexPath}.bak`);
+  }
+  await fs.promises.rename(tempPath, indexPath);
+  return index.sessions;
+}
@@ -0,0 +1,494 @@
+/**
+ * Session transcript export
+ *
+ * Turns a session .jsonl into a readable transcript - prompts, replies, tool calls
+ * and their results - and renders it as Markdown, a self-contained HTML page or JSON.
+ * Secrets are masked in every text, tool input, tool output and metadata value while
+ * the transcript is built, before HTML escaping or JSON quoting can change what the
+ * secret patterns see.
+ */
+
+import { SessionParser } from './session-parser';
+import { replaceImageDataUris } from './blob-remover';
+import { formatBytes } from '../utils/format';
+import { SecretDetector } from './secret-detector';
+import { ReportEnvelope, envelope } from './report-formats';
+
+export type ExportFormat = 'md' | 'html' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'html', 'json'];
+
+export const DEFAULT_COLLAPSE_LINES = 40;
+const COLLAPSE_CHARS_PER_LINE = 160;   // Minified output is one huge line, so cap characters too
+
+export interface TranscriptOptions {
+  collapseLines?: number;   // Tool outputs longer than this keep only their first lines
+  dropImages?: boolean;     // Replace images with a placeholder giving type and size
+  maskSecrets?: boolean;    // Default true
+}
+
+export interface ExportOptions extends TranscriptOptions {
+  format?: ExportFormat;
+}
+
+export type TranscriptBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id?: string; name: string; input: any }
+  | { type: 'tool_result'; toolUseId?: string; toolName?: string; output: string; isError: boolean; omittedLines: number; omittedBytes: number }
+  | { type: 'image'; mediaType: string; size: number; data?: string };
+
+export interface TranscriptEntry {
+  role: 'user' | 'assistant' | 'tool';
+  timestamp?: string;
+  model?: string;
+  blocks: TranscriptBlock[];
+}
+
+export interface Transcript {
+  sessionId: string;
+  cwd?: string;
+  gitBranch?: string;
+  version?: string;
+  startedAt?: string;
+  endedAt?: string;
+  entries: TranscriptEntry[];
+  imagesDropped: number;
+  outputsCollapsed: number;
+  secretsMasked: number;
+}
+
+export interface SessionExportJsonReport extends ReportEnvelope {
+  kind: 'session-export';
+  session: {
+    id: string;
+    cwd: string | null;
+    gitBranch: string | null;
+    version: string | null;
+    startedAt: string | null;
+    endedAt: string | null;
+  };
+  imagesDropped: number;
+  outputsCollapsed: number;
+  entries: TranscriptEntry[];
+}
+
+export interface ExportResult {
+  output: string;
+  transcript: Transcript;
+  secretsMasked: number;
+}
+
+/**
+ * Validate a sessions export --format value, defaulting to Markdown
+ */
+export function parseExportFormat(value: unknown): ExportFormat {
+  if (value === undefined || value === false) {
+    return 'md';
+  }
+  if (value === 'markdown') {
+    return 'md';
+  }
+  if (typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value)) {
+    return value as ExportFormat;
+  }
+  throw new Error(`Invalid --format "${value === true ? '' : value}". Use one of: ${EXPORT_FORMATS.join(', ')}`);
+}
+
+/**
+ * Render a session file in the requested format, secrets masked unless disabled
+ */
+export async function exportSession(sessionPath: string, options: ExportOptions = {}): Promise<ExportResult> {
+  const transcript = await buildTranscript(sessionPath, options);
+  const output = renderTranscript(transcript, options.format || 'md');
+  return { output, transcript, secretsMasked: transcript.secretsMasked };
+}
+
+/**
+ * Read a session into transcript entries. Meta lines, thinking blocks and
+ * bookkeeping records (summaries, snapshots) are left out.
+ */
+export async function buildTranscript(sessionPath: string, options: TranscriptOptions = {}): Promise<Transcript> {
+  const messages = await new SessionParser().parseSessionFile(sessionPath);
+  const sessionId = sessionPath.split(/[\\/]/).pop()!.replace(/\.jsonl$/, '');
+  const transcript: Transcript = { sessionId, entries: [], imagesDropped: 0, outputsCollapsed: 0, secretsMasked: 0 };
+  const toolNames = new Map<string, string>();
+  const detector = options.maskSecrets !== false ? new SecretDetector() : null;
+  let lastMessageId: string | undefined;
+
+  const mask = (text: string): string => {
+    if (!detector) return text;
+    const masked = detector.maskSecretsInText(text);
+    transcript.secretsMasked += masked.count;
+    return masked.maskedText;
+  };
+
+  const cleanText = (text: string): string => {
+    if (!options.dropImages) return mask(text);
+    const replaced = replaceImageDataUris(text);
+    if (replaced !== text) {
+      transcript.imagesDropped += (text.match(/data:image\/[^;]+;base64,/g) || []).length;
+    }
+    return mask(replaced);
+  };
+
+  // Tool inputs are masked value by value, so the JSON around them stays valid
+  const maskInput = (value: any): any => {
+    if (typeof value === 'string') return mask(value);
+    if (Array.isArray(value)) return value.map(maskInput);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, maskInput(entry)]));
+    }
+    return value;
+  };
+
+  const imageBlock = (block: any): TranscriptBlock | null => {
+    const data = block?.source?.data;
+    if (typeof data !== 'string') return null;
+    const image: TranscriptBlock = {
+      type: 'image',
+      mediaType: String(block.source.media_type || 'image/png'),
+      size: Math.floor(data.length * 0.75)
+    };
+    if (options.dropImages) {
+      transcript.imagesDropped++;
+    } else {
+      image.data = data;
+    }
+    return image;
+  };
+
+  for (const message of messages) {
+    if (message.type !== 'user' && message.type !== 'assistant') continue;
+    if (message.isMeta) continue;
+
+    transcript.cwd = transcript.cwd || (message.cwd && mask(message.cwd));
+    transcript.gitBranch = transcript.gitBranch || (message.gitBranch && mask(message.gitBranch));
+    transcript.version = transcript.version || message.version;
+    if (message.timestamp) {
+      transcript.startedAt = transcript.startedAt || message.timestamp;
+      transcript.endedAt = message.timestamp;
+    }
+
+    const content = message.message?.content;
+
+    if (message.type === 'assistant') {
+      const blocks: TranscriptBlock[] = [];
+      for (const block of Array.isArray(content) ? content : [{ type: 'text', text: content }]) {
+        if (block?.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+          blocks.push({ type: 'text', text: cleanText(block.text) });
+        } else if (block?.type === 'tool_use') {
+          const name = String(block.name || 'tool');
+          if (block.id) toolNames.set(block.id, name);
+          blocks.push({ type: 'tool_use', id: block.id, name, input: maskInput(block.input ?? {}) });
+        }
+      }
+      if (blocks.length === 0) continue;
+
+      // Claude Code writes one line per content block of the same API message
+      const messageId = message.message?.id;
+      const previous = transcript.entries[transcript.entries.length - 1];
+      if (messageId && messageId === lastMessageId && previous?.role === 'assistant') {
+        previous.blocks.push(...blocks);
+      } else {
+        transcript.entries.push({ role: 'assistant', timestamp: message.timestamp, model: message.message?.model, blocks });
+      }
+      lastMessageId = messageId;
+      continue;
+    }
+
+    lastMessageId = undefined;
+    const userBlocks: TranscriptBlock[] = [];
+    const toolBlocks: TranscriptBlock[] = [];
+
+    if (typeof content === 'string') {
+      const text = formatCommandText(content);
+      if (text) userBlocks.push({ type: 'text', text: cleanText(text) });
+    } else if (Array.isArray(content)) {
+      for (const block of content) {
+        if (block?.type === 'text' && typeof block.text === 'string') {
+          const text = formatCommandText(block.text);
+          if (text) userBlocks.push({ type: 'text', text: cleanText(text) });
+        } else if (block?.type === 'image') {
+          const image = imageBlock(block);
+          if (image) userBlocks.push(image);
+        } else if (block?.type === 'tool_result') {
+          const parts: string[] = [];
+          const images: TranscriptBlock[] = [];
+          for (const part of Array.isArray(block.content) ? block.content : [{ type: 'text', text: block.content }]) {
+            if (part?.type === 'text' && typeof part.text === 'string') {
+              parts.push(part.text);
+            } else if (part?.type === 'image') {
+              const image = imageBlock(part);
+              if (image) images.push(image);
+            }
+          }
+          toolBlocks.push(collapseOutput(cleanText(parts.join('\n')), block, toolNames, options.collapseLines, transcript), ...images);
+        }
+      }
+    }
+
+    if (userBlocks.length > 0) {
+      transcript.entries.push({ role: 'user', timestamp: message.timestamp, blocks: userBlocks });
+    }
+    if (toolBlocks.length > 0) {
+      transcript.entries.push({ role: 'tool', timestamp: message.timestamp, blocks: toolBlocks });
+    }
+  }
+
+  return transcript;
+}
+
+export function renderTranscript(transcript: Transcript, format: ExportFormat): string {
+  switch (format) {
+    case 'html':
+      return renderHtml(transcript);
+    case 'json':
+      return JSON.stringify(toSessionExportJson(transcript), null, 2) + '\n';
+    default:
+      return renderMarkdown(transcript);
+  }
+}
+
+export function toSessionExportJson(transcript: Transcript): SessionExportJsonReport {
+  return {
+    ...envelope('session-export'),
+    session: {
+      id: transcript.sessionId,
+      cwd: transcript.cwd ?? null,
+      gitBranch: transcript.gitBranch ?? null,
+      version: transcript.version ?? null,
+      startedAt: transcript.startedAt ?? null,
+      endedAt: transcript.endedAt ?? null
+    },
+    imagesDropped: transcript.imagesDropped,
+    outputsCollapsed: transcript.outputsCollapsed,
+    entries: transcript.entries
+  };
+}
+
+function collapseOutput(
+  output: string,
+  block: any,
+  toolNames: Map<string, string>,
+  collapseLines: number | undefined,
+  transcript: Transcript
+): TranscriptBlock {
+  let kept = output;
+  let omittedLines = 0;
+  let omittedBytes = 0;
+
+  if (collapseLines && collapseLines > 0) {
+    const lines = output.split('\n');
+    kept = lines.slice(0, collapseLines).join('\n').slice(0, collapseLines * COLLAPSE_CHARS_PER_LINE);
+    if (kept.length < output.length) {
+      const rest = output.slice(kept.length);
+      omittedLines = rest.split('\n').length - (rest.startsWith('\n') ? 1 : 0);
+      omittedBytes = Buffer.byteLength(rest, 'utf-8');
+      transcript.outputsCollapsed++;
+    }
+  }
+
+  return {
+    type: 'tool_result',
+    toolUseId: block.tool_use_id,
+    toolName: block.tool_use_id ? toolNames.get(block.tool_use_id) : undefined,
+    output: kept,
+    isError: block.is_error === true,
+    omittedLines,
+    omittedBytes
+  };
+}
+
+/**
+ * Slash commands are logged as <command-name> wrappers; show them as typed.
+ * Local command output wrappers carry nothing worth sharing.
+ */
+function formatCommandText(text: string): string | undefined {
+  const name = text.match(/<command-name>([\s\S]*?)<\/command-name>/);
+  if (name) {
+    const args = text.match(/<command-args>([\s\S]*?)<\/command-args>/);
+    return `${name[1].trim()}${args && args[1].trim() ? ` ${args[1].trim()}` : ''}`;
+  }
+  if (text.startsWith('<local-command-') || text.startsWith('<command-')) {
+    return undefined;
+  }
+  return text.trim() ? text : undefined;
+}
+
+function renderMarkdown(transcript: Transcript): string {
+  const lines: string[] = [];
+  lines.push(`# Claude Code session ${transcript.sessionId}`);
+  lines.push('');
+  for (const [label, value] of metadataRows(transcript)) {
+    lines.push(`- **${label}:** ${value}`);
+  }
+  lines.push('');
+
+  for (const entry of transcript.entries) {
+    if (entry.role !== 'tool') {
+      lines.push('---');
+      lines.push('');
+      lines.push(`## ${entry.role === 'user' ? '👤 User' : '🤖 Assistant'} · ${entryCaption(entry)}`);
+      lines.push('');
+    }
+
+    for (const block of entry.blocks) {
+      switch (block.type) {
+        case 'text':
+          lines.push(block.text.trim());
+          break;
+        case 'tool_use': {
+          const { language, body } = toolInput(block.name, block.input);
+          lines.push(`**🔧 ${block.name}**`);
+          lines.push('');
+          lines.push(fence(body, language));
+          break;
+        }
+        case 'tool_result':
+          lines.push(`**📤 ${block.toolName ? `${block.toolName} result` : 'Result'}${block.isError ? ' (error)' : ''}**`);
+          lines.push('');
+          lines.push(fence(block.output || '(no output)', ''));
+          if (block.omittedLines > 0) {
+            lines.push('');
+            lines.push(`_… ${collapsedNote(block)}_`);
+          }
+          break;
+        case 'image':
+          lines.push(block.data
+            ? `![image](data:${block.mediaType};base64,${block.data})`
+            : `_${imagePlaceholder(block)}_`);
+          break;
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function renderHtml(transcript: Transcript): string {
+  const parts: string[] = [];
+  parts.push('<!DOCTYPE html>');
+  parts.push('<html lang="en">');
+  parts.push('<head>');
+  parts.push('<meta charset="utf-8">');
+  parts.push(`<title>Claude Code session ${escapeHtml(transcript.sessionId)}</title>`);
+  parts.push(`<style>
+body { font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #1f2328; }
+h1 { font-size: 1.4em; }
+dl { display: grid; grid-template-columns: max-content auto; gap: .2em 1em; color: #59636e; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+section { border-top: 1px solid #d1d9e0; padding: .5em 0; }
+section.tool { border-top: none; padding-top: 0; }
+h2 { font-size: 1em; margin: .5em 0; }
+h2 small { font-weight: normal; color: #59636e; }
+.text { white-space: pre-wrap; }
+pre { background: #f6f8fa; padding: .8em; overflow-x: auto; border-radius: 6px; }
+details { margin: .5em 0; }
+summary { cursor: pointer; font-weight: 600; }
+.error summary { color: #cf222e; }
+.note { color: #59636e; font-style: italic; }
+img { max-width: 100%; }
+</style>`);
+  parts.push('</head>');
+  parts.push('<body>');
+  parts.push(`<h1>Claude Code session ${escapeHtml(transcript.sessionId)}</h1>`);
+  parts.push('<dl>');
+  for (const [label, value] of metadataRows(transcript)) {
+    parts.push(`<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`);
+  }
+  parts.push('</dl>');
+
+  for (const entry of transcript.entries) {
+    parts.push(`<section class="${entry.role}">`);
+    if (entry.role !== 'tool') {
+      parts.push(`<h2>${entry.role === 'user' ? '👤 User' : '🤖 Assistant'} <small>${escapeHtml(entryCaption(entry))}</small></h2>`);
+    }
+
+    for (const block of entry.blocks) {
+      switch (block.type) {
+        case 'text':
+          parts.push(`<div class="text">${escapeHtml(block.text.trim())}</div>`);
+          break;
+        case 'tool_use':
+          parts.push(`<details open><summary>🔧 ${escapeHtml(block.name)}</summary><pre>${escapeHtml(toolInput(block.name, block.input).body)}</pre></details>`);
+          break;
+        case 'tool_result': {
+          const title = `📤 ${block.toolName ? `${block.toolName} result` : 'Result'}${block.isError ? ' (error)' : ''}`;
+          const note = block.omittedLines > 0 ? `<p class="note">… ${escapeHtml(collapsedNote(block))}</p>` : '';
+          parts.push(`<details${block.isError ? ' class="error"' : ''}><summary>${escapeHtml(title)}</summary><pre>${escapeHtml(block.output || '(no output)')}</pre>${note}</details>`);
+          break;
+        }
+        case 'image':
+          // Only well-formed base64 and image media types make it into the src attribute
+          parts.push(block.data && /^image\/[\w.+-]+$/.test(block.mediaType) && /^[A-Za-z0-9+/=\s]+$/.test(block.data)
+            ? `<img alt="image" src="data:${block.mediaType};base64,${block.data}">`
+            : `<p class="note">${escapeHtml(imagePlaceholder(block))}</p>`);
+          break;
+      }
+    }
+    parts.push('</section>');
+  }
+
+  parts.push('</body>');
+  parts.push('</html>');
+  return parts.join('\n') + '\n';
+}
+
+function metadataRows(transcript: Transcript): Array<[string, string]> {
+  const rows: Array<[string, string | undefined]> = [
+    ['Project', transcript.cwd],
+    ['Branch', transcript.gitBranch],
+    ['Started', transcript.startedAt && formatTimestamp(transcript.startedAt)],
+    ['Ended', transcript.endedAt && formatTimestamp(transcript.endedAt)],
+    ['Claude Code', transcript.version],
+    ['Messages', String(transcript.entries.filter(entry => entry.role !== 'tool').length)]
+  ];
+  return rows.filter((row): row is [string, string] => !!row[1]);
+}
+
+function entryCaption(entry: TranscriptEntry): string {
+  return [entry.timestamp ? formatTimestamp(entry.timestamp) : 'unknown time', entry.model].filter(Boolean).join(' · ');
+}
+
+/**
+ * Shell commands read best as shell; everything else as its JSON input
+ */
+function toolInput(name: string, input: any): { language: string; body: string } {
+  if (name === 'Bash' && typeof input?.command === 'string') {
+    return { language: 'bash', body: input.command };
+  }
+  return { language: 'json', body: JSON.stringify(input, null, 2) };
+}
+
+function collapsedNote(block: { omittedLines: number; omittedBytes: number }): string {
+  return `${block.omittedLines} more line(s), ${formatBytes(block.omittedBytes)} collapsed`;
+}
+
+function imagePlaceholder(block: { mediaType: string; size: number }): string {
+  return `[image removed: ${block.mediaType}, ~${formatBytes(block.size)}]`;
+}
+
+/**
+ * A code fence longer than any backtick run inside the content
+ */
+function fence(text: string, language: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const marker = '`'.repeat(Math.max(3, longest + 1));
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
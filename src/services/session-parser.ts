@@ -5,6 +5,9 @@
 
 import fs from 'fs';
 import path from 'path';
+import { readJsonlLines, walkStringLeaves } from '../utils/jsonl';
+import { ReportEnvelope, envelope } from './report-formats';
+import type { SessionFile } from './cache-analyzer';
 
 // Data models
 
@@ -39,8 +42,139 @@ export interface SessionBlobAnalysis {
   blobPercentage: number;
 }
 
+export interface SessionSummary {
+  messageCount: number;      // User and assistant messages
+  userMessages: number;
+  assistantMessages: number;
+  toolResults: number;       // User messages that only carry tool results
+  firstTimestamp?: Date;
+  lastTimestamp?: Date;
+  firstPrompt?: string;      // First thing the user typed, whitespace collapsed
+  tools: Record<string, number>;  // tool_use calls by tool name
+  models: string[];          // Models that answered, in order of first use
+  estimatedTokens: number;   // ~4 characters per token of message content, images excluded
+}
+
+export interface ListedSession {
+  session: SessionFile;
+  projectName: string;
+  projectPath: string;
+  summary: SessionSummary;
+}
+
+export interface SessionListJsonReport extends ReportEnvelope {
+  kind: 'session-list';
+  totalSessions: number;
+  sessions: Array<{
+    sessionId: string;
+    project: string;
+    projectPath: string;
+    path: string;
+    isAgent: boolean;
+    size: number;
+    startedAt: string | null;
+    endedAt: string | null;
+    durationMs: number | null;
+    messages: {
+      user: number;
+      assistant: number;
+      toolResults: number;
+    };
+    tools: Record<string, number>;
+    models: string[];
+    estimatedTokens: number;
+    firstPrompt: string | null;
+  }>;
+}
+
+const CHARS_PER_TOKEN = 4;
+// Block bookkeeping rather than content, left out of the token estimate
+const STRUCTURAL_KEYS = new Set(['type', 'id', 'tool_use_id', 'media_type']);
+
 export class SessionParser {
 
+  /**
+   * Count messages, find the time span, tools, models and the first user prompt of a session
+   * Streams the file, so it is safe on sessions of any size
+   */
+  async summarizeSession(sessionPath: string): Promise<SessionSummary> {
+    const summary: SessionSummary = {
+      messageCount: 0,
+      userMessages: 0,
+      assistantMessages: 0,
+      toolResults: 0,
+      tools: {},
+      models: [],
+      estimatedTokens: 0
+    };
+    let contentChars = 0;
+
+    for await (const { value } of readJsonlLines(sessionPath)) {
+      if (!value || (value.type !== 'user' && value.type !== 'assistant')) continue;
+
+      summary.messageCount++;
+      if (value.type === 'user') summary.userMessages++;
+      else summary.assistantMessages++;
+
+      const timestamp = value.timestamp ? new Date(value.timestamp) : undefined;
+      if (timestamp && !isNaN(timestamp.getTime())) {
+        if (!summary.firstTimestamp || timestamp < summary.firstTimestamp) summary.firstTimestamp = timestamp;
+        if (!summary.lastTimestamp || timestamp > summary.lastTimestamp) summary.lastTimestamp = timestamp;
+      }
+
+      const content = value.message?.content;
+      if (!summary.firstPrompt && value.type === 'user' && !value.isMeta) {
+        const prompt = this.extractPromptText(content);
+        if (prompt) summary.firstPrompt = prompt;
+      }
+
+      if (Array.isArray(content)) {
+        if (value.type === 'user' && content.length > 0 && content.every(block => block?.type === 'tool_result')) {
+          summary.toolResults++;
+        }
+        for (const block of content) {
+          if (block?.type === 'tool_use' && block.name) {
+            summary.tools[block.name] = (summary.tools[block.name] || 0) + 1;
+          }
+        }
+      }
+
+      const model = value.message?.model;
+      if (value.type === 'assistant' && typeof model === 'string' && model !== '<synthetic>' && !summary.models.includes(model)) {
+        summary.models.push(model);
+      }
+
+      walkStringLeaves(content, (text, jsonPath) => {
+        const key = jsonPath.slice(jsonPath.lastIndexOf('.') + 1);
+        if (!STRUCTURAL_KEYS.has(key) && !jsonPath.endsWith('source.data')) contentChars += text.length;
+      });
+    }
+
+    summary.estimatedTokens = Math.round(contentChars / CHARS_PER_TOKEN);
+    return summary;
+  }
+
+  /**
+   * Text the user typed, ignoring tool results and slash-command wrappers
+   */
+  private extractPromptText(content: any): string | undefined {
+    let text: string | undefined;
+    if (typeof content === 'string') {
+      text = content;
+    } else if (Array.isArray(content)) {
+      text = content
+        .filter(block => block && block.type === 'text' && typeof block.text === 'string')
+        .map(block => block.text)
+        .join(' ');
+    }
+
+    text = text?.replace(/\s+/g, ' ').trim();
+    if (!text || text.startsWith('<command-') || text.startsWith('<local-command-')) {
+      return undefined;
+    }
+    return text;
+  }
+
   /**
    * Main entry point: Analyze .jsonl session file for blobs
    */
@@ -83,7 +217,7 @@ export class SessionParser {
   /**
    * Parse .jsonl file (one JSON object per line)
    */
-  private async parseSessionFile(sessionPath: string): Promise<any[]> {
+  async parseSessionFile(sessionPath: string): Promise<any[]> {
     try {
       const fileContent = await fs.promises.readFile(sessionPath, 'utf-8');
       const lines = fileContent.trim().split('\n').filter(line => line.trim());
@@ -333,3 +467,35 @@ export class SessionParser {
     return largeSessions;
   }
 }
+
+/**
+ * The --format json report of `cch sessions list`
+ */
+export function toSessionListJson(listed: ListedSession[], totalSessions: number): SessionListJsonReport {
+  return {
+    ...envelope('session-list'),
+    totalSessions,
+    sessions: listed.map(({ session, projectName, projectPath, summary }) => ({
+      sessionId: session.sessionId,
+      project: projectName,
+      projectPath,
+      path: session.filePath,
+      isAgent: session.isAgent,
+      size: session.size,
+      startedAt: summary.firstTimestamp?.toISOString() ?? null,
+      endedAt: summary.lastTimestamp?.toISOString() ?? null,
+      durationMs: summary.firstTimestamp && summary.lastTimestamp
+        ? summary.lastTimestamp.getTime() - summary.firstTimestamp.getTime()
+        : null,
+      messages: {
+        user: summary.userMessages - summary.toolResults,
+        assistant: summary.assistantMessages,
+        toolResults: summary.toolResults
+      },
+      tools: summary.tools,
+      models: summary.models,
+      estimatedTokens: summary.estimatedTokens,
+      firstPrompt: summary.firstPrompt ?? null
+    }))
+  };
+}
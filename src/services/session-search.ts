@@ -0,0 +1,497 @@
+/**
+ * Full-text search across Claude Code session transcripts
+ *
+ * The index lives in ~/.cch/session-index/:
+ *   manifest.json        indexed sessions with their size and mtime, so only changed ones are re-read
+ *   terms.json           term -> sessions containing it
+ *   segments/<id>.json   per session: its messages (line, role, time) and term -> messages
+ * Snippets are read back from the session files at search time, but the terms are
+ * still the words of the conversations, so the index is written owner-only (0600)
+ * and words that are part of a secret (a SecretDetector pattern or the entropy
+ * check) are never indexed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getSessionIndexDir } from '../core/paths';
+import { readJsonlLines, walkStringLeaves } from '../utils/jsonl';
+import { projectMatchesPatterns } from '../utils/patterns';
+import { SecretDetector } from './secret-detector';
+import { ReportEnvelope, envelope } from './report-formats';
+
+const INDEX_VERSION = 2;        // 2: secret terms left out
+const MAX_DOCUMENT_CHARS = 20000;   // Huge pastes add little to search but a lot to the index
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 40;
+const DEFAULT_LIMIT = 20;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+
+export type SearchRole = 'user' | 'assistant' | 'tool';
+
+const ROLES: SearchRole[] = ['user', 'assistant', 'tool'];
+
+export interface IndexableSession {
+  filePath: string;
+  sessionId: string;
+  projectName: string;
+  projectPath: string;
+  isAgent: boolean;
+}
+
+export interface SearchFilters {
+  project?: string;      // Project name or path globs, comma separated
+  since?: Date;
+  until?: Date;
+  role?: SearchRole;
+  limit?: number;        // Hits to return (default 20)
+}
+
+export interface SearchHit {
+  sessionId: string;
+  projectName: string;
+  projectPath: string;
+  filePath: string;
+  isAgent: boolean;
+  lineNumber: number;
+  role: SearchRole;
+  timestamp?: Date;
+  snippet: string;
+}
+
+export interface SearchResult {
+  terms: string[];
+  totalMatches: number;    // Matching messages before the limit
+  sessionsMatched: number;
+  hits: SearchHit[];       // Newest first
+}
+
+export interface IndexUpdateStats {
+  indexed: number;         // Sessions (re)read
+  removed: number;         // Sessions gone since the last run
+  total: number;
+}
+
+export interface SearchDocument {
+  role: SearchRole;
+  text: string;
+}
+
+export interface SessionSearchJsonReport extends ReportEnvelope {
+  kind: 'session-search';
+  query: string;
+  terms: string[];
+  totalMatches: number;
+  sessionsMatched: number;
+  index: IndexUpdateStats;
+  hits: Array<{
+    sessionId: string;
+    project: string;
+    projectPath: string;
+    path: string;
+    isAgent: boolean;
+    lineNumber: number;
+    role: SearchRole;
+    timestamp: string | null;
+    snippet: string;
+  }>;
+}
+
+interface ManifestEntry extends IndexableSession {
+  id: number;
+  size: number;
+  mtimeMs: number;
+  modified: number;        // For documents without a timestamp
+}
+
+interface Manifest {
+  version: number;
+  nextId: number;
+  sessions: Record<string, ManifestEntry>;
+}
+
+interface Segment {
+  docs: Array<[number, number, number]>;   // [line number, role index, timestamp ms or 0]
+  postings: Record<string, number[]>;      // Term -> document indexes
+}
+
+export class SessionSearchIndex {
+  private manifest: Manifest = { version: INDEX_VERSION, nextId: 1, sessions: {} };
+  private terms = new Map<string, number[]>();
+  private dirty = false;
+
+  private constructor(private indexDir: string, private detector: SecretDetector) {}
+
+  /**
+   * Load the index; a missing, corrupt or outdated index starts empty
+   */
+  static load(testMode: boolean = false): SessionSearchIndex {
+    const index = new SessionSearchIndex(getSessionIndexDir(testMode), new SecretDetector({ testMode }));
+
+    try {
+      const manifest: Manifest = JSON.parse(fs.readFileSync(path.join(index.indexDir, 'manifest.json'), 'utf-8'));
+      const terms: Array<[string, number[]]> = JSON.parse(fs.readFileSync(path.join(index.indexDir, 'terms.json'), 'utf-8'));
+      if (manifest.version === INDEX_VERSION && manifest.sessions && Array.isArray(terms)) {
+        index.manifest = manifest;
+        index.terms = new Map(terms);
+      } else {
+        // Drop the old segments too, they may hold terms this version leaves out
+        index.clear();
+      }
+    } catch {
+      // No index yet
+    }
+
+    return index;
+  }
+
+  /**
+   * Bring the index in line with the sessions on disk
+   * Sessions whose size or mtime changed are re-read; vanished ones are dropped.
+   */
+  async update(sessions: IndexableSession[], onProgress?: (done: number, total: number) => void): Promise<IndexUpdateStats> {
+    const current = new Set(sessions.map(s => s.filePath));
+    let removed = 0;
+
+    for (const filePath of Object.keys(this.manifest.sessions)) {
+      if (!current.has(filePath)) {
+        await this.removeSession(filePath);
+        removed++;
+      }
+    }
+
+    const changed: Array<{ session: IndexableSession; stats: fs.Stats }> = [];
+    for (const session of sessions) {
+      try {
+        const stats = await fs.promises.stat(session.filePath);
+        const entry = this.manifest.sessions[session.filePath];
+        if (!entry || entry.size !== stats.size || entry.mtimeMs !== stats.mtimeMs) {
+          changed.push({ session, stats });
+        }
+      } catch {
+        continue;
+      }
+    }
+
+    for (const [done, { session, stats }] of changed.entries()) {
+      onProgress?.(done, changed.length);
+      await this.indexSession(session, stats);
+    }
+
+    return { indexed: changed.length, removed, total: Object.keys(this.manifest.sessions).length };
+  }
+
+  /**
+   * Messages containing every term of the query, newest first
+   */
+  async search(query: string, filters: SearchFilters = {}): Promise<SearchResult> {
+    const terms = [...new Set(tokenize(query))];
+    const result: SearchResult = { terms, totalMatches: 0, sessionsMatched: 0, hits: [] };
+    if (terms.length === 0) {
+      return result;
+    }
+
+    // Sessions holding every term, rarest term first so the intersection shrinks fast
+    const lists = terms.map(term => this.terms.get(term) || []).sort((a, b) => a.length - b.length);
+    let candidates = new Set(lists[0]);
+    for (const list of lists.slice(1)) {
+      const ids = new Set(list);
+      candidates = new Set([...candidates].filter(id => ids.has(id)));
+    }
+
+    const byId = new Map(Object.values(this.manifest.sessions).map(entry => [entry.id, entry]));
+    const since = filters.since?.getTime();
+    const until = filters.until?.getTime();
+    const roleIndex = filters.role ? ROLES.indexOf(filters.role) : -1;
+    const matches: Array<{ entry: ManifestEntry; lineNumber: number; role: SearchRole; time: number }> = [];
+
+    for (const id of candidates) {
+      const entry = byId.get(id);
+      if (!entry) continue;
+      if (filters.project && !projectMatchesPatterns(entry.projectName, filters.project) &&
+          !projectMatchesPatterns(entry.projectPath, filters.project)) continue;
+
+      const segment = this.readSegment(id);
+      if (!segment) continue;
+
+      let docs = new Set(postingsFor(segment, terms[0]));
+      for (const term of terms.slice(1)) {
+        const postings = new Set(postingsFor(segment, term));
+        docs = new Set([...docs].filter(doc => postings.has(doc)));
+      }
+
+      let matched = false;
+      for (const doc of docs) {
+        const [lineNumber, role, timestamp] = segment.docs[doc];
+        const time = timestamp || entry.modified;
+        if (roleIndex >= 0 && role !== roleIndex) continue;
+        if (since !== undefined && time < since) continue;
+        if (until !== undefined && time > until) continue;
+        matches.push({ entry, lineNumber, role: ROLES[role], time });
+        matched = true;
+      }
+      if (matched) result.sessionsMatched++;
+    }
+
+    result.totalMatches = matches.length;
+    const top = matches.sort((a, b) => b.time - a.time).slice(0, filters.limit ?? DEFAULT_LIMIT);
+    const snippets = await this.readSnippets(top.map(m => ({ filePath: m.entry.filePath, lineNumber: m.lineNumber, role: m.role })), terms);
+
+    result.hits = top.map(match => ({
+      sessionId: match.entry.sessionId,
+      projectName: match.entry.projectName,
+      projectPath: match.entry.projectPath,
+      filePath: match.entry.filePath,
+      isAgent: match.entry.isAgent,
+      lineNumber: match.lineNumber,
+      role: match.role,
+      timestamp: match.time ? new Date(match.time) : undefined,
+      snippet: snippets.get(`${match.entry.filePath}:${match.lineNumber}:${match.role}`) || ''
+    }));
+
+    return result;
+  }
+
+  /**
+   * Delete the whole index (cch sessions search --rebuild)
+   */
+  clear(): void {
+    fs.rmSync(this.indexDir, { recursive: true, force: true });
+    this.manifest = { version: INDEX_VERSION, nextId: 1, sessions: {} };
+    this.terms = new Map();
+    this.dirty = true;
+  }
+
+  get sessionCount(): number {
+    return Object.keys(this.manifest.sessions).length;
+  }
+
+  /**
+   * Write the manifest and term table if anything changed
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    await fs.promises.mkdir(this.indexDir, { recursive: true, mode: 0o700 });
+    await writeAtomic(path.join(this.indexDir, 'terms.json'), JSON.stringify([...this.terms]));
+    await writeAtomic(path.join(this.indexDir, 'manifest.json'), JSON.stringify(this.manifest));
+    this.dirty = false;
+  }
+
+  private async indexSession(session: IndexableSession, stats: fs.Stats): Promise<void> {
+    const previous = this.manifest.sessions[session.filePath];
+    if (previous) {
+      this.forgetTerms(previous.id);
+    }
+    const id = previous ? previous.id : this.manifest.nextId++;
+
+    const segment: Segment = { docs: [], postings: {} };
+    const postings = new Map<string, number[]>();
+
+    try {
+      for await (const line of readJsonlLines(session.filePath)) {
+        if (!line.value) continue;
+        const timestamp = Date.parse(line.value.timestamp) || 0;
+
+        for (const document of extractSearchDocuments(line.value)) {
+          const doc = segment.docs.length;
+          segment.docs.push([line.lineNumber, ROLES.indexOf(document.role), timestamp]);
+          const secretTerms = new Set(
+            this.detector.scanText(document.text, session.filePath, 'session').flatMap(secret => tokenize(secret.value))
+          );
+          for (const term of new Set(tokenize(document.text))) {
+            if (secretTerms.has(term)) continue;
+            const list = postings.get(term);
+            if (list) list.push(doc);
+            else postings.set(term, [doc]);
+          }
+        }
+      }
+    } catch {
+      // Unreadable session - index whatever was read
+    }
+
+    segment.postings = Object.fromEntries(postings);
+    await fs.promises.mkdir(path.join(this.indexDir, 'segments'), { recursive: true, mode: 0o700 });
+    await writeAtomic(this.segmentPath(id), JSON.stringify(segment));
+
+    for (const term of postings.keys()) {
+      const list = this.terms.get(term);
+      if (list) list.push(id);
+      else this.terms.set(term, [id]);
+    }
+
+    this.manifest.sessions[session.filePath] = {
+      ...session,
+      id,
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      modified: stats.mtimeMs
+    };
+    this.dirty = true;
+  }
+
+  private async removeSession(filePath: string): Promise<void> {
+    const entry = this.manifest.sessions[filePath];
+    this.forgetTerms(entry.id);
+    await fs.promises.rm(this.segmentPath(entry.id), { force: true });
+    delete this.manifest.sessions[filePath];
+    this.dirty = true;
+  }
+
+  /**
+   * Take a session out of the term table, using the terms its segment recorded
+   */
+  private forgetTerms(id: number): void {
+    const segment = this.readSegment(id);
+    if (!segment) return;
+    for (const term of Object.keys(segment.postings)) {
+      const list = this.terms.get(term);
+      if (!list) continue;
+      const remaining = list.filter(other => other !== id);
+      if (remaining.length > 0) this.terms.set(term, remaining);
+      else this.terms.delete(term);
+    }
+  }
+
+  private readSegment(id: number): Segment | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.segmentPath(id), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private segmentPath(id: number): string {
+    return path.join(this.indexDir, 'segments', `${id}.json`);
+  }
+
+  /**
+   * Snippets for the hits, reading each session file once
+   */
+  private async readSnippets(
+    hits: Array<{ filePath: string; lineNumber: number; role: SearchRole }>,
+    terms: string[]
+  ): Promise<Map<string, string>> {
+    const snippets = new Map<string, string>();
+    const byFile = new Map<string, Set<number>>();
+    for (const hit of hits) {
+      byFile.set(hit.filePath, (byFile.get(hit.filePath) || new Set()).add(hit.lineNumber));
+    }
+
+    for (const [filePath, lineNumbers] of byFile) {
+      try {
+        for await (const line of readJsonlLines(filePath)) {
+          if (!lineNumbers.has(line.lineNumber) || !line.value) continue;
+          for (const document of extractSearchDocuments(line.value)) {
+            snippets.set(`${filePath}:${line.lineNumber}:${document.role}`, makeSnippet(document.text, terms));
+          }
+          lineNumbers.delete(line.lineNumber);
+          if (lineNumbers.size === 0) break;
+        }
+      } catch {
+        continue;
+      }
+    }
+
+    return snippets;
+  }
+}
+
+/**
+ * The searchable text of a transcript line: what the user typed, the assistant's
+ * replies, and tool calls (name plus input values). Tool results are left out.
+ */
+export function extractSearchDocuments(value: any): SearchDocument[] {
+  const content = value?.message?.content;
+  const texts: Record<SearchRole, string[]> = { user: [], assistant: [], tool: [] };
+
+  if (value?.type === 'user' && !value.isMeta) {
+    if (typeof content === 'string') {
+      texts.user.push(content);
+    } else if (Array.isArray(content)) {
+      content.filter(block => block?.type === 'text' && typeof block.text === 'string').forEach(block => texts.user.push(block.text));
+    }
+  } else if (value?.type === 'assistant' && Array.isArray(content)) {
+    for (const block of content) {
+      if (block?.type === 'text' && typeof block.text === 'string') {
+        texts.assistant.push(block.text);
+      } else if (block?.type === 'tool_use') {
+        const parts = [String(block.name || '')];
+        walkStringLeaves(block.input, text => parts.push(text));
+        texts.tool.push(parts.join(' '));
+      }
+    }
+  }
+
+  return ROLES
+    .filter(role => texts[role].length > 0)
+    .map(role => ({ role, text: texts[role].join('\n').slice(0, MAX_DOCUMENT_CHARS) }))
+    .filter(document => document.text.trim().length > 0);
+}
+
+/**
+ * Lowercased words and numbers, as indexed and as matched
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [])
+    .filter(term => term.length >= MIN_TERM_LENGTH && term.length <= MAX_TERM_LENGTH);
+}
+
+export function parseSearchRole(value: unknown): SearchRole | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string' && (ROLES as string[]).includes(value)) {
+    return value as SearchRole;
+  }
+  throw new Error(`Invalid --role "${value === true ? '' : value}". Use one of: ${ROLES.join(', ')}`);
+}
+
+/**
+ * The --format json report of `cch sessions search`
+ */
+export function toSessionSearchJson(query: string, result: SearchResult, index: IndexUpdateStats): SessionSearchJsonReport {
+  return {
+    ...envelope('session-search'),
+    query,
+    terms: result.terms,
+    totalMatches: result.totalMatches,
+    sessionsMatched: result.sessionsMatched,
+    index,
+    hits: result.hits.map(hit => ({
+      sessionId: hit.sessionId,
+      project: hit.projectName,
+      projectPath: hit.projectPath,
+      path: hit.filePath,
+      isAgent: hit.isAgent,
+      lineNumber: hit.lineNumber,
+      role: hit.role,
+      timestamp: hit.timestamp?.toISOString() ?? null,
+      snippet: hit.snippet
+    }))
+  };
+}
+
+// Terms like "constructor" must not resolve to Object.prototype members
+function postingsFor(segment: Segment, term: string): number[] {
+  return Object.prototype.hasOwnProperty.call(segment.postings, term) ? segment.postings[term] : [];
+}
+
+/**
+ * The text around the first query term, whitespace collapsed
+ */
+function makeSnippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(position => position >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - SNIPPET_BEFORE);
+  const end = Math.min(flat.length, first + SNIPPET_AFTER);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
+
+async function writeAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempPath, content, { mode: 0o600 });
+  await fs.promises.rename(tempPath, filePath);
+}
@@ -0,0 +1,338 @@
+/**
+ * Tool usage from session transcripts, for permission suggestions
+ *
+ * Every tool_use block is mapped to the allow rule Claude Code would need for it:
+ *   Bash       Bash(<command>:*) per part of a compound command, "npm run build" -> Bash(npm run:*)
+ *   WebFetch   WebFetch(domain:<host>)
+ *   MCP tools  mcp__<server>__<tool>
+ *   Read, Glob and Grep outside the project   Read(//<directory>/**)
+ *   others     the tool name (Edit, Write, ...)
+ * Reads inside the project and tools Claude Code never asks about are skipped, and
+ * allow rules for the skipped tools are never suggested for pruning. A call counts as prompted
+ * when none of the project's current allow rules covers it, and as rejected when its
+ * result says the user turned it down. The allow rules are today's, so calls made
+ * before a rule was added show up as prompted.
+ */
+
+import path from 'path';
+import { readJsonlLines } from '../utils/jsonl';
+import { normalizePermission } from '../core/permissions';
+
+export type ToolKind = 'bash' | 'web' | 'mcp' | 'tool';
+
+export interface ToolUsageProject {
+  projectName: string;
+  projectPath: string;
+  sessionFiles: string[];
+  allowRules: string[];      // Every rule that applies: project, settings files and base permissions
+}
+
+export interface PermissionUsage {
+  rule: string;              // In allowedTools form, e.g. Bash(npm run:*)
+  kind: ToolKind;
+  calls: number;
+  prompted: number;          // Calls no allow rule covered
+  rejected: number;          // Calls the user turned down at the prompt
+  sessions: number;
+  lastUsed?: Date;
+  examples: string[];        // A few distinct Bash commands
+}
+
+export interface ProjectToolUsage {
+  projectName: string;
+  projectPath: string;
+  sessions: number;          // Sessions with activity in the window
+  calls: number;
+  permissions: PermissionUsage[];    // Most prompted first
+  ruleHits: Record<string, number>;  // Allow rule -> calls it covered
+}
+
+export interface PermissionRecommendations {
+  add: PermissionUsage[];
+  prune: string[];
+}
+
+export interface ToolUsageFilters {
+  since?: Date;
+}
+
+// Tools that run without an approval prompt
+const NO_PROMPT_TOOLS = new Set([
+  'LS', 'TodoRead', 'TodoWrite', 'Task', 'Agent', 'ExitPlanMode',
+  'NotebookRead', 'BashOutput', 'KillShell', 'KillBash', 'SlashCommand'
+]);
+
+// Read-only tools that prompt only outside the project; Read rules cover all of them
+const READ_TOOLS = new Set(['Read', 'Glob', 'Grep', 'NotebookRead']);
+
+// Commands whose first argument is a subcommand worth its own rule (git status vs git push)
+const SUBCOMMAND_TOOLS = new Set([
+  'git', 'gh', 'npm', 'npx', 'yarn', 'pnpm', 'bun', 'cargo', 'go', 'docker', 'docker-compose',
+  'kubectl', 'helm', 'terraform', 'pip', 'pip3', 'poetry', 'uv', 'dotnet', 'mvn', 'gradle',
+  'bundle', 'rails', 'brew', 'apt', 'apt-get', 'systemctl', 'aws', 'gcloud', 'az'
+]);
+
+const MAX_EXAMPLES = 3;
+const REJECTION = /tool use was rejected|doesn't want to proceed/i;
+
+export interface ToolCall {
+  parts: Array<{ rule: string; kind: ToolKind; command?: string }>;
+}
+
+/**
+ * Count tool calls per project and which allow rules covered them
+ */
+export async function analyzeToolUsage(projects: ToolUsageProject[], filters: ToolUsageFilters = {}): Promise<ProjectToolUsage[]> {
+  const results: ProjectToolUsage[] = [];
+
+  for (const project of projects) {
+    const usage = new Map<string, PermissionUsage & { sessionSet: Set<string> }>();
+    const ruleHits: Record<string, number> = {};
+    let sessions = 0;
+    let calls = 0;
+
+    for (const sessionFile of project.sessionFiles) {
+      const pending = new Map<string, ToolCall>();
+      let active = false;
+
+      try {
+        for await (const { value } of readJsonlLines(sessionFile)) {
+          const content = value?.message?.content;
+          if (!Array.isArray(content)) continue;
+
+          const timestamp = value.timestamp ? new Date(value.timestamp) : undefined;
+          if (filters.since && (!timestamp || isNaN(timestamp.getTime()) || timestamp < filters.since)) continue;
+
+          for (const block of content) {
+            if (value.type === 'assistant' && block?.type === 'tool_use' && typeof block.name === 'string') {
+              const call = describeToolCall(block.name, block.input, project.projectPath);
+              if (!call) continue;
+              active = true;
+              calls++;
+
+              for (const part of call.parts) {
+                // Every covering rule is credited, so overlapping rules are not reported unused
+                const covering = project.allowRules.filter(rule => ruleCovers(rule, part.rule, part.command));
+                for (const rule of covering) {
+                  ruleHits[rule] = (ruleHits[rule] || 0) + 1;
+                }
+
+                let entry = usage.get(part.rule);
+                if (!entry) {
+                  entry = { rule: part.rule, kind: part.kind, calls: 0, prompted: 0, rejected: 0, sessions: 0, examples: [], sessionSet: new Set() };
+                  usage.set(part.rule, entry);
+                }
+                entry.calls++;
+                if (covering.length === 0) entry.prompted++;
+                entry.sessionSet.add(sessionFile);
+                if (timestamp && !isNaN(timestamp.getTime()) && (!entry.lastUsed || timestamp > entry.lastUsed)) {
+                  entry.lastUsed = timestamp;
+                }
+                if (part.command && entry.examples.length < MAX_EXAMPLES && !entry.examples.includes(part.command)) {
+                  entry.examples.push(part.command.length > 80 ? `${part.command.slice(0, 79)}…` : part.command);
+                }
+              }
+              if (block.id) pending.set(block.id, call);
+            } else if (value.type === 'user' && block?.type === 'tool_result' && block.is_error && pending.has(block.tool_use_id)) {
+              if (REJECTION.test(resultText(block.content))) {
+                for (const part of pending.get(block.tool_use_id)!.parts) {
+                  const entry = usage.get(part.rule);
+                  if (entry) entry.rejected++;
+                }
+              }
+              pending.delete(block.tool_use_id);
+            }
+          }
+        }
+      } catch {
+        // Unreadable session - count whatever was read
+      }
+
+      if (active) sessions++;
+    }
+
+    const permissions = [...usage.values()]
+      .map(({ sessionSet, ...entry }) => ({ ...entry, sessions: sessionSet.size }))
+      .sort((a, b) => b.prompted - a.prompted || b.calls - a.calls || a.rule.localeCompare(b.rule));
+
+    results.push({ projectName: project.projectName, projectPath: project.projectPath, sessions, calls, permissions, ruleHits });
+  }
+
+  return results;
+}
+
+/**
+ * Rules worth adding (prompted at least minCalls times, never rejected, not dangerous)
+ * and project rules no call needed in the window. Pruning needs activity to go on.
+ */
+export function recommendPermissions(
+  usage: ProjectToolUsage,
+  projectRules: string[],
+  options: { minCalls?: number; isUnsafe?: (rule: string) => boolean } = {}
+): PermissionRecommendations {
+  const minCalls = options.minCalls ?? 3;
+  const add = usage.permissions.filter(entry =>
+    entry.prompted >= minCalls && entry.rejected === 0 && !(options.isUnsafe && options.isUnsafe(entry.rule)));
+  const prune = usage.sessions > 0
+    ? projectRules.filter(rule => !usage.ruleHits[rule] && isTracked(rule))
+    : [];
+  return { add, prune };
+}
+
+/**
+ * The allow rule(s) a tool call needs, or null for calls that never prompt
+ */
+export function describeToolCall(name: string, input: any, projectPath?: string): ToolCall | null {
+  if (READ_TOOLS.has(name)) {
+    const target = readTarget(name, input);
+    if (!target || !projectPath || isInside(target, projectPath)) return null;
+    const directory = name === 'Read' || name === 'NotebookRead' ? path.posix.dirname(target) : target;
+    return { parts: [{ rule: `Read(/${directory.replace(/\/+$/, '')}/**)`, kind: 'tool' }] };
+  }
+  if (NO_PROMPT_TOOLS.has(name)) return null;
+
+  if (name === 'Bash') {
+    const command = typeof input?.command === 'string' ? input.command : '';
+    const parts = splitCommand(command)
+      .map(part => ({ part, prefix: commandPrefix(part) }))
+      .filter(({ prefix }) => prefix)
+      .map(({ part, prefix }) => ({ rule: `Bash(${prefix}:*)`, kind: 'bash' as ToolKind, command: part }));
+    return parts.length > 0 ? { parts } : null;
+  }
+
+  if (name === 'WebFetch') {
+    let host = '';
+    try {
+      host = new URL(String(input?.url || '')).hostname;
+    } catch {
+      // Not a URL - the tool-level rule is all we can suggest
+    }
+    return { parts: [{ rule: host ? `WebFetch(domain:${host})` : 'WebFetch', kind: 'web' }] };
+  }
+
+  return { parts: [{ rule: name, kind: name.startsWith('mcp__') ? 'mcp' : 'tool' }] };
+}
+
+/**
+ * Whether an allow rule covers a needed rule. Bare rules without a tool name are
+ * cch base permissions, which are Bash rules ("npm run:*"). Path specifiers on file
+ * tools (Edit(src/**)) are not evaluated and count as covering the tool.
+ */
+export function ruleCovers(allowRule: string, neededRule: string, command?: string): boolean {
+  const allow = parseRule(allowRule);
+  const needed = parseRule(neededRule);
+
+  if (needed.tool.startsWith('mcp__')) {
+    const tool = allow.tool.replace(/__\*$/, '');
+    return needed.tool === tool || needed.tool.startsWith(`${tool}__`);
+  }
+  if (allow.tool !== needed.tool) return false;
+  if (!allow.specifier || allow.specifier === '*') return true;
+
+  if (needed.tool === 'Bash') {
+    const target = command ?? needed.specifier?.replace(/:\*$/, '') ?? '';
+    if (allow.specifier.endsWith(':*')) {
+      const prefix = allow.specifier.slice(0, -2);
+      return target === prefix || target.startsWith(`${prefix} `);
+    }
+    return target === allow.specifier;
+  }
+
+  if (needed.tool === 'WebFetch') {
+    return !!needed.specifier && allow.specifier === needed.specifier;
+  }
+
+  // Absolute read rules (//dir/**) cover what lies below them; other patterns are not evaluated
+  if (needed.tool === 'Read' && needed.specifier && allow.specifier.startsWith('//')) {
+    const allowed = allow.specifier.slice(1).replace(/\/?\*\*$/, '').replace(/\/+$/, '');
+    const target = needed.specifier.slice(1).replace(/\/\*\*$/, '');
+    return isInside(target, allowed || '/');
+  }
+
+  return true;
+}
+
+function parseRule(rule: string): { tool: string; specifier?: string } {
+  const match = rule.match(/^([A-Za-z][\w-]*)\((.*)\)$/);
+  if (match) return { tool: match[1], specifier: match[2] };
+  if (/^[A-Z]\w*$/.test(rule) || rule.startsWith('mcp__')) return { tool: rule };
+  return { tool: 'Bash', specifier: normalizePermission(rule) };
+}
+
+/**
+ * Split a shell command on &&, ||, ; and | outside quotes; cd parts are dropped
+ * since moving around the project never prompts
+ */
+function splitCommand(command: string): string[] {
+  const firstLine = command.split('\n')[0];
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < firstLine.length; i++) {
+    const char = firstLine[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ';' || char === '|' || (char === '&' && firstLine[i + 1] === '&')) {
+      parts.push(current);
+      current = '';
+      if ((char === '|' || char === '&') && firstLine[i + 1] === char) i++;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map(part => part.trim()).filter(part => part && !/^cd(\s|$)/.test(part));
+}
+
+/**
+ * "FOO=1 npm run build -- --watch" -> "npm run", "./deploy.sh prod" -> "./deploy.sh"
+ */
+function commandPrefix(command: string): string {
+  const words = command.split(/\s+/);
+  while (words.length > 1 && /^[A-Za-z_]\w*=/.test(words[0])) words.shift();
+  const [first, second] = words;
+  if (!first) return '';
+  if (SUBCOMMAND_TOOLS.has(first) && second && /^[a-z][\w:.-]*$/.test(second)) {
+    return `${first} ${second}`;
+  }
+  return first;
+}
+
+/**
+ * Whether the analyzer can see every call a rule allows. Skipped tools, reads inside
+ * the project and read rules other than absolute Read(//...) ones would always look
+ * unused, so they are never pruned.
+ */
+function isTracked(rule: string): boolean {
+  const { tool, specifier } = parseRule(rule);
+  if (NO_PROMPT_TOOLS.has(tool)) return false;
+  if (READ_TOOLS.has(tool)) return tool === 'Read' && (!specifier || specifier.startsWith('//'));
+  return true;
+}
+
+/**
+ * The absolute path a read-only tool looks at, if it names one
+ */
+function readTarget(name: string, input: any): string | undefined {
+  const value = name === 'Read' ? input?.file_path : name === 'NotebookRead' ? input?.notebook_path : input?.path;
+  return typeof value === 'string' && value.startsWith('/') ? path.posix.normalize(value) : undefined;
+}
+
+function isInside(target: string, directory: string): boolean {
+  const base = directory.endsWith('/') ? directory : `${directory}/`;
+  return target === directory || target.startsWith(base);
+}
+
+function resultText(content: any): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(part => (typeof part?.text === 'string' ? part.text : '')).join('\n');
+  }
+  return '';
+}
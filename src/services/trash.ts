@@ -0,0 +1,205 @@
+/**
+ * Restorable trash for cache cleanup
+ * `cch cache clean` moves items into ~/.claude/.trash/<ts>-<name> instead of deleting them;
+ * the manifest next to them records where each item came from so it can be put back
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { getBaseDir } from '../core/paths';
+import type { CleanupItem } from './cache-cleaner';
+
+const MANIFEST_FILE = 'manifest.json';
+
+export interface TrashEntry {
+  id: string;
+  name: string;            // File or directory name inside the trash
+  originalPath?: string;   // Unknown for items trashed before the manifest existed
+  reason: string;
+  size: number;
+  trashedAt: string;
+  item?: CleanupItem;      // The cleanup item that moved it
+}
+
+interface TrashManifest {
+  version: number;
+  entries: TrashEntry[];
+}
+
+export interface TrashRestoreResult {
+  restored: TrashEntry[];
+  skipped: Array<{ entry: TrashEntry; reason: string }>;
+}
+
+export function getTrashDir(testMode: boolean = false): string {
+  return path.join(getBaseDir(testMode), '.claude', '.trash');
+}
+
+/**
+ * Move a cleanup item into the trash and record it in the manifest
+ */
+export async function moveToTrash(item: CleanupItem, testMode: boolean = false): Promise<TrashEntry> {
+  const trashDir = getTrashDir(testMode);
+  await fs.promises.mkdir(trashDir, { recursive: true });
+
+  const baseName = `${Date.now()}-${path.basename(item.path)}`;
+  let name = baseName;
+  for (let n = 2; fs.existsSync(path.join(trashDir, name)); n++) {
+    name = `${baseName}-${n}`;
+  }
+  await fs.promises.rename(item.path, path.join(trashDir, name));
+
+  const entry: TrashEntry = {
+    id: crypto.randomBytes(4).toString('hex'),
+    name,
+    originalPath: item.path,
+    reason: item.reason,
+    size: item.size,
+    trashedAt: new Date().toISOString(),
+    item
+  };
+
+  const manifest = await readManifest(trashDir);
+  manifest.entries.push(entry);
+  await writeManifest(trashDir, manifest);
+
+  return entry;
+}
+
+/**
+ * List trashed items, newest first
+ * Items without a manifest entry (trashed by older versions) are listed with their
+ * on-disk name as id and no original path - they can be emptied but not restored
+ */
+export async function listTrash(testMode: boolean = false): Promise<TrashEntry[]> {
+  const trashDir = getTrashDir(testMode);
+  if (!fs.existsSync(trashDir)) {
+    return [];
+  }
+
+  const manifest = await readManifest(trashDir);
+  const names = (await fs.promises.readdir(trashDir)).filter(name => !name.startsWith(MANIFEST_FILE));
+  const tracked = manifest.entries.filter(entry => names.includes(entry.name));
+
+  const untracked: TrashEntry[] = [];
+  for (const name of names) {
+    if (tracked.some(entry => entry.name === name)) continue;
+
+    const fullPath = path.join(trashDir, name);
+    const stats = await fs.promises.stat(fullPath);
+    const timestamp = parseInt(name.split('-')[0]);
+    untracked.push({
+      id: name,
+      name,
+      reason: 'Trashed before the manifest existed',
+      size: await getPathSize(fullPath),
+      trashedAt: new Date(Number.isNaN(timestamp) ? stats.mtimeMs : timestamp).toISOString()
+    });
+  }
+
+  return [...tracked, ...untracked].sort((a, b) => b.trashedAt.localeCompare(a.trashedAt));
+}
+
+/**
+ * Find a trashed item by id, or the newest item for "latest"
+ */
+export async function findTrashEntry(id: string, testMode: boolean = false): Promise<TrashEntry | undefined> {
+  const entries = await listTrash(testMode);
+  return id === 'latest' ? entries[0] : entries.find(entry => entry.id === id);
+}
+
+/**
+ * Move trashed items back to where they came from
+ * Never overwrites: an item whose original path exists again is skipped
+ */
+export async function restoreFromTrash(entries: TrashEntry[], testMode: boolean = false): Promise<TrashRestoreResult> {
+  const trashDir = getTrashDir(testMode);
+  const result: TrashRestoreResult = { restored: [], skipped: [] };
+
+  for (const entry of entries) {
+    if (!entry.originalPath) {
+      result.skipped.push({ entry, reason: 'original path unknown' });
+      continue;
+    }
+    if (fs.existsSync(entry.originalPath)) {
+      result.skipped.push({ entry, reason: 'original path exists again' });
+      continue;
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(entry.originalPath), { recursive: true });
+      await fs.promises.rename(path.join(trashDir, entry.name), entry.originalPath);
+      result.restored.push(entry);
+    } catch (error) {
+      result.skipped.push({ entry, reason: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  await forget(trashDir, result.restored);
+  return result;
+}
+
+/**
+ * Permanently delete trashed items
+ */
+export async function deleteFromTrash(entries: TrashEntry[], testMode: boolean = false): Promise<number> {
+  const trashDir = getTrashDir(testMode);
+  let freed = 0;
+
+  for (const entry of entries) {
+    await fs.promises.rm(path.join(trashDir, entry.name), { recursive: true, force: true });
+    freed += entry.size;
+  }
+
+  await forget(trashDir, entries);
+  return freed;
+}
+
+/**
+ * Items trashed more than the given number of days ago
+ */
+export function filterOlderThan(entries: TrashEntry[], days: number, now: Date = new Date()): TrashEntry[] {
+  const cutoff = now.getTime() - days * 24 * 60 * 60 * 1000;
+  return entries.filter(entry => new Date(entry.trashedAt).getTime() < cutoff);
+}
+
+async function forget(trashDir: string, entries: TrashEntry[]): Promise<void> {
+  if (entries.length === 0 || !fs.existsSync(path.join(trashDir, MANIFEST_FILE))) {
+    return;
+  }
+  const manifest = await readManifest(trashDir);
+  manifest.entries = manifest.entries.filter(e => !entries.some(removed => removed.id === e.id));
+  await writeManifest(trashDir, manifest);
+}
+
+async function readManifest(trashDir: string): Promise<TrashManifest> {
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(trashDir, MANIFEST_FILE), 'utf-8'));
+  } catch {
+    return { version: 1, entries: [] };
+  }
+}
+
+async function writeManifest(trashDir: string, manifest: TrashManifest): Promise<void> {
+  const manifestPath = path.join(trashDir, MANIFEST_FILE);
+  const tempPath = `${manifestPath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempPath, JSON.stringify(manifest, null, 2));
+  await fs.promises.rename(tempPath, manifestPath);
+}
+
+/**
+ * Size of a file, or of everything under a directory
+ */
+export async function getPathSize(fullPath: string): Promise<number> {
+  const stats = await fs.promises.stat(fullPath);
+  if (!stats.isDirectory()) {
+    return stats.size;
+  }
+
+  let size = 0;
+  for (const entry of await fs.promises.readdir(fullPath)) {
+    size += await getPathSize(path.join(fullPath, entry));
+  }
+  return size;
+}
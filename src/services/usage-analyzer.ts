@@ -0,0 +1,213 @@
+/**
+ * Token usage from session transcripts
+ *
+ * Every assistant line carries the API `usage` of the request that produced it.
+ * Claude Code writes one line per content block, and resumed sessions copy earlier
+ * lines into the new file, so requests are counted once by message id and request id.
+ */
+
+import { readJsonlLines } from '../utils/jsonl';
+import { PriceTable, findModelPrice } from './model-prices';
+import { ReportEnvelope, envelope } from './report-formats';
+
+export type UsageDimension = 'project' | 'day' | 'model' | 'session';
+
+export const USAGE_DIMENSIONS: UsageDimension[] = ['project', 'day', 'model', 'session'];
+
+export interface UsageSession {
+  filePath: string;
+  sessionId: string;
+  projectName: string;
+  projectPath: string;
+}
+
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+}
+
+export interface UsageRecord extends TokenCounts {
+  sessionId: string;
+  projectName: string;
+  projectPath: string;
+  model: string;
+  timestamp?: Date;
+}
+
+export interface UsageRow extends TokenCounts {
+  key: string;
+  requests: number;
+  cost: number;
+  unpricedRequests: number;   // Requests by models missing from the price table (cost 0)
+}
+
+export interface UsageSummary {
+  by: UsageDimension;
+  rows: UsageRow[];
+  total: UsageRow;
+  unpricedModels: string[];
+}
+
+export interface UsageJsonReport extends ReportEnvelope {
+  kind: 'usage';
+  by: UsageDimension;
+  currency: string;
+  since: string | null;
+  until: string | null;
+  total: UsageRow;
+  rows: UsageRow[];
+  unpricedModels: string[];
+}
+
+export interface UsageFilters {
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * Read the usage of every API request in the sessions, within the date range
+ */
+export async function collectUsage(sessions: UsageSession[], filters: UsageFilters = {}): Promise<UsageRecord[]> {
+  const records: UsageRecord[] = [];
+  const seen = new Set<string>();
+
+  for (const session of sessions) {
+    try {
+      for await (const { value } of readJsonlLines(session.filePath)) {
+        const usage = value?.type === 'assistant' ? value.message?.usage : undefined;
+        if (!usage || typeof usage !== 'object') continue;
+
+        const messageId = value.message?.id;
+        if (messageId) {
+          const key = `${messageId}:${value.requestId || ''}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+        }
+
+        const timestamp = value.timestamp ? new Date(value.timestamp) : undefined;
+        const validTimestamp = timestamp && !isNaN(timestamp.getTime()) ? timestamp : undefined;
+        if (filters.since && (!validTimestamp || validTimestamp < filters.since)) continue;
+        if (filters.until && (!validTimestamp || validTimestamp > filters.until)) continue;
+
+        records.push({
+          sessionId: session.sessionId,
+          projectName: session.projectName,
+          projectPath: session.projectPath,
+          model: typeof value.message?.model === 'string' ? value.message.model : 'unknown',
+          timestamp: validTimestamp,
+          inputTokens: tokenCount(usage.input_tokens),
+          outputTokens: tokenCount(usage.output_tokens),
+          cacheWriteTokens: tokenCount(usage.cache_creation_input_tokens),
+          cacheReadTokens: tokenCount(usage.cache_read_input_tokens)
+        });
+      }
+    } catch {
+      // Unreadable session - count whatever was read
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Sum the records per project, day (local time), model or session and price them
+ * Days run oldest first; everything else by cost, then tokens
+ */
+export function summarizeUsage(records: UsageRecord[], by: UsageDimension, prices: PriceTable): UsageSummary {
+  const rows = new Map<string, UsageRow>();
+  const total = emptyRow('total');
+  const unpricedModels = new Set<string>();
+
+  for (const record of records) {
+    // Messages Claude Code made up locally (errors, interruptions) never reached the API
+    if (record.model === '<synthetic>') continue;
+
+    const key = groupKey(record, by);
+    let row = rows.get(key);
+    if (!row) {
+      row = emptyRow(key);
+      rows.set(key, row);
+    }
+
+    const price = findModelPrice(prices, record.model);
+    const cost = price
+      ? (record.inputTokens * price.input +
+         record.outputTokens * price.output +
+         record.cacheWriteTokens * price.cacheWrite +
+         record.cacheReadTokens * price.cacheRead) / 1_000_000
+      : 0;
+    if (!price) unpricedModels.add(record.model);
+
+    for (const target of [row, total]) {
+      target.requests++;
+      target.inputTokens += record.inputTokens;
+      target.outputTokens += record.outputTokens;
+      target.cacheWriteTokens += record.cacheWriteTokens;
+      target.cacheReadTokens += record.cacheReadTokens;
+      target.cost += cost;
+      if (!price) target.unpricedRequests++;
+    }
+  }
+
+  const sorted = [...rows.values()].sort(by === 'day'
+    ? (a, b) => a.key.localeCompare(b.key)
+    : (a, b) => b.cost - a.cost || totalTokens(b) - totalTokens(a));
+
+  return { by, rows: sorted, total, unpricedModels: [...unpricedModels].sort() };
+}
+
+/**
+ * The --format json report of `cch usage`
+ */
+export function toUsageJson(summary: UsageSummary, currency: string, range: { since?: Date; until?: Date }): UsageJsonReport {
+  return {
+    ...envelope('usage'),
+    by: summary.by,
+    currency,
+    since: range.since?.toISOString() ?? null,
+    until: range.until?.toISOString() ?? null,
+    total: summary.total,
+    rows: summary.rows,
+    unpricedModels: summary.unpricedModels
+  };
+}
+
+export function totalTokens(counts: TokenCounts): number {
+  return counts.inputTokens + counts.outputTokens + counts.cacheWriteTokens + counts.cacheReadTokens;
+}
+
+export function parseUsageDimension(value: unknown): UsageDimension {
+  if (value === undefined) return 'project';
+  if (typeof value === 'string' && (USAGE_DIMENSIONS as string[]).includes(value)) {
+    return value as UsageDimension;
+  }
+  throw new Error(`Invalid --by "${value === true ? '' : value}". Use one of: ${USAGE_DIMENSIONS.join(', ')}`);
+}
+
+function groupKey(record: UsageRecord, by: UsageDimension): string {
+  switch (by) {
+    case 'day':
+      return record.timestamp ? localDate(record.timestamp) : 'unknown';
+    case 'model':
+      return record.model;
+    case 'session':
+      return record.sessionId;
+    default:
+      return record.projectPath || record.projectName;
+  }
+}
+
+function localDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function emptyRow(key: string): UsageRow {
+  return { key, requests: 0, inputTokens: 0, outputTokens: 0, cacheWriteTokens: 0, cacheReadTokens: 0, cost: 0, unpricedRequests: 0 };
+}
+
+function tokenCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
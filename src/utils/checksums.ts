@@ -0,0 +1,69 @@
+/**
+ * Checksum helpers used to validate credential formats offline
+ */
+
+const BASE62_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+let crcTable: number[] | null = null;
+
+/**
+ * CRC-32 (IEEE 802.3) of a UTF-8 string, as an unsigned integer
+ */
+export function crc32(value: string): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of Buffer.from(value, 'utf-8')) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode a non-negative integer in base62 (0-9, A-Z, a-z), left-padded with zeros
+ */
+export function toBase62(value: number, width: number = 0): string {
+  let result = '';
+  do {
+    result = BASE62_ALPHABET[value % 62] + result;
+    value = Math.floor(value / 62);
+  } while (value > 0);
+  return result.padStart(width, '0');
+}
+
+/**
+ * Luhn (mod 10) check used by payment card numbers
+ */
+export function luhnCheck(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  let isEven = false;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = parseInt(digits[i], 10);
+
+    if (isEven) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+
+    sum += digit;
+    isEven = !isEven;
+  }
+
+  return sum % 10 === 0;
+}
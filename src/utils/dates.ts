@@ -0,0 +1,25 @@
+/**
+ * Date options shared by the session commands (--since / --until)
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * YYYY-MM-DD (local time) or "<n>d" for n days ago; --until covers the whole day
+ */
+export function parseDateOption(value: string, name: 'since' | 'until'): Date {
+  const days = value.match(/^(\d+)d$/);
+  if (days) {
+    return new Date(Date.now() - parseInt(days[1], 10) * DAY_MS);
+  }
+
+  const date = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (date) {
+    const [year, month, day] = date.slice(1).map(part => parseInt(part, 10));
+    return name === 'until'
+      ? new Date(year, month - 1, day, 23, 59, 59, 999)
+      : new Date(year, month - 1, day);
+  }
+
+  throw new Error(`Invalid --${name} "${value}". Use YYYY-MM-DD or a number of days like 30d`);
+}
@@ -0,0 +1,33 @@
+/**
+ * Shannon entropy helpers for spotting random-looking tokens
+ */
+
+/**
+ * Shannon entropy in bits per character
+ * Random hex tops out at 4.0, random base64 at 6.0
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+
+  return entropy;
+}
+
+/**
+ * Classify a token by the character set it is drawn from
+ */
+export function detectCharset(value: string): 'hex' | 'base64' | null {
+  if (/^[0-9a-fA-F]+$/.test(value)) return 'hex';
+  if (/^[A-Za-z0-9+\/_-]+={0,2}$/.test(value)) return 'base64';
+  return null;
+}
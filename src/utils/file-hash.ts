@@ -0,0 +1,17 @@
+/**
+ * Streaming file hashing
+ */
+
+import fs from 'fs';
+import crypto from 'crypto';
+
+/**
+ * SHA-256 hex digest of a file, read in chunks so large sessions don't load into memory
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
@@ -0,0 +1,71 @@
+/**
+ * Streaming utilities for Claude Code .jsonl transcripts
+ * Reads sessions line by line so memory stays flat regardless of file size
+ */
+
+import fs from 'fs';
+import readline from 'readline';
+
+export interface JsonlLine {
+  lineNumber: number;  // 1-based
+  raw: string;
+  value?: any;         // Parsed JSON, undefined if the line is not valid JSON
+}
+
+/**
+ * Iterate over the non-empty lines of a .jsonl file
+ */
+export async function* readJsonlLines(filePath: string): AsyncGenerator<JsonlLine> {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf-8' });
+  const rl = readline.createInterface({ input: stream, crlfDelay: Infinity });
+
+  let lineNumber = 0;
+  try {
+    for await (const raw of rl) {
+      lineNumber++;
+      if (!raw.trim()) continue;
+
+      let value: any;
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        value = undefined;
+      }
+
+      yield { lineNumber, raw, value };
+    }
+  } finally {
+    rl.close();
+    stream.destroy();
+  }
+}
+
+/**
+ * Visit every string leaf of a parsed JSON value with its JSON path
+ * e.g. "message.content[2].text"
+ */
+export function walkStringLeaves(
+  value: any,
+  visit: (text: string, jsonPath: string) => void,
+  jsonPath: string = ''
+): void {
+  if (typeof value === 'string') {
+    visit(value, jsonPath);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => walkStringLeaves(item, visit, `${jsonPath}[${index}]`));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      walkStringLeaves(child, visit, appendJsonPathKey(jsonPath, key));
+    }
+  }
+}
+
+/**
+ * Append an object key to a JSON path, quoting keys that aren't identifiers
+ */
+export function appendJsonPathKey(jsonPath: string, key: string): string {
+  if (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)) {
+    return jsonPath ? `${jsonPath}.${key}` : key;
+  }
+  return `${jsonPath}[${JSON.stringify(key)}]`;
+}
@@ -0,0 +1,84 @@
+/**
+ * Exclusive lock files for commands that must not run concurrently (e.g. scheduled cache gc)
+ * A lock whose owner process is gone, or that is older than staleMs, is taken over
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface LockInfo {
+  pid: number;
+  acquiredAt: string;
+}
+
+export interface Lock {
+  release(): void;
+}
+
+/**
+ * Try to take the lock; returns null with the current holder when it is held
+ */
+export function acquireLock(lockPath: string, staleMs: number = 6 * 60 * 60 * 1000): { lock: Lock | null; holder?: LockInfo } {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx', 0o600);
+      const info: LockInfo = { pid: process.pid, acquiredAt: new Date().toISOString() };
+      fs.writeSync(fd, JSON.stringify(info));
+      fs.closeSync(fd);
+      return {
+        lock: {
+          release: () => {
+            if (readLock(lockPath)?.pid === process.pid) {
+              fs.rmSync(lockPath, { force: true });
+            }
+          }
+        }
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const holder = readLock(lockPath);
+    if (holder && isAlive(holder.pid) && Date.now() - Date.parse(holder.acquiredAt) < staleMs) {
+      return { lock: null, holder };
+    }
+    if (!holder && isFresh(lockPath)) {
+      // Another process created the lock and has not written its pid yet
+      return { lock: null };
+    }
+
+    // Owner crashed or hung - remove the stale lock and try once more
+    fs.rmSync(lockPath, { force: true });
+  }
+
+  return { lock: null, holder: readLock(lockPath) ?? undefined };
+}
+
+function readLock(lockPath: string): LockInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function isFresh(lockPath: string): boolean {
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs < 5000;
+  } catch {
+    return false;
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -3,6 +3,19 @@ import readline from 'readline';
 /**
  * User interaction utilities
  */
+
+/**
+ * True when nobody can answer a prompt: FORCE_NON_INTERACTIVE is set
+ * (the MCP server runs CLI commands this way) or stdin is not a terminal
+ */
+export function isNonInteractive(): boolean {
+  const forced = process.env.FORCE_NON_INTERACTIVE;
+  if (forced && forced !== '0' && forced.toLowerCase() !== 'false') {
+    return true;
+  }
+  return !process.stdin.isTTY;
+}
+
 export async function promptUser(question: string): Promise<string> {
   const rl = readline.createInterface({
     input: process.stdin,
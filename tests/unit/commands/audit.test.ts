@@ -105,4 +105,49 @@ describe('Audit Command', () => {
     expect(result).not.toContain('SECURITY ISSUES:');
     expect(result).not.toContain('CONFIG BLOAT:');
   });
-});
\ No newline at end of file
+
+  test('should emit a versioned JSON report without raw secrets', async () => {
+    const secret = 'sk-ant-api03-' + 'a'.repeat(95);
+    const testConfig = {
+      version: 1,
+      projects: {
+        '/Users/dev/projects/app': {
+          allowedCommands: ['rm:*'],
+          allowedTools: [],
+          history: [{ display: `export ANTHROPIC_API_KEY=${secret}`, pastedContents: {} }]
+        }
+      }
+    };
+
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(testConfig, null, 2));
+
+    const result = await audit({ format: 'json', testMode: true });
+    const report = JSON.parse(result);
+
+    expect(report.schemaVersion).toBe(1);
+    expect(report.kind).toBe('audit');
+    expect(report.overview.totalProjects).toBe(1);
+    expect(report.security.map((issue: any) => issue.permission)).toContain('rm:*');
+    expect(report.secrets.findings.length).toBeGreaterThan(0);
+    expect(report.tree.children.length).toBeGreaterThan(0);
+    expect(result).not.toContain(secret);
+  });
+
+  test('should emit SARIF results located in the config file', async () => {
+    const testConfig = {
+      version: 1,
+      projects: {
+        'test-project': { allowedCommands: ['sudo:*'], allowedTools: [] }
+      }
+    };
+
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(testConfig, null, 2));
+
+    const sarif = JSON.parse(await audit({ format: 'sarif', testMode: true }));
+
+    expect(sarif.version).toBe('2.1.0');
+    const result = sarif.runs[0].results.find((r: any) => r.ruleId === 'permission/sudo');
+    expect(result.level).toBe('error');
+    expect(result.locations[0].physicalLocation.artifactLocation.uri).toStartWith('file://');
+  });
+});
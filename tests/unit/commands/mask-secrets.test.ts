@@ -0,0 +1,39 @@
+/**
+ * Tests for choosing which files mask-secrets rewrites
+ */
+
+import { describe, expect, test, beforeEach, afterEach, spyOn } from 'bun:test';
+import { selectFilesToMask } from '../../../src/commands/cache/mask-secrets';
+import type { CacheSecretResult } from '../../../src/services/secret-detector';
+
+describe('selectFilesToMask', () => {
+  const forced = process.env.FORCE_NON_INTERACTIVE;
+  let log: ReturnType<typeof spyOn>;
+
+  const fileGroups = new Map<string, CacheSecretResult>([
+    ['/home/dev/.claude/projects/-work-api/1f0e4c1a-5b2d-4c3e-9a7f-2d6b8e1c4a90.jsonl', { location: 'a', type: 'session', secrets: [] }],
+    ['/home/dev/.claude/shell-snapshots/snapshot-bash-1.sh', { location: 'b', type: 'shell-snapshot', secrets: [] }]
+  ]);
+
+  beforeEach(() => {
+    log = spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+    if (forced === undefined) delete process.env.FORCE_NON_INTERACTIVE;
+    else process.env.FORCE_NON_INTERACTIVE = forced;
+  });
+
+  test('--force selects every file without asking', async () => {
+    process.env.FORCE_NON_INTERACTIVE = '1';
+    expect(await selectFilesToMask(fileGroups, true)).toBe(fileGroups);
+    expect(log.mock.calls.flat().join('\n')).not.toContain('Cannot ask for confirmation');
+  });
+
+  test('refuses to mask without --force when nobody can confirm', async () => {
+    process.env.FORCE_NON_INTERACTIVE = '1';
+    expect(await selectFilesToMask(fileGroups, false)).toBeNull();
+    expect(log.mock.calls.flat().join('\n')).toContain('cch cache mask-secrets --execute --force');
+  });
+});
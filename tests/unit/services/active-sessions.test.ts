@@ -0,0 +1,115 @@
+/**
+ * Tests for detecting sessions in use by running Claude Code processes
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { ActiveSessions, isClaudeCommand } from '../../../src/services/active-sessions';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const BOOT = Date.UTC(2026, 5, 1) / 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('ActiveSessions', () => {
+  let tempDir: string;
+  let claudeDir: string;
+  let procDir: string;
+  const now = new Date(BOOT * 1000 + 30 * DAY);
+
+  function session(projectDir: string, id: string, modified: Date): string {
+    const dir = path.join(claudeDir, 'projects', projectDir);
+    fs.mkdirSync(dir, { recursive: true });
+    const filePath = path.join(dir, `${id}.jsonl`);
+    fs.writeFileSync(filePath, '{}\n');
+    fs.utimesSync(filePath, modified, modified);
+    return filePath;
+  }
+
+  function claudeProcess(pid: number, args: string[], cwd: string, startedAt: Date, openFiles: string[] = []): void {
+    const pidDir = path.join(procDir, String(pid));
+    fs.mkdirSync(path.join(pidDir, 'fd'), { recursive: true });
+    fs.writeFileSync(path.join(pidDir, 'cmdline'), args.join('\0') + '\0');
+    fs.symlinkSync(cwd, path.join(pidDir, 'cwd'));
+    // Fields from the third on; the start time is the 22nd
+    const fields = Array(40).fill('0');
+    fields[0] = 'S';
+    fields[19] = String(Math.round((startedAt.getTime() - BOOT * 1000) / 10));
+    fs.writeFileSync(path.join(pidDir, 'stat'), `${pid} (claude code) ${fields.join(' ')}`);
+    openFiles.forEach((file, fd) => fs.symlinkSync(file, path.join(pidDir, 'fd', String(fd + 3))));
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-active-'));
+    claudeDir = path.join(tempDir, '.claude');
+    procDir = path.join(tempDir, 'proc');
+    fs.mkdirSync(path.join(procDir, 'self'), { recursive: true });
+    fs.writeFileSync(path.join(procDir, 'stat'), `cpu 1 2 3\nbtime ${BOOT}\n`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should flag sessions written since a claude process started in their project', async () => {
+    const started = new Date(now.getTime() - 3 * DAY);
+    const old = session('-work-app', '11111111-1111-4111-8111-111111111111', new Date(now.getTime() - 5 * DAY));
+    session('-work-app', '22222222-2222-4222-8222-222222222222', new Date(now.getTime() - 2 * DAY));
+    session('-work-other', '33333333-3333-4333-8333-333333333333', new Date(now.getTime() - 60 * 1000));
+    claudeProcess(4242, ['claude'], '/work/app', started);
+
+    const active = await ActiveSessions.detect({ claudeDir, procDir, now });
+
+    expect(active.method).toBe('proc');
+    expect(active.activeSessionIds).toEqual(['22222222-2222-4222-8222-222222222222']);
+    expect(active.reasonFor(old)).toBeNull();
+    expect(active.reasonFor(path.join(claudeDir, 'projects', '-work-app'))).toContain('pid 4242');
+    expect(active.reasonFor(path.join(claudeDir, 'debug', '22222222-2222-4222-8222-222222222222.txt'))).toContain('written since');
+  });
+
+  test('should flag open, resumed and continued sessions and session-env markers', async () => {
+    const started = new Date(now.getTime() - DAY);
+    const open = session('-work-a', 'aaaaaaaa-1111-4111-8111-111111111111', new Date(now.getTime() - 10 * DAY));
+    session('-work-b', 'bbbbbbbb-2222-4222-8222-222222222222', new Date(now.getTime() - 10 * DAY));
+    session('-work-c', 'cccccccc-3333-4333-8333-333333333333', new Date(now.getTime() - 10 * DAY));
+    session('-work-c', 'cccccccc-4444-4444-8444-444444444444', new Date(now.getTime() - 20 * DAY));
+    session('-work-d', 'dddddddd-5555-4555-8555-555555555555', new Date(now.getTime() - 10 * DAY));
+    const marker = path.join(claudeDir, 'session-env', 'dddddddd-5555-4555-8555-555555555555');
+    fs.mkdirSync(marker, { recursive: true });
+    fs.utimesSync(marker, now, now);
+
+    claudeProcess(100, ['node', '/usr/lib/node_modules/@anthropic-ai/claude-code/cli.js'], '/work/a', started, [open]);
+    claudeProcess(101, ['claude', '--resume', 'bbbbbbbb-2222-4222-8222-222222222222'], '/elsewhere', started);
+    claudeProcess(102, ['claude', '--continue'], '/work/c', started);
+    claudeProcess(103, ['claude'], '/work/d', started);
+    claudeProcess(104, ['vim', 'claude.md'], '/work/e', started);
+
+    const active = await ActiveSessions.detect({ claudeDir, procDir, now });
+
+    expect(active.processes.map(p => p.pid).sort()).toEqual([100, 101, 102, 103]);
+    expect(active.reasonForSession('aaaaaaaa-1111-4111-8111-111111111111')).toBe('open in Claude Code pid 100');
+    expect(active.reasonForSession('bbbbbbbb-2222-4222-8222-222222222222')).toBe('resumed by Claude Code pid 101');
+    expect(active.reasonForSession('cccccccc-3333-4333-8333-333333333333')).toBe('continued by Claude Code pid 102');
+    expect(active.reasonForSession('cccccccc-4444-4444-8444-444444444444')).toBeNull();
+    expect(active.reasonForSession('dddddddd-5555-4555-8555-555555555555')).toBe('session-env marker created by Claude Code pid 103');
+  });
+
+  test('should fall back to the last 24 hours without /proc', async () => {
+    session('-work-app', 'recent', new Date(now.getTime() - 60 * 60 * 1000));
+    session('-work-app', 'old', new Date(now.getTime() - 2 * DAY));
+
+    const active = await ActiveSessions.detect({ claudeDir, procDir: path.join(tempDir, 'missing'), now });
+
+    expect(active.method).toBe('mtime');
+    expect(active.activeSessionIds).toEqual(['recent']);
+  });
+});
+
+describe('isClaudeCommand', () => {
+  test('should match the claude binary and node running the package only', () => {
+    expect(isClaudeCommand(['/home/me/.local/bin/claude', '--resume'])).toBe(true);
+    expect(isClaudeCommand(['node', '/opt/node_modules/@anthropic-ai/claude-code/cli.js'])).toBe(true);
+    expect(isClaudeCommand(['node', '/opt/cch/dist/index.js', 'cache', 'clean'])).toBe(false);
+    expect(isClaudeCommand(['cat', 'claude'])).toBe(false);
+  });
+});
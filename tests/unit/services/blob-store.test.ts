@@ -0,0 +1,132 @@
+/**
+ * Tests for the content-addressed blob store
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { BlobStore, isBlobReference, parseBlobReference } from '../../../src/services/blob-store';
+import { getBaseDir, getBlobStoreDir, getSessionArchiveDir } from '../../../src/core/paths';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as zlib from 'zlib';
+
+describe('BlobStore', () => {
+  let tempDir: string;
+  const storeDir = getBlobStoreDir(true);
+  const screenshot = 'data:image/png;base64,' + 'A'.repeat(4096);
+  const selectLarge = (text: string) => text.length > 1024;
+
+  function writeSession(name: string, lines: any[]): string {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+    return filePath;
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-blobs-'));
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  test('stores identical payloads once', async () => {
+    const store = new BlobStore(true);
+    const message = { message: { content: [{ type: 'text', text: screenshot }, { type: 'text', text: 'small' }] } };
+
+    const first = await store.dedupValue(message, selectLarge);
+    const second = await store.dedupValue(message, selectLarge);
+
+    expect(first.stored).toHaveLength(1);
+    expect(first.stored[0].added).toBe(true);
+    expect(second.stored[0].added).toBe(false);
+    expect(isBlobReference(first.value.message.content[0].text)).toBe(true);
+    expect(first.value.message.content[1].text).toBe('small');
+    expect(await store.getStats()).toEqual({ blobs: 1, size: screenshot.length });
+  });
+
+  test('rehydrates a deduplicated session to the original content', async () => {
+    const store = new BlobStore(true);
+    const lines = [
+      { type: 'user', message: { content: [{ type: 'image', source: { type: 'base64', data: screenshot } }] } },
+      { type: 'assistant', message: { content: 'done' } }
+    ];
+    const deduped = await Promise.all(lines.map(async line => (await store.dedupValue(line, selectLarge)).value));
+    // The image block is replaced whole, so a resumed session never sends a marker as image data
+    expect(deduped[0].message.content[0].type).toBe('text');
+    expect(isBlobReference(deduped[0].message.content[0].text)).toBe(true);
+    const sessionPath = writeSession('session.jsonl', deduped);
+
+    const preview = await store.rehydrateSession(sessionPath, { dryRun: true });
+    expect(preview.restored).toBe(1);
+    expect(fs.readFileSync(sessionPath, 'utf-8')).not.toContain(screenshot);
+
+    const result = await store.rehydrateSession(sessionPath);
+    const restored = fs.readFileSync(sessionPath, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(result.restored).toBe(1);
+    expect(result.newSize).toBe(fs.statSync(sessionPath).size);
+    expect(restored).toEqual(lines);
+  });
+
+  test('stores text payloads unmodified so rehydrating is lossless', async () => {
+    const store = new BlobStore(true);
+    const token = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+    const output = `export GITHUB_TOKEN=${token}\n` + 'build log line\n'.repeat(200);
+
+    const { value } = await store.dedupValue({ text: output }, selectLarge);
+    const sha256 = parseBlobReference(value.text)!;
+    expect(fs.readFileSync(path.join(storeDir, sha256), 'utf-8')).toBe(output);
+
+    const rehydrated = await store.rehydrateValue(value);
+    expect(rehydrated.value.text).toBe(output);
+  });
+
+  test('prunes blobs that no session or archive references', async () => {
+    const store = new BlobStore(true);
+    const projectDir = path.join(getBaseDir(true), '.claude', 'projects', '-blob-prune-test');
+    const archiveDir = path.join(getSessionArchiveDir(true), '-blob-prune-test');
+    try {
+      const inSession = await store.dedupValue({ text: screenshot }, selectLarge);
+      const inArchive = await store.dedupValue({ text: 'B'.repeat(4096) }, selectLarge);
+      const orphan = await store.put('C'.repeat(4096));
+
+      fs.mkdirSync(projectDir, { recursive: true });
+      fs.writeFileSync(path.join(projectDir, '4d1c2b9e-7f3a-4c8e-9b2d-6a5e3f1c0d7b.jsonl'), JSON.stringify(inSession.value) + '\n');
+      fs.mkdirSync(archiveDir, { recursive: true });
+      fs.writeFileSync(path.join(archiveDir, 'run.sessions.gz'), zlib.gzipSync(JSON.stringify(inArchive.value) + '\n'));
+
+      // Blobs written after the prune started are kept
+      const earlier = new Date(Date.now() - 60_000);
+      for (const entry of fs.readdirSync(storeDir)) {
+        fs.utimesSync(path.join(storeDir, entry), earlier, earlier);
+      }
+
+      const preview = await store.prune({ dryRun: true });
+      expect(preview).toEqual({ referenced: 2, unreferenced: [orphan.sha256], freed: 4096 });
+      expect(fs.existsSync(path.join(storeDir, orphan.sha256))).toBe(true);
+
+      await store.prune();
+      expect(fs.existsSync(path.join(storeDir, orphan.sha256))).toBe(false);
+      expect(await store.getStats()).toEqual({ blobs: 2, size: screenshot.length + 4096 });
+    } finally {
+      fs.rmSync(projectDir, { recursive: true, force: true });
+      fs.rmSync(archiveDir, { recursive: true, force: true });
+    }
+  });
+
+  test('leaves references to missing or corrupt blobs in place', async () => {
+    const store = new BlobStore(true);
+    const { value } = await store.dedupValue({ text: screenshot }, selectLarge);
+    const sha256 = parseBlobReference(value.text)!;
+    fs.writeFileSync(path.join(storeDir, sha256), 'tampered');
+    const sessionPath = writeSession('session.jsonl', [value]);
+
+    const result = await store.rehydrateSession(sessionPath);
+
+    expect(result.restored).toBe(0);
+    expect(result.missing).toEqual([sha256]);
+    expect(JSON.parse(fs.readFileSync(sessionPath, 'utf-8'))).toEqual(value);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for cache size budget selection
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { parseSize, selectForBudget } from '../../../src/services/cache-budget';
+import type { CleanupItem } from '../../../src/services/cache-cleaner';
+
+function item(name: string, size: number, safety: CleanupItem['safety'] = 'safe'): CleanupItem {
+  return { type: 'project', path: `/cache/${name}`, size, reason: name, safety };
+}
+
+describe('parseSize', () => {
+  test('should accept units with or without B and default to megabytes', () => {
+    expect(parseSize('500MB')).toBe(500 * 1024 * 1024);
+    expect(parseSize('1.5 gb')).toBe(1.5 * 1024 * 1024 * 1024);
+    expect(parseSize('200k')).toBe(200 * 1024);
+    expect(parseSize('750')).toBe(750 * 1024 * 1024);
+  });
+
+  test('should reject anything else', () => {
+    expect(() => parseSize('lots')).toThrow('Invalid size "lots"');
+    expect(() => parseSize('-5MB')).toThrow('Invalid size');
+  });
+});
+
+describe('selectForBudget', () => {
+  test('should take candidates in ranking order until enough is freed', () => {
+    const candidates = [item('a', 10), item('b', 20), item('c', 30), item('d', 40)];
+
+    expect(selectForBudget(candidates, 25).map(i => i.reason)).toEqual(['a', 'b']);
+  });
+
+  test('should drop earlier picks that the last one makes unnecessary', () => {
+    const candidates = [item('a', 5), item('b', 10), item('c', 100)];
+
+    expect(selectForBudget(candidates, 50).map(i => i.reason)).toEqual(['c']);
+  });
+
+  test('should keep preferred picks over later ones when both are enough', () => {
+    const candidates = [item('a', 30), item('b', 10), item('c', 30)];
+
+    expect(selectForBudget(candidates, 55).map(i => i.reason)).toEqual(['a', 'c']);
+  });
+
+  test('should return everything when the budget cannot be reached, and nothing when already under it', () => {
+    const candidates = [item('a', 10), item('b', 20)];
+
+    expect(selectForBudget(candidates, 100)).toHaveLength(2);
+    expect(selectForBudget(candidates, 0)).toEqual([]);
+  });
+});
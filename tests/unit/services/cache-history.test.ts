@@ -0,0 +1,83 @@
+/**
+ * Tests for cache history snapshots and trend calculation
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import {
+  CacheSnapshot,
+  computeTrend,
+  loadSnapshots,
+  recordSnapshot
+} from '../../../src/services/cache-history';
+import { getCacheHistoryPath } from '../../../src/core/paths';
+import * as fs from 'fs';
+
+const MB = 1024 * 1024;
+
+function snapshot(day: number, totalMB: number, projects: Record<string, number> = {}): CacheSnapshot {
+  return {
+    takenAt: new Date(Date.UTC(2026, 0, 1 + day)).toISOString(),
+    totalSize: totalMB * MB,
+    sessions: 0,
+    categories: { projects: totalMB * MB },
+    projects
+  };
+}
+
+describe('computeTrend', () => {
+  test('should rank projects by growth between the first and last snapshot', () => {
+    const trend = computeTrend([
+      snapshot(0, 100, { '/a': 10 * MB, '/b': 50 * MB }),
+      snapshot(10, 130, { '/a': 40 * MB, '/b': 45 * MB, '/c': 5 * MB })
+    ])!;
+
+    expect(trend.spanDays).toBe(10);
+    expect(trend.growthPerDay).toBeCloseTo(3 * MB);
+    expect(trend.projects.map(p => [p.name, p.change])).toEqual([['/a', 30 * MB], ['/c', 5 * MB], ['/b', -5 * MB]]);
+  });
+
+  test('should project when a threshold will be crossed', () => {
+    const trend = computeTrend([snapshot(0, 100), snapshot(5, 150), snapshot(10, 200)], { threshold: 300 * MB })!;
+
+    expect(trend.projection!.exceeded).toBe(false);
+    expect(trend.projection!.reachedAt!.toISOString()).toBe(snapshot(20, 0).takenAt);
+    expect(computeTrend([snapshot(0, 200), snapshot(10, 100)], { threshold: 300 * MB })!.projection!.reachedAt).toBeUndefined();
+  });
+
+  test('should only use snapshots inside the window and need at least two', () => {
+    const snapshots = [snapshot(0, 100), snapshot(20, 200), snapshot(29, 210)];
+    const now = new Date(snapshot(30, 0).takenAt);
+
+    expect(computeTrend(snapshots, { days: 15, now })!.first.totalSize).toBe(200 * MB);
+    expect(computeTrend(snapshots, { days: 5, now })).toBeNull();
+  });
+});
+
+describe('recordSnapshot', () => {
+  const historyPath = getCacheHistoryPath(true);
+
+  beforeEach(() => {
+    fs.rmSync(historyPath, { force: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(historyPath, { force: true });
+  });
+
+  test('should append, but replace a snapshot taken earlier in the same hour', () => {
+    recordSnapshot(snapshot(0, 100), true);
+    recordSnapshot(snapshot(1, 110), true);
+    recordSnapshot({ ...snapshot(1, 120), takenAt: new Date(Date.parse(snapshot(1, 0).takenAt) + 10 * 60 * 1000).toISOString() }, true);
+
+    expect(loadSnapshots(true).map(s => s.totalSize / MB)).toEqual([100, 120]);
+  });
+
+  test('should keep one snapshot per hour when runs are minutes apart', () => {
+    const start = Date.parse(snapshot(0, 0).takenAt);
+    for (let minute = 0; minute < 180; minute += 20) {
+      recordSnapshot({ ...snapshot(0, minute), takenAt: new Date(start + minute * 60 * 1000).toISOString() }, true);
+    }
+
+    expect(loadSnapshots(true).map(s => s.totalSize / MB)).toEqual([40, 100, 160]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for debug-log, file-history, todo and shell-snapshot retention
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import {
+  applyRetentionRule,
+  listRetentionEntries,
+  findExpiredEntries,
+  RetentionEntry
+} from '../../../src/services/cache-retention';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const DAY = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+const now = new Date('2026-06-01T00:00:00Z');
+
+function entry(name: string, ageDays: number, size: number = 1): RetentionEntry {
+  return { path: `/cache/${name}`, size, modified: new Date(now.getTime() - ageDays * DAY) };
+}
+
+describe('applyRetentionRule', () => {
+  test('should expire entries past the max age but keep the newest N', () => {
+    const entries = [entry('a', 1), entry('b', 20), entry('c', 40), entry('d', 60)];
+
+    const expired = applyRetentionRule(entries, { maxAgeDays: 14, keepLast: 2 }, now);
+
+    expect(expired.map(e => e.path)).toEqual(['/cache/d', '/cache/c']);
+    expect(expired[0].reason).toBe('Older than 14 days');
+  });
+
+  test('should expire the oldest entries until the cache fits the size limit', () => {
+    const entries = [entry('a', 1, 40 * MB), entry('b', 2, 40 * MB), entry('c', 3, 40 * MB), entry('d', 4, 40 * MB)];
+
+    const expired = applyRetentionRule(entries, { maxTotalMB: 100, keepLast: 1 }, now);
+
+    expect(expired.map(e => e.path)).toEqual(['/cache/d', '/cache/c']);
+    expect(expired[0].reason).toBe('Over the 100 MB limit');
+  });
+
+  test('should never expire the kept entries, even over the size limit', () => {
+    const entries = [entry('a', 100, 300 * MB), entry('b', 200, 300 * MB)];
+
+    expect(applyRetentionRule(entries, { maxAgeDays: 7, maxTotalMB: 100, keepLast: 2 }, now)).toEqual([]);
+  });
+});
+
+describe('listRetentionEntries', () => {
+  let claudeDir: string;
+
+  beforeEach(() => {
+    claudeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-retention-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(claudeDir, { recursive: true, force: true });
+  });
+
+  test('should measure session directories and skip symlinks', async () => {
+    const historyDir = path.join(claudeDir, 'file-history', 'session-1');
+    fs.mkdirSync(historyDir, { recursive: true });
+    fs.writeFileSync(path.join(historyDir, 'a@v1'), '1234');
+    fs.writeFileSync(path.join(historyDir, 'a@v2'), '123456');
+
+    const debugDir = path.join(claudeDir, 'debug');
+    fs.mkdirSync(debugDir);
+    fs.writeFileSync(path.join(debugDir, 'session-1.txt'), 'log');
+    fs.symlinkSync(path.join(debugDir, 'session-1.txt'), path.join(debugDir, 'latest'));
+
+    const [history] = await listRetentionEntries(path.join(claudeDir, 'file-history'));
+    expect(history).toMatchObject({ path: path.join(claudeDir, 'file-history', 'session-1'), size: 10 });
+
+    const debug = await listRetentionEntries(debugDir);
+    expect(debug.map(e => path.basename(e.path))).toEqual(['session-1.txt']);
+  });
+
+  test('should find expired entries of a missing cache as none', async () => {
+    expect(await findExpiredEntries(claudeDir, 'shell-snapshots', { maxAgeDays: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for project path encoding and resolution
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import {
+  encodeProjectPath,
+  findProjectPathsOnDisk,
+  resolveProjectPath
+} from '../../../src/services/project-paths';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('encodeProjectPath', () => {
+  test('should replace everything but letters and digits with a dash', () => {
+    expect(encodeProjectPath('/Users/merlin/_dev/ai-engine')).toBe('-Users-merlin--dev-ai-engine');
+    expect(encodeProjectPath('/home/me/.config/my app')).toBe('-home-me--config-my-app');
+  });
+});
+
+describe('resolveProjectPath', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'cch-paths-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should find a hyphenated project on disk instead of splitting it', () => {
+    const project = path.join(tempDir, '_dev', 'ai-engine');
+    fs.mkdirSync(project, { recursive: true });
+
+    const resolved = resolveProjectPath(encodeProjectPath(project));
+
+    expect(resolved).toEqual({ path: project, exists: true, confidence: 'certain', source: 'disk' });
+  });
+
+  test('should report several directories with the same encoding as likely', () => {
+    fs.mkdirSync(path.join(tempDir, 'ai-engine'));
+    fs.mkdirSync(path.join(tempDir, 'ai', 'engine'), { recursive: true });
+
+    expect(findProjectPathsOnDisk(encodeProjectPath(path.join(tempDir, 'ai-engine')))).toHaveLength(2);
+    expect(resolveProjectPath(encodeProjectPath(path.join(tempDir, 'ai-engine'))).confidence).toBe('likely');
+  });
+
+  test('should trust a session cwd, including one below the project root', () => {
+    const project = path.join(tempDir, 'gone-project');
+    const encoded = encodeProjectPath(project);
+
+    const resolved = resolveProjectPath(encoded, { sessionCwds: [path.join(project, 'src', 'lib')] });
+
+    expect(resolved).toEqual({ path: project, exists: false, confidence: 'certain', source: 'session' });
+  });
+
+  test('should fall back to ~/.claude.json keys and otherwise admit it does not know', () => {
+    const project = path.join(tempDir, 'gone_project');
+    const encoded = encodeProjectPath(project);
+
+    expect(resolveProjectPath(encoded, { knownPaths: ['/elsewhere', project] }).source).toBe('config');
+
+    const unknown = resolveProjectPath(encoded);
+    expect(unknown.exists).toBe(false);
+    expect(unknown.confidence).toBe('unknown');
+  });
+
+  test('should not call a project orphaned when another directory has its encoding', () => {
+    const recorded = path.join(tempDir, 'my_app');
+    const existing = path.join(tempDir, 'my-app');
+    fs.mkdirSync(existing);
+
+    const resolved = resolveProjectPath(encodeProjectPath(recorded), { sessionCwds: [recorded] });
+
+    expect(resolved).toEqual({ path: existing, exists: true, confidence: 'likely', source: 'disk' });
+  });
+});
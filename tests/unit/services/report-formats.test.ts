@@ -0,0 +1,92 @@
+/**
+ * Tests for JSON, SARIF and Markdown report output
+ */
+
+import { describe, expect, test } from 'bun:test';
+import {
+  parseReportFormat,
+  toCacheSecretsJson,
+  toCacheSecretsSarif,
+  toCacheSecretsMarkdown,
+  REPORT_SCHEMA_VERSION
+} from '../../../src/services/report-formats';
+import { CacheSecretScanResult, DetectedSecret } from '../../../src/services/secret-detector';
+
+const RAW_VALUE = 'hunter2-s3cret|value';
+
+function scanResult(): CacheSecretScanResult {
+  const secret: DetectedSecret = {
+    type: 'Password',
+    value: RAW_VALUE,
+    maskedValue: 'hun**************lue',
+    location: '/home/dev/.claude/projects/app/session.jsonl',
+    confidence: 'high',
+    category: 'password',
+    context: `DB_PASSWORD=${RAW_VALUE}`,
+    lineNumber: 12,
+    jsonPath: 'message.content[0].text'
+  };
+
+  return {
+    totalSecrets: 1,
+    highConfidenceCount: 1,
+    results: [{ location: secret.location, type: 'session', secrets: [secret], lineNumber: 12 }],
+    locationBreakdown: { sessions: 1, shellSnapshots: 0, debugLogs: 0, fileHistory: 0, projectFiles: 0 },
+    summary: '',
+    indexStats: { hits: 0, misses: 1 }
+  };
+}
+
+describe('report formats', () => {
+  test('should validate --format values', () => {
+    expect(parseReportFormat(undefined)).toBe('text');
+    expect(parseReportFormat('sarif')).toBe('sarif');
+    expect(() => parseReportFormat('xml')).toThrow('Use one of: text, json, sarif, markdown');
+    expect(() => parseReportFormat(true)).toThrow();
+  });
+
+  test('should serialize cache findings without raw values or context', () => {
+    const json = toCacheSecretsJson(scanResult());
+
+    expect(json.schemaVersion).toBe(REPORT_SCHEMA_VERSION);
+    expect(json.kind).toBe('cache-secrets');
+    expect(json.files[0].findings[0]).toEqual({
+      type: 'Password',
+      category: 'password',
+      confidence: 'high',
+      maskedValue: 'hun**************lue',
+      location: '/home/dev/.claude/projects/app/session.jsonl',
+      lineNumber: 12,
+      jsonPath: 'message.content[0].text'
+    });
+    expect(JSON.stringify(json)).not.toContain('s3cret');
+  });
+
+  test('should build SARIF results with file and line locations', () => {
+    const sarif = toCacheSecretsSarif(scanResult());
+    const run = sarif.runs[0];
+    const result = run.results[0];
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.rules).toEqual([{ id: 'secret/password', name: 'Password', shortDescription: { text: 'Password' } }]);
+    expect(result.level).toBe('error');
+    expect(result.locations[0].physicalLocation?.artifactLocation.uri).toBe('file:///home/dev/.claude/projects/app/session.jsonl');
+    expect(result.locations[0].physicalLocation?.region?.startLine).toBe(12);
+    expect(result.partialFingerprints?.['secretLocation/v1']).toMatch(/^[0-9a-f]{32}$/);
+    expect(JSON.stringify(sarif)).not.toContain('s3cret');
+
+    // The fingerprint must not depend on the value, or short secrets could be brute-forced from it
+    const changed = scanResult();
+    changed.results[0].secrets[0].value = 'another-value';
+    const rerun = toCacheSecretsSarif(changed).runs[0].results[0];
+    expect(rerun.partialFingerprints).toEqual(result.partialFingerprints);
+  });
+
+  test('should render findings as a Markdown table', () => {
+    const markdown = toCacheSecretsMarkdown(scanResult());
+
+    expect(markdown).toContain('# Claude Code Cache Secret Scan');
+    expect(markdown).toContain('| high | Password | `hun**************lue` | /home/dev/.claude/projects/app/session.jsonl:12 (message.content[0].text) |  |');
+    expect(markdown).not.toContain('s3cret');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for the cache retention policy, gc scheduling and the gc lock
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import {
+  validateRetentionPolicy,
+  policyToCleanOptions,
+  serializeDefaultPolicy
+} from '../../../src/services/retention-policy';
+import { resolveProjectOverride, DEFAULT_RETENTION_RULES } from '../../../src/services/cache-retention';
+import { buildCronEntry, updateCrontab } from '../../../src/services/gc-schedule';
+import { acquireLock } from '../../../src/utils/lockfile';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('validateRetentionPolicy', () => {
+  test('should fill categories left out with the defaults and drop disabled ones', () => {
+    const { policy, errors } = validateRetentionPolicy({
+      projects: { staleDays: 30 },
+      debug: { maxAgeDays: 3 },
+      'file-history': false
+    });
+
+    expect(errors).toEqual([]);
+    expect(policy.projects).toEqual({ orphaned: true, staleDays: 30 });
+    expect(policy.caches.debug).toEqual({ maxAgeDays: 3, maxTotalMB: undefined, keepLast: undefined });
+    expect(policy.caches['file-history']).toBeUndefined();
+    expect(policy.caches.todos).toEqual(DEFAULT_RETENTION_RULES.todos);
+    expect(policy.trashMaxAgeDays).toBe(30);
+  });
+
+  test('should report every invalid field', () => {
+    const { errors } = validateRetentionPolicy({
+      projects: { orphaned: 'yes', staleDays: -1 },
+      todos: { keepLast: 'all' },
+      protect: '~/work',
+      overrides: [{ staleDays: 10 }]
+    });
+
+    expect(errors).toEqual([
+      '"projects.orphaned" must be true or false',
+      '"projects.staleDays" must be a non-negative number',
+      '"todos.keepLast" must be a non-negative number',
+      '"protect" must be an array of project path globs',
+      'overrides[0]: "pattern" must be a project path glob'
+    ]);
+  });
+
+  test('should round-trip the default policy file', () => {
+    const { policy, errors } = validateRetentionPolicy(JSON.parse(serializeDefaultPolicy()));
+
+    expect(errors).toEqual([]);
+    expect(policy.caches).toEqual(DEFAULT_RETENTION_RULES);
+  });
+
+  test('should turn protected globs into overrides that win over limits', () => {
+    const { policy } = validateRetentionPolicy({
+      protect: ['/work/client-*'],
+      overrides: [{ pattern: '/work/**', staleDays: 180 }, { pattern: '/work/client-a', staleDays: 7 }]
+    });
+    const options = policyToCleanOptions(policy);
+
+    expect(resolveProjectOverride('/work/client-a', options.projectOverrides)).toEqual({ staleDays: 7, protected: true });
+    expect(resolveProjectOverride('/work/tools/cli', options.projectOverrides)).toEqual({ staleDays: 180 });
+    expect(resolveProjectOverride('/home/me/app', options.projectOverrides)).toEqual({});
+  });
+});
+
+describe('gc schedule', () => {
+  test('should replace an earlier cch entry and keep other cron jobs', () => {
+    const entry = buildCronEntry('/usr/bin/node /opt/cch/index.js cache gc --execute', 'daily', '/home/me/.cch/cache-gc.log');
+    expect(entry).toBe('17 3 * * * /usr/bin/node /opt/cch/index.js cache gc --execute >> /home/me/.cch/cache-gc.log 2>&1 # cch-cache-gc');
+
+    const crontab = `0 * * * * backup.sh\n5 3 * * * old cache gc # cch-cache-gc\n`;
+    expect(updateCrontab(crontab, entry)).toBe(`0 * * * * backup.sh\n${entry}\n`);
+    expect(updateCrontab(crontab)).toBe('0 * * * * backup.sh\n');
+  });
+});
+
+describe('acquireLock', () => {
+  let tempDir: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-lock-'));
+    lockPath = path.join(tempDir, 'cache-gc.lock');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should refuse a second holder until released', () => {
+    const first = acquireLock(lockPath);
+    expect(first.lock).not.toBeNull();
+
+    const second = acquireLock(lockPath);
+    expect(second.lock).toBeNull();
+    expect(second.holder!.pid).toBe(process.pid);
+
+    first.lock!.release();
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(acquireLock(lockPath).lock).not.toBeNull();
+  });
+
+  test('should take over a lock left by a process that is gone', () => {
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: 2 ** 22 + 1, acquiredAt: new Date().toISOString() }));
+
+    const { lock } = acquireLock(lockPath);
+
+    expect(lock).not.toBeNull();
+    expect(JSON.parse(fs.readFileSync(lockPath, 'utf-8')).pid).toBe(process.pid);
+  });
+});
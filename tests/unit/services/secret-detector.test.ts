@@ -0,0 +1,264 @@
+/**
+ * Tests for Secret Detector
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { SecretDetector } from '../../../src/services/secret-detector';
+import { validateSecretRules, hashSecretValue } from '../../../src/services/secret-rules';
+import { findClaudeFiles } from '../../../src/services/claude-files';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const GITHUB_TOKEN = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+
+describe('SecretDetector', () => {
+  let detector: SecretDetector;
+  let tempDir: string;
+
+  beforeEach(() => {
+    detector = new SecretDetector();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-secrets-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('scanText', () => {
+    test('should detect high confidence tokens', () => {
+      const secrets = detector.scanText(`export GITHUB_TOKEN=${GITHUB_TOKEN}`, 'test');
+      const github = secrets.find(s => s.type === 'GitHub Token');
+      expect(github).toBeDefined();
+      expect(github!.confidence).toBe('high');
+      expect(github!.maskedValue).not.toContain(GITHUB_TOKEN);
+    });
+
+    test('should ignore known placeholder values', () => {
+      const secrets = detector.scanText('api_key=your_api_key_here_please', 'test');
+      expect(secrets.length).toBe(0);
+    });
+  });
+
+  describe('entropy detection', () => {
+    const RANDOM_BASE64 = 'xK9mQ2vL7pR4tW8yZ3nB6cF1hJ5sD0gA';
+    const RANDOM_HEX = '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822c';
+
+    test('should flag random tokens no pattern recognises', () => {
+      const secrets = detector.scanText(`internal_value: ${RANDOM_BASE64}`, 'test', 'session');
+      const entropy = secrets.find(s => s.value === RANDOM_BASE64);
+      expect(entropy).toBeDefined();
+      expect(entropy!.type).toBe('High Entropy Base64 String');
+      expect(entropy!.confidence).toBe('medium');
+      expect(entropy!.category).toBe('entropy');
+
+      const hex = detector.scanText(`value ${RANDOM_HEX}`, 'test', 'session');
+      expect(hex.some(s => s.type === 'High Entropy Hex String')).toBe(true);
+    });
+
+    test('should ignore low-entropy strings, UUIDs, git SHAs, paths and labelled hashes', () => {
+      const text = [
+        'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+        'session 3f2504e0-4f89-11d3-9a0c-0305e82c3301',
+        'fixed in e83c5163316f89bfbde7d9ab23ca2e25604af290',
+        '/Users/someone/Projects/claude-code-helper/src/services',
+        `sha1 ${RANDOM_HEX}`
+      ].join('\n');
+      expect(detector.scanText(text, 'test', 'session')).toEqual([]);
+    });
+
+    test('should not duplicate pattern matches', () => {
+      const secrets = detector.scanText(GITHUB_TOKEN, 'test', 'session');
+      expect(secrets.map(s => s.type)).toEqual(['GitHub Token']);
+    });
+
+    test('should be disabled for configured location types', () => {
+      expect(detector.scanText(RANDOM_BASE64, 'Global Configuration', 'config')).toEqual([]);
+
+      const { rules, errors } = validateSecretRules({ entropy: { disabledLocations: ['debug-log'] } });
+      expect(errors).toEqual([]);
+      const custom = new SecretDetector({ rules });
+      expect(custom.scanText(RANDOM_BASE64, 'debug/log.txt', 'debug-log')).toEqual([]);
+      expect(custom.scanText(RANDOM_BASE64, 'Global Configuration', 'config').length).toBe(1);
+    });
+
+    test('should honor configured thresholds', () => {
+      const { rules, errors } = validateSecretRules({
+        entropy: { base64: { threshold: 5.5 }, hex: { minLength: 64 } }
+      });
+      expect(errors).toEqual([]);
+
+      const custom = new SecretDetector({ rules });
+      expect(custom.scanText(RANDOM_BASE64, 'test', 'session')).toEqual([]);
+      expect(custom.scanText(RANDOM_HEX, 'test', 'session')).toEqual([]);
+
+      const invalid = validateSecretRules({ entropy: { hex: { threshold: 9 }, disabledLocations: ['nowhere'] } });
+      expect(invalid.errors.length).toBe(2);
+    });
+  });
+
+  describe('scanSessionFile', () => {
+    test('should report line number and JSON path of each hit', async () => {
+      const sessionPath = path.join(tempDir, 'session.jsonl');
+      const lines = [
+        { type: 'user', message: { role: 'user', content: 'hello there' } },
+        {
+          type: 'assistant',
+          message: {
+            role: 'assistant',
+            content: [
+              { type: 'text', text: 'Looking at it' },
+              { type: 'tool_use', name: 'Bash', input: { command: 'ls' } },
+              { type: 'text', text: `The token is ${GITHUB_TOKEN}` }
+            ]
+          }
+        }
+      ];
+      fs.writeFileSync(sessionPath, lines.map(l => JSON.stringify(l)).join('\n') + '\n');
+
+      const result = await detector.scanSessionFile(sessionPath, 'project/session.jsonl');
+      expect(result).not.toBeNull();
+      expect(result!.type).toBe('session');
+      expect(result!.lineNumber).toBe(2);
+
+      const github = result!.secrets.find(s => s.type === 'GitHub Token');
+      expect(github).toBeDefined();
+      expect(github!.lineNumber).toBe(2);
+      expect(github!.jsonPath).toBe('message.content[2].text');
+      expect(github!.location).toBe('project/session.jsonl');
+    });
+
+    test('should scan raw text of lines that are not valid JSON', async () => {
+      const sessionPath = path.join(tempDir, 'broken.jsonl');
+      fs.writeFileSync(sessionPath, `{"ok":true}\n{"truncated": "${GITHUB_TOKEN}\n`);
+
+      const result = await detector.scanSessionFile(sessionPath);
+      expect(result).not.toBeNull();
+      const github = result!.secrets.find(s => s.type === 'GitHub Token');
+      expect(github!.lineNumber).toBe(2);
+      expect(github!.jsonPath).toBeUndefined();
+    });
+
+    test('should return null for sessions without secrets', async () => {
+      const sessionPath = path.join(tempDir, 'clean.jsonl');
+      fs.writeFileSync(sessionPath, JSON.stringify({ message: { content: 'nothing to see' } }) + '\n');
+
+      const result = await detector.scanSessionFile(sessionPath);
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('project files', () => {
+    test('should discover settings, .mcp.json and CLAUDE.md files in a project', async () => {
+      fs.mkdirSync(path.join(tempDir, '.claude'));
+      fs.writeFileSync(path.join(tempDir, '.claude', 'settings.local.json'), '{}');
+      fs.writeFileSync(path.join(tempDir, '.mcp.json'), '{}');
+      fs.writeFileSync(path.join(tempDir, 'CLAUDE.md'), '# Notes');
+      fs.writeFileSync(path.join(tempDir, 'README.md'), '# Not a Claude file');
+
+      const files = await findClaudeFiles({ projectDirs: [tempDir], knownProjects: false, testMode: true });
+      const found = files.filter(f => f.project === tempDir).map(f => [path.relative(tempDir, f.path), f.kind]);
+
+      expect(found).toEqual([
+        [path.join('.claude', 'settings.local.json'), 'settings'],
+        ['.mcp.json', 'mcp'],
+        ['CLAUDE.md', 'memory']
+      ]);
+    });
+
+    test('should report the key path and line of secrets in .mcp.json env blocks', async () => {
+      const mcpPath = path.join(tempDir, '.mcp.json');
+      const clientSecret = 'abcdefghijklmnopqrstuvwxyz123456';
+      fs.writeFileSync(mcpPath, JSON.stringify({
+        mcpServers: {
+          github: {
+            command: 'npx',
+            env: { GITHUB_TOKEN: GITHUB_TOKEN, CLIENT_SECRET: clientSecret }
+          }
+        }
+      }, null, 2));
+
+      const secrets = await detector.scanProjectFile({ path: mcpPath, kind: 'mcp' });
+
+      const github = secrets.find(s => s.type === 'GitHub Token');
+      expect(github!.jsonPath).toBe('mcpServers.github.env.GITHUB_TOKEN');
+      expect(github!.lineNumber).toBe(6);
+
+      // Only matched because the key is scanned with its value - the finding is the value alone
+      const generic = secrets.find(s => s.type === 'Generic Secret');
+      expect(generic!.value).toBe(clientSecret);
+      expect(generic!.jsonPath).toBe('mcpServers.github.env.CLIENT_SECRET');
+    });
+
+    test('should scan CLAUDE.md line by line', async () => {
+      const memoryPath = path.join(tempDir, 'CLAUDE.md');
+      fs.writeFileSync(memoryPath, `# Project notes\n\nUse ${GITHUB_TOKEN} for the API\n`);
+
+      const secrets = await detector.scanProjectFile({ path: memoryPath, kind: 'memory' });
+      const github = secrets.find(s => s.type === 'GitHub Token');
+      expect(github!.lineNumber).toBe(3);
+      expect(github!.jsonPath).toBeUndefined();
+    });
+  });
+
+  describe('user-defined rules', () => {
+    test('should detect custom patterns', () => {
+      const { rules, errors } = validateSecretRules({
+        patterns: [{ name: 'Acme Live Key', pattern: 'acme_live_[A-Za-z0-9]{16}', category: 'api-key' }]
+      });
+      expect(errors).toEqual([]);
+
+      const custom = new SecretDetector({ rules });
+      const secrets = custom.scanText('key is acme_live_abcdEFGH12345678', 'test');
+      const acme = secrets.find(s => s.type === 'Acme Live Key');
+      expect(acme).toBeDefined();
+      expect(acme!.confidence).toBe('high');
+    });
+
+    test('should skip disabled built-in patterns', () => {
+      const { rules } = validateSecretRules({ disabled: ['GitHub Token'] });
+      const custom = new SecretDetector({ rules });
+
+      expect(custom.getPatterns().some(p => p.name === 'GitHub Token')).toBe(false);
+      expect(custom.scanText(GITHUB_TOKEN, 'test').some(s => s.type === 'GitHub Token')).toBe(false);
+    });
+
+    test('should honor value, hash and path allowlists', () => {
+      const otherToken = 'ghp_' + 'Z9y8X7w6V5u4T3s2R1q0P9o8N7m6L5k4J3i2';
+      const { rules, errors } = validateSecretRules({
+        allowlist: {
+          values: [GITHUB_TOKEN],
+          hashes: [hashSecretValue(otherToken)],
+          paths: ['fixtures/**']
+        }
+      });
+      expect(errors).toEqual([]);
+
+      const custom = new SecretDetector({ rules });
+      expect(custom.scanText(GITHUB_TOKEN, 'test')).toEqual([]);
+      expect(custom.scanText(otherToken, 'test')).toEqual([]);
+
+      const thirdToken = 'ghp_' + 'q1w2e3r4t5y6u7i8o9p0a1s2d3f4g5h6j7k8';
+      expect(custom.scanText(thirdToken, 'fixtures/session.jsonl')).toEqual([]);
+      expect(custom.scanText(thirdToken, 'project/session.jsonl').length).toBeGreaterThan(0);
+    });
+
+    test('should report validation errors without dropping valid entries', () => {
+      const { rules, errors } = validateSecretRules({
+        patterns: [
+          { name: 'Broken', pattern: '([unclosed' },
+          { name: 'Empty Match', pattern: 'x*' },
+          { name: 'Valid', pattern: 'valid_[0-9]{8}', confidence: 'medium' },
+          { pattern: 'no-name' }
+        ],
+        disabled: 'Email Address',
+        allowlist: { hashes: ['not-a-hash'] }
+      });
+
+      expect(rules.patterns.map(p => p.name)).toEqual(['Valid']);
+      expect(errors.length).toBe(5);
+      expect(errors.some(e => e.includes('invalid regular expression'))).toBe(true);
+      expect(errors.some(e => e.includes('"disabled" must be an array'))).toBe(true);
+    });
+  });
+});
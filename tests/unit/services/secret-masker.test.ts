@@ -0,0 +1,171 @@
+/**
+ * Tests for Secret Masker and masking backups
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { SecretMasker } from '../../../src/services/secret-masker';
+import {
+  MaskBackupSession,
+  listMaskBackups,
+  findMaskBackup,
+  restoreMaskBackup,
+  purgeMaskBackup,
+  getMaskBackupsDir
+} from '../../../src/services/mask-backups';
+import { DetectedSecret } from '../../../src/services/secret-detector';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+function secret(value: string, maskedValue: string): DetectedSecret {
+  return {
+    type: 'Password',
+    value,
+    maskedValue,
+    location: 'test',
+    confidence: 'high',
+    category: 'password',
+    context: ''
+  };
+}
+
+describe('SecretMasker', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-masker-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should mask string leaves of every JSONL line and keep them valid', async () => {
+    // The quote is escaped in the raw line, so a raw text replace would miss it
+    const value = 'hunter"2-s3cret';
+    const sessionPath = path.join(tempDir, 'session.jsonl');
+    const lines = [
+      { type: 'user', message: { content: 'nothing here' } },
+      { type: 'assistant', message: { content: [{ type: 'text', text: `password is ${value}\nok` }] } }
+    ];
+    fs.writeFileSync(sessionPath, lines.map(l => JSON.stringify(l)).join('\n') + '\n');
+
+    const masker = new SecretMasker([secret(value, 'hun*********ret')]);
+    const result = await masker.maskFile(sessionPath, 'session');
+
+    expect(result.replacements).toBe(1);
+    const output = fs.readFileSync(sessionPath, 'utf-8');
+    expect(output).not.toContain('s3cret');
+
+    const outputLines = output.trimEnd().split('\n');
+    expect(outputLines.length).toBe(2);
+    expect(outputLines[0]).toBe(JSON.stringify(lines[0]));
+    expect(JSON.parse(outputLines[1]).message.content[0].text).toBe('password is hun*********ret\nok');
+  });
+
+  test('should leave files without matches untouched', async () => {
+    const filePath = path.join(tempDir, 'snapshot.sh');
+    fs.writeFileSync(filePath, 'export PATH=/usr/bin\n');
+    const before = fs.statSync(filePath).mtimeMs;
+
+    const result = await new SecretMasker([secret('not-present-123', 'not*********123')]).maskFile(filePath, 'shell-snapshot');
+
+    expect(result.replacements).toBe(0);
+    expect(fs.statSync(filePath).mtimeMs).toBe(before);
+    expect(fs.readdirSync(tempDir)).toEqual(['snapshot.sh']);
+  });
+
+  test('should keep whole-file JSON documents valid and formatted as they were', async () => {
+    const value = 'p\\ss"word-98765';
+    const filePath = path.join(tempDir, 'history.json');
+    const format = (password: string) => `{\n    "env": { "DB_PASSWORD": ${JSON.stringify(password)} },\n    "list": [1, 2]\n}\n`;
+    fs.writeFileSync(filePath, format(value));
+
+    const result = await new SecretMasker([secret(value, 'p\\s*********765')]).maskFile(filePath, 'file-history');
+
+    expect(result.replacements).toBe(1);
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe(format('p\\s*********765'));
+  });
+
+  test('should fail JSON documents whose secrets the raw text does not match', async () => {
+    const value = 'hunter2-s3cret-98765';
+    const filePath = path.join(tempDir, 'history.json');
+    // The same value spelled with a unicode escape parses identically but can't be found raw
+    const original = `{"a": "${value}", "b": "\\u0068${value.slice(1)}"}`;
+    fs.writeFileSync(filePath, original);
+
+    await expect(new SecretMasker([secret(value, 'hun*********765')]).maskFile(filePath, 'file-history'))
+      .rejects.toThrow('file left unchanged');
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe(original);
+    expect(fs.readdirSync(tempDir)).toEqual(['history.json']);
+  });
+});
+
+describe('mask backups', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-mask-backups-'));
+    fs.rmSync(getMaskBackupsDir(true), { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(getMaskBackupsDir(true), { recursive: true, force: true });
+  });
+
+  test('should restore and purge a masking run', async () => {
+    const value = 'hunter2-s3cret-value';
+    const filePath = path.join(tempDir, 'snapshot.sh');
+    const original = `export DB_PASSWORD=${value}\n`;
+    fs.writeFileSync(filePath, original);
+
+    const backups = await MaskBackupSession.create(true);
+    const entry = await backups.backup(filePath);
+    const { replacements } = await new SecretMasker([secret(value, 'hun**************lue')]).maskFile(filePath, 'shell-snapshot');
+    await backups.complete(entry, replacements);
+    await backups.finish();
+
+    expect(fs.readFileSync(filePath, 'utf-8')).not.toContain(value);
+
+    const runs = await listMaskBackups(true);
+    expect(runs.length).toBe(1);
+    expect(runs[0].files[0].replacements).toBe(1);
+
+    const run = await findMaskBackup('latest', true);
+    const result = await restoreMaskBackup(run!);
+    expect(result.restored).toEqual([filePath]);
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe(original);
+
+    await purgeMaskBackup(run!);
+    expect(await listMaskBackups(true)).toEqual([]);
+  });
+
+  test('should skip files modified since masking unless forced', async () => {
+    const value = 'hunter2-s3cret-value';
+    const filePath = path.join(tempDir, 'session.jsonl');
+    fs.writeFileSync(filePath, JSON.stringify({ text: value }) + '\n');
+
+    const backups = await MaskBackupSession.create(true);
+    const entry = await backups.backup(filePath);
+    const { replacements } = await new SecretMasker([secret(value, 'hun**************lue')]).maskFile(filePath, 'session');
+    await backups.complete(entry, replacements);
+
+    fs.appendFileSync(filePath, JSON.stringify({ text: 'newer message' }) + '\n');
+
+    const run = await findMaskBackup(backups.id, true);
+    const skipped = await restoreMaskBackup(run!);
+    expect(skipped.restored).toEqual([]);
+    expect(skipped.skipped[0].reason).toContain('modified since masking');
+
+    const forced = await restoreMaskBackup(run!, true);
+    expect(forced.restored).toEqual([filePath]);
+    expect(fs.readFileSync(filePath, 'utf-8')).toContain(value);
+  });
+
+  test('should remove empty runs', async () => {
+    const backups = await MaskBackupSession.create(true);
+    await backups.finish();
+    expect(fs.existsSync(backups.path)).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for Secret Scan Index
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { SecretScanIndex } from '../../../src/services/secret-scan-index';
+import { SecretDetector, DetectedSecret } from '../../../src/services/secret-detector';
+import { getSecretScanIndexPath, getFingerprintKeyPath } from '../../../src/core/paths';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const GITHUB_TOKEN = 'ghp_' + 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+
+const FINDING: DetectedSecret = {
+  type: 'GitHub Token',
+  value: GITHUB_TOKEN,
+  maskedValue: 'ghp******************************7R8',
+  location: 'shell-snapshots/snapshot.sh',
+  confidence: 'high',
+  category: 'token',
+  context: `export GITHUB_TOKEN=${GITHUB_TOKEN}`
+};
+
+const INDEXED = {
+  type: 'GitHub Token',
+  maskedValue: 'ghp******************************7R8',
+  location: 'shell-snapshots/snapshot.sh',
+  confidence: 'high',
+  category: 'token',
+  fingerprint: expect.stringMatching(/^[0-9a-f]{32}$/)
+};
+
+describe('SecretScanIndex', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-scan-index-'));
+    filePath = path.join(tempDir, 'snapshot.sh');
+    fs.writeFileSync(filePath, `export GITHUB_TOKEN=${GITHUB_TOKEN}\n`);
+    fs.rmSync(path.dirname(getSecretScanIndexPath(true)), { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(path.dirname(getSecretScanIndexPath(true)), { recursive: true, force: true });
+    fs.rmSync(getFingerprintKeyPath(true), { force: true });
+  });
+
+  test('should reuse unchanged files and keep findings without their values', async () => {
+    const index = SecretScanIndex.load('rules-v1', 'cache', true);
+    expect(await index.lookup(filePath, fs.statSync(filePath))).toBeNull();
+
+    await index.record(filePath, 'shell-snapshot', fs.statSync(filePath), [FINDING]);
+    expect(await index.lookup(filePath, fs.statSync(filePath))).toEqual([INDEXED]);
+
+    const cleanPath = path.join(tempDir, 'clean.sh');
+    fs.writeFileSync(cleanPath, 'echo hello\n');
+    await index.record(cleanPath, 'shell-snapshot', fs.statSync(cleanPath), []);
+    expect(await index.lookup(cleanPath, fs.statSync(cleanPath))).toEqual([]);
+
+    // Files with findings are only read again when the values are needed
+    expect(await index.lookup(filePath, fs.statSync(filePath), true)).toBeNull();
+    expect(await index.lookup(cleanPath, fs.statSync(cleanPath), true)).toEqual([]);
+    expect(index.getStats()).toEqual({ hits: 3, misses: 2 });
+
+    await index.save();
+    const saved = fs.readFileSync(getSecretScanIndexPath(true), 'utf8');
+    expect(saved).not.toContain(GITHUB_TOKEN);
+    expect(saved).not.toContain('export GITHUB_TOKEN');
+  });
+
+  test('should rescan modified files but not touched ones', async () => {
+    const index = SecretScanIndex.load('rules-v1', 'cache', true);
+    await index.record(filePath, 'shell-snapshot', fs.statSync(filePath), [FINDING]);
+
+    // Same content, new mtime - the content hash still matches
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(filePath, later, later);
+    expect(await index.lookup(filePath, fs.statSync(filePath))).toEqual([INDEXED]);
+
+    // Same size, different content
+    fs.writeFileSync(filePath, `export GITHUB_TOKEN=${'x'.repeat(GITHUB_TOKEN.length)}\n`);
+    fs.utimesSync(filePath, new Date(later.getTime() + 60_000), new Date(later.getTime() + 60_000));
+    expect(await index.lookup(filePath, fs.statSync(filePath))).toBeNull();
+  });
+
+  test('should persist entries and drop them when the rules change', async () => {
+    const index = SecretScanIndex.load('rules-v1', 'cache', true);
+    await index.record(filePath, 'shell-snapshot', fs.statSync(filePath), [FINDING]);
+    await index.save();
+
+    expect(fs.statSync(getSecretScanIndexPath(true)).mode & 0o777).toBe(0o600);
+
+    const reloaded = SecretScanIndex.load('rules-v1', 'cache', true);
+    expect(await reloaded.lookup(filePath, fs.statSync(filePath))).toEqual([INDEXED]);
+
+    const changedRules = SecretScanIndex.load('rules-v2', 'cache', true);
+    expect(await changedRules.lookup(filePath, fs.statSync(filePath))).toBeNull();
+  });
+
+  test('should prune entries not seen during a run', async () => {
+    const index = SecretScanIndex.load('rules-v1', 'cache', true);
+    await index.record(filePath, 'shell-snapshot', fs.statSync(filePath), [FINDING]);
+    await index.save();
+
+    const nextRun = SecretScanIndex.load('rules-v1', 'cache', true);
+    nextRun.prune(['session']);
+    await nextRun.save();
+    expect(await SecretScanIndex.load('rules-v1', 'cache', true).lookup(filePath, fs.statSync(filePath))).not.toBeNull();
+
+    nextRun.prune(['shell-snapshot']);
+    await nextRun.save();
+    expect(await SecretScanIndex.load('rules-v1', 'cache', true).lookup(filePath, fs.statSync(filePath))).toBeNull();
+  });
+
+  test('should answer repeated config scans from the index without the values', async () => {
+    const configPath = path.join(tempDir, '.claude.json');
+    fs.writeFileSync(configPath, JSON.stringify({ projects: {}, env: { GITHUB_TOKEN } }));
+
+    const detector = new SecretDetector({ testMode: true });
+    const first = await detector.scanConfigFile(configPath);
+    expect(first.secrets.some(s => s.type === 'GitHub Token')).toBe(true);
+
+    const indexed = JSON.parse(fs.readFileSync(getSecretScanIndexPath(true, 'config'), 'utf8'));
+    expect(indexed.entries[configPath].findings.length).toBe(first.totalCount);
+
+    expect(JSON.stringify(indexed)).not.toContain(GITHUB_TOKEN);
+
+    const second = await detector.scanConfigFile(configPath);
+    expect(second.totalCount).toBe(first.totalCount);
+    expect(second.secrets.find(s => s.type === 'GitHub Token')?.maskedValue)
+      .toBe(first.secrets.find(s => s.type === 'GitHub Token')?.maskedValue);
+    expect(second.secrets.every(s => s.value === '')).toBe(true);
+  });
+});
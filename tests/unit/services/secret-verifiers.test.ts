@@ -0,0 +1,127 @@
+/**
+ * Tests for Secret Verifiers
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import {
+  SecretVerifierRegistry,
+  createDefaultVerifierRegistry,
+  githubChecksumVerifier,
+  httpStatusVerifier
+} from '../../../src/services/secret-verifiers';
+import { DetectedSecret } from '../../../src/services/secret-detector';
+import { crc32, toBase62 } from '../../../src/utils/checksums';
+import { startVerifierStub, VerifierStub } from '../../utils/verifier-stub';
+
+function finding(type: string, value: string): DetectedSecret {
+  return {
+    type,
+    value,
+    maskedValue: '***',
+    location: 'test',
+    confidence: 'high',
+    category: 'token',
+    context: ''
+  };
+}
+
+// A token with a correct CRC-32 suffix, built the way GitHub does
+const RANDOM_PART = 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5';
+const VALID_GITHUB_TOKEN = `ghp_${RANDOM_PART}${toBase62(crc32(RANDOM_PART), 6)}`;
+const FAKE_GITHUB_TOKEN = `ghp_${RANDOM_PART}zzzzzz`;
+
+describe('checksums', () => {
+  test('should compute standard CRC-32', () => {
+    expect(crc32('123456789')).toBe(0xcbf43926);
+  });
+});
+
+describe('SecretVerifierRegistry', () => {
+  let stub: VerifierStub;
+
+  beforeEach(async () => {
+    stub = await startVerifierStub(request =>
+      request.headers.authorization === `Bearer ${VALID_GITHUB_TOKEN}` ? 200 : 401
+    );
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  test('should reject GitHub tokens with a bad checksum offline', async () => {
+    const result = await githubChecksumVerifier.verify(finding('GitHub Token', FAKE_GITHUB_TOKEN), { timeoutMs: 1000 });
+    expect(result.status).toBe('invalid');
+
+    const valid = await githubChecksumVerifier.verify(finding('GitHub Token', VALID_GITHUB_TOKEN), { timeoutMs: 1000 });
+    expect(valid.status).toBe('unknown');
+  });
+
+  test('should not contact providers unless network verification is enabled', async () => {
+    const registry = createDefaultVerifierRegistry();
+    const endpoints = { 'github-api': stub.baseUrl };
+
+    const offline = await registry.verify(finding('GitHub Token', VALID_GITHUB_TOKEN), { endpoints });
+    expect(offline.status).toBe('unknown');
+    expect(offline.reason).toContain('network verification not enabled');
+    expect(stub.requests.length).toBe(0);
+
+    const online = await registry.verify(finding('GitHub Token', VALID_GITHUB_TOKEN), { network: true, endpoints });
+    expect(online.status).toBe('active');
+    expect(online.verifier).toBe('github-api');
+    expect(stub.requests[0].path).toBe('/user');
+  });
+
+  test('should mark rejected credentials as revoked', async () => {
+    const registry = new SecretVerifierRegistry().register(httpStatusVerifier('stub-api', ['Stub Key'], {
+      baseUrl: 'https://example.invalid',
+      path: '/check',
+      headers: key => ({ Authorization: `Bearer ${key}` })
+    }));
+
+    const result = await registry.verify(finding('Stub Key', 'dead-key'), {
+      network: true,
+      endpoints: { 'stub-api': stub.baseUrl }
+    });
+    expect(result.status).toBe('revoked');
+  });
+
+  test('should skip the network for tokens that fail offline checks', async () => {
+    const registry = createDefaultVerifierRegistry();
+    const result = await registry.verify(finding('GitHub Token', FAKE_GITHUB_TOKEN), {
+      network: true,
+      endpoints: { 'github-api': stub.baseUrl }
+    });
+
+    expect(result.status).toBe('invalid');
+    expect(stub.requests.length).toBe(0);
+  });
+
+  test('should report unreachable providers as unknown', async () => {
+    await stub.close();
+    const registry = createDefaultVerifierRegistry();
+    const result = await registry.verify(finding('GitHub Token', VALID_GITHUB_TOKEN), {
+      network: true,
+      endpoints: { 'github-api': stub.baseUrl },
+      timeoutMs: 1000
+    });
+
+    expect(result.status).toBe('unknown');
+    stub = await startVerifierStub(() => 200);
+  });
+
+  test('should verify each distinct value once', async () => {
+    const registry = createDefaultVerifierRegistry();
+    const secrets = [
+      finding('GitHub Token', VALID_GITHUB_TOKEN),
+      finding('GitHub Token', VALID_GITHUB_TOKEN),
+      finding('Email Address', 'someone@company.io')
+    ];
+
+    await registry.verifyAll(secrets, { network: true, endpoints: { 'github-api': stub.baseUrl } });
+
+    expect(stub.requests.length).toBe(1);
+    expect(secrets.map(s => s.verification!.status)).toEqual(['active', 'active', 'unknown']);
+    expect(secrets[2].verification!.reason).toContain('no verifier');
+  });
+});
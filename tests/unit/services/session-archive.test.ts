@@ -0,0 +1,113 @@
+/**
+ * Tests for compressed session archives
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import {
+  archiveSessions,
+  findArchivedSessions,
+  listArchivedSessions,
+  unarchiveSession
+} from '../../../src/services/session-archive';
+import { getSessionArchiveDir } from '../../../src/core/paths';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { gunzipSync } from 'zlib';
+
+describe('session archive', () => {
+  let tempDir: string;
+  let projectDir: string;
+  const archiveDir = getSessionArchiveDir(true);
+
+  function writeSession(id: string, lines: number): string {
+    const filePath = path.join(projectDir, `${id}.jsonl`);
+    const content = Array.from({ length: lines }, (_, i) => JSON.stringify({ sessionId: id, n: i, cwd: '/work/app' })).join('\n') + '\n';
+    fs.writeFileSync(filePath, content);
+    fs.utimesSync(filePath, new Date('2026-01-02T03:04:05Z'), new Date('2026-01-02T03:04:05Z'));
+    return filePath;
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-archive-'));
+    projectDir = path.join(tempDir, '-work-app');
+    fs.mkdirSync(projectDir);
+    fs.rmSync(archiveDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(archiveDir, { recursive: true, force: true });
+  });
+
+  test('should pack sessions of a project into one gzip file and remove the originals', async () => {
+    const first = writeSession('aaaa-1111', 200);
+    const second = writeSession('bbbb-2222', 50);
+    const original = fs.readFileSync(first, 'utf-8') + fs.readFileSync(second, 'utf-8');
+
+    const result = await archiveSessions([
+      { sessionId: 'aaaa-1111', filePath: first, projectPath: '/work/app', reason: 'stale' },
+      { sessionId: 'bbbb-2222', filePath: second, projectPath: '/work/app', reason: 'stale' }
+    ], true);
+
+    expect(result.archived).toHaveLength(2);
+    expect(result.archived[0].archiveFile).toBe(result.archived[1].archiveFile);
+    expect(result.archived[0].compressedSize).toBeLessThan(result.archived[0].size);
+    expect(fs.existsSync(first) || fs.existsSync(second)).toBe(false);
+
+    // The members together still read as one gzip stream
+    const archivePath = path.join(archiveDir, result.archived[0].archiveFile);
+    expect(gunzipSync(fs.readFileSync(archivePath)).toString('utf-8')).toBe(original);
+    expect(await listArchivedSessions(true)).toHaveLength(2);
+  });
+
+  test('should restore a single session with its contents and timestamp', async () => {
+    const first = writeSession('aaaa-1111', 20);
+    const second = writeSession('bbbb-2222', 30);
+    const content = fs.readFileSync(second, 'utf-8');
+    await archiveSessions([
+      { sessionId: 'aaaa-1111', filePath: first, projectPath: '/work/app', reason: 'stale' },
+      { sessionId: 'bbbb-2222', filePath: second, projectPath: '/work/app', reason: 'stale' }
+    ], true);
+
+    const [match] = await findArchivedSessions('bbbb', true);
+    await unarchiveSession(match, true);
+
+    expect(fs.readFileSync(second, 'utf-8')).toBe(content);
+    expect(fs.statSync(second).mtime.toISOString()).toBe('2026-01-02T03:04:05.000Z');
+    expect(fs.existsSync(first)).toBe(false);
+    expect((await listArchivedSessions(true)).map(s => s.sessionId)).toEqual(['aaaa-1111']);
+  });
+
+  test('should refuse to overwrite and drop the archive file with its last session', async () => {
+    const filePath = writeSession('aaaa-1111', 5);
+    const { archived } = await archiveSessions([{ sessionId: 'aaaa-1111', filePath, projectPath: '/work/app', reason: 'large' }], true);
+
+    fs.writeFileSync(filePath, 'newer\n');
+    await expect(unarchiveSession(archived[0], true)).rejects.toThrow('already exists');
+
+    fs.rmSync(filePath);
+    await unarchiveSession(archived[0], true);
+    expect(fs.existsSync(path.join(archiveDir, archived[0].archiveFile))).toBe(false);
+    expect(await listArchivedSessions(true)).toEqual([]);
+  });
+
+  test('should refuse to use a corrupt index and keep a backup of the previous one', async () => {
+    const first = writeSession('aaaa-1111', 5);
+    await archiveSessions([{ sessionId: 'aaaa-1111', filePath: first, projectPath: '/work/app', reason: 'stale' }], true);
+    const second = writeSession('bbbb-2222', 5);
+    await archiveSessions([{ sessionId: 'bbbb-2222', filePath: second, projectPath: '/work/app', reason: 'stale' }], true);
+
+    const indexPath = path.join(archiveDir, 'index.json');
+    const backup = JSON.parse(fs.readFileSync(`${indexPath}.bak`, 'utf-8'));
+    expect(backup.sessions.map((s: any) => s.sessionId)).toEqual(['aaaa-1111']);
+
+    fs.writeFileSync(indexPath, '{"sessions": [');
+    const third = writeSession('cccc-3333', 5);
+    await expect(listArchivedSessions(true)).rejects.toThrow('unreadable');
+    await expect(archiveSessions([{ sessionId: 'cccc-3333', filePath: third, projectPath: '/work/app', reason: 'stale' }], true))
+      .rejects.toThrow('index.json.bak');
+    expect(fs.existsSync(third)).toBe(true);
+    expect(fs.readFileSync(indexPath, 'utf-8')).toBe('{"sessions": [');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for session transcript export
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { buildTranscript, exportSession, parseExportFormat } from '../../../src/services/session-export';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Session export', () => {
+  let tempDir: string;
+  const screenshot = 'iVBORw0KGgo' + 'A'.repeat(2000);
+  const apiKey = 'sk-ant-REDACTED';
+
+  function writeSession(lines: any[]): string {
+    const filePath = path.join(tempDir, '0b6f3c2e-9d1a-4c7e-8f21-5a3b9e7d4c10.jsonl');
+    fs.writeFileSync(filePath, lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+    return filePath;
+  }
+
+  const session = () => writeSession([
+    { type: 'user', cwd: '/work/api', timestamp: '2026-03-01T10:00:00Z', message: { content: `Deploy it, the key is ${apiKey}` } },
+    { type: 'user', isMeta: true, message: { content: 'Caveat: local commands' } },
+    { type: 'assistant', timestamp: '2026-03-01T10:00:05Z', message: { id: 'msg_1', content: [{ type: 'text', text: 'Listing <files> first' }] } },
+    { type: 'assistant', timestamp: '2026-03-01T10:00:06Z', message: { id: 'msg_1', content: [{ type: 'tool_use', id: 'tu_1', name: 'Bash', input: { command: 'ls -la' } }] } },
+    { type: 'user', timestamp: '2026-03-01T10:00:07Z', message: { content: [{ type: 'tool_result', tool_use_id: 'tu_1', content: Array.from({ length: 50 }, (_, i) => `file-${i}`).join('\n') }] } },
+    { type: 'user', timestamp: '2026-03-01T10:01:00Z', message: { content: [{ type: 'text', text: 'See screenshot' }, { type: 'image', source: { type: 'base64', media_type: 'image/png', data: screenshot } }] } }
+  ]);
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-export-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('builds prompts, merged assistant turns and named tool results', async () => {
+    const transcript = await buildTranscript(session(), { collapseLines: 10, dropImages: true });
+
+    expect(transcript.cwd).toBe('/work/api');
+    expect(transcript.entries.map(entry => entry.role)).toEqual(['user', 'assistant', 'tool', 'user']);
+    expect(transcript.entries[1].blocks.map(block => block.type)).toEqual(['text', 'tool_use']);
+
+    const result = transcript.entries[2].blocks[0];
+    expect(result).toMatchObject({ type: 'tool_result', toolName: 'Bash', omittedLines: 40 });
+    expect(result.type === 'tool_result' && result.output.split('\n')).toHaveLength(10);
+
+    expect(transcript.entries[3].blocks[1]).toEqual({ type: 'image', mediaType: 'image/png', size: Math.floor(screenshot.length * 0.75) });
+    expect(transcript.imagesDropped).toBe(1);
+    expect(transcript.outputsCollapsed).toBe(1);
+  });
+
+  test('masks secrets in the rendered output unless disabled', async () => {
+    const sessionPath = session();
+
+    const markdown = await exportSession(sessionPath, { format: 'md' });
+    expect(markdown.secretsMasked).toBe(1);
+    expect(markdown.output).not.toContain(apiKey);
+    expect(markdown.output).toContain('**🔧 Bash**');
+    expect(markdown.output).toContain(`![image](data:image/png;base64,${screenshot})`);
+
+    const unmasked = await exportSession(sessionPath, { format: 'md', maskSecrets: false });
+    expect(unmasked.output).toContain(apiKey);
+  });
+
+  test('escapes HTML and emits JSON in the report envelope', async () => {
+    const sessionPath = session();
+
+    const html = await exportSession(sessionPath, { format: 'html', dropImages: true });
+    expect(html.output).toContain('Listing &lt;files&gt; first');
+    expect(html.output).toContain('[image removed: image/png');
+    expect(html.output).not.toContain(screenshot);
+
+    const json = JSON.parse((await exportSession(sessionPath, { format: 'json' })).output);
+    expect(json.kind).toBe('session-export');
+    expect(json.session.id).toBe('0b6f3c2e-9d1a-4c7e-8f21-5a3b9e7d4c10');
+    expect(json.entries).toHaveLength(4);
+
+    expect(parseExportFormat('markdown')).toBe('md');
+    expect(() => parseExportFormat('pdf')).toThrow('Invalid --format');
+  });
+
+  test('masks secrets before HTML escaping and JSON quoting', async () => {
+    const secret = 'abcd1234efgh5678ijkl';
+    const sessionPath = writeSession([
+      { type: 'user', timestamp: '2026-03-01T10:00:00Z', message: { content: 'Set the key' } },
+      { type: 'assistant', timestamp: '2026-03-01T10:00:05Z', message: { id: 'msg_1', content: [{ type: 'tool_use', id: 'tu_1', name: 'Bash', input: { command: `export API_KEY='${secret}'` } }] } },
+      { type: 'user', timestamp: '2026-03-01T10:00:06Z', message: { content: [{ type: 'tool_result', tool_use_id: 'tu_1', content: `API_KEY='${secret}' exported` }] } }
+    ]);
+
+    for (const format of ['md', 'html', 'json'] as const) {
+      const result = await exportSession(sessionPath, { format });
+      expect(result.output).not.toContain(secret);
+      expect(result.secretsMasked).toBe(2);
+    }
+  });
+});
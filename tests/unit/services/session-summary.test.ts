@@ -0,0 +1,80 @@
+/**
+ * Tests for SessionParser.summarizeSession
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { SessionParser } from '../../../src/services/session-parser';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('SessionParser.summarizeSession', () => {
+  let tempDir: string;
+  const parser = new SessionParser();
+
+  function writeSession(lines: any[]): string {
+    const filePath = path.join(tempDir, 'session.jsonl');
+    fs.writeFileSync(filePath, lines.map(line => typeof line === 'string' ? line : JSON.stringify(line)).join('\n') + '\n');
+    return filePath;
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-summary-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('counts messages and finds the time span', async () => {
+    const summary = await parser.summarizeSession(writeSession([
+      { type: 'summary', summary: 'Login fix' },
+      { type: 'user', message: { content: 'hello' }, timestamp: '2026-03-02T10:00:00Z' },
+      { type: 'assistant', message: { content: [{ type: 'text', text: 'hi' }] }, timestamp: '2026-03-01T09:00:00Z' },
+      'not json',
+      { type: 'assistant', message: { content: [{ type: 'text', text: 'done' }] }, timestamp: '2026-03-03T11:00:00Z' }
+    ]));
+
+    expect(summary.messageCount).toBe(3);
+    expect(summary.userMessages).toBe(1);
+    expect(summary.assistantMessages).toBe(2);
+    expect(summary.firstTimestamp?.toISOString()).toBe('2026-03-01T09:00:00.000Z');
+    expect(summary.lastTimestamp?.toISOString()).toBe('2026-03-03T11:00:00.000Z');
+  });
+
+  test('first prompt skips meta lines, commands and tool results', async () => {
+    const summary = await parser.summarizeSession(writeSession([
+      { type: 'user', isMeta: true, message: { content: 'Caveat: local commands below' } },
+      { type: 'user', message: { content: '<command-name>/clear</command-name>' } },
+      { type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: 't1', content: 'output' }] } },
+      { type: 'user', message: { content: [{ type: 'text', text: 'Fix the   login\nbug' }] } },
+      { type: 'user', message: { content: 'second prompt' } }
+    ]));
+
+    expect(summary.firstPrompt).toBe('Fix the login bug');
+  });
+
+  test('collects tools, models, tool results and a token estimate', async () => {
+    const summary = await parser.summarizeSession(writeSession([
+      { type: 'user', message: { content: [{ type: 'text', text: 'a'.repeat(40) }, { type: 'image', source: { type: 'base64', data: 'B'.repeat(4000) } }] } },
+      { type: 'assistant', message: { model: 'claude-opus-4', content: [{ type: 'tool_use', name: 'Bash', input: { command: 'npm test' } }] } },
+      { type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }] } },
+      { type: 'assistant', message: { model: '<synthetic>', content: [{ type: 'tool_use', name: 'Bash', input: {} }, { type: 'tool_use', name: 'Read', input: {} }] } },
+      { type: 'assistant', message: { model: 'claude-opus-4', content: [{ type: 'text', text: 'done' }] } }
+    ]));
+
+    expect(summary.userMessages).toBe(2);
+    expect(summary.toolResults).toBe(1);
+    expect(summary.tools).toEqual({ Bash: 2, Read: 1 });
+    expect(summary.models).toEqual(['claude-opus-4']);
+    expect(summary.estimatedTokens).toBe(Math.round((40 + 'Bash'.length + 'npm test'.length + 'ok'.length + 'Bash'.length + 'Read'.length + 'done'.length) / 4));
+  });
+
+  test('empty session has no prompt or timestamps', async () => {
+    const summary = await parser.summarizeSession(writeSession([]));
+
+    expect(summary.messageCount).toBe(0);
+    expect(summary.firstPrompt).toBeUndefined();
+    expect(summary.firstTimestamp).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for tool usage analytics and permission recommendations
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { analyzeToolUsage, describeToolCall, recommendPermissions, ruleCovers } from '../../../src/services/tool-usage';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Tool usage analytics', () => {
+  let tempDir: string;
+  let callId = 0;
+
+  function writeSession(id: string, lines: any[]): string {
+    const filePath = path.join(tempDir, `${id}.jsonl`);
+    fs.writeFileSync(filePath, lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+    return filePath;
+  }
+
+  // A tool call and its result; rejected results carry Claude Code's rejection text
+  const call = (name: string, input: any, rejected = false, timestamp = '2026-03-01T10:00:00Z') => {
+    const id = `toolu_${++callId}`;
+    return [
+      { type: 'assistant', timestamp, message: { content: [{ type: 'tool_use', id, name, input }] } },
+      {
+        type: 'user',
+        timestamp,
+        message: {
+          content: [{
+            type: 'tool_result',
+            tool_use_id: id,
+            is_error: rejected,
+            content: rejected ? "The user doesn't want to proceed with this tool use. The tool use was rejected" : 'ok'
+          }]
+        }
+      }
+    ];
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-tool-usage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('maps tool calls to the allow rules they need', () => {
+    expect(describeToolCall('Bash', { command: 'cd app && FOO=1 npm run build -- --watch | tee out.log' })!.parts.map(part => part.rule))
+      .toEqual(['Bash(npm run:*)', 'Bash(tee:*)']);
+    expect(describeToolCall('Bash', { command: 'echo "a && b"' })!.parts.map(part => part.rule)).toEqual(['Bash(echo:*)']);
+    expect(describeToolCall('WebFetch', { url: 'https://docs.example.com/page' })!.parts[0].rule).toBe('WebFetch(domain:docs.example.com)');
+    expect(describeToolCall('mcp__github__create_issue', {})!.parts[0].kind).toBe('mcp');
+    expect(describeToolCall('TodoWrite', { todos: [] })).toBeNull();
+    expect(describeToolCall('Read', { file_path: '/work/api/src/a.ts' }, '/work/api')).toBeNull();
+    expect(describeToolCall('Read', { file_path: '/etc/ssh/ssh_config' }, '/work/api')!.parts[0].rule).toBe('Read(//etc/ssh/**)');
+    expect(describeToolCall('Grep', { pattern: 'x', path: '/opt/lib' }, '/work/api')!.parts[0].rule).toBe('Read(//opt/lib/**)');
+    expect(describeToolCall('Glob', { pattern: '**/*.ts' }, '/work/api')).toBeNull();
+
+    expect(ruleCovers('npm run:*', 'Bash(npm run:*)', 'npm run build')).toBe(true);
+    expect(ruleCovers('Bash(git status)', 'Bash(git status:*)', 'git status --short')).toBe(false);
+    expect(ruleCovers('Edit(src/**)', 'Edit')).toBe(true);
+    expect(ruleCovers('mcp__github', 'mcp__github__create_issue')).toBe(true);
+    expect(ruleCovers('WebFetch(domain:example.com)', 'WebFetch(domain:docs.example.com)')).toBe(false);
+    expect(ruleCovers('Read(//etc/**)', 'Read(//etc/ssh/**)')).toBe(true);
+    expect(ruleCovers('Read(//etc/ssh/**)', 'Read(//etc/**)')).toBe(false);
+  });
+
+  test('counts prompted and rejected calls and which rules were used', async () => {
+    const [usage] = await analyzeToolUsage([{
+      projectName: 'api',
+      projectPath: '/work/api',
+      allowRules: ['npm run:*', 'Bash(docker build:*)'],
+      sessionFiles: [
+        writeSession('s1', [
+          ...call('Bash', { command: 'npm run test' }),
+          ...call('Bash', { command: 'git push origin main' }, true),
+          ...call('Edit', { file_path: '/work/api/a.ts' }),
+          ...call('Bash', { command: 'make build' }, false, '2025-01-01T10:00:00Z')
+        ]),
+        writeSession('s2', [...call('Edit', { file_path: '/work/api/b.ts' })])
+      ]
+    }], { since: new Date('2026-01-01T00:00:00Z') });
+
+    expect(usage.sessions).toBe(2);
+    expect(usage.calls).toBe(4);
+    expect(usage.ruleHits).toEqual({ 'npm run:*': 1 });
+
+    const byRule = Object.fromEntries(usage.permissions.map(entry => [entry.rule, entry]));
+    expect(byRule['Edit']).toMatchObject({ calls: 2, prompted: 2, rejected: 0, sessions: 2 });
+    expect(byRule['Bash(git push:*)']).toMatchObject({ calls: 1, prompted: 1, rejected: 1 });
+    expect(byRule['Bash(npm run:*)']).toMatchObject({ calls: 1, prompted: 0 });
+    expect(byRule['Bash(make:*)']).toBeUndefined();
+  });
+
+  test('recommends frequent safe prompts and prunes unused project rules', async () => {
+    const [usage] = await analyzeToolUsage([{
+      projectName: 'api',
+      projectPath: '/work/api',
+      allowRules: ['Bash(npm test:*)', 'Bash(docker build:*)'],
+      sessionFiles: [writeSession('s1', [
+        ...call('Bash', { command: 'npm test' }),
+        ...call('Edit', { file_path: 'a.ts' }), ...call('Edit', { file_path: 'b.ts' }), ...call('Edit', { file_path: 'c.ts' }),
+        ...call('Bash', { command: 'rm -rf dist' }), ...call('Bash', { command: 'rm -rf dist' }), ...call('Bash', { command: 'rm -rf dist' }),
+        ...call('Bash', { command: 'git push' }), ...call('Bash', { command: 'git push' }), ...call('Bash', { command: 'git push' }, true),
+        ...call('WebFetch', { url: 'https://example.com' })
+      ])]
+    }]);
+
+    const { add, prune } = recommendPermissions(usage, ['Bash(npm test:*)', 'Bash(docker build:*)'], {
+      isUnsafe: rule => rule.startsWith('Bash(rm')
+    });
+    expect(add.map(entry => entry.rule)).toEqual(['Edit']);
+    expect(prune).toEqual(['Bash(docker build:*)']);
+
+    expect(recommendPermissions(usage, [], { minCalls: 1, isUnsafe: () => false }).add.map(entry => entry.rule))
+      .toEqual(['Bash(rm:*)', 'Edit', 'WebFetch(domain:example.com)']);
+    expect(recommendPermissions({ ...usage, sessions: 0 }, ['Bash(docker build:*)']).prune).toEqual([]);
+
+    // Rules for calls the analyzer skips would always look unused
+    expect(recommendPermissions(usage, ['Task', 'TodoWrite', 'Read(src/**)', 'Grep', 'Read(//opt/**)']).prune).toEqual(['Read(//opt/**)']);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for the restorable cache cleanup trash
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import {
+  getTrashDir,
+  moveToTrash,
+  listTrash,
+  findTrashEntry,
+  restoreFromTrash,
+  deleteFromTrash,
+  filterOlderThan,
+  TrashEntry
+} from '../../../src/services/trash';
+import type { CleanupItem } from '../../../src/services/cache-cleaner';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('Cache trash', () => {
+  const claudeDir = path.dirname(getTrashDir(true));
+  const projectDir = path.join(claudeDir, 'projects', '-work-app');
+  const sessionPath = path.join(projectDir, 'session-1.jsonl');
+
+  const item = (itemPath: string): CleanupItem => ({
+    type: 'session',
+    path: itemPath,
+    size: 5,
+    reason: 'Large session file (5 B)',
+    safety: 'caution'
+  });
+
+  beforeEach(() => {
+    fs.rmSync(claudeDir, { recursive: true, force: true });
+    fs.mkdirSync(projectDir, { recursive: true });
+    fs.writeFileSync(sessionPath, 'hello');
+  });
+
+  afterEach(() => {
+    fs.rmSync(claudeDir, { recursive: true, force: true });
+  });
+
+  test('should record where a trashed item came from and restore it', async () => {
+    const entry = await moveToTrash(item(sessionPath), true);
+
+    expect(fs.existsSync(sessionPath)).toBe(false);
+    expect(fs.existsSync(path.join(getTrashDir(true), entry.name))).toBe(true);
+
+    const listed = await listTrash(true);
+    expect(listed).toHaveLength(1);
+    expect(listed[0]).toMatchObject({ id: entry.id, originalPath: sessionPath, reason: 'Large session file (5 B)', size: 5 });
+    expect(listed[0].item!.type).toBe('session');
+
+    const result = await restoreFromTrash([(await findTrashEntry('latest', true))!], true);
+    expect(result.restored).toHaveLength(1);
+    expect(fs.readFileSync(sessionPath, 'utf-8')).toBe('hello');
+    expect(await listTrash(true)).toHaveLength(0);
+  });
+
+  test('should not overwrite a path that exists again', async () => {
+    const entry = await moveToTrash(item(sessionPath), true);
+    fs.writeFileSync(sessionPath, 'newer');
+
+    const result = await restoreFromTrash([entry], true);
+
+    expect(result.skipped[0].reason).toBe('original path exists again');
+    expect(fs.readFileSync(sessionPath, 'utf-8')).toBe('newer');
+    expect(await listTrash(true)).toHaveLength(1);
+  });
+
+  test('should list items trashed without a manifest but not restore them', async () => {
+    fs.mkdirSync(getTrashDir(true), { recursive: true });
+    fs.mkdirSync(path.join(getTrashDir(true), '1700000000000--old-project'));
+    fs.writeFileSync(path.join(getTrashDir(true), '1700000000000--old-project', 'a.jsonl'), '12345678');
+
+    const [legacy] = await listTrash(true);
+    expect(legacy).toMatchObject({ id: '1700000000000--old-project', size: 8, trashedAt: new Date(1700000000000).toISOString() });
+    expect(legacy.originalPath).toBeUndefined();
+
+    const result = await restoreFromTrash([legacy], true);
+    expect(result.skipped[0].reason).toBe('original path unknown');
+  });
+
+  test('should empty only items older than the cutoff', async () => {
+    const old = await moveToTrash(item(sessionPath), true);
+    fs.writeFileSync(sessionPath, 'again');
+    const recent = await moveToTrash(item(sessionPath), true);
+
+    const now = new Date(Date.parse(old.trashedAt) + 2 * 24 * 60 * 60 * 1000);
+    const aged: TrashEntry[] = [{ ...old, trashedAt: new Date(Date.parse(old.trashedAt) - 10 * 24 * 60 * 60 * 1000).toISOString() }, recent];
+    const selected = filterOlderThan(aged, 7, now);
+    expect(selected.map(e => e.id)).toEqual([old.id]);
+
+    expect(await deleteFromTrash(selected, true)).toBe(5);
+    expect((await listTrash(true)).map(e => e.id)).toEqual([recent.id]);
+    expect(fs.existsSync(path.join(getTrashDir(true), old.name))).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for token usage analytics and the model price table
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { collectUsage, summarizeUsage, UsageSession } from '../../../src/services/usage-analyzer';
+import { defaultPriceTable, findModelPrice, normalizeModelId, validatePriceTable } from '../../../src/services/model-prices';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Usage analytics', () => {
+  let tempDir: string;
+
+  function writeSession(project: string, id: string, lines: any[]): UsageSession {
+    fs.mkdirSync(path.join(tempDir, project), { recursive: true });
+    const filePath = path.join(tempDir, project, `${id}.jsonl`);
+    fs.writeFileSync(filePath, lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+    return { filePath, sessionId: id, projectName: project, projectPath: `/work/${project}` };
+  }
+
+  const reply = (id: string, requestId: string, model: string, timestamp: string, usage: number[]) => ({
+    type: 'assistant',
+    requestId,
+    timestamp,
+    message: {
+      id,
+      model,
+      content: [],
+      usage: { input_tokens: usage[0], output_tokens: usage[1], cache_creation_input_tokens: usage[2], cache_read_input_tokens: usage[3] }
+    }
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cch-usage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('counts each API request once across content-block lines and resumed sessions', async () => {
+    const first = reply('msg_1', 'req_1', 'claude-sonnet-4-5-20250929', '2026-03-01T10:00:00Z', [100, 200, 1000, 5000]);
+    const records = await collectUsage([
+      writeSession('api', 's1', [first, first, { type: 'user', message: { content: 'next' } }]),
+      writeSession('api', 's2', [first, reply('msg_2', 'req_2', 'claude-sonnet-4-5-20250929', '2026-03-02T10:00:00Z', [10, 20, 0, 0])])
+    ]);
+
+    expect(records.map(record => `${record.sessionId}:${record.inputTokens}`)).toEqual(['s1:100', 's2:10']);
+  });
+
+  test('groups by day, model and project with costs from the price table', async () => {
+    const records = await collectUsage([
+      writeSession('api', 's1', [
+        reply('m1', 'r1', 'claude-sonnet-4-5-20250929', '2026-03-01T10:00:00', [1_000_000, 1_000_000, 0, 0]),
+        reply('m2', 'r2', 'claude-opus-4-5-20251101', '2026-03-02T10:00:00', [0, 0, 1_000_000, 1_000_000]),
+        reply('m3', 'r3', '<synthetic>', '2026-03-02T11:00:00', [0, 0, 0, 0])
+      ]),
+      writeSession('web', 'w1', [reply('m4', 'r4', 'in-house-model', '2026-03-02T12:00:00', [500, 0, 0, 0])])
+    ], { since: new Date('2026-03-01T00:00:00') });
+    const prices = defaultPriceTable();
+
+    const byDay = summarizeUsage(records, 'day', prices);
+    expect(byDay.rows.map(row => [row.key, row.requests])).toEqual([['2026-03-01', 1], ['2026-03-02', 2]]);
+    expect(byDay.total.cost).toBeCloseTo(3 + 15 + 6.25 + 0.5);
+
+    const byModel = summarizeUsage(records, 'model', prices);
+    expect(byModel.rows[0].key).toBe('claude-sonnet-4-5-20250929');
+    expect(byModel.unpricedModels).toEqual(['in-house-model']);
+    expect(byModel.total.unpricedRequests).toBe(1);
+
+    const byProject = summarizeUsage(records, 'project', prices);
+    expect(byProject.rows.map(row => row.key)).toEqual(['/work/api', '/work/web']);
+  });
+
+  test('price file entries extend the defaults and derive cache prices', () => {
+    const { table, errors } = validatePriceTable({
+      currency: 'EUR',
+      models: { 'in-house-model': { input: 2, output: 8 }, broken: { input: -1 } }
+    });
+
+    expect(errors).toEqual(['"models.broken.input" must be a non-negative number', '"models.broken.output" is required']);
+    expect(table.currency).toBe('EUR');
+    expect(findModelPrice(table, 'in-house-model')).toEqual({ input: 2, output: 8, cacheWrite: 2.5, cacheRead: 0.2 });
+    expect(findModelPrice(table, 'us.anthropic.claude-opus-4-1-20250805-v1:0')?.output).toBe(75);
+    expect(findModelPrice(table, 'claude-opus-4-6')).toBeUndefined();
+    expect(normalizeModelId('claude-sonnet-4@20250514')).toBe('claude-sonnet-4');
+  });
+});
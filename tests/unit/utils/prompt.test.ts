@@ -0,0 +1,51 @@
+/**
+ * Tests for detecting sessions where nobody can answer a prompt
+ */
+
+import { describe, expect, test, beforeEach, afterEach } from 'bun:test';
+import { isNonInteractive } from '../../../src/utils/prompt';
+
+describe('isNonInteractive', () => {
+  const forced = process.env.FORCE_NON_INTERACTIVE;
+  const isTTY = Object.getOwnPropertyDescriptor(process.stdin, 'isTTY');
+
+  function setTTY(value: boolean | undefined): void {
+    Object.defineProperty(process.stdin, 'isTTY', { value, configurable: true, writable: true });
+  }
+
+  beforeEach(() => {
+    delete process.env.FORCE_NON_INTERACTIVE;
+  });
+
+  afterEach(() => {
+    if (forced === undefined) delete process.env.FORCE_NON_INTERACTIVE;
+    else process.env.FORCE_NON_INTERACTIVE = forced;
+    if (isTTY) Object.defineProperty(process.stdin, 'isTTY', isTTY);
+    else delete (process.stdin as any).isTTY;
+  });
+
+  test('is interactive on a terminal', () => {
+    setTTY(true);
+    expect(isNonInteractive()).toBe(false);
+  });
+
+  test('falls back to non-interactive when stdin is not a terminal', () => {
+    setTTY(undefined);
+    expect(isNonInteractive()).toBe(true);
+    setTTY(false);
+    expect(isNonInteractive()).toBe(true);
+  });
+
+  test('FORCE_NON_INTERACTIVE wins over a terminal unless it is 0 or false', () => {
+    setTTY(true);
+    process.env.FORCE_NON_INTERACTIVE = '1';
+    expect(isNonInteractive()).toBe(true);
+    process.env.FORCE_NON_INTERACTIVE = 'true';
+    expect(isNonInteractive()).toBe(true);
+
+    for (const off of ['0', 'false', 'FALSE', '']) {
+      process.env.FORCE_NON_INTERACTIVE = off;
+      expect(isNonInteractive()).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Local HTTP stub for secret verifier tests
+ * Stands in for provider APIs so network verifiers can be exercised without the internet
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+export interface VerifierStub {
+  baseUrl: string;
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Start a stub server on a random local port
+ * `respond` maps each request to a status code (and optional JSON body)
+ */
+export async function startVerifierStub(
+  respond: (request: StubRequest) => number | { status: number; body?: any }
+): Promise<VerifierStub> {
+  const requests: StubRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const request = { method: req.method || 'GET', path: req.url || '/', headers: req.headers };
+    requests.push(request);
+
+    const reply = respond(request);
+    const { status, body } = typeof reply === 'number' ? { status: reply, body: {} } : reply;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body ?? {}));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}